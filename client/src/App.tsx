@@ -38,6 +38,13 @@ function Router() {
           <Route path="/templates" component={Dashboard} />
           <Route path="/channels" component={Dashboard} />
           <Route path="/automation" component={Dashboard} />
+          <Route path="/signal-sources" component={Dashboard} />
+          <Route path="/webhooks" component={Dashboard} />
+          <Route path="/jobs" component={Dashboard} />
+          <Route path="/backtest" component={Dashboard} />
+          <Route path="/audit-log" component={Dashboard} />
+          <Route path="/team" component={Dashboard} />
+          <Route path="/security" component={Dashboard} />
           <Route path="/research-reports" component={Dashboard} />
           <Route path="/research-reports/create" component={Dashboard} />
           <Route path="/research-reports/:id" component={Dashboard} />
@@ -0,0 +1,106 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+import type { AuditChanges } from "@shared/schema";
+
+export interface AuditLogEntry {
+  id: string;
+  actorType: "user" | "api_key";
+  actorId: string | null;
+  actorName: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  method: string;
+  path: string;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  changes: AuditChanges | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Field-by-field before → after list for one audit entry
+ */
+export function AuditChangeList({ changes }: { changes: AuditChanges | null }) {
+  const entries = Object.entries(changes || {});
+  if (entries.length === 0) {
+    return <span className="text-xs text-muted-foreground">No field changes recorded</span>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {entries.map(([field, change]) => (
+        <div key={field} className="text-xs font-mono break-all">
+          <span className="font-semibold">{field}</span>:{" "}
+          <span className="text-red-600 dark:text-red-400 line-through">{formatValue(change.from)}</span>
+          {" → "}
+          <span className="text-green-600 dark:text-green-400">{formatValue(change.to)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export const ActorBadge = ({ log }: { log: Pick<AuditLogEntry, "actorType" | "actorName"> }) => (
+  <span className="text-sm">
+    {log.actorName || "unknown"}
+    {log.actorType === "api_key" && (
+      <Badge variant="outline" className="ml-2 text-xs">API key</Badge>
+    )}
+  </span>
+);
+
+/**
+ * Audit history of a single entity, newest first - used inside detail modals
+ */
+export default function EntityAuditHistory({ entityType, entityId }: { entityType: string; entityId: string }) {
+  const { data, isLoading } = useQuery<{ logs: AuditLogEntry[]; total: number }>({
+    queryKey: ["/api/audit-logs", { entityType, entityId }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ entityType, entityId, limit: "50" });
+      const response = await fetch(`/api/audit-logs?${params.toString()}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      return response.json();
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-sm text-muted-foreground">Loading history...</div>;
+  }
+
+  const logs = data?.logs || [];
+  if (logs.length === 0) {
+    return <div className="text-sm text-muted-foreground" data-testid="text-no-audit-history">No recorded changes</div>;
+  }
+
+  return (
+    <div className="space-y-3" data-testid="list-audit-history">
+      {logs.map((log) => (
+        <div key={log.id} className="border-l-2 border-border pl-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Badge variant="secondary" className="font-mono text-xs">{log.action}</Badge>
+              <ActorBadge log={log} />
+            </div>
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {format(new Date(log.createdAt), "MMM dd, yyyy HH:mm:ss")}
+            </span>
+          </div>
+          <div className="mt-1">
+            <AuditChangeList changes={log.changes} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
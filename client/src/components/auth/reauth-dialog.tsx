@@ -0,0 +1,99 @@
+import { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { setReauthHandler } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+
+/**
+ * Asks for the password (or 2FA code when enrolled) when a dangerous operation needs a recent re-auth -
+ * apiRequest waits for it and retries the request once confirmed
+ */
+export default function ReauthDialog() {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [secret, setSecret] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+  useEffect(() => {
+    setReauthHandler(() => new Promise<boolean>((resolve) => {
+      resolveRef.current = resolve;
+      setSecret("");
+      setError(null);
+      setOpen(true);
+    }));
+    return () => setReauthHandler(null);
+  }, []);
+
+  const finish = (confirmed: boolean) => {
+    resolveRef.current?.(confirmed);
+    resolveRef.current = null;
+    setOpen(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      // Plain fetch - a failed confirmation must not re-enter the reauth handler
+      const response = await fetch("/api/auth/reauth", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(user?.twoFactorEnabled ? { code: secret } : { password: secret }),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        setError(body?.message || "Could not confirm it's you");
+        return;
+      }
+      finish(true);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && finish(false)}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Confirm it's you</DialogTitle>
+            <DialogDescription>
+              {user?.twoFactorEnabled
+                ? "Enter the code from your authenticator app (or a recovery code) to continue."
+                : "Enter your password to continue."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="reauth-secret">{user?.twoFactorEnabled ? "Authentication code" : "Password"}</Label>
+            <Input
+              id="reauth-secret"
+              type={user?.twoFactorEnabled ? "text" : "password"}
+              inputMode={user?.twoFactorEnabled ? "numeric" : undefined}
+              autoComplete={user?.twoFactorEnabled ? "one-time-code" : "current-password"}
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+              autoFocus
+              required
+              data-testid="input-reauth-secret"
+            />
+            {error && <p className="text-sm text-destructive" data-testid="text-reauth-error">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => finish(false)} data-testid="button-reauth-cancel">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !secret} data-testid="button-reauth-confirm">
+              {isSubmitting ? "Confirming..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
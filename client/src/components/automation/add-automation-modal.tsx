@@ -13,6 +13,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -26,9 +27,10 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { insertAutomationSchema, type TelegramChannel, type MessageTemplate } from "@shared/schema";
+import { insertAutomationSchema, type TelegramChannel, type MessageTemplate, type MessageTemplateVersion } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { Loader2 } from "lucide-react";
 
@@ -43,6 +45,7 @@ const formSchema = z.object({
   name: z.string().min(1, "Automation name is required").max(100, "Name too long"),
   channelId: z.string().min(1, "Please select a channel"),
   templateId: z.string().min(1, "Please select a template"),
+  templateVersion: z.number().int().positive().nullable().optional(),
   automationType: z.enum(['trade', 'simple', 'research_report'], {
     required_error: "Please select automation type",
   }),
@@ -53,6 +56,7 @@ const formSchema = z.object({
   scheduledTime: z.string().optional(),
   scheduledDays: z.array(z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'])).optional(),
   delayMinutes: z.number().min(0).max(1440).optional(),
+  editOnTradeUpdate: z.boolean().optional(),
   isActive: z.boolean().optional(),
 });
 
@@ -82,6 +86,7 @@ export default function AddAutomationModal({ isOpen, onClose, editAutomation }:
       name: editAutomation.name || "",
       channelId: editAutomation.channelId || "",
       templateId: editAutomation.templateId || "",
+      templateVersion: editAutomation.templateVersion ?? null,
       automationType: editAutomation.automationType || "trade",
       triggerType: editAutomation.triggerType || "trade_registered",
       sourceFilter: editAutomation.sourceFilter || "all",
@@ -90,11 +95,13 @@ export default function AddAutomationModal({ isOpen, onClose, editAutomation }:
       scheduledTime: editAutomation.scheduledTime || "",
       scheduledDays: editAutomation.scheduledDays || ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'],
       delayMinutes: editAutomation.delayMinutes || 0,
+      editOnTradeUpdate: editAutomation.editOnTradeUpdate ?? false,
       isActive: editAutomation.isActive ?? true,
     } : {
       name: "",
       channelId: "",
       templateId: "",
+      templateVersion: null,
       automationType: "trade",
       triggerType: "trade_registered",
       sourceFilter: "all",
@@ -103,10 +110,18 @@ export default function AddAutomationModal({ isOpen, onClose, editAutomation }:
       scheduledTime: "",
       scheduledDays: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'],
       delayMinutes: 0,
+      editOnTradeUpdate: false,
       isActive: true,
     },
   });
 
+  // Versions of the chosen template, for pinning
+  const selectedTemplateId = form.watch('templateId');
+  const { data: templateVersions = [] } = useQuery<MessageTemplateVersion[]>({
+    queryKey: ["/api/templates", selectedTemplateId, "versions"],
+    enabled: isOpen && !!selectedTemplateId,
+  });
+
   // Reset form when editAutomation changes
   useEffect(() => {
     if (isEditMode && editAutomation) {
@@ -114,6 +129,7 @@ export default function AddAutomationModal({ isOpen, onClose, editAutomation }:
         name: editAutomation.name || "",
         channelId: editAutomation.channelId || "",
         templateId: editAutomation.templateId || "",
+        templateVersion: editAutomation.templateVersion ?? null,
         automationType: editAutomation.automationType || "trade",
         triggerType: editAutomation.triggerType || "trade_registered",
         sourceFilter: editAutomation.sourceFilter || "all",
@@ -122,6 +138,7 @@ export default function AddAutomationModal({ isOpen, onClose, editAutomation }:
         scheduledTime: editAutomation.scheduledTime || "",
         scheduledDays: editAutomation.scheduledDays || ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'],
         delayMinutes: editAutomation.delayMinutes || 0,
+        editOnTradeUpdate: editAutomation.editOnTradeUpdate ?? false,
         isActive: editAutomation.isActive ?? true,
       });
     } else if (!isEditMode) {
@@ -129,6 +146,7 @@ export default function AddAutomationModal({ isOpen, onClose, editAutomation }:
         name: "",
         channelId: "",
         templateId: "",
+        templateVersion: null,
         automationType: "trade",
         triggerType: "trade_registered",
         sourceFilter: "all",
@@ -137,6 +155,7 @@ export default function AddAutomationModal({ isOpen, onClose, editAutomation }:
         scheduledTime: "",
         scheduledDays: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'],
         delayMinutes: 0,
+        editOnTradeUpdate: false,
         isActive: true,
       });
     }
@@ -350,7 +369,14 @@ export default function AddAutomationModal({ isOpen, onClose, editAutomation }:
                 return (
                   <FormItem>
                     <FormLabel>Message Template</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        // A pinned version belongs to the old template
+                        form.setValue('templateVersion', null);
+                      }}
+                      value={field.value}
+                    >
                       <FormControl>
                         <SelectTrigger data-testid="select-template">
                           <SelectValue placeholder="Select a template" />
@@ -387,6 +413,41 @@ export default function AddAutomationModal({ isOpen, onClose, editAutomation }:
               }}
             />
 
+            {/* Template version - follow the latest edits or stay on a known-good version */}
+            {selectedTemplateId && (
+              <FormField
+                control={form.control}
+                name="templateVersion"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Template Version</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === "latest" ? null : parseInt(value))}
+                      value={field.value ? String(field.value) : "latest"}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-template-version">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="latest">Always use the latest version</SelectItem>
+                        {templateVersions.map((version) => (
+                          <SelectItem key={version.id} value={String(version.version)}>
+                            Pin to version {version.version}{version.note ? ` - ${version.note}` : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      A pinned automation keeps sending that version when the template is edited
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             {/* Conditional Trigger Type Selection based on automation type */}
             <FormField
               control={form.control}
@@ -500,6 +561,31 @@ export default function AddAutomationModal({ isOpen, onClose, editAutomation }:
                     </FormItem>
                   )}
                 />
+
+                {/* Keep the registration post in sync with the trade */}
+                {form.watch('triggerType') === 'trade_registered' && (
+                  <FormField
+                    control={form.control}
+                    name="editOnTradeUpdate"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                        <div className="space-y-1">
+                          <FormLabel>Edit post when the trade changes</FormLabel>
+                          <FormDescription>
+                            Re-renders the posted message when levels are edited or targets hit. Telegram only allows edits within 48 hours.
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={!!field.value}
+                            onCheckedChange={field.onChange}
+                            data-testid="switch-edit-on-trade-update"
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                )}
               </>
             )}
 
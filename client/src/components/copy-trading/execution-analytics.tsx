@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import type { CopyTradeExecutionReport, CopyTradeExecutionStats, CopyTradeRejectionCategory } from "@shared/schema";
+
+const REJECTION_LABELS: Record<CopyTradeRejectionCategory, string> = {
+  credentials: "API credentials",
+  rate_limit: "Rate limited",
+  insufficient_funds: "Insufficient funds",
+  position_sizing: "Position sizing",
+  leverage: "Leverage",
+  quantity: "Quantity / notional",
+  price: "Price",
+  network: "Network / timeout",
+  exchange_error: "Exchange error",
+  other: "Other",
+};
+
+const formatPercent = (value: number | null, digits = 3) =>
+  value === null ? "-" : `${value > 0 ? "+" : ""}${value.toFixed(digits)}%`;
+
+const formatTicks = (value: number | null) => (value === null ? "-" : `${value > 0 ? "+" : ""}${value.toFixed(1)}`);
+
+const formatLatency = (ms: number | null) => {
+  if (ms === null) return "-";
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${(ms / 60_000).toFixed(1)}m`;
+};
+
+// Slippage against the follower, in red - favourable fills in green
+const slippageClass = (value: number | null) =>
+  value === null ? "" : value > 0 ? "text-red-600" : value < 0 ? "text-green-600" : "";
+
+// Sized more than 10% off the intended risk either way
+const riskClass = (value: number | null) =>
+  value === null ? "" : Math.abs(value - 100) > 10 ? "text-orange-600 font-medium" : "";
+
+function StatsTable({ rows, groupLabel }: { rows: CopyTradeExecutionStats[]; groupLabel: string }) {
+  if (rows.length === 0) {
+    return <div className="text-center py-8 text-muted-foreground">No executed or failed copies in this period</div>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{groupLabel}</TableHead>
+          <TableHead className="text-right">Attempts</TableHead>
+          <TableHead className="text-right">Rejected</TableHead>
+          <TableHead className="text-right">Avg Slippage</TableHead>
+          <TableHead className="text-right">Ticks</TableHead>
+          <TableHead className="text-right">Worst</TableHead>
+          <TableHead className="text-right">To Order</TableHead>
+          <TableHead className="text-right">To Fill</TableHead>
+          <TableHead className="text-right">Size vs Risk</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.key} data-testid={`row-execution-${row.key}`}>
+            <TableCell className="font-medium">{row.label}</TableCell>
+            <TableCell className="text-right">{row.attempts}</TableCell>
+            <TableCell className="text-right">
+              {row.rejected} <span className="text-muted-foreground">({row.rejectionRate.toFixed(0)}%)</span>
+            </TableCell>
+            <TableCell className={`text-right ${slippageClass(row.avgSlippagePercent)}`}>
+              {formatPercent(row.avgSlippagePercent)}
+            </TableCell>
+            <TableCell className="text-right">{formatTicks(row.avgSlippageTicks)}</TableCell>
+            <TableCell className={`text-right ${slippageClass(row.worstSlippagePercent)}`}>
+              {formatPercent(row.worstSlippagePercent)}
+            </TableCell>
+            <TableCell className="text-right">{formatLatency(row.avgOrderLatencyMs)}</TableCell>
+            <TableCell className="text-right">{formatLatency(row.avgFillLatencyMs)}</TableCell>
+            <TableCell className={`text-right ${riskClass(row.avgRiskRatio)}`}>
+              {row.avgRiskRatio === null ? "-" : `${row.avgRiskRatio.toFixed(0)}%`}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+/**
+ * Slippage, latency, rejection and sizing report for copy trades - filtered by the page's follower filter
+ */
+export default function ExecutionAnalytics({ userId }: { userId: string }) {
+  const [days, setDays] = useState("30");
+
+  const { data: report, isLoading } = useQuery({
+    queryKey: ["/api/copy-trading/analytics/execution", userId, days],
+    queryFn: async () => {
+      const params = new URLSearchParams({ days });
+      if (userId !== "all") {
+        params.append("userId", userId);
+      }
+      const response = await apiRequest("GET", `/api/copy-trading/analytics/execution?${params.toString()}`);
+      return response.json() as Promise<CopyTradeExecutionReport>;
+    },
+  });
+
+  const overall = report?.overall;
+  const summaryCards = overall ? [
+    {
+      label: "Avg Entry Slippage",
+      value: formatPercent(overall.avgSlippagePercent),
+      detail: `${formatTicks(overall.avgSlippageTicks)} ticks over ${overall.filled} fills`,
+    },
+    {
+      label: "Signal to Fill",
+      value: formatLatency(overall.avgFillLatencyMs),
+      detail: `Order placed after ${formatLatency(overall.avgOrderLatencyMs)}`,
+    },
+    {
+      label: "Rejection Rate",
+      value: `${overall.rejectionRate.toFixed(1)}%`,
+      detail: `${overall.rejected} of ${overall.attempts} orders`,
+    },
+    {
+      label: "Size vs Intended Risk",
+      value: overall.avgRiskRatio === null ? "-" : `${overall.avgRiskRatio.toFixed(0)}%`,
+      detail: "Risk at stop loss / trade fund x risk %",
+    },
+  ] : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold">Execution Quality</h2>
+          <p className="text-sm text-muted-foreground">
+            Fill prices and timing against the master entry, exchange rejections and position size vs configured risk
+          </p>
+        </div>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-36" data-testid="select-execution-days">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">Last 7 days</SelectItem>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading || !report ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="text-muted-foreground">Loading execution report...</div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {summaryCards.map((card) => (
+              <Card key={card.label}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm text-muted-foreground">{card.label}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{card.value}</div>
+                  <p className="text-xs text-muted-foreground mt-1">{card.detail}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardContent className="pt-6">
+              <Tabs defaultValue="follower">
+                <TabsList>
+                  <TabsTrigger value="follower" data-testid="tab-execution-follower">By Follower</TabsTrigger>
+                  <TabsTrigger value="pair" data-testid="tab-execution-pair">By Pair</TabsTrigger>
+                  <TabsTrigger value="source" data-testid="tab-execution-source">By Signal Source</TabsTrigger>
+                </TabsList>
+                <TabsContent value="follower">
+                  <StatsTable rows={report.byFollower} groupLabel="Follower" />
+                </TabsContent>
+                <TabsContent value="pair">
+                  <StatsTable rows={report.byPair} groupLabel="Pair" />
+                </TabsContent>
+                <TabsContent value="source">
+                  <StatsTable rows={report.bySource} groupLabel="Source" />
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Rejections by Exchange Error</CardTitle>
+              <CardDescription>Failed copy orders grouped by the reason the exchange (or sizing) gave</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.rejections.length === 0 ? (
+                <div className="text-center py-6 text-muted-foreground">No rejected orders in this period</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Exchange</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead className="text-right">Count</TableHead>
+                      <TableHead>Latest Message</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.rejections.map((rejection) => (
+                      <TableRow key={`${rejection.exchange}-${rejection.category}`}>
+                        <TableCell className="capitalize">{rejection.exchange}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{REJECTION_LABELS[rejection.category]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{rejection.count}</TableCell>
+                        <TableCell className="text-xs text-muted-foreground max-w-md truncate" title={rejection.example}>
+                          {rejection.example}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,16 @@
 import { useEffect, useRef } from 'react';
 import { YearlyPnLHeatmap } from '@/components/calendar/YearlyPnLHeatmap';
-import type { Trade } from '@shared/schema';
+import type { DailyPnl } from '@shared/schema';
 
 interface HeatmapWidgetProps {
-  trades: Trade[];
+  days: DailyPnl[];
   scale?: number;
   clickTarget?: string;
   theme?: 'light' | 'dark';
 }
 
 export function HeatmapWidget({ 
-  trades, 
+  days, 
   scale = 1.0, 
   clickTarget,
   theme = 'light' 
@@ -47,7 +47,7 @@ export function HeatmapWidget({
       window.removeEventListener('resize', sendHeight);
       observer.disconnect();
     };
-  }, [trades]);
+  }, [days]);
 
   // Handle click navigation
   const handleClick = () => {
@@ -118,7 +118,7 @@ export function HeatmapWidget({
     >
       <div className="bg-white dark:bg-slate-900 min-h-screen p-4">
         <YearlyPnLHeatmap 
-          trades={trades} 
+          days={days} 
           className="max-w-4xl mx-auto"
         />
         
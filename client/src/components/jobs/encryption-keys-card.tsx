@@ -0,0 +1,144 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { EncryptionHealthReport } from "@shared/schema";
+
+const TABLE_LABELS: Record<string, string> = {
+  copy_trading_users: "Copy trading user",
+  copy_trading_applications: "Copy trading application",
+  signal_sources: "Signal source",
+  webhook_endpoints: "Webhook endpoint",
+  users: "Admin user",
+};
+
+/**
+ * Which key stored credentials are encrypted with, anything that no longer decrypts, and re-encryption onto the active key
+ */
+export default function EncryptionKeysCard() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const { data: report, isLoading } = useQuery<EncryptionHealthReport>({
+    queryKey: ["/api/admin/encryption/health"],
+  });
+
+  const reencryptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/encryption/reencrypt");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/stats"] });
+      toast({ title: "Success", description: "Re-encryption queued - refresh the report once the job completes" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to queue re-encryption",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const issues = report ? [...report.unreadable.map((issue) => ({ ...issue, unreadable: true })), ...report.unencrypted.map((issue) => ({ ...issue, unreadable: false }))] : [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Encryption Keys</CardTitle>
+          <CardDescription>Follower exchange credentials, signal and webhook secrets, 2FA secrets</CardDescription>
+        </div>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/admin/encryption/health"] })}
+            data-testid="button-refresh-encryption-health"
+          >
+            <i className="fas fa-sync-alt" />
+          </Button>
+          {can("system.manage") && (
+            <Button
+              size="sm"
+              onClick={() => reencryptMutation.mutate()}
+              disabled={reencryptMutation.isPending || !report || (report.staleValues === 0 && report.unencrypted.length === 0)}
+              data-testid="button-reencrypt"
+            >
+              <i className="fas fa-key mr-2" />
+              Re-encrypt onto active key
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !report ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Active key:</span>
+              <Badge data-testid="badge-active-key">{report.activeKeyId}</Badge>
+              <span className="text-muted-foreground ml-4">Values by key:</span>
+              {Object.entries(report.valuesByKey).map(([keyId, count]) => (
+                <Badge key={keyId} variant={keyId === report.activeKeyId ? "default" : "secondary"}>
+                  {keyId}: {count}
+                </Badge>
+              ))}
+              {report.totalValues === 0 && <span className="text-muted-foreground">none stored</span>}
+            </div>
+            {report.staleValues > 0 && (
+              <p className="text-sm text-muted-foreground" data-testid="text-stale-values">
+                {report.staleValues} value{report.staleValues === 1 ? " is" : "s are"} still on an older key - re-encrypt before removing it from ENCRYPTION_KEYS
+              </p>
+            )}
+            {issues.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Problem</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {issues.map((issue) => (
+                    <TableRow key={`${issue.table}-${issue.recordId}-${issue.field}`}>
+                      <TableCell>
+                        <div className="font-medium">{issue.label || issue.recordId}</div>
+                        <div className="text-xs text-muted-foreground">{TABLE_LABELS[issue.table] || issue.table}</div>
+                      </TableCell>
+                      <TableCell className="text-sm font-mono">{issue.field}</TableCell>
+                      <TableCell className={issue.unreadable ? "text-sm text-destructive" : "text-sm text-muted-foreground"}>
+                        {issue.error}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground" data-testid="text-encryption-healthy">
+                Every stored value decrypts with the configured keys
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
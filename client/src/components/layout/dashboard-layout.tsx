@@ -1,6 +1,7 @@
 import { useState } from "react";
 import Sidebar from "./sidebar";
 import Header from "./header";
+import ReauthDialog from "@/components/auth/reauth-dialog";
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -20,6 +21,8 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
           {children}
         </main>
       </div>
+
+      <ReauthDialog />
     </div>
   );
 }
@@ -3,6 +3,17 @@ import { Link } from "wouter";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
 import { useState } from "react";
+import { ROLE_LABELS, type Permission } from "@shared/schema";
+
+interface NavigationItem {
+  name: string;
+  href?: string;
+  icon: string;
+  permission?: Permission; // Hidden when the signed-in role doesn't have it - every admin sees items without one
+  current: boolean;
+  hasSubItems?: boolean;
+  subItems?: { name: string; href: string; icon: string; current: boolean }[];
+}
 
 interface SidebarProps {
   isOpen: boolean;
@@ -11,7 +22,7 @@ interface SidebarProps {
 
 export default function Sidebar({ isOpen, onClose }: SidebarProps) {
   const [location] = useLocation();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set());
 
   const toggleSection = (sectionName: string) => {
@@ -26,16 +37,18 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
     });
   };
 
-  const navigation = [
+  const navigation: NavigationItem[] = [
     {
       name: "Trades",
       href: "/trades",
       icon: "fas fa-chart-line",
+      permission: "trades.view",
       current: location === "/" || location === "/trades",
     },
     {
       name: "Copy Trading",
       icon: "fas fa-copy",
+      permission: "copy_trading.view",
       current: location.startsWith("/copy-trading"),
       hasSubItems: true,
       subItems: [
@@ -57,28 +70,82 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
       name: "Trade Message Template",
       href: "/templates",
       icon: "fas fa-edit",
+      permission: "messaging.view",
       current: location === "/templates",
     },
     {
       name: "Channel Configuration",
       href: "/channels",
       icon: "fas fa-cogs",
+      permission: "messaging.view",
       current: location === "/channels",
     },
     {
       name: "Automation",
       href: "/automation",
       icon: "fas fa-robot",
+      permission: "messaging.view",
       current: location === "/automation",
     },
+    {
+      name: "Signal Sources",
+      href: "/signal-sources",
+      icon: "fas fa-satellite-dish",
+      permission: "integrations.view",
+      current: location === "/signal-sources",
+    },
+    {
+      name: "Webhooks",
+      href: "/webhooks",
+      icon: "fas fa-paper-plane",
+      permission: "integrations.view",
+      current: location === "/webhooks",
+    },
+    {
+      name: "Background Jobs",
+      href: "/jobs",
+      icon: "fas fa-tasks",
+      permission: "system.view",
+      current: location === "/jobs",
+    },
+    {
+      name: "Backtest",
+      href: "/backtest",
+      icon: "fas fa-history",
+      permission: "backtest.run",
+      current: location === "/backtest",
+    },
+    {
+      name: "Audit Log",
+      href: "/audit-log",
+      icon: "fas fa-clipboard-list",
+      permission: "audit.view",
+      current: location === "/audit-log",
+    },
     {
       name: "Research Reports",
       href: "/research-reports",
       icon: "fas fa-file-alt",
+      permission: "research.view",
       current: location === "/research-reports",
     },
+    {
+      name: "Team",
+      href: "/team",
+      icon: "fas fa-user-shield",
+      permission: "users.manage",
+      current: location === "/team",
+    },
+    {
+      name: "Security",
+      href: "/security",
+      icon: "fas fa-shield-alt",
+      current: location === "/security",
+    },
   ];
 
+  const visibleNavigation = navigation.filter((item) => !item.permission || can(item.permission));
+
   return (
     <>
       {/* Mobile sidebar overlay */}
@@ -111,7 +178,7 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
           {/* Navigation */}
           <div className="mt-8 flex-grow flex flex-col">
             <nav className="flex-1 px-2 space-y-1">
-              {navigation.map((item) => (
+              {visibleNavigation.map((item) => (
                 <div key={item.name}>
                   {item.hasSubItems ? (
                     <>
@@ -190,8 +257,13 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
                   </div>
                   <div className="ml-3">
                     <p className="text-sm font-medium text-foreground" data-testid="text-username">
-                      {(user as any)?.firstName || (user as any)?.username || (user as any)?.email || "Admin User"}
+                      {user?.firstName || user?.username || user?.email || "Admin User"}
                     </p>
+                    {user && (
+                      <p className="text-xs text-muted-foreground" data-testid="text-user-role">
+                        {ROLE_LABELS[user.role] || user.role}
+                      </p>
+                    )}
                     <button
                       onClick={async () => {
                         try {
@@ -8,7 +8,8 @@ import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
-import { Edit2, Archive, Image, TestTube, Play } from "lucide-react";
+import { Edit2, Archive, Image, TestTube, Play, History } from "lucide-react";
+import TemplateHistoryDialog from "./template-history-dialog";
 
 interface SavedTemplatesProps {
   templates: any[];
@@ -25,6 +26,7 @@ export default function SavedTemplates({
   const [testDialogOpen, setTestDialogOpen] = useState<string | null>(null);
   const [selectedChannel, setSelectedChannel] = useState<string>("");
   const [archiveDialogOpen, setArchiveDialogOpen] = useState<string | null>(null);
+  const [historyTemplate, setHistoryTemplate] = useState<any | null>(null);
 
   const { data: channelsData } = useQuery({
     queryKey: ["/api/channels"],
@@ -208,6 +210,11 @@ export default function SavedTemplates({
                           >
                             {template.isActive ? "Active" : "Inactive"}
                           </Badge>
+                          {template.currentVersion && (
+                            <Badge variant="outline" className="text-xs flex-shrink-0" data-testid={`badge-template-version-${template.id}`}>
+                              v{template.currentVersion}
+                            </Badge>
+                          )}
                         </div>
                         {template.imageUrl && (
                           <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
@@ -240,6 +247,16 @@ export default function SavedTemplates({
                       >
                         <TestTube className="h-4 w-4" />
                       </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setHistoryTemplate(template)}
+                        className="text-purple-600 hover:text-purple-700 hover:bg-purple-50 dark:hover:bg-purple-950/20 h-9 w-9 p-0 rounded-lg transition-all duration-200"
+                        data-testid={`button-history-template-${template.id}`}
+                        title="Version History"
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -341,6 +358,13 @@ export default function SavedTemplates({
         </DialogContent>
       </Dialog>
 
+      {/* Version History Dialog */}
+      <TemplateHistoryDialog
+        template={historyTemplate}
+        onClose={() => setHistoryTemplate(null)}
+        onRolledBack={onTemplateDeleted}
+      />
+
       {/* Archive Confirmation Dialog */}
       <AlertDialog open={!!archiveDialogOpen} onOpenChange={(open) => !open && setArchiveDialogOpen(null)}>
         <AlertDialogContent>
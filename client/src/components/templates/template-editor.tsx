@@ -11,11 +11,15 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import ObjectUploader from "@/components/ui/object-uploader";
 import RichTextEditor from "@/components/ui/rich-text-editor";
+import { validateTemplate, DEFAULT_TEMPLATE_LOCALE, TEMPLATE_FILTERS, TEMPLATE_LOCALES, type TemplateLocale } from "@shared/templateEngine";
+
+// Locales a template can carry a variant for - the main body is English
+const VARIANT_LOCALES = (Object.keys(TEMPLATE_LOCALES) as TemplateLocale[]).filter(locale => locale !== DEFAULT_TEMPLATE_LOCALE);
 
 interface TemplateEditorProps {
   channels: any[];
   selectedTemplate: any;
-  onTemplateChange: (template: string, buttons?: any[][], parseMode?: string, imageUrl?: string) => void;
+  onTemplateChange: (template: string, buttons?: any[][], parseMode?: string, imageUrl?: string, templateType?: string, locale?: TemplateLocale) => void;
   onTemplateSaved: () => void;
   onClearSelection: () => void;
 }
@@ -48,7 +52,9 @@ export default function TemplateEditor({
     buttons: [] as any[][],
     parseMode: "HTML",
     imageUrl: "",
+    localeVariants: {} as Record<string, string>,
   });
+  const [previewLocale, setPreviewLocale] = useState<TemplateLocale>(DEFAULT_TEMPLATE_LOCALE);
 
   useEffect(() => {
     if (selectedTemplate) {
@@ -60,13 +66,17 @@ export default function TemplateEditor({
         buttons: selectedTemplate.buttons || [],
         parseMode: "HTML",
         imageUrl: selectedTemplate.imageUrl || "",
+        localeVariants: selectedTemplate.localeVariants || {},
       });
     }
   }, [selectedTemplate]);
 
+  // Preview what a channel of the chosen language gets - its variant, or the main body when there is none
+  const previewBody = formData.localeVariants[previewLocale]?.trim() ? formData.localeVariants[previewLocale] : formData.template;
+
   useEffect(() => {
-    onTemplateChange(formData.template, formData.buttons, formData.parseMode, formData.imageUrl);
-  }, [formData.template, formData.buttons, formData.parseMode, formData.imageUrl, onTemplateChange]);
+    onTemplateChange(previewBody, formData.buttons, formData.parseMode, formData.imageUrl, formData.templateType, previewLocale);
+  }, [previewBody, formData.buttons, formData.parseMode, formData.imageUrl, formData.templateType, previewLocale, onTemplateChange]);
 
   const saveMutation = useMutation({
     mutationFn: async (data: any) => {
@@ -99,6 +109,7 @@ export default function TemplateEditor({
           buttons: [],
           parseMode: "HTML",
           imageUrl: "",
+          localeVariants: {},
         });
       }
     },
@@ -121,18 +132,31 @@ export default function TemplateEditor({
       return;
     }
 
-    // Check for variables in simple message templates
-    if (formData.templateType === 'simple') {
-      const variablePattern = /{[a-zA-Z_][a-zA-Z0-9_]*}/g;
-      const variables = formData.template.match(variablePattern);
-      if (variables && variables.length > 0) {
+    // Catch unclosed blocks and unknown filters before the server does
+    const issues = validateTemplate(formData.template);
+    if (issues.length > 0) {
+      toast({
+        title: "Template Error",
+        description: `Line ${issues[0].line}, column ${issues[0].column}: ${issues[0].message}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Empty variants are dropped - those channels get the main body
+    const localeVariants: Record<string, string> = {};
+    for (const [locale, body] of Object.entries(formData.localeVariants)) {
+      if (!body.trim()) continue;
+      const variantIssues = validateTemplate(body);
+      if (variantIssues.length > 0) {
         toast({
-          title: "Validation Error",
-          description: `Simple message templates cannot contain variables. Found: ${variables.join(', ')}`,
+          title: "Template Error",
+          description: `${TEMPLATE_LOCALES[locale as TemplateLocale].label} variant, line ${variantIssues[0].line}, column ${variantIssues[0].column}: ${variantIssues[0].message}`,
           variant: "destructive",
         });
         return;
       }
+      localeVariants[locale] = body;
     }
 
     saveMutation.mutate({
@@ -143,10 +167,23 @@ export default function TemplateEditor({
       buttons: formData.buttons,
       parseMode: "HTML",
       imageUrl: formData.imageUrl,
+      localeVariants,
       isActive: true,
     });
   };
 
+  const toggleVariant = (locale: TemplateLocale) => {
+    setFormData(prev => {
+      const localeVariants = { ...prev.localeVariants };
+      if (locale in localeVariants) {
+        delete localeVariants[locale];
+      } else {
+        localeVariants[locale] = prev.template; // Start from the English body and translate it
+      }
+      return { ...prev, localeVariants };
+    });
+  };
+
   // Button management functions
   const addButtonRow = () => {
     setFormData(prev => ({
@@ -296,24 +333,77 @@ Target 2: {downsideTarget2}
             <SelectContent>
               <SelectItem value="trade">Trade Message (with variables)</SelectItem>
               <SelectItem value="research_report">Research Report (with analysis variables)</SelectItem>
-              <SelectItem value="simple">Simple Message (no variables)</SelectItem>
+              <SelectItem value="simple">Simple Message (date and time only)</SelectItem>
             </SelectContent>
           </Select>
           <p className="text-xs text-muted-foreground mt-1">
-            Trade messages can use variables like {"{pair}"}, {"{price}"}. Research reports can use analysis variables like {"{supportLevel}"}, {"{resistance}"}. Simple messages cannot use variables.
+            Trade messages can use variables like {"{pair}"}, {"{price}"}. Research reports can use analysis variables like {"{supportLevel}"}, {"{resistanceLevel}"}. Simple messages only have the send date and time.
           </p>
         </div>
 
-        {/* Message Template */}
+        {/* Message Template - the English body, with language variants side by side */}
         <div>
-          <Label htmlFor="template">Message Template *</Label>
-          <RichTextEditor
-            value={formData.template}
-            onChange={(value) => setFormData(prev => ({ ...prev, template: value }))}
-            placeholder="Enter your message template here..."
-            className="mt-2"
-            minHeight={250}
-          />
+          <div className="flex items-center justify-between">
+            <Label htmlFor="template">Message Template *</Label>
+            <div className="flex items-center gap-2">
+              {VARIANT_LOCALES.map(locale => (
+                <Button
+                  key={locale}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => toggleVariant(locale)}
+                  data-testid={`button-toggle-variant-${locale}`}
+                >
+                  <i className={`fas ${locale in formData.localeVariants ? "fa-minus" : "fa-plus"} mr-1`} />
+                  {TEMPLATE_LOCALES[locale].label} Variant
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className={Object.keys(formData.localeVariants).length > 0 ? "grid grid-cols-1 xl:grid-cols-2 gap-4" : undefined}>
+            <div>
+              {Object.keys(formData.localeVariants).length > 0 && (
+                <div className="text-xs font-medium text-muted-foreground mt-2">{TEMPLATE_LOCALES[DEFAULT_TEMPLATE_LOCALE].label} (main)</div>
+              )}
+              <RichTextEditor
+                value={formData.template}
+                onChange={(value) => setFormData(prev => ({ ...prev, template: value }))}
+                placeholder="Enter your message template here..."
+                className="mt-2"
+                minHeight={250}
+              />
+            </div>
+            {VARIANT_LOCALES.filter(locale => locale in formData.localeVariants).map(locale => (
+              <div key={locale} data-testid={`variant-editor-${locale}`}>
+                <div className="text-xs font-medium text-muted-foreground mt-2">
+                  {TEMPLATE_LOCALES[locale].label} - sent to {TEMPLATE_LOCALES[locale].label} channels
+                </div>
+                <RichTextEditor
+                  value={formData.localeVariants[locale]}
+                  onChange={(value) => setFormData(prev => ({ ...prev, localeVariants: { ...prev.localeVariants, [locale]: value } }))}
+                  placeholder={`${TEMPLATE_LOCALES[locale].label} version - leave empty to send the main template`}
+                  className="mt-2"
+                  minHeight={250}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 mt-2">
+            <Label className="text-xs text-muted-foreground">Preview as</Label>
+            <Select value={previewLocale} onValueChange={(value) => setPreviewLocale(value as TemplateLocale)}>
+              <SelectTrigger className="w-36 h-8" data-testid="select-preview-locale">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(TEMPLATE_LOCALES).map(([locale, format]) => (
+                  <SelectItem key={locale} value={locale}>{format.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-xs text-muted-foreground">
+              Channels pick the variant for their language - numbers and dates follow it too
+            </span>
+          </div>
           {formData.templateType === 'trade' && (
             <div className="mt-3 p-3 border rounded-lg bg-blue-50 dark:bg-blue-950/20 space-y-2">
               <div className="text-xs font-medium text-blue-900 dark:text-blue-100">🔧 Available Variables for Trade Messages:</div>
@@ -321,7 +411,8 @@ Target 2: {downsideTarget2}
                 {[
                   "{pair}", "{price}", "{type}", "{leverage}", "{stopLoss}", 
                   "{takeProfit1}", "{takeProfit2}", "{takeProfit3}", 
-                  "{safebookPrice}", "{timestamp}", "{profitLoss}", "{signalType}"
+                  "{safebookPrice}", "{timestamp}", "{profitLoss}", "{signalType}",
+                  "{direction}", "{targetsHit}", "{exitPrice}", "{realizedPnlPercent}", "{rMultiple}"
                 ].map(variable => (
                   <span 
                     key={variable}
@@ -348,7 +439,7 @@ Target 2: {downsideTarget2}
                 {[
                   "{pair}", "{supportLevel}", "{resistanceLevel}", "{summary}",
                   "{upsideTarget1}", "{upsideTarget2}", "{downsideTarget1}", "{downsideTarget2}",
-                  "{breakoutDirection}",
+                  "{breakoutDirection}", "{breakout}",
                   "{imageUrl}", "{timestamp}", "{reportId}"
                 ].map(variable => (
                   <span 
@@ -371,12 +462,27 @@ Target 2: {downsideTarget2}
           
           {formData.templateType === 'simple' && (
             <div className="mt-3 p-3 border rounded-lg bg-orange-50 dark:bg-orange-950/20">
-              <div className="text-xs font-medium text-orange-900 dark:text-orange-100">⚠️ Variable Restriction:</div>
+              <div className="text-xs font-medium text-orange-900 dark:text-orange-100">🔧 Available Variables for Simple Messages:</div>
               <div className="text-xs text-orange-700 dark:text-orange-300">
-                Simple message templates cannot use variables like {"{pair}"}, {"{price}"}, etc. Use static text only.
+                Only the send time: {"{timestamp}"}, {"{date}"}, {"{weekday}"} and {"{now | date:\"HH:mm\"}"}. Trade variables like {"{pair}"} are not available.
               </div>
             </div>
           )}
+
+          <details className="mt-3 text-xs text-muted-foreground" data-testid="template-syntax-help">
+            <summary className="cursor-pointer font-medium">Conditions, loops and filters</summary>
+            <div className="mt-2 space-y-1">
+              <div>• Conditions: <code>{"{#if isLong}🟢{:else}🔴{/if}"}</code>, <code>{"{#if targetsHit >= 2 && !stopLossHit}...{/if}"}</code></div>
+              <div>• Loops: <code>{"{#each targets as target}{target.label}: {target.price}{#if target.hit} ✅{/if} {/each}"}</code> (<code>{"{loop.index}"}</code>, <code>{"{loop.first}"}</code>, <code>{"{loop.last}"}</code> inside)</div>
+              <div>• Strike through hit targets on an edited post: <code>{"{#each targets as target}{#if target.hit}<s>{target.price}</s> ✅{:else}{target.price}{/if} {/each}"}</code></div>
+              <div>• Filters: <code>{"{variable | filter:arg}"}</code>, chain them with another <code>|</code></div>
+              {Object.entries(TEMPLATE_FILTERS).map(([name, filter]) => (
+                <div key={name} className="pl-3">
+                  <code>{name}</code> - {filter.description} <code>{filter.example}</code>
+                </div>
+              ))}
+            </div>
+          </details>
         </div>
 
 
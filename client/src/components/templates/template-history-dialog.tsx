@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { diffLines } from "@/lib/diff";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatDistanceToNow } from "date-fns";
+import type { MessageTemplate, MessageTemplateVersion } from "@shared/schema";
+
+interface TemplateHistoryDialogProps {
+  template: MessageTemplate | null;
+  onClose: () => void;
+  onRolledBack: () => void;
+}
+
+// Non-text parts of a version, compared as a whole
+const OTHER_FIELDS: { key: keyof MessageTemplateVersion; label: string }[] = [
+  { key: "buttons", label: "Buttons" },
+  { key: "imageUrl", label: "Image" },
+  { key: "parseMode", label: "Format" },
+  { key: "includeFields", label: "Included fields" },
+  { key: "localeVariants", label: "Language variants" },
+];
+
+/**
+ * Every saved version of a template - diff any two and roll back to an older one
+ */
+export default function TemplateHistoryDialog({ template, onClose, onRolledBack }: TemplateHistoryDialogProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+
+  const { data: versions = [], isLoading } = useQuery<MessageTemplateVersion[]>({
+    queryKey: ["/api/templates", template?.id, "versions"],
+    enabled: !!template,
+  });
+
+  // Start on the newest version, compared with the one before it
+  useEffect(() => {
+    if (versions.length > 0 && (selectedVersion === null || !versions.some((v) => v.version === selectedVersion))) {
+      setSelectedVersion(versions[0].version);
+      setCompareVersion(versions[1]?.version ?? null);
+    }
+  }, [versions, selectedVersion]);
+
+  useEffect(() => {
+    setSelectedVersion(null);
+    setCompareVersion(null);
+  }, [template?.id]);
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest("POST", `/api/templates/${template!.id}/versions/${version}/rollback`);
+      return response.json() as Promise<MessageTemplate>;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates", template?.id, "versions"] });
+      setSelectedVersion(updated.currentVersion);
+      onRolledBack();
+      toast({ title: "Success", description: `Rolled back - the old content is now version ${updated.currentVersion}` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to roll back template",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selected = versions.find((v) => v.version === selectedVersion);
+  const compared = versions.find((v) => v.version === compareVersion);
+  const currentVersion = versions[0]?.version;
+  const lines = selected ? diffLines(compared?.template ?? "", selected.template) : [];
+  const otherChanges = selected && compared
+    ? OTHER_FIELDS.filter(({ key }) => JSON.stringify(selected[key]) !== JSON.stringify(compared[key])).map(({ label }) => label)
+    : [];
+
+  return (
+    <Dialog open={!!template} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Version history - {template?.name}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-4">
+            {/* Versions */}
+            <div className="space-y-1 max-h-[60vh] overflow-y-auto" data-testid="list-template-versions">
+              {versions.map((version) => (
+                <button
+                  key={version.id}
+                  type="button"
+                  onClick={() => {
+                    setSelectedVersion(version.version);
+                    setCompareVersion(versions.find((v) => v.version < version.version)?.version ?? null);
+                  }}
+                  className={`w-full text-left rounded-md border px-3 py-2 text-sm transition-colors ${
+                    version.version === selectedVersion ? "border-primary bg-primary/5" : "border-border hover:bg-muted"
+                  }`}
+                  data-testid={`button-template-version-${version.version}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Version {version.version}</span>
+                    {version.version === currentVersion && <Badge className="text-xs">Current</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {version.createdByName || "Unknown"} • {version.createdAt ? formatDistanceToNow(new Date(version.createdAt), { addSuffix: true }) : "-"}
+                  </div>
+                  {version.note && <div className="text-xs text-muted-foreground italic">{version.note}</div>}
+                </button>
+              ))}
+            </div>
+
+            {/* Diff */}
+            {selected && (
+              <div className="space-y-3 min-w-0">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">Changes in version {selected.version} compared with</span>
+                  <Select
+                    value={compareVersion !== null ? String(compareVersion) : "none"}
+                    onValueChange={(value) => setCompareVersion(value === "none" ? null : parseInt(value))}
+                  >
+                    <SelectTrigger className="w-40" data-testid="select-compare-version">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Nothing</SelectItem>
+                      {versions.filter((v) => v.version !== selected.version).map((v) => (
+                        <SelectItem key={v.id} value={String(v.version)}>Version {v.version}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {can("messaging.manage") && selected.version !== currentVersion && (
+                    <Button
+                      size="sm"
+                      className="ml-auto"
+                      onClick={() => {
+                        if (confirm(`Roll back to version ${selected.version}? It will be saved as a new version - nothing is deleted.`)) {
+                          rollbackMutation.mutate(selected.version);
+                        }
+                      }}
+                      disabled={rollbackMutation.isPending}
+                      data-testid="button-rollback-template"
+                    >
+                      <i className="fas fa-undo mr-2" />
+                      Roll back to this version
+                    </Button>
+                  )}
+                </div>
+
+                <pre className="rounded-md border border-border bg-muted/30 text-xs font-mono overflow-x-auto max-h-[50vh]" data-testid="template-version-diff">
+                  {lines.map((line, index) => (
+                    <div
+                      key={index}
+                      className={
+                        line.type === "added"
+                          ? "bg-green-100 text-green-900 dark:bg-green-950/40 dark:text-green-200 px-3"
+                          : line.type === "removed"
+                            ? "bg-red-100 text-red-900 dark:bg-red-950/40 dark:text-red-200 px-3"
+                            : "px-3"
+                      }
+                    >
+                      {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                      {line.text || " "}
+                    </div>
+                  ))}
+                </pre>
+
+                {otherChanges.length > 0 && (
+                  <p className="text-xs text-muted-foreground" data-testid="text-other-changes">
+                    Also changed: {otherChanges.join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,152 +1,114 @@
+import { useEffect, useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Clock } from "lucide-react";
+import { TEMPLATE_LOCALES, type TemplateLocale } from "@shared/templateEngine";
+import type { ResearchReport, TemplatePreviewRequest, TemplatePreviewResult, Trade } from "@shared/schema";
 
 interface TemplatePreviewProps {
   template: string;
   buttons?: any[][];
   parseMode?: string;
   imageUrl?: string;
+  templateType?: string;
+  locale?: TemplateLocale;
 }
 
-export default function TemplatePreview({ template, buttons = [], parseMode = "HTML", imageUrl }: TemplatePreviewProps) {
-  const generatePreview = () => {
-    let preview = template;
-
-    // Sample data for preview
-    const sampleData = {
-      // Trade variables
-      pair: "BTC-USDT",
-      price: "$4,285.67",
-      type: "BUY",
-      leverage: "50x",
-      stopLoss: "$4,200.00",
-      takeProfit1: "$4,350.00",
-      takeProfit2: "$4,415.00",
-      takeProfit3: "$4,480.00",
-      safebookPrice: "$4,325.00",
-      timestamp: "Dec 15, 2024 14:32",
-      profitLoss: "+$5,234",
-      signalType: "Intraday",
-      
-      // Research report variables
-      supportLevel: "42,500 to 42,800",
-      resistanceLevel: "45,200 to 45,500", 
-      summary: "yha se support lagha hai jalse hi ye support break hoga to sell positional me or nhi hoga to buy swing me",
-      upsideTarget1: "46,000.00",
-      upsideTarget2: "47,500.00",
-      downsideTarget1: "41,200.00", 
-      downsideTarget2: "39,800.00",
-      breakoutDirection: "upside",
-      reportId: "RP-2024-001",
-    };
-
-    // Replace all variables with sample data
-    Object.entries(sampleData).forEach(([key, value]) => {
-      const regex = new RegExp(`{${key}}`, "g");
-      preview = preview.replace(regex, value);
-    });
-
-    return preview;
-  };
+// Wait for a pause in typing before asking the server to render
+const PREVIEW_DEBOUNCE_MS = 400;
 
-  const generateButtonPreview = () => {
-    if (!buttons || buttons.length === 0) return null;
-
-    // Sample data for button variable replacement
-    const sampleData = {
-      // Trade variables
-      pair: "BTC-USDT",
-      price: "4285.67",
-      type: "BUY",
-      leverage: "50",
-      stopLoss: "4200.00",
-      takeProfit1: "4350.00", 
-      takeProfit2: "4415.00",
-      takeProfit3: "4480.00",
-      safebookPrice: "4325.00",
-      timestamp: "Dec15-2024",
-      tradeId: "TXN-12345",
-      profitLoss: "5234",
-      signalType: "Intraday",
-      
-      // Research report variables
-      supportLevel: "42500-42800",
-      resistanceLevel: "45200-45500",
-      summary: "support-analysis",
-      upsideTarget1: "46000",
-      upsideTarget2: "47500",
-      downsideTarget1: "41200",
-      downsideTarget2: "39800",
-      breakoutDirection: "upside",
-      reportId: "RP-2024-001",
-    };
-
-    return buttons.map((row, rowIndex) => (
-      <div key={rowIndex} className="flex gap-1">
-        {row.map((button, buttonIndex) => {
-          let buttonText = button.text || '';
-          let buttonUrl = button.url || '';
-          
-          // Replace variables in button text and URL
-          Object.entries(sampleData).forEach(([key, value]) => {
-            const regex = new RegExp(`{${key}}`, 'g');
-            buttonText = buttonText.replace(regex, value);
-            buttonUrl = buttonUrl.replace(regex, value);
-          });
-
-          return (
-            <button
-              key={buttonIndex}
-              type="button"
-              className="flex-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 text-slate-900 dark:text-slate-100 text-xs px-3 py-2 rounded-md font-medium opacity-75 cursor-not-allowed"
-              disabled
-              data-testid={`preview-button-${rowIndex}-${buttonIndex}`}
-            >
-              <span className="truncate">
-                {buttonText || 'Button Text'}
-              </span>
-              {buttonUrl && (
-                <span className="ml-1 text-slate-400">🔗</span>
-              )}
-            </button>
-          );
-        })}
-      </div>
-    ));
-  };
+export default function TemplatePreview({ template, buttons = [], parseMode = "HTML", imageUrl, templateType = "trade", locale = "english" }: TemplatePreviewProps) {
+  const [sourceId, setSourceId] = useState("sample");
+  const [request, setRequest] = useState<TemplatePreviewRequest | null>(null);
+
+  // A trade id means nothing to a research report template and vice versa
+  useEffect(() => {
+    setSourceId("sample");
+  }, [templateType]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setRequest({
+        template,
+        templateType: templateType as TemplatePreviewRequest["templateType"],
+        parseMode,
+        buttons,
+        imageUrl,
+        tradeId: templateType === "trade" && sourceId !== "sample" ? sourceId : undefined,
+        researchReportId: templateType === "research_report" && sourceId !== "sample" ? sourceId : undefined,
+        locale,
+      });
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [template, buttons, parseMode, imageUrl, templateType, sourceId, locale]);
+
+  const { data: preview, error, isFetching } = useQuery<TemplatePreviewResult>({
+    queryKey: ["/api/templates/preview", request],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/templates/preview", request);
+      return response.json();
+    },
+    enabled: !!request,
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: tradesData } = useQuery<{ trades: Trade[] }>({
+    queryKey: ["/api/trades?limit=20"],
+    enabled: templateType === "trade",
+  });
+
+  const { data: reportsData } = useQuery<{ reports: ResearchReport[] }>({
+    queryKey: ["/api/research-reports?limit=20"],
+    enabled: templateType === "research_report",
+  });
 
   const renderFormattedText = (text: string) => {
-    let formattedText = text;
-    
-    // Convert HTML tags to proper HTML for rendering
-    formattedText = formattedText
-      .replace(/&/g, '&amp;')
+    // The server output is Telegram HTML - keep its entities, show only the tags Telegram would format
+    const formattedText = text
+      .replace(/&(?!(#\d+|#x[0-9a-fA-F]+|[a-zA-Z]+);)/g, '&amp;')
       .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/&lt;b&gt;/g, '<strong>')
-      .replace(/&lt;\/b&gt;/g, '</strong>')
-      .replace(/&lt;strong&gt;/g, '<strong>')
-      .replace(/&lt;\/strong&gt;/g, '</strong>')
-      .replace(/&lt;i&gt;/g, '<em>')
-      .replace(/&lt;\/i&gt;/g, '</em>')
-      .replace(/&lt;em&gt;/g, '<em>')
-      .replace(/&lt;\/em&gt;/g, '</em>')
-      .replace(/&lt;u&gt;/g, '<u>')
-      .replace(/&lt;\/u&gt;/g, '</u>')
-      .replace(/&lt;s&gt;/g, '<s>')
-      .replace(/&lt;\/s&gt;/g, '</s>')
+      .replace(/>/g, '&gt;');
+
+    if ((preview?.parseMode || parseMode).toUpperCase() !== "HTML") {
+      return formattedText;
+    }
+
+    return formattedText
+      .replace(/&lt;(b|strong)&gt;/g, '<strong>')
+      .replace(/&lt;\/(b|strong)&gt;/g, '</strong>')
+      .replace(/&lt;(i|em)&gt;/g, '<em>')
+      .replace(/&lt;\/(i|em)&gt;/g, '</em>')
+      .replace(/&lt;(u|ins)&gt;/g, '<u>')
+      .replace(/&lt;\/(u|ins)&gt;/g, '</u>')
+      .replace(/&lt;(s|strike|del)&gt;/g, '<s>')
+      .replace(/&lt;\/(s|strike|del)&gt;/g, '</s>')
+      .replace(/&lt;a [^&]*&gt;/g, '<span class="text-blue-600 underline">')
+      .replace(/&lt;\/a&gt;/g, '</span>')
+      .replace(/&lt;(tg-spoiler|span class="tg-spoiler")&gt;/g, '<span class="bg-slate-300 rounded">')
+      .replace(/&lt;\/(tg-spoiler|span)&gt;/g, '</span>')
+      .replace(/&lt;blockquote&gt;/g, '<blockquote class="border-l-2 border-blue-400 pl-2">')
+      .replace(/&lt;\/blockquote&gt;/g, '</blockquote>')
       .replace(/&lt;code&gt;/g, '<code class="bg-muted px-1 py-0.5 rounded text-xs font-mono">')
       .replace(/&lt;\/code&gt;/g, '</code>')
       .replace(/&lt;pre&gt;/g, '<pre class="bg-muted px-2 py-1 rounded text-xs font-mono whitespace-pre-wrap">')
       .replace(/&lt;\/pre&gt;/g, '</pre>');
-    
-    return formattedText;
   };
 
   const createMarkup = (text: string) => {
     return { __html: renderFormattedText(text) };
   };
 
+  const previewButtons = preview?.buttons || [];
+  const issues = preview?.issues || [];
+  const errorCount = issues.filter((issue) => issue.severity === "error").length;
+  const sources = templateType === "trade"
+    ? (tradesData?.trades || []).map((trade) => ({ id: trade.id, label: `${trade.tradeId} - ${trade.pair} ${trade.type.toUpperCase()}` }))
+    : templateType === "research_report"
+      ? (reportsData?.reports || []).map((report) => ({ id: report.id, label: `${report.pair} (${report.type})` }))
+      : [];
+
   return (
     <Card>
       <CardHeader>
@@ -158,6 +120,22 @@ export default function TemplatePreview({ template, buttons = [], parseMode = "H
         </CardTitle>
       </CardHeader>
       <CardContent>
+        {templateType !== "simple" && (
+          <div className="mb-4">
+            <Select value={sourceId} onValueChange={setSourceId}>
+              <SelectTrigger data-testid="select-preview-source">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sample">{templateType === "research_report" ? "Sample research report" : "Sample trade"}</SelectItem>
+                {sources.map((source) => (
+                  <SelectItem key={source.id} value={source.id}>{source.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Telegram Chat Interface */}
         <div className="bg-slate-100 dark:bg-slate-900 rounded-lg p-4 max-w-lg mx-auto">
           {/* Chat Header */}
@@ -167,16 +145,16 @@ export default function TemplatePreview({ template, buttons = [], parseMode = "H
             </div>
             <div>
               <div className="font-semibold text-slate-900 dark:text-slate-100">Trading Bot</div>
-              <div className="text-xs text-slate-500 dark:text-slate-400">online</div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">{isFetching ? "typing..." : "online"}</div>
             </div>
           </div>
-          
+
           {/* Message Bubble */}
           <div className="flex justify-end mb-2">
             <div className="max-w-[85%]">
               <div className="bg-white text-black rounded-2xl rounded-br-md px-4 py-3 shadow-sm border">
                 {/* Image Preview */}
-                {imageUrl && (
+                {imageUrl && preview?.sendAs !== "text" && (
                   <div className="mb-3" data-testid="image-preview">
                     <img
                       src={imageUrl}
@@ -187,7 +165,7 @@ export default function TemplatePreview({ template, buttons = [], parseMode = "H
                     />
                   </div>
                 )}
-                
+
                 {/* Text Content */}
                 <div
                   className="text-sm whitespace-pre-wrap leading-relaxed"
@@ -196,9 +174,9 @@ export default function TemplatePreview({ template, buttons = [], parseMode = "H
                     lineHeight: '1.4'
                   }}
                   data-testid="text-template-preview"
-                  dangerouslySetInnerHTML={createMarkup(generatePreview())}
+                  dangerouslySetInnerHTML={createMarkup(preview?.text ?? template)}
                 />
-                
+
                 {/* Time Stamp */}
                 <div className="flex items-center justify-end gap-1 mt-2 text-xs text-gray-500">
                   <Clock className="w-3 h-3" />
@@ -206,20 +184,67 @@ export default function TemplatePreview({ template, buttons = [], parseMode = "H
                   <span className="text-gray-400">✓✓</span>
                 </div>
               </div>
-              
+
               {/* Inline Buttons */}
-              {buttons && buttons.length > 0 && (
+              {previewButtons.length > 0 && (
                 <div className="mt-2 space-y-1" data-testid="buttons-preview">
-                  {generateButtonPreview()}
+                  {previewButtons.map((row, rowIndex) => (
+                    <div key={rowIndex} className="flex gap-1">
+                      {row.map((button, buttonIndex) => (
+                        <button
+                          key={buttonIndex}
+                          type="button"
+                          className="flex-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 text-slate-900 dark:text-slate-100 text-xs px-3 py-2 rounded-md font-medium opacity-75 cursor-not-allowed"
+                          disabled
+                          title={button.url || button.callback_data}
+                          data-testid={`preview-button-${rowIndex}-${buttonIndex}`}
+                        >
+                          <span className="truncate">
+                            {button.text || 'Button Text'}
+                          </span>
+                          {button.url && (
+                            <span className="ml-1 text-slate-400">🔗</span>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  ))}
                 </div>
               )}
             </div>
           </div>
         </div>
-        
+
+        {/* Validation */}
+        <div className="mt-4 space-y-1" data-testid="preview-issues">
+          {error && (
+            <p className="text-xs text-destructive">{error instanceof Error ? error.message : "Preview failed"}</p>
+          )}
+          {issues.map((issue, index) => (
+            <p
+              key={index}
+              className={`text-xs ${issue.severity === "error" ? "text-destructive" : "text-amber-600 dark:text-amber-400"}`}
+              data-testid={`preview-issue-${issue.code}`}
+            >
+              {issue.severity === "error" ? "✖" : "⚠"}{" "}
+              {issue.line ? `Line ${issue.line}${issue.column ? `:${issue.column}` : ""} - ` : ""}
+              {issue.message}
+            </p>
+          ))}
+          {preview && issues.length === 0 && (
+            <p className="text-xs text-green-600 dark:text-green-400" data-testid="preview-valid">✔ Ready to send</p>
+          )}
+        </div>
+
         <div className="text-xs text-muted-foreground mt-4 text-center space-y-1">
-          <p>✨ Live Telegram-style preview • Updates as you type</p>
-          <p>Format: HTML • Buttons: {buttons?.length || 0} rows{imageUrl ? ' • Image: Yes' : ''}</p>
+          <p>✨ Rendered by the server • {preview?.source.label || "Sample data"} • {TEMPLATE_LOCALES[locale].label} • Updates as you type</p>
+          <p>
+            Format: {preview?.parseMode || parseMode} • Sent as {preview?.sendAs || (imageUrl ? "photo" : "text")}
+            {preview && (
+              <span className={preview.length > preview.limit ? "text-destructive" : undefined}> • {preview.length}/{preview.limit} characters</span>
+            )}
+            {errorCount > 0 && ` • ${errorCount} error${errorCount === 1 ? "" : "s"}`}
+          </p>
         </div>
       </CardContent>
     </Card>
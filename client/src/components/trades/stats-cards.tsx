@@ -30,6 +30,34 @@ export default function StatsCards() {
       color: "text-green-500",
       testId: "stat-completed-trades",
     },
+    {
+      title: "Win Rate",
+      value: `${((stats as any)?.winRate || 0).toFixed(1)}%`,
+      icon: "fas fa-trophy",
+      color: "text-yellow-500",
+      testId: "stat-win-rate",
+    },
+    {
+      title: "Average R",
+      value: (stats as any)?.averageR != null ? `${(stats as any).averageR.toFixed(2)}R` : "-",
+      icon: "fas fa-balance-scale",
+      color: "text-purple-500",
+      testId: "stat-average-r",
+    },
+    {
+      title: "Profit Factor",
+      value: (stats as any)?.profitFactor != null ? (stats as any).profitFactor.toFixed(2) : "-",
+      icon: "fas fa-coins",
+      color: "text-green-500",
+      testId: "stat-profit-factor",
+    },
+    {
+      title: "Max Drawdown",
+      value: `${((stats as any)?.maxDrawdown || 0).toFixed(2)} USDT`,
+      icon: "fas fa-arrow-trend-down",
+      color: "text-red-500",
+      testId: "stat-max-drawdown",
+    },
   ];
 
   return (
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -11,6 +12,7 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { formatCryptoPrice } from "@/lib/utils";
+import EntityAuditHistory from "@/components/audit/entity-audit-history";
 
 interface Trade {
   id: string;
@@ -25,6 +27,12 @@ interface Trade {
   createdAt: string;
   completionReason?: string;
   notes?: string;
+  exitPrice?: string | null;
+  exitTime?: string | null;
+  realizedPnl?: string | null;
+  realizedPnlPercent?: string | null;
+  totalFees?: string | null;
+  rMultiple?: string | null;
   channel?: {
     name: string;
   };
@@ -43,6 +51,7 @@ export default function TradeDetailModal({
 }: TradeDetailModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [showHistory, setShowHistory] = useState(false);
   // Completion reason is now auto-derived from target status - no manual selection needed
 
   const completeMutation = useMutation({
@@ -205,6 +214,43 @@ export default function TradeDetailModal({
             </div>
           )}
 
+          {trade.exitPrice && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-xs font-medium text-muted-foreground">Exit Price</label>
+                <p className="text-sm text-foreground" data-testid="text-trade-exit-price">{formatPrice(trade.exitPrice)}</p>
+              </div>
+              {trade.exitTime && (
+                <div>
+                  <label className="text-xs font-medium text-muted-foreground">Exit Time</label>
+                  <p className="text-sm text-foreground" data-testid="text-trade-exit-time">{formatTime(trade.exitTime)}</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {trade.realizedPnl && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-xs font-medium text-muted-foreground">Realized P&amp;L</label>
+                <p
+                  className={`text-sm font-medium ${Number(trade.realizedPnl) >= 0 ? "text-green-600" : "text-red-600"}`}
+                  data-testid="text-trade-realized-pnl"
+                >
+                  {Number(trade.realizedPnl).toFixed(4)} USDT
+                  {trade.realizedPnlPercent && ` (${Number(trade.realizedPnlPercent).toFixed(2)}%)`}
+                </p>
+              </div>
+              <div>
+                <label className="text-xs font-medium text-muted-foreground">R-Multiple / Fees</label>
+                <p className="text-sm text-foreground" data-testid="text-trade-r-multiple">
+                  {trade.rMultiple ? `${Number(trade.rMultiple).toFixed(2)}R` : "-"}
+                  {trade.totalFees && ` · ${formatPrice(trade.totalFees)}`}
+                </p>
+              </div>
+            </div>
+          )}
+
           {trade.notes && (
             <div>
               <label className="text-xs font-medium text-muted-foreground">Notes</label>
@@ -214,6 +260,23 @@ export default function TradeDetailModal({
             </div>
           )}
 
+          <div>
+            <button
+              type="button"
+              className="text-xs font-medium text-muted-foreground hover:text-foreground"
+              onClick={() => setShowHistory(!showHistory)}
+              data-testid="button-toggle-history"
+            >
+              <i className={`fas fa-chevron-${showHistory ? "down" : "right"} mr-2`} />
+              Change History
+            </button>
+            {showHistory && (
+              <div className="mt-2 max-h-64 overflow-y-auto">
+                <EntityAuditHistory entityType="trade" entityId={trade.id} />
+              </div>
+            )}
+          </div>
+
         </div>
 
         <div className="flex justify-end space-x-2 pt-4">
@@ -5,6 +5,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
@@ -13,6 +14,7 @@ import { z } from "zod";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { formatCryptoPrice } from "@/lib/utils";
 import { useState, useEffect } from "react";
 import { ChevronDown } from "lucide-react";
@@ -74,6 +76,19 @@ interface TradesTableProps {
   onPageChange: (page: number) => void;
 }
 
+interface CopyTradeSyncSummary {
+  totalCopyTrades: number;
+  applied: number;
+  failed: number;
+  skipped: number;
+}
+
+// Summarise how a master trade change landed on followers' positions
+const describeCopyTradeSync = (sync?: CopyTradeSyncSummary) => {
+  if (!sync || sync.totalCopyTrades === 0) return undefined;
+  return `Copy trades: ${sync.applied}/${sync.totalCopyTrades} updated${sync.failed ? `, ${sync.failed} failed` : ''}${sync.skipped ? `, ${sync.skipped} skipped` : ''}`;
+};
+
 export default function TradesTable({
   trades,
   isLoading,
@@ -84,6 +99,7 @@ export default function TradesTable({
 }: TradesTableProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = useAuth();
   
   // Safebook price dialog state
   const [safebookDialog, setSafebookDialog] = useState<{
@@ -110,6 +126,7 @@ export default function TradesTable({
     isOpen: boolean;
     tradeId: string | null;
     tradePair: string | null;
+    deleteMessages?: boolean; // Also remove the trade's posts from the Telegram channels
   }>({
     isOpen: false,
     tradeId: null,
@@ -120,10 +137,11 @@ export default function TradesTable({
   // Mutation for updating target status (V2: stop_loss, target_1, target_2, target_3)
   const updateTargetStatusMutation = useMutation({
     mutationFn: async ({ tradeId, targetType }: { tradeId: string; targetType: 'stop_loss' | 'target_1' | 'target_2' | 'target_3' }) => {
-      return apiRequest('PATCH', `/api/trades/${tradeId}/target-status`, {
+      const response = await apiRequest('PATCH', `/api/trades/${tradeId}/target-status`, {
         targetType, 
         hit: true
       });
+      return response.json();
     },
     onMutate: async ({ tradeId, targetType }) => {
       console.log('🎯 Starting optimistic update for:', tradeId, targetType);
@@ -174,7 +192,7 @@ export default function TradesTable({
           queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] === "trades/stats" || (Array.isArray(query.queryKey) && query.queryKey.includes("/api/trades/stats")) });
         }
       }, 100); // Small delay to let user see the optimistic update
-      toast({ title: "Target status updated successfully" });
+      toast({ title: "Target status updated successfully", description: describeCopyTradeSync((data as any)?.copyTradeSync) });
     },
     onError: (error: any, variables, context) => {
       // If the mutation fails, use the context returned from onMutate to roll back
@@ -278,9 +296,10 @@ export default function TradesTable({
   // Mutation for updating safebook (keeps trade active)
   const updateSafebookMutation = useMutation({
     mutationFn: async ({ tradeId, price }: { tradeId: string; price: string }) => {
-      return apiRequest('PATCH', `/api/trades/${tradeId}/safebook`, {
+      const response = await apiRequest('PATCH', `/api/trades/${tradeId}/safebook`, {
         price
       });
+      return response.json();
     },
     onMutate: async ({ tradeId, price }) => {
       // Cancel any outgoing refetches for all trades queries
@@ -310,15 +329,16 @@ export default function TradesTable({
       
       return { previousQueries };
     },
-    onSuccess: () => {
+    onSuccess: (data: any) => {
       setTimeout(() => {
         queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] === "trades" });
         queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] === "trades/stats" || (Array.isArray(query.queryKey) && query.queryKey.includes("/api/trades/stats")) });
       }, 100);
       
+      const copySync = describeCopyTradeSync(data?.copyTradeSync);
       toast({
         title: "Success",
-        description: "SafeBook updated successfully - trade remains active",
+        description: `SafeBook updated successfully - trade remains active${copySync ? `. ${copySync}` : ''}`,
       });
     },
     onError: (error: any, variables, context) => {
@@ -340,13 +360,14 @@ export default function TradesTable({
   // Mutation for editing trade
   const editTradeMutation = useMutation({
     mutationFn: async ({ tradeId, tradeData }: { tradeId: string; tradeData: any }) => {
-      return apiRequest('PUT', `/api/trades/${tradeId}`, tradeData);
+      const response = await apiRequest('PUT', `/api/trades/${tradeId}`, tradeData);
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: any) => {
       setTimeout(() => {
         queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] === "trades" });
       }, 100);
-      toast({ title: "Trade updated successfully" });
+      toast({ title: "Trade updated successfully", description: describeCopyTradeSync(data?.copyTradeSync) });
       setEditDialog({ isOpen: false, trade: null });
     },
     onError: (error: any) => {
@@ -360,15 +381,22 @@ export default function TradesTable({
 
   // Mutation for deleting trade
   const deleteTradeMutation = useMutation({
-    mutationFn: async (tradeId: string) => {
-      return apiRequest('DELETE', `/api/trades/${tradeId}`, {});
+    mutationFn: async ({ tradeId, deleteMessages }: { tradeId: string; deleteMessages: boolean }) => {
+      const response = await apiRequest('DELETE', `/api/trades/${tradeId}${deleteMessages ? '?deleteMessages=true' : ''}`, {});
+      return response.json() as Promise<{ telegramMessages?: { deleted: number; failed: number } }>;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       setTimeout(() => {
         queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] === "trades" });
         queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] === "trades/stats" || (Array.isArray(query.queryKey) && query.queryKey.includes("/api/trades/stats")) });
       }, 100);
-      toast({ title: "Trade deleted successfully" });
+      const telegram = result.telegramMessages;
+      toast({
+        title: "Trade deleted successfully",
+        description: telegram
+          ? `${telegram.deleted} Telegram post${telegram.deleted === 1 ? '' : 's'} deleted${telegram.failed ? ` - ${telegram.failed} could not be deleted (Telegram only allows it within 48 hours)` : ''}`
+          : undefined,
+      });
       setDeleteDialog({ isOpen: false, tradeId: null, tradePair: null });
     },
     onError: (error: any) => {
@@ -855,82 +883,86 @@ export default function TradesTable({
                     {formatTime(trade.createdAt)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    <div className="flex justify-end gap-2">
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleEditTrade(trade)}
-                        className="text-xs h-7 px-2"
-                        data-testid={`button-edit-${trade.id}`}
-                      >
-                        Edit
-                      </Button>
-                      {trade.status === 'active' && (
-                        (trade as any).exchangeExited ? (
+                    {can("trades.manage") && (
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleEditTrade(trade)}
+                          className="text-xs h-7 px-2"
+                          data-testid={`button-edit-${trade.id}`}
+                        >
+                          Edit
+                        </Button>
+                        {trade.status === 'active' && (
+                          (trade as any).exchangeExited ? (
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              className="text-xs h-7 px-2 bg-gray-500 hover:bg-gray-600 cursor-not-allowed"
+                              disabled={true}
+                              data-testid={`button-exit-${trade.id}`}
+                            >
+                              ✅ Exited
+                            </Button>
+                          ) : (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button
+                                  size="sm"
+                                  variant="destructive"
+                                  className="text-xs h-7 px-2 bg-orange-600 hover:bg-orange-700"
+                                  disabled={exitTradeMutation.isPending || exitForAllMutation.isPending}
+                                  data-testid={`button-exit-${trade.id}`}
+                                >
+                                  🚪 Exit
+                                  <ChevronDown className="ml-1 h-3 w-3" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem
+                                  onClick={() => handleExitMyOnly(trade.id)}
+                                  disabled={exitTradeMutation.isPending}
+                                  data-testid={`menu-exit-my-only-${trade.id}`}
+                                >
+                                  <span className="text-orange-600">🚪 Exit My Only</span>
+                                </DropdownMenuItem>
+                                {can("trades.exit") && (
+                                  <DropdownMenuItem
+                                    onClick={() => handleExitForAll(trade.id)}
+                                    disabled={exitForAllMutation.isPending}
+                                    data-testid={`menu-exit-for-all-${trade.id}`}
+                                  >
+                                    <span className="text-red-600">🚪 Exit For All</span>
+                                  </DropdownMenuItem>
+                                )}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          )
+                        )}
+                        {trade.status === 'completed' && (
                           <Button
                             size="sm"
                             variant="secondary"
-                            className="text-xs h-7 px-2 bg-gray-500 hover:bg-gray-600 cursor-not-allowed"
-                            disabled={true}
-                            data-testid={`button-exit-${trade.id}`}
+                            onClick={() => handleReopenTrade(trade.id)}
+                            className="text-xs h-7 px-2"
+                            disabled={reopenTradeMutation.isPending}
+                            data-testid={`button-reopen-${trade.id}`}
                           >
-                            ✅ Exited
+                            🔄 Reopen
                           </Button>
-                        ) : (
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button
-                                size="sm"
-                                variant="destructive"
-                                className="text-xs h-7 px-2 bg-orange-600 hover:bg-orange-700"
-                                disabled={exitTradeMutation.isPending || exitForAllMutation.isPending}
-                                data-testid={`button-exit-${trade.id}`}
-                              >
-                                🚪 Exit
-                                <ChevronDown className="ml-1 h-3 w-3" />
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end">
-                              <DropdownMenuItem
-                                onClick={() => handleExitMyOnly(trade.id)}
-                                disabled={exitTradeMutation.isPending}
-                                data-testid={`menu-exit-my-only-${trade.id}`}
-                              >
-                                <span className="text-orange-600">🚪 Exit My Only</span>
-                              </DropdownMenuItem>
-                              <DropdownMenuItem
-                                onClick={() => handleExitForAll(trade.id)}
-                                disabled={exitForAllMutation.isPending}
-                                data-testid={`menu-exit-for-all-${trade.id}`}
-                              >
-                                <span className="text-red-600">🚪 Exit For All</span>
-                              </DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
-                        )
-                      )}
-                      {trade.status === 'completed' && (
+                        )}
                         <Button
                           size="sm"
-                          variant="secondary"
-                          onClick={() => handleReopenTrade(trade.id)}
+                          variant="destructive"
+                          onClick={() => handleDeleteTrade(trade.id, trade.pair)}
                           className="text-xs h-7 px-2"
-                          disabled={reopenTradeMutation.isPending}
-                          data-testid={`button-reopen-${trade.id}`}
+                          data-testid={`button-delete-${trade.id}`}
                         >
-                          🔄 Reopen
+                          Delete
                         </Button>
-                      )}
-                      <Button
-                        size="sm"
-                        variant="destructive"
-                        onClick={() => handleDeleteTrade(trade.id, trade.pair)}
-                        className="text-xs h-7 px-2"
-                        data-testid={`button-delete-${trade.id}`}
-                      >
-                        Delete
-                      </Button>
-                    </div>
+                      </div>
+                    )}
                   </td>
                 </tr>
               ))
@@ -1074,6 +1106,17 @@ export default function TradesTable({
                 This action cannot be undone. The trade will be permanently removed from your records.
               </p>
             </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="delete-trade-messages"
+                checked={!!deleteDialog.deleteMessages}
+                onCheckedChange={(checked) => setDeleteDialog(prev => ({ ...prev, deleteMessages: checked === true }))}
+                data-testid="checkbox-delete-trade-messages"
+              />
+              <Label htmlFor="delete-trade-messages" className="text-sm font-normal">
+                Also delete its posts from the Telegram channels
+              </Label>
+            </div>
             <div className="flex gap-2 justify-end">
               <Button 
                 variant="outline" 
@@ -1086,7 +1129,7 @@ export default function TradesTable({
                 variant="destructive"
                 onClick={() => {
                   if (deleteDialog.tradeId) {
-                    deleteTradeMutation.mutate(deleteDialog.tradeId);
+                    deleteTradeMutation.mutate({ tradeId: deleteDialog.tradeId, deleteMessages: !!deleteDialog.deleteMessages });
                   }
                 }}
                 disabled={deleteTradeMutation.isPending}
@@ -1,7 +1,20 @@
 import { useQuery } from "@tanstack/react-query";
+import type { Permission, UserRole } from "@shared/schema";
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  role: UserRole;
+  permissions: Permission[];
+  twoFactorEnabled: boolean;
+  recoveryCodesRemaining: number;
+}
 
 export function useAuth() {
-  const { data: user, isLoading } = useQuery({
+  const { data: user, isLoading } = useQuery<AuthUser>({
     queryKey: ["/api/user"],
     retry: false,
   });
@@ -10,5 +23,6 @@ export function useAuth() {
     user,
     isLoading,
     isAuthenticated: !!user,
+    can: (permission: Permission) => !!user?.permissions?.includes(permission),
   };
 }
@@ -7,18 +7,40 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Dangerous operations answer 403 { reauthRequired: true } - the registered handler asks the admin to confirm it's them
+let reauthHandler: (() => Promise<boolean>) | null = null;
+
+export function setReauthHandler(handler: (() => Promise<boolean>) | null) {
+  reauthHandler = handler;
+}
+
+async function isReauthRequired(res: Response) {
+  if (res.status !== 403) return false;
+  try {
+    const body = await res.clone().json();
+    return body?.reauthRequired === true;
+  } catch {
+    return false;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const res = await fetch(url, {
+  const send = () => fetch(url, {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
+  let res = await send();
+  if (reauthHandler && await isReauthRequired(res) && await reauthHandler()) {
+    res = await send();
+  }
+
   await throwIfResNotOk(res);
   return res;
 }
@@ -0,0 +1,277 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { format } from "date-fns";
+import { AuditChangeList, ActorBadge, type AuditLogEntry } from "@/components/audit/entity-audit-history";
+
+const ENTITY_TYPES: { value: string; label: string }[] = [
+  { value: "trade", label: "Trades" },
+  { value: "copy_trading_user", label: "Copy trading users" },
+  { value: "copy_trading_application", label: "Applications" },
+  { value: "copy_trade", label: "Copy trades" },
+  { value: "automation", label: "Automations" },
+  { value: "template", label: "Templates" },
+  { value: "channel", label: "Channels" },
+  { value: "signal_source", label: "Signal sources" },
+  { value: "webhook_endpoint", label: "Webhook endpoints" },
+  { value: "research_report", label: "Research reports" },
+  { value: "job", label: "Background jobs" },
+  { value: "api_key", label: "API keys" },
+  { value: "admin_user", label: "Admin users" },
+  { value: "user_invite", label: "Admin invites" },
+];
+
+const PAGE_SIZE = 50;
+
+const methodVariant = (method: string): "default" | "secondary" | "destructive" | "outline" => {
+  switch (method) {
+    case "DELETE":
+      return "destructive";
+    case "POST":
+      return "default";
+    default:
+      return "secondary";
+  }
+};
+
+export default function AuditLogPage() {
+  const [filters, setFilters] = useState({ search: "", entityType: "all", entityId: "", from: "", to: "" });
+  const [page, setPage] = useState(1);
+  const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
+
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const { data, isLoading } = useQuery<{ logs: AuditLogEntry[]; total: number }>({
+    queryKey: ["/api/audit-logs", filters, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (filters.search) params.append("search", filters.search);
+      if (filters.entityType !== "all") params.append("entityType", filters.entityType);
+      if (filters.entityId) params.append("entityId", filters.entityId);
+      if (filters.from) params.append("from", filters.from);
+      if (filters.to) params.append("to", filters.to);
+
+      const response = await fetch(`/api/audit-logs?${params.toString()}`, {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+  });
+
+  const logs = data?.logs || [];
+  const totalPages = Math.max(1, Math.ceil((data?.total || 0) / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+        <p className="text-muted-foreground">
+          Every change made from the dashboard or with an API key - who, what, before and after
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Filters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <Input
+              placeholder="Search action, user, id or value"
+              value={filters.search}
+              onChange={(e) => updateFilter("search", e.target.value)}
+              className="md:col-span-2"
+              data-testid="input-audit-search"
+            />
+            <Select value={filters.entityType} onValueChange={(value) => updateFilter("entityType", value)}>
+              <SelectTrigger data-testid="select-audit-entity-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All entities</SelectItem>
+                {ENTITY_TYPES.map((entityType) => (
+                  <SelectItem key={entityType.value} value={entityType.value}>{entityType.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter("from", e.target.value)}
+              data-testid="input-audit-from"
+            />
+            <Input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter("to", e.target.value)}
+              data-testid="input-audit-to"
+            />
+          </div>
+          {filters.entityId && (
+            <div className="mt-3 flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">History of</span>
+              <Badge variant="outline" className="font-mono">{filters.entityId}</Badge>
+              <Button variant="ghost" size="sm" onClick={() => updateFilter("entityId", "")} data-testid="button-clear-entity">
+                <i className="fas fa-times" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries ({data?.total || 0})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : logs.length === 0 ? (
+            <div className="text-center py-8">
+              <i className="fas fa-clipboard-list text-4xl text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">No audit entries</h3>
+              <p className="text-muted-foreground">Nothing matches the current filters</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead>Changes</TableHead>
+                  <TableHead>IP</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {logs.map((log) => (
+                  <Fragment key={log.id}>
+                    <TableRow data-testid={`row-audit-${log.id}`}>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {format(new Date(log.createdAt), "MMM dd, HH:mm:ss")}
+                      </TableCell>
+                      <TableCell>
+                        <ActorBadge log={log} />
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={methodVariant(log.method)} className="font-mono text-xs">{log.action}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">{log.entityType}</div>
+                        {log.entityId && (
+                          <button
+                            type="button"
+                            className="text-xs font-mono text-primary hover:underline"
+                            onClick={() => setFilters((prev) => ({ ...prev, entityType: log.entityType, entityId: log.entityId! }))}
+                            title="Show this entity's history"
+                          >
+                            {log.entityId.slice(0, 8)}
+                          </button>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-md">
+                        <AuditChangeList changes={log.changes} />
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{log.ipAddress || "-"}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setExpandedLogId(expandedLogId === log.id ? null : log.id)}
+                          data-testid={`button-audit-details-${log.id}`}
+                        >
+                          <i className="fas fa-code" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {expandedLogId === log.id && (
+                      <TableRow>
+                        <TableCell colSpan={7}>
+                          <div className="text-xs text-muted-foreground mb-2 font-mono">{log.method} {log.path}</div>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                              <div className="text-xs font-medium mb-1">Before</div>
+                              <pre className="text-xs font-mono bg-muted p-3 rounded overflow-x-auto max-h-80">
+                                {JSON.stringify(log.before, null, 2)}
+                              </pre>
+                            </div>
+                            <div>
+                              <div className="text-xs font-medium mb-1">After</div>
+                              <pre className="text-xs font-mono bg-muted p-3 rounded overflow-x-auto max-h-80">
+                                {JSON.stringify(log.after, null, 2)}
+                              </pre>
+                            </div>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between pt-4">
+              <div className="text-sm text-muted-foreground">
+                Page {page} of {totalPages}
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(Math.max(1, page - 1))}
+                  disabled={page === 1}
+                  data-testid="button-audit-prev-page"
+                >
+                  <i className="fas fa-chevron-left mr-2" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(Math.min(totalPages, page + 1))}
+                  disabled={page === totalPages}
+                  data-testid="button-audit-next-page"
+                >
+                  Next
+                  <i className="fas fa-chevron-right ml-2" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,9 +3,12 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { ROLE_LABELS, type UserRole } from "@shared/schema";
+
+const inputClassName = "bg-white/10 border-white/30 text-white placeholder:text-gray-300 focus:border-blue-400 focus:ring-blue-400";
 
 export default function AuthPage() {
   const { toast } = useToast();
@@ -13,12 +16,54 @@ export default function AuthPage() {
     username: "",
     password: "",
   });
+  // Set once the password is accepted for an account with 2FA - the code is asked for next
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  // Team invites link to /?invite=<token> - the token is checked again when the account is created
+  const [inviteToken] = useState(() => new URLSearchParams(window.location.search).get("invite"));
+  const [signupData, setSignupData] = useState({
+    username: "",
+    password: "",
+    firstName: "",
+  });
+
+  const { data: invite, isLoading: inviteLoading, error: inviteError } = useQuery<{ email: string; role: UserRole; expiresAt: string }>({
+    queryKey: ["/api/invites", inviteToken],
+    enabled: !!inviteToken,
+  });
+
+  const signupMutation = useMutation({
+    mutationFn: async (data: typeof signupData) => {
+      const response = await apiRequest("POST", "/api/register", { ...data, token: inviteToken });
+      return response.json();
+    },
+    onSuccess: () => {
+      window.location.href = '/';
+    },
+    onError: (error) => {
+      toast({
+        title: "Sign Up Failed",
+        description: error instanceof Error ? error.message : "Could not create your account",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSignup = (e: React.FormEvent) => {
+    e.preventDefault();
+    signupMutation.mutate(signupData);
+  };
   const loginMutation = useMutation({
     mutationFn: async (data: typeof loginData) => {
       const response = await apiRequest("POST", "/api/login", data);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
+      if (data?.twoFactorRequired) {
+        setTwoFactorCode("");
+        setTwoFactorRequired(true);
+        return;
+      }
       window.location.href = '/';
     },
     onError: (error) => {
@@ -35,6 +80,34 @@ export default function AuthPage() {
     loginMutation.mutate(loginData);
   };
 
+  const twoFactorMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/login/2fa", { code });
+      return response.json();
+    },
+    onSuccess: () => {
+      window.location.href = '/';
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Incorrect authentication code";
+      // Challenge expired or too many attempts - start over from the password
+      if (message.includes("enter your password again")) {
+        setTwoFactorRequired(false);
+        setLoginData(prev => ({ ...prev, password: "" }));
+      }
+      toast({
+        title: "Verification Failed",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleTwoFactor = (e: React.FormEvent) => {
+    e.preventDefault();
+    twoFactorMutation.mutate(twoFactorCode);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center p-8">
       <div className="w-full max-w-md">
@@ -52,6 +125,123 @@ export default function AuthPage() {
           </div>
         </div>
 
+        {inviteToken && (
+          <Card className="backdrop-blur-sm bg-white/10 border border-white/20 shadow-2xl mb-6">
+            <CardHeader>
+              <CardTitle className="text-white">Create your account</CardTitle>
+              <CardDescription className="text-blue-200">
+                {inviteLoading
+                  ? "Checking your invite..."
+                  : invite
+                    ? `Invited as ${ROLE_LABELS[invite.role] || invite.role} (${invite.email})`
+                    : "This invite link is invalid or has expired - ask an owner for a new one"}
+              </CardDescription>
+            </CardHeader>
+            {invite && !inviteError && (
+              <CardContent>
+                <form onSubmit={handleSignup} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-first-name" className="text-white font-medium">Name</Label>
+                    <Input
+                      id="signup-first-name"
+                      value={signupData.firstName}
+                      onChange={(e) => setSignupData(prev => ({ ...prev, firstName: e.target.value }))}
+                      className={inputClassName}
+                      placeholder="Your name"
+                      data-testid="input-signup-first-name"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-username" className="text-white font-medium">Username</Label>
+                    <Input
+                      id="signup-username"
+                      value={signupData.username}
+                      onChange={(e) => setSignupData(prev => ({ ...prev, username: e.target.value }))}
+                      required
+                      minLength={3}
+                      className={inputClassName}
+                      placeholder="Choose a username"
+                      data-testid="input-signup-username"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-password" className="text-white font-medium">Password</Label>
+                    <Input
+                      id="signup-password"
+                      type="password"
+                      value={signupData.password}
+                      onChange={(e) => setSignupData(prev => ({ ...prev, password: e.target.value }))}
+                      required
+                      minLength={6}
+                      className={inputClassName}
+                      placeholder="At least 6 characters"
+                      data-testid="input-signup-password"
+                    />
+                  </div>
+                  <Button
+                    type="submit"
+                    className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-semibold"
+                    disabled={signupMutation.isPending}
+                    data-testid="button-signup"
+                  >
+                    {signupMutation.isPending ? "Creating account..." : "Create Account"}
+                  </Button>
+                </form>
+              </CardContent>
+            )}
+          </Card>
+        )}
+
+        {twoFactorRequired ? (
+          <Card className="backdrop-blur-sm bg-white/10 border border-white/20 shadow-2xl">
+            <CardHeader>
+              <CardTitle className="text-white">Two-factor authentication</CardTitle>
+              <CardDescription className="text-blue-200">
+                Enter the 6-digit code from your authenticator app, or one of your recovery codes
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleTwoFactor} className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="two-factor-code" className="text-white font-medium">Authentication code</Label>
+                  <Input
+                    id="two-factor-code"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    required
+                    autoFocus
+                    className={inputClassName}
+                    placeholder="123456"
+                    data-testid="input-login-2fa-code"
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-semibold"
+                  disabled={twoFactorMutation.isPending}
+                  data-testid="button-login-2fa"
+                >
+                  {twoFactorMutation.isPending ? "Verifying..." : "Verify"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="w-full text-blue-200 hover:text-white hover:bg-white/10"
+                  onClick={() => {
+                    setTwoFactorRequired(false);
+                    setLoginData(prev => ({ ...prev, password: "" }));
+                  }}
+                  data-testid="button-login-2fa-back"
+                >
+                  Use a different account
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        ) : (
         <Card className="backdrop-blur-sm bg-white/10 border border-white/20 shadow-2xl">
           <CardContent className="pt-6">
             <form onSubmit={handleLogin} className="space-y-6">
@@ -102,6 +292,7 @@ export default function AuthPage() {
             </form>
           </CardContent>
         </Card>
+        )}
       </div>
     </div>
   );
@@ -6,7 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Plus, Settings, Send, AlertCircle, Eye, Trash2, ToggleLeft, ToggleRight, Edit2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { formatDistanceToNow } from "date-fns";
-import { Automation, SentMessage } from "@shared/schema";
+import { Automation, SentMessage, SentMessageEdit } from "@shared/schema";
 import AddAutomationModal from "@/components/automation/add-automation-modal";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
@@ -53,7 +53,7 @@ export default function AutomationPage() {
   const { toast } = useToast();
   const [showAddModal, setShowAddModal] = useState(false);
   const [editAutomation, setEditAutomation] = useState<AutomationWithRelations | null>(null);
-  const [viewMessage, setViewMessage] = useState<{text: string, title: string} | null>(null);
+  const [viewMessage, setViewMessage] = useState<{text: string, title: string, messageId?: string} | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<{id: string, name: string} | null>(null);
 
   // Fetch automations
@@ -66,6 +66,12 @@ export default function AutomationPage() {
     queryKey: ["/api/sent-messages"],
   });
 
+  // Edits and deletes of the message being viewed
+  const { data: messageEdits = [] } = useQuery<SentMessageEdit[]>({
+    queryKey: ["/api/sent-messages", viewMessage?.messageId, "edits"],
+    enabled: !!viewMessage?.messageId,
+  });
+
   // Delete automation mutation
   const deleteMutation = useMutation({
     mutationFn: async (automationId: string) => {
@@ -243,6 +249,11 @@ export default function AutomationPage() {
                       <span>Channel: {automation.channel?.name || "Unknown"}</span>
                       <span>•</span>
                       <span>Template: {automation.template?.name || "Unknown"}</span>
+                      {automation.templateVersion && (
+                        <Badge variant="outline" className="text-xs" data-testid={`template-version-${automation.id}`}>
+                          Pinned v{automation.templateVersion}
+                        </Badge>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center gap-3">
@@ -347,6 +358,11 @@ export default function AutomationPage() {
                     <tr key={message.id} data-testid={`message-row-${message.id}`}>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
                         {message.automation?.name || "Unknown"}
+                        {message.templateVersion && (
+                          <span className="ml-2 text-xs text-muted-foreground" data-testid={`message-template-version-${message.id}`}>
+                            v{message.templateVersion}
+                          </span>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
                         {message.trade ? `${message.trade.pair} (${message.trade.type.toUpperCase()})` : "Unknown"}
@@ -355,7 +371,18 @@ export default function AutomationPage() {
                         {message.channel?.name || message.channelId}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        {getStatusBadge(message.status)}
+                        <div className="flex items-center gap-2">
+                          {getStatusBadge(message.status)}
+                          {message.deletedAt ? (
+                            <Badge variant="outline" className="text-xs" data-testid={`message-deleted-${message.id}`}>
+                              Deleted
+                            </Badge>
+                          ) : message.editCount > 0 && (
+                            <Badge variant="outline" className="text-xs" data-testid={`message-edited-${message.id}`}>
+                              Edited ×{message.editCount}
+                            </Badge>
+                          )}
+                        </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
                         {message.sentAt ? formatDistanceToNow(new Date(message.sentAt), { addSuffix: true }) : 'Unknown'}
@@ -367,7 +394,8 @@ export default function AutomationPage() {
                             size="sm"
                             onClick={() => setViewMessage({
                               text: message.messageText || '',
-                              title: `Message to ${message.channel?.name || 'Channel'}`
+                              title: `Message to ${message.channel?.name || 'Channel'}`,
+                              messageId: message.editCount > 0 || message.deletedAt ? message.id : undefined,
                             })}
                             data-testid={`button-view-message-${message.id}`}
                             className="hover:bg-muted"
@@ -411,6 +439,27 @@ export default function AutomationPage() {
               </pre>
             </div>
           </div>
+          {messageEdits.length > 0 && (
+            <div className="mt-4 space-y-2" data-testid="list-message-edits">
+              <h4 className="text-sm font-medium text-foreground">Edit history</h4>
+              {messageEdits.map((edit) => (
+                <div key={edit.id} className="flex items-start justify-between gap-4 rounded-md border p-3 text-sm">
+                  <div>
+                    <div className="font-medium text-foreground">
+                      {edit.action === 'delete' ? 'Deleted' : 'Edited'} • {edit.reason.replace(/_/g, ' ')}
+                    </div>
+                    {edit.errorMessage && <div className="text-xs text-destructive">{edit.errorMessage}</div>}
+                  </div>
+                  <div className="flex flex-col items-end gap-1 shrink-0">
+                    {getStatusBadge(edit.status)}
+                    <span className="text-xs text-muted-foreground">
+                      {edit.createdAt ? formatDistanceToNow(new Date(edit.createdAt), { addSuffix: true }) : '-'}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </DialogContent>
       </Dialog>
 
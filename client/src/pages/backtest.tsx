@@ -0,0 +1,421 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { format } from "date-fns";
+import type { BacktestResult, TelegramChannel } from "@shared/schema";
+
+const SOURCE_OPTIONS = [
+  { value: "manual", label: "Manual" },
+  { value: "api", label: "API" },
+  { value: "coindcx", label: "CoinDCX" },
+];
+
+const SIGNAL_TYPE_OPTIONS = [
+  { value: "intraday", label: "Intraday" },
+  { value: "swing", label: "Swing" },
+  { value: "scalp", label: "Scalp" },
+  { value: "positional", label: "Positional" },
+];
+
+const equityChartConfig: ChartConfig = {
+  equity: { label: "Equity (USDT)", color: "hsl(var(--primary))" },
+};
+
+const today = format(new Date(), "yyyy-MM-dd");
+const monthAgo = format(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), "yyyy-MM-dd");
+
+const resultVariant = (status: string): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case "closed":
+      return "default";
+    case "open":
+      return "secondary";
+    case "skipped":
+      return "destructive";
+    default:
+      return "outline";
+  }
+};
+
+const formatUsdt = (value: number) => `${value >= 0 ? "" : "-"}${Math.abs(value).toFixed(2)} USDT`;
+
+export default function BacktestPage() {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState({
+    from: monthAgo,
+    to: today,
+    channelId: "all",
+    exchange: "coindcx",
+    tradeFund: "100",
+    riskPerTrade: "2",
+    startingBalance: "",
+    maxTradesPerDay: "",
+    maxLeverage: "",
+    maxOpenPositions: "",
+    dailyLossLimit: "",
+    weeklyLossLimit: "",
+    maxPairNotional: "",
+    maxTotalNotional: "",
+    feeRate: "0.0005",
+    sourceFilter: ["manual", "api", "coindcx"],
+    signalTypeFilter: ["intraday", "swing", "scalp", "positional"],
+  });
+
+  const { data: channels = [] } = useQuery<TelegramChannel[]>({
+    queryKey: ["/api/channels"],
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (): Promise<BacktestResult> => {
+      const response = await apiRequest("POST", "/api/backtests/run", {
+        from: settings.from,
+        to: settings.to,
+        channelId: settings.channelId === "all" ? undefined : settings.channelId,
+        exchange: settings.exchange,
+        tradeFund: settings.tradeFund,
+        riskPerTrade: settings.riskPerTrade,
+        startingBalance: settings.startingBalance || undefined,
+        maxTradesPerDay: settings.maxTradesPerDay || null,
+        maxLeverage: settings.maxLeverage || null,
+        maxOpenPositions: settings.maxOpenPositions || null,
+        dailyLossLimit: settings.dailyLossLimit || null,
+        weeklyLossLimit: settings.weeklyLossLimit || null,
+        maxPairNotional: settings.maxPairNotional || null,
+        maxTotalNotional: settings.maxTotalNotional || null,
+        feeRate: settings.feeRate,
+        sourceFilter: settings.sourceFilter,
+        signalTypeFilter: settings.signalTypeFilter,
+      });
+      return response.json();
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to run backtest",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const result = runMutation.data;
+
+  const toggleFilter = (key: "sourceFilter" | "signalTypeFilter", value: string, checked: boolean) => {
+    setSettings((prev) => ({
+      ...prev,
+      [key]: checked ? [...prev[key], value] : prev[key].filter((item) => item !== value),
+    }));
+  };
+
+  const numberField = (key: "tradeFund" | "riskPerTrade" | "startingBalance" | "maxTradesPerDay" | "maxLeverage" | "maxOpenPositions" | "dailyLossLimit" | "weeklyLossLimit" | "maxPairNotional" | "maxTotalNotional" | "feeRate", label: string, placeholder?: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={`backtest-${key}`}>{label}</Label>
+      <Input
+        id={`backtest-${key}`}
+        type="number"
+        step="any"
+        placeholder={placeholder}
+        value={settings[key]}
+        onChange={(e) => setSettings((prev) => ({ ...prev, [key]: e.target.value }))}
+        data-testid={`input-backtest-${key}`}
+      />
+    </div>
+  );
+
+  const summaryCards = result ? [
+    { label: "Total P&L", value: formatUsdt(result.summary.totalPnl), icon: "fas fa-coins" },
+    { label: "Return", value: `${result.summary.returnPercent.toFixed(2)}%`, icon: "fas fa-percentage" },
+    { label: "Max Drawdown", value: `${result.summary.maxDrawdown.toFixed(2)} (${result.summary.maxDrawdownPercent.toFixed(1)}%)`, icon: "fas fa-arrow-down" },
+    { label: "Win Rate", value: `${result.summary.winRate.toFixed(1)}% (${result.summary.wins}/${result.summary.closed})`, icon: "fas fa-trophy" },
+    { label: "Average R", value: result.summary.averageR !== null ? result.summary.averageR.toFixed(2) : "-", icon: "fas fa-balance-scale" },
+    { label: "Copied / Skipped", value: `${result.summary.copied} / ${result.summary.skipped}`, icon: "fas fa-filter" },
+    { label: "Not Filled", value: result.summary.notFilled, icon: "fas fa-hourglass-end" },
+    { label: "Fees", value: formatUsdt(result.summary.totalFees), icon: "fas fa-receipt" },
+  ] : [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Backtest</h1>
+        <p className="text-muted-foreground">
+          Replay past signals against copy settings using offline candle files - nothing is sent to the exchange
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Settings</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="backtest-from">From</Label>
+              <Input
+                id="backtest-from"
+                type="date"
+                value={settings.from}
+                onChange={(e) => setSettings((prev) => ({ ...prev, from: e.target.value }))}
+                data-testid="input-backtest-from"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-to">To</Label>
+              <Input
+                id="backtest-to"
+                type="date"
+                value={settings.to}
+                onChange={(e) => setSettings((prev) => ({ ...prev, to: e.target.value }))}
+                data-testid="input-backtest-to"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Channel</Label>
+              <Select
+                value={settings.channelId}
+                onValueChange={(value) => setSettings((prev) => ({ ...prev, channelId: value }))}
+              >
+                <SelectTrigger data-testid="select-backtest-channel">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All channels</SelectItem>
+                  {channels.map((channel) => (
+                    <SelectItem key={channel.id} value={channel.id}>{channel.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Exchange Rules</Label>
+              <Select
+                value={settings.exchange}
+                onValueChange={(value) => setSettings((prev) => ({ ...prev, exchange: value }))}
+              >
+                <SelectTrigger data-testid="select-backtest-exchange">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="coindcx">CoinDCX</SelectItem>
+                  <SelectItem value="binance">Binance</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {numberField("tradeFund", "Trade Fund (USDT)")}
+            {numberField("riskPerTrade", "Risk Per Trade (%)")}
+            {numberField("startingBalance", "Starting Balance (USDT)", "Same as trade fund")}
+            {numberField("feeRate", "Fee Rate (per side)")}
+            {numberField("maxTradesPerDay", "Max Trades Per Day", "No limit")}
+            {numberField("maxLeverage", "Max Leverage", "No ceiling")}
+            {numberField("maxOpenPositions", "Max Open Positions", "No limit")}
+            {numberField("dailyLossLimit", "Daily Loss Limit (USDT)", "No limit")}
+            {numberField("weeklyLossLimit", "Weekly Loss Limit (USDT)", "No limit")}
+            {numberField("maxPairNotional", "Max Notional Per Pair (USDT)", "No cap")}
+            {numberField("maxTotalNotional", "Max Total Notional (USDT)", "No cap")}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label>Copy Trades From Sources</Label>
+              <div className="flex flex-wrap gap-4">
+                {SOURCE_OPTIONS.map((source) => (
+                  <div key={source.value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`backtest-source-${source.value}`}
+                      checked={settings.sourceFilter.includes(source.value)}
+                      onCheckedChange={(checked) => toggleFilter("sourceFilter", source.value, !!checked)}
+                      data-testid={`checkbox-backtest-source-${source.value}`}
+                    />
+                    <Label htmlFor={`backtest-source-${source.value}`} className="text-sm font-normal">
+                      {source.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Copy Signal Types</Label>
+              <div className="flex flex-wrap gap-4">
+                {SIGNAL_TYPE_OPTIONS.map((signalType) => (
+                  <div key={signalType.value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`backtest-signal-${signalType.value}`}
+                      checked={settings.signalTypeFilter.includes(signalType.value)}
+                      onCheckedChange={(checked) => toggleFilter("signalTypeFilter", signalType.value, !!checked)}
+                      data-testid={`checkbox-backtest-signal-${signalType.value}`}
+                    />
+                    <Label htmlFor={`backtest-signal-${signalType.value}`} className="text-sm font-normal">
+                      {signalType.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => runMutation.mutate()}
+              disabled={runMutation.isPending}
+              data-testid="button-run-backtest"
+            >
+              <i className={`fas ${runMutation.isPending ? "fa-spinner fa-spin" : "fa-play"} mr-2`} />
+              {runMutation.isPending ? "Running..." : "Run Backtest"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {summaryCards.map((card) => (
+              <Card key={card.label}>
+                <CardContent className="pt-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm text-muted-foreground">{card.label}</p>
+                      <p className="text-xl font-bold">{card.value}</p>
+                    </div>
+                    <i className={`${card.icon} text-2xl text-muted-foreground`} />
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Equity Curve</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={equityChartConfig} className="h-72 w-full">
+                <AreaChart data={result.equityCurve}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="time"
+                    tickFormatter={(value) => format(new Date(value), "dd MMM")}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <YAxis domain={["auto", "auto"]} tickLine={false} axisLine={false} width={60} />
+                  <ChartTooltip
+                    content={<ChartTooltipContent labelFormatter={(value) => format(new Date(value), "dd MMM yyyy HH:mm")} />}
+                  />
+                  <Area
+                    dataKey="equity"
+                    type="stepAfter"
+                    stroke="var(--color-equity)"
+                    fill="var(--color-equity)"
+                    fillOpacity={0.15}
+                  />
+                </AreaChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Trades ({result.trades.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {result.trades.length === 0 ? (
+                <div className="text-center py-8">
+                  <i className="fas fa-inbox text-4xl text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-medium text-foreground mb-2">No signals</h3>
+                  <p className="text-muted-foreground">No trades were registered in this period</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Signal</TableHead>
+                      <TableHead>Pair</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Entry / SL / TP</TableHead>
+                      <TableHead>Size</TableHead>
+                      <TableHead>Exit</TableHead>
+                      <TableHead className="text-right">P&L</TableHead>
+                      <TableHead className="text-right">R</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.trades.map((trade) => (
+                      <TableRow key={trade.tradeId} data-testid={`row-backtest-${trade.tradeId}`}>
+                        <TableCell>
+                          <div className="font-medium">{trade.tradeId}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {format(new Date(trade.signalTime), "dd MMM HH:mm")} · {trade.source}{trade.signalType ? ` · ${trade.signalType}` : ""}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div>{trade.pair}</div>
+                          <div className="text-xs text-muted-foreground uppercase">{trade.type}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={resultVariant(trade.status)}>{trade.status.replace("_", " ")}</Badge>
+                          {(trade.skipReason || trade.message) && (
+                            <div className="text-xs text-muted-foreground mt-1 max-w-48">
+                              {trade.message || trade.skipReason}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {trade.entryPrice} / {trade.stopLoss ?? "-"} / {trade.takeProfit ?? "-"}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {trade.quantity > 0 ? (
+                            <>
+                              <div>{trade.quantity} @ {trade.leverage}x</div>
+                              <div className="text-xs text-muted-foreground">{trade.notional.toFixed(2)} USDT</div>
+                            </>
+                          ) : "-"}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {trade.exitPrice !== null ? (
+                            <>
+                              <div>{trade.exitPrice}</div>
+                              <div className="text-xs text-muted-foreground">{trade.exitReason?.replace(/_/g, " ")}</div>
+                            </>
+                          ) : "-"}
+                        </TableCell>
+                        <TableCell className={`text-right font-medium ${trade.pnl > 0 ? "text-green-600" : trade.pnl < 0 ? "text-red-600" : ""}`}>
+                          {trade.pnl !== 0 ? trade.pnl.toFixed(2) : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {trade.rMultiple !== null ? trade.rMultiple.toFixed(2) : "-"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
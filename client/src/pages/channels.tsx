@@ -23,6 +23,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { TEMPLATE_LOCALES, type TemplateLocale } from "@shared/templateEngine";
 
 interface Channel {
   id: string;
@@ -30,6 +31,7 @@ interface Channel {
   channelId: string;
   description?: string;
   isActive: boolean;
+  locale: TemplateLocale;
   templateId?: string;
   templateName?: string;
   createdAt: string;
@@ -47,6 +49,7 @@ export default function ChannelsPage() {
     name: "",
     channelId: "",
     description: "",
+    locale: "english" as TemplateLocale,
   });
 
   // Fetch channels - use default query function that handles .json()
@@ -78,7 +81,7 @@ export default function ChannelsPage() {
       queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
       // Force refetch
       queryClient.refetchQueries({ queryKey: ["/api/channels"] });
-      setNewChannel({ name: "", channelId: "", description: "" });
+      setNewChannel({ name: "", channelId: "", description: "", locale: "english" });
       setIsAddingChannel(false);
       toast({
         title: "Success",
@@ -115,6 +118,27 @@ export default function ChannelsPage() {
     },
   });
 
+  // Change which template variant the channel receives
+  const localeMutation = useMutation({
+    mutationFn: async ({ id, locale }: { id: string; locale: TemplateLocale }) => {
+      return await apiRequest("PATCH", `/api/channels/${id}`, { locale });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+      toast({
+        title: "Success",
+        description: "Channel language updated",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update channel",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Test message mutation
   const testMessageMutation = useMutation({
     mutationFn: async (channel: Channel) => {
@@ -158,6 +182,7 @@ export default function ChannelsPage() {
       name: newChannel.name,
       channelId: newChannel.channelId,
       description: newChannel.description,
+      locale: newChannel.locale,
       isActive: false,
     });
   };
@@ -221,17 +246,37 @@ export default function ChannelsPage() {
                 />
               </div>
             </div>
-            <div>
-              <Label htmlFor="channelDescription">Description</Label>
-              <Input
-                id="channelDescription"
-                placeholder="Optional description"
-                value={newChannel.description}
-                onChange={(e) =>
-                  setNewChannel((prev) => ({ ...prev, description: e.target.value }))
-                }
-                data-testid="input-channel-description"
-              />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="channelDescription">Description</Label>
+                <Input
+                  id="channelDescription"
+                  placeholder="Optional description"
+                  value={newChannel.description}
+                  onChange={(e) =>
+                    setNewChannel((prev) => ({ ...prev, description: e.target.value }))
+                  }
+                  data-testid="input-channel-description"
+                />
+              </div>
+              <div>
+                <Label htmlFor="channelLocale">Audience Language</Label>
+                <Select
+                  value={newChannel.locale}
+                  onValueChange={(value) =>
+                    setNewChannel((prev) => ({ ...prev, locale: value as TemplateLocale }))
+                  }
+                >
+                  <SelectTrigger id="channelLocale" data-testid="select-channel-locale">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TEMPLATE_LOCALES).map(([locale, format]) => (
+                      <SelectItem key={locale} value={locale}>{format.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
             <div className="flex space-x-2">
               <Button
@@ -277,6 +322,7 @@ export default function ChannelsPage() {
                 <TableRow>
                   <TableHead>Channel</TableHead>
                   <TableHead>ID</TableHead>
+                  <TableHead>Language</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Test Message</TableHead>
                 </TableRow>
@@ -297,6 +343,24 @@ export default function ChannelsPage() {
                     <TableCell className="font-mono text-sm">
                       {channel.channelId}
                     </TableCell>
+                    <TableCell>
+                      <Select
+                        value={channel.locale || "english"}
+                        onValueChange={(value) =>
+                          localeMutation.mutate({ id: channel.id, locale: value as TemplateLocale })
+                        }
+                        disabled={localeMutation.isPending}
+                      >
+                        <SelectTrigger className="w-32" data-testid={`select-locale-${channel.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(TEMPLATE_LOCALES).map(([locale, format]) => (
+                            <SelectItem key={locale} value={locale}>{format.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
                     <TableCell>
                       <div className="flex items-center space-x-2">
                         <Switch
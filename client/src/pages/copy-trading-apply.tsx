@@ -52,7 +52,7 @@ export default function CopyTradingApplyPage() {
 
   // Verify credentials mutation
   const verifyCredentialsMutation = useMutation({
-    mutationFn: async (data: { apiKey: string; apiSecret: string }) => {
+    mutationFn: async (data: { apiKey: string; apiSecret: string; exchange: string }) => {
       const response = await apiRequest("POST", "/api/public/verify-credentials", data);
       return response.json();
     },
@@ -244,6 +244,7 @@ export default function CopyTradingApplyPage() {
   const handleVerifyCredentials = () => {
     const apiKey = form.getValues("apiKey");
     const apiSecret = form.getValues("apiSecret");
+    const exchange = form.getValues("exchange");
     
     if (!apiKey || !apiSecret) {
       toast({
@@ -255,7 +256,7 @@ export default function CopyTradingApplyPage() {
     }
 
     setIsVerifyingCredentials(true);
-    verifyCredentialsMutation.mutate({ apiKey, apiSecret });
+    verifyCredentialsMutation.mutate({ apiKey, apiSecret, exchange });
   };
 
   const onSubmit = (values: z.infer<typeof insertCopyTradingApplicationSchema>) => {
@@ -662,7 +663,13 @@ export default function CopyTradingApplyPage() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Exchange *</FormLabel>
-                          <Select onValueChange={field.onChange} value={field.value}>
+                          <Select
+                            onValueChange={(value) => {
+                              field.onChange(value);
+                              setCredentialsVerified(false); // Credentials are checked against the selected exchange
+                            }}
+                            value={field.value}
+                          >
                             <FormControl>
                               <SelectTrigger data-testid="select-exchange">
                                 <SelectValue placeholder="Select exchange" />
@@ -670,7 +677,7 @@ export default function CopyTradingApplyPage() {
                             </FormControl>
                             <SelectContent>
                               <SelectItem value="coindcx">CoinDCX</SelectItem>
-                              <SelectItem value="binance" disabled>Binance (Coming Soon)</SelectItem>
+                              <SelectItem value="binance">Binance Futures</SelectItem>
                               <SelectItem value="delta" disabled>Delta Exchange (Coming Soon)</SelectItem>
                             </SelectContent>
                           </Select>
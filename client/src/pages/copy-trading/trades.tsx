@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import ExecutionAnalytics from "@/components/copy-trading/execution-analytics";
 import { apiRequest } from "@/lib/queryClient";
 import { format } from "date-fns";
 import { type CopyTrade, type CopyTradingUser } from "@shared/schema";
@@ -23,6 +24,8 @@ const getStatusBadge = (status: string) => {
       return <Badge variant="destructive">{status}</Badge>;
     case 'cancelled':
       return <Badge variant="outline">{status}</Badge>;
+    case 'skipped':
+      return <Badge variant="outline" className="border-orange-400 text-orange-600">{status}</Badge>;
     default:
       return <Badge variant="secondary">{status}</Badge>;
   }
@@ -44,6 +47,13 @@ const getExecutionDetails = (trade: any) => {
       color: 'text-red-600',
       bgColor: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
     };
+  } else if (trade.status === 'skipped') {
+    return {
+      icon: '⏭️',
+      text: 'Skipped by Risk Guardrails',
+      color: 'text-orange-600',
+      bgColor: 'bg-orange-50 dark:bg-orange-900/20 border-orange-200 dark:border-orange-800'
+    };
   } else if (trade.status === 'pending') {
     return {
       icon: '⏳',
@@ -120,6 +130,16 @@ export default function CopyTradingTradesPage() {
     }
   };
 
+  // Re-read one follower's order/position from the exchange
+  const handleReconcileTrade = async (copyTradeId: string) => {
+    try {
+      await apiRequest("POST", `/api/copy-trading/trades/${copyTradeId}/reconcile`);
+      refetch();
+    } catch (error) {
+      console.error("Copy trade reconciliation failed:", error);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="p-6">
@@ -192,6 +212,7 @@ export default function CopyTradingTradesPage() {
                   <SelectItem value="executed">Executed</SelectItem>
                   <SelectItem value="failed">Failed</SelectItem>
                   <SelectItem value="cancelled">Cancelled</SelectItem>
+                  <SelectItem value="skipped">Skipped</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -260,206 +281,294 @@ export default function CopyTradingTradesPage() {
         </Card>
       </div>
 
-      {/* Trades List */}
-      {copyTrades.length === 0 ? (
-        <Card>
-          <CardContent className="p-8 text-center">
-            <div className="space-y-4">
-              <i className="fas fa-exchange-alt text-4xl text-muted-foreground" />
-              <div>
-                <h3 className="text-lg font-semibold">No copy trades found</h3>
-                <p className="text-muted-foreground">
-                  {selectedUser !== "all" || selectedStatus !== "all" 
-                    ? "Try adjusting your filters or sync new trades."
-                    : "Copy trades will appear here once users start trading."}
-                </p>
-              </div>
-              <Button onClick={handleManualSync} variant="outline">
-                <i className="fas fa-sync mr-2" />
-                Sync New Trades
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
-      ) : (
-        <Card>
-          <CardHeader>
-            <CardTitle>Copy Trading History</CardTitle>
-            <CardDescription>
-              Showing {copyTrades.length} of {totalTrades} copy trades
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              {copyTrades.map((trade) => {
-                const executionDetails = getExecutionDetails(trade);
-                return (
-                  <div
-                    key={trade.id}
-                    className="border rounded-lg overflow-hidden hover:shadow-md transition-all duration-200"
-                    data-testid={`trade-${trade.id}`}
-                  >
-                    {/* Status Header */}
-                    <div className={`px-4 py-3 border-b ${executionDetails.bgColor}`}>
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-3">
-                          <span className="text-lg">{executionDetails.icon}</span>
-                          <div>
-                            <div className={`font-medium ${executionDetails.color}`}>
-                              {executionDetails.text}
+      <Tabs defaultValue="trades">
+        <TabsList>
+          <TabsTrigger value="trades" data-testid="tab-copy-trades">Trades</TabsTrigger>
+          <TabsTrigger value="execution" data-testid="tab-execution-quality">Execution Quality</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="trades" className="space-y-6">
+          {/* Trades List */}
+          {copyTrades.length === 0 ? (
+            <Card>
+              <CardContent className="p-8 text-center">
+                <div className="space-y-4">
+                  <i className="fas fa-exchange-alt text-4xl text-muted-foreground" />
+                  <div>
+                    <h3 className="text-lg font-semibold">No copy trades found</h3>
+                    <p className="text-muted-foreground">
+                      {selectedUser !== "all" || selectedStatus !== "all" 
+                        ? "Try adjusting your filters or sync new trades."
+                        : "Copy trades will appear here once users start trading."}
+                    </p>
+                  </div>
+                  <Button onClick={handleManualSync} variant="outline">
+                    <i className="fas fa-sync mr-2" />
+                    Sync New Trades
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle>Copy Trading History</CardTitle>
+                <CardDescription>
+                  Showing {copyTrades.length} of {totalTrades} copy trades
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {copyTrades.map((trade) => {
+                    const executionDetails = getExecutionDetails(trade);
+                    const drift = (trade.driftDetails as string[] | null) || [];
+                    return (
+                      <div
+                        key={trade.id}
+                        className="border rounded-lg overflow-hidden hover:shadow-md transition-all duration-200"
+                        data-testid={`trade-${trade.id}`}
+                      >
+                        {/* Status Header */}
+                        <div className={`px-4 py-3 border-b ${executionDetails.bgColor}`}>
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center space-x-3">
+                              <span className="text-lg">{executionDetails.icon}</span>
+                              <div>
+                                <div className={`font-medium ${executionDetails.color}`}>
+                                  {executionDetails.text}
+                                </div>
+                                <div className="text-sm text-muted-foreground">
+                                  {trade.createdAt 
+                                    ? format(new Date(trade.createdAt), 'MMM dd, yyyy HH:mm')
+                                    : 'Unknown time'
+                                  }
+                                </div>
+                              </div>
                             </div>
-                            <div className="text-sm text-muted-foreground">
-                              {trade.createdAt 
-                                ? format(new Date(trade.createdAt), 'MMM dd, yyyy HH:mm')
-                                : 'Unknown time'
-                              }
+                            <div className="text-right">
+                              {getStatusBadge(trade.status)}
                             </div>
                           </div>
                         </div>
-                        <div className="text-right">
-                          {getStatusBadge(trade.status)}
-                        </div>
-                      </div>
-                    </div>
 
-                    {/* Trade Details */}
-                    <div className="p-4 space-y-4">
-                      {/* Main Trade Information */}
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-4">
-                          <div className="flex items-center space-x-2">
-                            {trade.originalTrade?.type?.toLowerCase() === 'buy' ? (
-                              <TrendingUp className="h-5 w-5 text-green-600" />
-                            ) : (
-                              <TrendingDown className="h-5 w-5 text-red-600" />
-                            )}
-                            <div>
-                              <div className="font-semibold text-lg">
-                                {trade.originalTrade?.pair || 'Unknown Pair'}
-                              </div>
-                              <div className="text-sm text-muted-foreground">
-                                {trade.originalTrade?.type?.toUpperCase() || 'UNKNOWN'} Order
+                        {/* Trade Details */}
+                        <div className="p-4 space-y-4">
+                          {/* Main Trade Information */}
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center space-x-4">
+                              <div className="flex items-center space-x-2">
+                                {trade.originalTrade?.type?.toLowerCase() === 'buy' ? (
+                                  <TrendingUp className="h-5 w-5 text-green-600" />
+                                ) : (
+                                  <TrendingDown className="h-5 w-5 text-red-600" />
+                                )}
+                                <div>
+                                  <div className="font-semibold text-lg">
+                                    {trade.originalTrade?.pair || 'Unknown Pair'}
+                                  </div>
+                                  <div className="text-sm text-muted-foreground">
+                                    {trade.originalTrade?.type?.toUpperCase() || 'UNKNOWN'} Order
+                                  </div>
+                                </div>
                               </div>
                             </div>
-                          </div>
-                        </div>
                         
-                        <div className="text-right">
-                          <div className="text-sm text-muted-foreground">Entry Price</div>
-                          <div className="text-lg font-bold">
-                            ${trade.executedPrice || trade.originalPrice}
+                            <div className="text-right">
+                              <div className="text-sm text-muted-foreground">Entry Price</div>
+                              <div className="text-lg font-bold">
+                                ${trade.executedPrice || trade.originalPrice}
+                              </div>
+                            </div>
                           </div>
-                        </div>
-                      </div>
 
-                      {/* User Information */}
-                      <div className="bg-muted/30 rounded-lg p-3">
-                        <div className="text-sm text-muted-foreground mb-1">Copy Trader</div>
-                        <div className="font-medium">
-                          {trade.copyUser?.name || 'Unknown User'}
-                          {trade.copyUser?.telegramUsername && (
-                            <span className="ml-2 text-muted-foreground">(@{trade.copyUser.telegramUsername})</span>
-                          )}
-                        </div>
-                      </div>
-                      
-                      {/* Trade Details Grid */}
-                      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
-                        <div className="space-y-1">
-                          <div className="text-muted-foreground">Original Quantity</div>
-                          <div className="font-medium">{trade.originalQuantity}</div>
-                        </div>
-                        <div className="space-y-1">
-                          <div className="text-muted-foreground">Executed Quantity</div>
-                          <div className="font-medium">
-                            {trade.executedQuantity || (
-                              <span className="text-yellow-600">Pending</span>
-                            )}
-                          </div>
-                        </div>
-                        <div className="space-y-1">
-                          <div className="text-muted-foreground">Stop Loss</div>
-                          <div className="font-medium text-red-600">
-                            {trade.stopLossPrice ? `$${trade.stopLossPrice}` : (
-                              <span className="text-gray-400">Not set</span>
-                            )}
+                          {/* User Information */}
+                          <div className="bg-muted/30 rounded-lg p-3">
+                            <div className="text-sm text-muted-foreground mb-1">Copy Trader</div>
+                            <div className="font-medium">
+                              {trade.copyUser?.name || 'Unknown User'}
+                              {trade.copyUser?.telegramUsername && (
+                                <span className="ml-2 text-muted-foreground">(@{trade.copyUser.telegramUsername})</span>
+                              )}
+                            </div>
                           </div>
-                        </div>
-                        <div className="space-y-1">
-                          <div className="text-muted-foreground">Target</div>
-                          <div className="font-medium text-green-600">
-                            {trade.takeProfitPrice ? `$${trade.takeProfitPrice}` : (
-                              <span className="text-gray-400">Not set</span>
-                            )}
+                      
+                          {/* Trade Details Grid */}
+                          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                            <div className="space-y-1">
+                              <div className="text-muted-foreground">Original Quantity</div>
+                              <div className="font-medium">{trade.originalQuantity}</div>
+                            </div>
+                            <div className="space-y-1">
+                              <div className="text-muted-foreground">Executed Quantity</div>
+                              <div className="font-medium">
+                                {trade.executedQuantity || (
+                                  <span className="text-yellow-600">Pending</span>
+                                )}
+                              </div>
+                              {trade.remainingQuantity && (
+                                <div className="text-xs text-muted-foreground">
+                                  {trade.remainingQuantity} open after partial closes
+                                </div>
+                              )}
+                            </div>
+                            <div className="space-y-1">
+                              <div className="text-muted-foreground">Stop Loss</div>
+                              <div className="font-medium text-red-600">
+                                {trade.stopLossPrice ? `$${trade.stopLossPrice}` : (
+                                  <span className="text-gray-400">Not set</span>
+                                )}
+                              </div>
+                            </div>
+                            <div className="space-y-1">
+                              <div className="text-muted-foreground">Target</div>
+                              <div className="font-medium text-green-600">
+                                {trade.takeProfitPrice ? `$${trade.takeProfitPrice}` : (
+                                  <span className="text-gray-400">Not set</span>
+                                )}
+                              </div>
+                            </div>
+                            <div className="space-y-1">
+                              <div className="text-muted-foreground">Leverage</div>
+                              <div className="font-medium">{trade.leverage}x</div>
+                            </div>
                           </div>
-                        </div>
-                        <div className="space-y-1">
-                          <div className="text-muted-foreground">Leverage</div>
-                          <div className="font-medium">{trade.leverage}x</div>
-                        </div>
-                      </div>
 
-                      {/* Order ID for executed trades */}
-                      {trade.status === 'executed' && trade.executedTradeId && (
-                        <div className="bg-green-50 dark:bg-green-900/20 rounded-lg p-3">
-                          <div className="text-sm text-muted-foreground mb-1">Exchange Order ID</div>
-                          <div className="font-mono text-sm text-green-700 dark:text-green-300">
-                            {trade.executedTradeId}
-                          </div>
-                        </div>
-                      )}
+                          {/* Order ID for executed trades */}
+                          {trade.status === 'executed' && trade.executedTradeId && (
+                            <div className="bg-green-50 dark:bg-green-900/20 rounded-lg p-3">
+                              <div className="flex items-start justify-between">
+                                <div>
+                                  <div className="text-sm text-muted-foreground mb-1">
+                                    {trade.executedTradeId.startsWith('PAPER_') ? 'Paper Order ID' : 'Exchange Order ID'}
+                                  </div>
+                                  <div className="font-mono text-sm text-green-700 dark:text-green-300">
+                                    {trade.executedTradeId}
+                                  </div>
+                                </div>
+                                {!trade.executedTradeId.startsWith('DRY_') && (
+                                  <Button
+                                    onClick={() => handleReconcileTrade(trade.id)}
+                                    variant="outline"
+                                    size="sm"
+                                    data-testid={`button-reconcile-${trade.id}`}
+                                  >
+                                    <i className="fas fa-sync mr-2" />
+                                    Reconcile
+                                  </Button>
+                                )}
+                              </div>
+                              {(trade.orderStatus || trade.positionStatus) && (
+                                <div className="flex flex-wrap items-center gap-2 mt-3 text-xs">
+                                  {trade.orderStatus && <Badge variant="outline">order: {trade.orderStatus}</Badge>}
+                                  {trade.positionStatus && <Badge variant="outline">position: {trade.positionStatus}</Badge>}
+                                  {trade.closeReason && (
+                                    <Badge variant="secondary">closed by {trade.closeReason.replace('_', ' ')}</Badge>
+                                  )}
+                                  {trade.pnl && (
+                                    <span className={`font-medium ${Number(trade.pnl) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                      P&L {Number(trade.pnl) >= 0 ? '+' : ''}{Number(trade.pnl).toFixed(2)}
+                                    </span>
+                                  )}
+                                  {trade.lastReconciledAt && (
+                                    <span className="text-muted-foreground">
+                                      checked {format(new Date(trade.lastReconciledAt), 'MMM dd, HH:mm')}
+                                    </span>
+                                  )}
+                                </div>
+                              )}
+                            </div>
+                          )}
 
-                      {/* Error message for failed trades */}
-                      {trade.status === 'failed' && trade.errorMessage && (
-                        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
-                          <div className="text-sm font-medium text-red-800 dark:text-red-200 mb-2">
-                            <AlertCircle className="h-4 w-4 inline mr-2" />
-                            Failure Reason
-                          </div>
-                          <div className="text-sm text-red-700 dark:text-red-300">
-                            {trade.errorMessage}
-                          </div>
+                          {/* Drift between the follower's real position and the master trade */}
+                          {drift.length > 0 && (
+                            <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3">
+                              <div className="text-sm font-medium text-yellow-800 dark:text-yellow-200 mb-2">
+                                <AlertCircle className="h-4 w-4 inline mr-2" />
+                                Position Drift
+                              </div>
+                              <ul className="text-sm text-yellow-700 dark:text-yellow-300 list-disc pl-5 space-y-1">
+                                {drift.map((detail, index) => (
+                                  <li key={index}>{detail}</li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+
+                          {/* Error message for failed trades */}
+                          {trade.status === 'failed' && trade.errorMessage && (
+                            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
+                              <div className="text-sm font-medium text-red-800 dark:text-red-200 mb-2">
+                                <AlertCircle className="h-4 w-4 inline mr-2" />
+                                Failure Reason
+                              </div>
+                              <div className="text-sm text-red-700 dark:text-red-300">
+                                {trade.errorMessage}
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Guardrail that blocked a skipped copy */}
+                          {trade.status === 'skipped' && (
+                            <div className="bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded-lg p-3">
+                              <div className="text-sm font-medium text-orange-800 dark:text-orange-200 mb-2">
+                                <AlertCircle className="h-4 w-4 inline mr-2" />
+                                Skip Reason
+                                {trade.skipReason && (
+                                  <Badge variant="outline" className="ml-2 font-mono text-xs">{trade.skipReason}</Badge>
+                                )}
+                              </div>
+                              {trade.errorMessage && (
+                                <div className="text-sm text-orange-700 dark:text-orange-300">
+                                  {trade.errorMessage}
+                                </div>
+                              )}
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
-                  </div>
-                );
-              })}
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-muted-foreground">
+                Page {currentPage} of {totalPages}
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                  disabled={currentPage === 1}
+                  data-testid="button-prev-page"
+                >
+                  <i className="fas fa-chevron-left mr-2" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
+                  disabled={currentPage === totalPages}
+                  data-testid="button-next-page"
+                >
+                  Next
+                  <i className="fas fa-chevron-right ml-2" />
+                </Button>
+              </div>
             </div>
-          </CardContent>
-        </Card>
-      )}
+          )}
+        </TabsContent>
 
-      {/* Pagination */}
-      {totalPages > 1 && (
-        <div className="flex items-center justify-between">
-          <div className="text-sm text-muted-foreground">
-            Page {currentPage} of {totalPages}
-          </div>
-          <div className="flex items-center space-x-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
-              disabled={currentPage === 1}
-              data-testid="button-prev-page"
-            >
-              <i className="fas fa-chevron-left mr-2" />
-              Previous
-            </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
-              disabled={currentPage === totalPages}
-              data-testid="button-next-page"
-            >
-              Next
-              <i className="fas fa-chevron-right ml-2" />
-            </Button>
-          </div>
-        </div>
-      )}
+        <TabsContent value="execution">
+          <ExecutionAnalytics userId={selectedUser} />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
\ No newline at end of file
@@ -20,6 +20,16 @@ import { queryClient, apiRequest } from "@/lib/queryClient";
 import { insertCopyTradingUserSchema, type CopyTradingUser, type InsertCopyTradingUser } from "@shared/schema";
 import { z } from "zod";
 
+// Optional per-follower limits enforced before each copy
+const RISK_GUARDRAIL_FIELDS = [
+  { name: "maxOpenPositions", label: "Max Open Positions", step: "1" },
+  { name: "maxLeverage", label: "Leverage Ceiling (x)", step: "1" },
+  { name: "dailyLossLimit", label: "Daily Loss Limit (USDT)", step: "10" },
+  { name: "weeklyLossLimit", label: "Weekly Loss Limit (USDT)", step: "10" },
+  { name: "maxPairNotional", label: "Per-Pair Notional Cap (USDT)", step: "100" },
+  { name: "maxTotalNotional", label: "Total Notional Cap (USDT)", step: "100" },
+] as const;
+
 // Extended type for user with wallet balance information
 interface CopyTradingUserWithWallet extends CopyTradingUser {
   walletBalance?: any[] | null;
@@ -62,7 +72,14 @@ export default function CopyTradingUsersPage() {
       riskPerTrade: 2.0,
       tradeFund: 100.0,
       maxTradesPerDay: undefined,
+      maxOpenPositions: null as number | null,
+      dailyLossLimit: null as number | null,
+      weeklyLossLimit: null as number | null,
+      maxPairNotional: null as number | null,
+      maxTotalNotional: null as number | null,
+      maxLeverage: null as number | null,
       isActive: true,
+      paperTrading: false,
       sourceFilter: ['manual', 'api', 'coindcx'] as ('manual' | 'api' | 'coindcx')[],
       signalTypeFilter: ['intraday', 'swing', 'scalp', 'positional'],
       notes: "",
@@ -229,7 +246,14 @@ export default function CopyTradingUsersPage() {
       riskPerTrade: parseFloat(user.riskPerTrade),
       tradeFund: parseFloat(user.tradeFund),
       maxTradesPerDay: user.maxTradesPerDay ? parseInt(user.maxTradesPerDay.toString()) : undefined,
+      maxOpenPositions: user.maxOpenPositions ?? null,
+      dailyLossLimit: user.dailyLossLimit ? parseFloat(user.dailyLossLimit) : null,
+      weeklyLossLimit: user.weeklyLossLimit ? parseFloat(user.weeklyLossLimit) : null,
+      maxPairNotional: user.maxPairNotional ? parseFloat(user.maxPairNotional) : null,
+      maxTotalNotional: user.maxTotalNotional ? parseFloat(user.maxTotalNotional) : null,
+      maxLeverage: user.maxLeverage ?? null,
       isActive: !!user.isActive,
+      paperTrading: !!user.paperTrading,
       sourceFilter: (user.sourceFilter as ('manual' | 'api' | 'coindcx')[]) || ['manual', 'api', 'coindcx'],
       signalTypeFilter: user.signalTypeFilter || ['intraday', 'swing', 'scalp', 'positional'],
       notes: user.notes || "",
@@ -320,6 +344,12 @@ export default function CopyTradingUsersPage() {
                     <Badge variant={user.isActive ? "default" : "secondary"}>
                       {user.isActive ? "Active" : "Inactive"}
                     </Badge>
+                    {user.paperTrading && (
+                      <Badge variant="outline" data-testid={`badge-paper-${user.id}`}>
+                        <i className="fas fa-flask mr-1" />
+                        Paper
+                      </Badge>
+                    )}
                   </div>
                 </div>
                 <CardDescription>
@@ -533,7 +563,7 @@ export default function CopyTradingUsersPage() {
                       </FormControl>
                       <SelectContent>
                         <SelectItem value="coindcx">CoinDCX</SelectItem>
-                        <SelectItem value="binance" disabled>Binance (Coming Soon)</SelectItem>
+                        <SelectItem value="binance">Binance Futures</SelectItem>
                         <SelectItem value="delta" disabled>Delta Exchange (Coming Soon)</SelectItem>
                       </SelectContent>
                     </Select>
@@ -653,6 +683,40 @@ export default function CopyTradingUsersPage() {
                 )}
               />
 
+              <div className="space-y-2">
+                <Label>Risk Guardrails</Label>
+                <p className="text-sm text-muted-foreground">
+                  Copies that would break a limit are skipped and recorded. Leave empty for no limit.
+                </p>
+                <div className="grid grid-cols-2 gap-4">
+                  {RISK_GUARDRAIL_FIELDS.map((guardrail) => (
+                    <FormField
+                      key={guardrail.name}
+                      control={form.control}
+                      name={guardrail.name}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{guardrail.label}</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step={guardrail.step}
+                              min="1"
+                              placeholder="No limit"
+                              {...field}
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : null)}
+                              data-testid={`input-${guardrail.name}`}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+              </div>
+
               <FormField
                 control={form.control}
                 name="notes"
@@ -777,6 +841,28 @@ export default function CopyTradingUsersPage() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="paperTrading"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Paper Trading</FormLabel>
+                      <FormDescription>
+                        Copies go to a simulated account filled against live prices - no orders reach the exchange.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={!!field.value}
+                        onCheckedChange={field.onChange}
+                        data-testid="switch-paper-trading"
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
               <div className="flex justify-end space-x-2 pt-4">
                 <Button
                   type="button"
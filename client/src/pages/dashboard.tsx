@@ -7,11 +7,47 @@ import AutomationPage from "./automation";
 import CopyTradingUsersPage from "./copy-trading/users";
 import CopyTradingTradesPage from "./copy-trading/trades";
 import ResearchReportsPage from "./research-reports";
+import SignalSourcesPage from "./signal-sources";
+import WebhooksPage from "./webhooks";
+import JobsPage from "./jobs";
+import BacktestPage from "./backtest";
+import AuditLogPage from "./audit-log";
+import TeamPage from "./team";
+import SecurityPage from "./security";
+import { useAuth } from "@/hooks/useAuth";
+import type { Permission } from "@shared/schema";
+
+// Pages a role can't open - the sidebar hides them, this covers typed-in URLs
+const PAGE_PERMISSIONS: Record<string, Permission> = {
+  "/copy-trading/users": "copy_trading.view",
+  "/copy-trading/trades": "copy_trading.view",
+  "/templates": "messaging.view",
+  "/channels": "messaging.view",
+  "/automation": "messaging.view",
+  "/signal-sources": "integrations.view",
+  "/webhooks": "integrations.view",
+  "/jobs": "system.view",
+  "/backtest": "backtest.run",
+  "/audit-log": "audit.view",
+  "/team": "users.manage",
+};
 
 export default function Dashboard() {
   const [location] = useLocation();
+  const { can } = useAuth();
 
   const renderContent = () => {
+    const requiredPermission = location.startsWith("/research-reports") ? "research.view" : PAGE_PERMISSIONS[location];
+    if (requiredPermission && !can(requiredPermission)) {
+      return (
+        <div className="text-center py-16" data-testid="text-access-denied">
+          <i className="fas fa-lock text-4xl text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium text-foreground mb-2">No access</h3>
+          <p className="text-muted-foreground">Your role doesn't include this page - ask an owner if you need it</p>
+        </div>
+      );
+    }
+
     // Handle research report routes (now uses modal instead of separate pages)
     if (location.startsWith("/research-reports")) {
       return <ResearchReportsPage />;
@@ -28,6 +64,20 @@ export default function Dashboard() {
         return <ChannelsPage />;
       case "/automation":
         return <AutomationPage />;
+      case "/signal-sources":
+        return <SignalSourcesPage />;
+      case "/webhooks":
+        return <WebhooksPage />;
+      case "/jobs":
+        return <JobsPage />;
+      case "/backtest":
+        return <BacktestPage />;
+      case "/audit-log":
+        return <AuditLogPage />;
+      case "/team":
+        return <TeamPage />;
+      case "/security":
+        return <SecurityPage />;
       case "/trades":
       case "/":
       default:
@@ -1,28 +1,56 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Copy, Eye, EyeOff, RefreshCw } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Copy, Plus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format, formatDistanceToNow } from "date-fns";
+import { apiKeyScopes, API_KEY_SCOPE_LABELS, type ApiKeyScope, type ApiKeySummary } from "@shared/schema";
 
 interface DeveloperDocsProps {
   onBack: () => void;
 }
 
+type ApiKeyListItem = Omit<ApiKeySummary, "expiresAt" | "lastUsedAt" | "revokedAt" | "createdAt"> & {
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string | null;
+};
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+];
+
+const emptyNewKey = { name: "", scopes: ["trades:create"] as ApiKeyScope[], expiry: "90", ipAllowlist: "" };
+
+const keyStatus = (apiKey: ApiKeyListItem): { label: string; variant: "default" | "secondary" | "destructive" } => {
+  if (apiKey.revokedAt) return { label: "Revoked", variant: "destructive" };
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt) < new Date()) return { label: "Expired", variant: "secondary" };
+  return { label: "Active", variant: "default" };
+};
+
 export default function DeveloperDocsPage({ onBack }: DeveloperDocsProps) {
   const { toast } = useToast();
-  const [showApiKey, setShowApiKey] = useState(false);
+  const { can } = useAuth();
+  const [isAddingKey, setIsAddingKey] = useState(false);
+  const [newKey, setNewKey] = useState(emptyNewKey);
+  const [revealedKey, setRevealedKey] = useState<{ name: string; key: string } | null>(null);
 
-  // Fetch API key
-  const { data: apiKeyData, isLoading: apiKeyLoading, refetch: refetchApiKey } = useQuery({
-    queryKey: ["api-key"],
-    queryFn: async () => {
-      const response = await fetch("/api/developer/api-key");
-      if (!response.ok) throw new Error("Failed to fetch API key");
-      return response.json();
-    }
+  const { data: apiKeys = [], isLoading: apiKeysLoading } = useQuery<ApiKeyListItem[]>({
+    queryKey: ["/api/developer/api-keys"],
   });
 
   const copyToClipboard = (text: string) => {
@@ -33,28 +61,65 @@ export default function DeveloperDocsPage({ onBack }: DeveloperDocsProps) {
     });
   };
 
-  const generateNewApiKey = async () => {
-    try {
-      const response = await fetch("/api/developer/api-key", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+  const createKeyMutation = useMutation({
+    mutationFn: async (data: typeof newKey) => {
+      const response = await apiRequest("POST", "/api/developer/api-keys", {
+        name: data.name,
+        scopes: data.scopes,
+        ipAllowlist: data.ipAllowlist.split(/[\s,]+/).filter(Boolean),
+        expiresAt: data.expiry === "never" ? null : new Date(Date.now() + Number(data.expiry) * 24 * 60 * 60 * 1000).toISOString(),
+      });
+      return response.json() as Promise<ApiKeyListItem & { key: string }>;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/developer/api-keys"] });
+      setRevealedKey({ name: created.name, key: created.key });
+      setIsAddingKey(false);
+      setNewKey(emptyNewKey);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create API key",
+        variant: "destructive",
       });
-      if (!response.ok) throw new Error("Failed to generate API key");
-      
-      refetchApiKey();
+    },
+  });
+
+  const revokeKeyMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/developer/api-keys/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/developer/api-keys"] });
+      toast({ title: "Success", description: "API key revoked" });
+    },
+    onError: (error) => {
       toast({
-        title: "Success",
-        description: "New API key generated successfully",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke API key",
+        variant: "destructive",
       });
-    } catch (error) {
+    },
+  });
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setNewKey((prev) => ({
+      ...prev,
+      scopes: checked ? [...prev.scopes, scope] : prev.scopes.filter((existing) => existing !== scope),
+    }));
+  };
+
+  const handleCreateKey = () => {
+    if (!newKey.name.trim() || newKey.scopes.length === 0) {
       toast({
         title: "Error",
-        description: "Failed to generate new API key",
+        description: "Give the key a name and at least one scope",
         variant: "destructive",
       });
+      return;
     }
+    createKeyMutation.mutate(newKey);
   };
 
   return (
@@ -75,61 +140,192 @@ export default function DeveloperDocsPage({ onBack }: DeveloperDocsProps) {
         </p>
       </div>
 
-      {/* API Key Section */}
+      {/* Full key is shown once, right after it is created */}
+      {revealedKey && (
+        <Card className="mb-6 border-primary">
+          <CardHeader>
+            <CardTitle>New API key: {revealedKey.name}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex items-center space-x-2">
+              <Input readOnly value={revealedKey.key} className="font-mono" data-testid="input-new-api-key" />
+              <Button variant="outline" size="sm" onClick={() => copyToClipboard(revealedKey.key)} data-testid="button-copy-api-key">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Copy this key now - only a hash is stored, so it can't be shown again.
+            </p>
+            <Button variant="outline" onClick={() => setRevealedKey(null)} data-testid="button-dismiss-api-key">
+              Done
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* API Keys Section */}
       <Card className="mb-6">
-        <CardHeader>
-          <CardTitle>API Key</CardTitle>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>API Keys</CardTitle>
+          {can("integrations.manage") && !isAddingKey && (
+            <Button onClick={() => setIsAddingKey(true)} data-testid="button-add-api-key">
+              <Plus className="h-4 w-4 mr-2" />
+              New Key
+            </Button>
+          )}
         </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <div className="flex-1">
-                <label className="text-sm font-medium">Your API Key</label>
-                <div className="flex items-center space-x-2 mt-1">
-                  <div className="flex-1 p-2 bg-muted rounded border font-mono text-sm">
-                    {apiKeyLoading ? (
-                      "Loading..."
-                    ) : showApiKey ? (
-                      apiKeyData?.apiKey || "No API key found"
-                    ) : (
-                      "••••••••••••••••••••••••••••••••"
-                    )}
-                  </div>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setShowApiKey(!showApiKey)}
-                    data-testid="button-toggle-api-key"
-                  >
-                    {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => copyToClipboard(apiKeyData?.apiKey || "")}
-                    disabled={!apiKeyData?.apiKey}
-                    data-testid="button-copy-api-key"
-                  >
-                    <Copy className="h-4 w-4" />
-                  </Button>
+        <CardContent className="space-y-6">
+          {isAddingKey && (
+            <div className="space-y-4 rounded-md border border-border p-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="apiKeyName">Name *</Label>
+                  <Input
+                    id="apiKeyName"
+                    placeholder="e.g., Signal bot"
+                    value={newKey.name}
+                    onChange={(e) => setNewKey((prev) => ({ ...prev, name: e.target.value }))}
+                    data-testid="input-api-key-name"
+                  />
+                </div>
+                <div>
+                  <Label>Expires</Label>
+                  <Select value={newKey.expiry} onValueChange={(value) => setNewKey((prev) => ({ ...prev, expiry: value }))}>
+                    <SelectTrigger data-testid="select-api-key-expiry">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPIRY_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label>Scopes *</Label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-2">
+                  {apiKeyScopes.map((scope) => (
+                    <label key={scope} className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        checked={newKey.scopes.includes(scope)}
+                        onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                        data-testid={`checkbox-scope-${scope}`}
+                      />
+                      <span>
+                        <span className="font-mono">{scope}</span>
+                        <span className="text-muted-foreground"> - {API_KEY_SCOPE_LABELS[scope]}</span>
+                      </span>
+                    </label>
+                  ))}
                 </div>
               </div>
+              <div>
+                <Label htmlFor="apiKeyIpAllowlist">IP allowlist</Label>
+                <Textarea
+                  id="apiKeyIpAllowlist"
+                  placeholder={"203.0.113.7\n198.51.100.0/24"}
+                  value={newKey.ipAllowlist}
+                  onChange={(e) => setNewKey((prev) => ({ ...prev, ipAllowlist: e.target.value }))}
+                  rows={3}
+                  className="font-mono text-sm"
+                  data-testid="input-api-key-ip-allowlist"
+                />
+                <p className="text-xs text-muted-foreground mt-1">One IP or CIDR range per line - leave empty to allow any IP</p>
+              </div>
+              <div className="flex space-x-2">
+                <Button onClick={handleCreateKey} disabled={createKeyMutation.isPending} data-testid="button-save-api-key">
+                  {createKeyMutation.isPending ? "Creating..." : "Create Key"}
+                </Button>
+                <Button variant="outline" onClick={() => setIsAddingKey(false)} data-testid="button-cancel-api-key">
+                  Cancel
+                </Button>
+              </div>
             </div>
-            <div className="flex items-center space-x-2">
-              <Button
-                variant="outline"
-                onClick={generateNewApiKey}
-                disabled={apiKeyLoading}
-                data-testid="button-generate-api-key"
-              >
-                <RefreshCw className="h-4 w-4 mr-2" />
-                Generate New Key
-              </Button>
-              <Badge variant="destructive">
-                Warning: Generating a new key will invalidate the current one
-              </Badge>
+          )}
+
+          {apiKeysLoading ? (
+            <div className="text-sm text-muted-foreground">Loading...</div>
+          ) : apiKeys.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">
+              No API keys yet - create one to register trades from your own scripts
             </div>
-          </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Scopes</TableHead>
+                  <TableHead>IP Allowlist</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Last Used</TableHead>
+                  <TableHead className="text-right">Requests</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {apiKeys.map((apiKey) => {
+                  const status = keyStatus(apiKey);
+                  return (
+                    <TableRow key={apiKey.id} data-testid={`row-api-key-${apiKey.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{apiKey.name}</div>
+                        <div className="text-xs font-mono text-muted-foreground">{apiKey.keyPrefix}…</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {apiKey.scopes.map((scope) => (
+                            <Badge key={scope} variant="outline" className="font-mono text-xs">{scope}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs font-mono">
+                        {apiKey.ipAllowlist.length === 0 ? <span className="text-muted-foreground">Any</span> : apiKey.ipAllowlist.join(", ")}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {apiKey.expiresAt ? format(new Date(apiKey.expiresAt), "MMM dd, yyyy") : "Never"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {apiKey.lastUsedAt ? (
+                          <>
+                            <div>{formatDistanceToNow(new Date(apiKey.lastUsedAt), { addSuffix: true })}</div>
+                            {apiKey.lastUsedIp && <div className="text-xs text-muted-foreground font-mono">{apiKey.lastUsedIp}</div>}
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">Never</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{apiKey.requestCount}</TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {can("integrations.manage") && !apiKey.revokedAt && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              if (confirm(`Revoke API key "${apiKey.name}"? Anything using it will stop working immediately.`)) {
+                                revokeKeyMutation.mutate(apiKey.id);
+                              }
+                            }}
+                            disabled={revokeKeyMutation.isPending}
+                            data-testid={`button-revoke-api-key-${apiKey.id}`}
+                          >
+                            Revoke
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+          <p className="text-sm text-muted-foreground">
+            A key acts with your role, limited to its scopes. Requests from outside the IP allowlist get 403.
+          </p>
         </CardContent>
       </Card>
 
@@ -156,6 +352,10 @@ export default function DeveloperDocsPage({ onBack }: DeveloperDocsProps) {
                 Content-Type: application/json<br/>
                 Authorization: Bearer YOUR_API_KEY
               </div>
+              <p className="text-sm text-muted-foreground mt-2">
+                The key needs the <code>trades:create</code> scope. With <code>trades:read</code> the same key can also call
+                {" "}<code>GET /api/trades</code> and <code>GET /api/trades/:id</code>.
+              </p>
             </div>
 
             {/* Request Body */}
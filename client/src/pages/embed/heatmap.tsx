@@ -1,11 +1,11 @@
 import { useQuery } from "@tanstack/react-query";
 import { HeatmapWidget } from '@/components/embed/HeatmapWidget';
-import type { Trade } from '@shared/schema';
+import type { DailyPnl } from '@shared/schema';
 import { useEffect, useState } from 'react';
 
-interface TradeHistoryResponse {
-  trades: Trade[];
-  total: number;
+interface DailyPnlResponse {
+  days: DailyPnl[];
+  timezone: string;
 }
 
 export default function EmbedHeatmapPage() {
@@ -22,9 +22,17 @@ export default function EmbedHeatmapPage() {
   const theme = (urlParams?.get('theme') as 'light' | 'dark') || 'light';
   const clickTarget = urlParams?.get('clickTarget') || '/trade-history';
 
-  // Fetch public trade data
-  const { data, isLoading, error } = useQuery<TradeHistoryResponse>({
-    queryKey: ["/api/public/trades/completed"],
+  // Optional filters forwarded from the embed URL
+  const filterParams = new URLSearchParams();
+  ['channelId', 'signalType', 'source'].forEach(key => {
+    const value = urlParams?.get(key);
+    if (value) filterParams.set(key, value);
+  });
+  const filterQuery = filterParams.toString();
+
+  // Fetch server-side daily P&L aggregation
+  const { data, isLoading, error } = useQuery<DailyPnlResponse>({
+    queryKey: [`/api/public/trades/daily-pnl${filterQuery ? `?${filterQuery}` : ''}`],
     refetchInterval: 60000, // Refresh every minute
     enabled: urlParams !== null, // Only fetch after URL params are parsed
   });
@@ -52,11 +60,11 @@ export default function EmbedHeatmapPage() {
     );
   }
 
-  const { trades = [] } = data || {};
+  const { days = [] } = data || {};
 
   return (
     <HeatmapWidget 
-      trades={trades}
+      days={days}
       scale={scale}
       clickTarget={clickTarget}
       theme={theme}
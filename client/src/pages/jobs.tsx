@@ -0,0 +1,316 @@
+import { Fragment, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { formatDistanceToNow } from "date-fns";
+import EncryptionKeysCard from "@/components/jobs/encryption-keys-card";
+
+interface Job {
+  id: string;
+  type: string;
+  payload: Record<string, any>;
+  status: "pending" | "running" | "completed" | "dead";
+  runAt: string;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string | null;
+  completedAt?: string | null;
+  createdAt: string;
+}
+
+const JOB_TYPES: { value: string; label: string }[] = [
+  { value: "copy_trade.execute", label: "Copy trade execution" },
+  { value: "copy_trade.reconcile_lifecycle", label: "Copy trade reconciliation" },
+  { value: "webhook.retry_due", label: "Webhook retries" },
+  { value: "automation.research_report", label: "Delayed research report" },
+  { value: "wallet.refresh_all", label: "Wallet refresh" },
+  { value: "email.otp", label: "OTP email" },
+  { value: "email.application_confirmation", label: "Application confirmation email" },
+  { value: "encryption.reencrypt_all", label: "Credential re-encryption" },
+];
+
+const STAT_CARDS: { status: Job["status"]; label: string; icon: string }[] = [
+  { status: "pending", label: "Pending", icon: "fas fa-hourglass-half" },
+  { status: "running", label: "Running", icon: "fas fa-cog" },
+  { status: "dead", label: "Failed", icon: "fas fa-skull-crossbones" },
+  { status: "completed", label: "Completed (7d)", icon: "fas fa-check" },
+];
+
+const jobStatusVariant = (status: string): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case "completed":
+      return "default";
+    case "pending":
+    case "running":
+      return "secondary";
+    case "dead":
+      return "destructive";
+    default:
+      return "outline";
+  }
+};
+
+const jobTypeLabel = (type: string) => JOB_TYPES.find((jobType) => jobType.value === type)?.label || type;
+
+export default function JobsPage() {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState({ status: "all", type: "all" });
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+
+  const { data: stats = {} } = useQuery<Record<string, number>>({
+    queryKey: ["/api/jobs/stats"],
+    refetchInterval: 10000,
+  });
+
+  const { data: jobsData, isLoading } = useQuery<{ jobs: Job[]; total: number }>({
+    queryKey: ["/api/jobs", filters],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (filters.status !== "all") params.append("status", filters.status);
+      if (filters.type !== "all") params.append("type", filters.type);
+      params.append("limit", "100");
+
+      const response = await fetch(`/api/jobs?${params.toString()}`, {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    refetchInterval: 10000,
+  });
+
+  const jobs = jobsData?.jobs || [];
+
+  const invalidateJobs = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/jobs/stats"] });
+  };
+
+  const onError = (fallback: string) => (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const retryJobMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/jobs/${id}/retry`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateJobs();
+      toast({ title: "Success", description: "Job queued for retry" });
+    },
+    onError: onError("Failed to retry job"),
+  });
+
+  const discardJobMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/jobs/${id}`);
+    },
+    onSuccess: () => {
+      invalidateJobs();
+      toast({ title: "Success", description: "Job discarded" });
+    },
+    onError: onError("Failed to discard job"),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Background Jobs</h1>
+        <p className="text-muted-foreground">
+          Delayed posts, copy trade execution, wallet refreshes and emails - retried with backoff
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {STAT_CARDS.map((card) => (
+          <Card
+            key={card.status}
+            className="cursor-pointer"
+            onClick={() => setFilters((prev) => ({ ...prev, status: card.status }))}
+            data-testid={`card-jobs-${card.status}`}
+          >
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">{card.label}</p>
+                  <p className="text-2xl font-bold">{stats[card.status] || 0}</p>
+                </div>
+                <i className={`${card.icon} text-2xl text-muted-foreground`} />
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Jobs ({jobsData?.total || 0})</CardTitle>
+            <div className="flex space-x-2">
+              <Select
+                value={filters.type}
+                onValueChange={(value) => setFilters((prev) => ({ ...prev, type: value }))}
+              >
+                <SelectTrigger className="w-56" data-testid="select-job-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All job types</SelectItem>
+                  {JOB_TYPES.map((jobType) => (
+                    <SelectItem key={jobType.value} value={jobType.value}>{jobType.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={filters.status}
+                onValueChange={(value) => setFilters((prev) => ({ ...prev, status: value }))}
+              >
+                <SelectTrigger className="w-36" data-testid="select-job-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="running">Running</SelectItem>
+                  <SelectItem value="dead">Failed</SelectItem>
+                  <SelectItem value="completed">Completed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-8">
+              <i className="fas fa-inbox text-4xl text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">No jobs</h3>
+              <p className="text-muted-foreground">Nothing matches the current filters</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Run At</TableHead>
+                  <TableHead>Last Error</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <Fragment key={job.id}>
+                    <TableRow>
+                      <TableCell>
+                        <div className="font-medium">{jobTypeLabel(job.type)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          created {formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={jobStatusVariant(job.status)}>
+                          {job.status === "dead" ? "failed" : job.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{job.attempts} / {job.maxAttempts}</TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {job.status === "completed" && job.completedAt
+                          ? `done ${formatDistanceToNow(new Date(job.completedAt), { addSuffix: true })}`
+                          : formatDistanceToNow(new Date(job.runAt), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell className="text-xs text-destructive max-w-xs truncate" title={job.lastError || undefined}>
+                        {job.lastError || "-"}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setExpandedJobId(expandedJobId === job.id ? null : job.id)}
+                            data-testid={`button-job-payload-${job.id}`}
+                          >
+                            <i className="fas fa-code" />
+                          </Button>
+                          {(job.status === "dead" || job.status === "pending") && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => retryJobMutation.mutate(job.id)}
+                              disabled={retryJobMutation.isPending}
+                              data-testid={`button-retry-job-${job.id}`}
+                            >
+                              <i className="fas fa-redo mr-2" />
+                              {job.status === "dead" ? "Retry" : "Run now"}
+                            </Button>
+                          )}
+                          {job.status !== "running" && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => {
+                                if (confirm(`Discard this ${jobTypeLabel(job.type).toLowerCase()} job?`)) {
+                                  discardJobMutation.mutate(job.id);
+                                }
+                              }}
+                              disabled={discardJobMutation.isPending}
+                              data-testid={`button-discard-job-${job.id}`}
+                            >
+                              <i className="fas fa-trash" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                    {expandedJobId === job.id && (
+                      <TableRow>
+                        <TableCell colSpan={6}>
+                          <pre className="text-xs font-mono bg-muted p-3 rounded overflow-x-auto">
+                            {JSON.stringify(job.payload, null, 2)}
+                          </pre>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <EncryptionKeysCard />
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatDistanceToNow } from "date-fns";
+import type { AdminSession } from "@shared/schema";
+
+const LOW_RECOVERY_CODES = 3;
+
+export default function SecurityPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [enrollmentCode, setEnrollmentCode] = useState("");
+  // Recovery codes are only ever returned once - kept here until the admin dismisses them
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: sessions = [], isLoading: sessionsLoading } = useQuery<AdminSession[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const onError = (fallback: string) => (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup");
+      return response.json() as Promise<{ secret: string; otpauthUrl: string }>;
+    },
+    onSuccess: (result) => {
+      setEnrollment(result);
+      setEnrollmentCode("");
+      setRecoveryCodes(null);
+    },
+    onError: onError("Failed to start two-factor setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (result) => {
+      setEnrollment(null);
+      setRecoveryCodes(result.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({ title: "Success", description: "Two-factor authentication is on" });
+    },
+    onError: onError("Failed to turn on two-factor authentication"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/auth/2fa/disable");
+    },
+    onSuccess: () => {
+      setRecoveryCodes(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({ title: "Success", description: "Two-factor authentication is off" });
+    },
+    onError: onError("Failed to turn off two-factor authentication"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/recovery-codes");
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (result) => {
+      setRecoveryCodes(result.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({ title: "Success", description: "New recovery codes generated - the old ones no longer work" });
+    },
+    onError: onError("Failed to generate recovery codes"),
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/auth/sessions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Success", description: "Session signed out" });
+    },
+    onError: onError("Failed to revoke session"),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/sessions/revoke-others");
+      return response.json() as Promise<{ revoked: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Success", description: `Signed out ${result.revoked} other session${result.revoked === 1 ? "" : "s"}` });
+    },
+    onError: onError("Failed to revoke sessions"),
+  });
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    enableMutation.mutate(enrollmentCode);
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      toast({ title: "Copied", description: "Recovery codes copied to clipboard" });
+    } catch {
+      toast({ title: "Error", description: "Could not copy - select the codes and copy them manually", variant: "destructive" });
+    }
+  };
+
+  const otherSessions = sessions.filter((session) => !session.current);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Security</h1>
+        <p className="text-muted-foreground">
+          Two-factor authentication and the devices signed in to your account
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            Two-factor authentication
+            {user?.twoFactorEnabled ? (
+              <Badge className="bg-green-100 text-green-800" data-testid="badge-2fa-status">On</Badge>
+            ) : (
+              <Badge variant="secondary" data-testid="badge-2fa-status">Off</Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            Sign-in asks for a code from an authenticator app (Google Authenticator, 1Password, Authy...) after your password
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {user?.twoFactorEnabled ? (
+            <>
+              <p className="text-sm" data-testid="text-recovery-codes-remaining">
+                {user.recoveryCodesRemaining} recovery code{user.recoveryCodesRemaining === 1 ? "" : "s"} left
+                {user.recoveryCodesRemaining <= LOW_RECOVERY_CODES && (
+                  <span className="text-destructive"> - generate new ones before you run out</span>
+                )}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => regenerateMutation.mutate()}
+                  disabled={regenerateMutation.isPending}
+                  data-testid="button-regenerate-recovery-codes"
+                >
+                  <i className="fas fa-redo mr-2" />
+                  New recovery codes
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => {
+                    if (confirm("Turn off two-factor authentication? Sign-in will only need your password.")) {
+                      disableMutation.mutate();
+                    }
+                  }}
+                  disabled={disableMutation.isPending}
+                  data-testid="button-disable-2fa"
+                >
+                  Turn off
+                </Button>
+              </div>
+            </>
+          ) : enrollment ? (
+            <form onSubmit={handleEnable} className="space-y-4">
+              <div className="space-y-2">
+                <Label>1. Add this key to your authenticator app</Label>
+                <Input readOnly value={enrollment.secret} className="font-mono" data-testid="input-2fa-secret" />
+                <p className="text-xs text-muted-foreground">
+                  On a phone you can <a href={enrollment.otpauthUrl} className="underline">open it in your authenticator app</a> directly
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="enrollment-code">2. Enter the 6-digit code it shows</Label>
+                <Input
+                  id="enrollment-code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  value={enrollmentCode}
+                  onChange={(e) => setEnrollmentCode(e.target.value)}
+                  placeholder="123456"
+                  className="w-40"
+                  required
+                  data-testid="input-2fa-enrollment-code"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={enableMutation.isPending} data-testid="button-enable-2fa">
+                  {enableMutation.isPending ? "Verifying..." : "Turn on"}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setEnrollment(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-setup-2fa">
+              <i className="fas fa-shield-alt mr-2" />
+              Set up two-factor authentication
+            </Button>
+          )}
+
+          {recoveryCodes && (
+            <div className="rounded-md border border-border p-4 space-y-3" data-testid="panel-recovery-codes">
+              <p className="text-sm font-medium">
+                Save these recovery codes somewhere safe - each one signs you in once if you lose your phone. They won't be shown again.
+              </p>
+              <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                {recoveryCodes.map((code) => (
+                  <div key={code}>{code}</div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={copyRecoveryCodes} data-testid="button-copy-recovery-codes">
+                  <i className="fas fa-copy mr-2" />
+                  Copy
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setRecoveryCodes(null)}>
+                  I've saved them
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Sessions ({sessions.length})</CardTitle>
+            <CardDescription>Browsers currently signed in to your account</CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => revokeOthersMutation.mutate()}
+            disabled={revokeOthersMutation.isPending || otherSessions.length === 0}
+            data-testid="button-revoke-other-sessions"
+          >
+            Sign out other sessions
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {sessionsLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Device</TableHead>
+                  <TableHead>IP address</TableHead>
+                  <TableHead>Signed in</TableHead>
+                  <TableHead>Last active</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map((session) => (
+                  <TableRow key={session.id} data-testid={`row-session-${session.id}`}>
+                    <TableCell className="max-w-xs">
+                      <div className="text-sm truncate" title={session.userAgent || undefined}>
+                        {session.userAgent || "Unknown browser"}
+                      </div>
+                      {session.current && <Badge variant="outline" className="text-xs">This session</Badge>}
+                    </TableCell>
+                    <TableCell className="text-sm font-mono">{session.ipAddress || "-"}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {session.signedInAt ? formatDistanceToNow(new Date(session.signedInAt), { addSuffix: true }) : "-"}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {session.lastActiveAt ? formatDistanceToNow(new Date(session.lastActiveAt), { addSuffix: true }) : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!session.current && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => revokeSessionMutation.mutate(session.id)}
+                          disabled={revokeSessionMutation.isPending}
+                          data-testid={`button-revoke-session-${session.id}`}
+                        >
+                          Sign out
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,556 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { formatDistanceToNow } from "date-fns";
+
+interface SignalSource {
+  id: string;
+  name: string;
+  slug: string;
+  payloadFormat: 'json' | 'text';
+  fieldMapping: Record<string, string>;
+  sideMapping: Record<string, string>;
+  defaultSignalType: string;
+  defaultLeverage: number;
+  channelId?: string | null;
+  dedupeWindowSeconds: number;
+  isActive: boolean;
+  lastAlertAt?: string | null;
+  secretPreview: string;
+  webhookPath: string;
+  secret?: string; // Only present right after create/regenerate
+}
+
+interface SignalAlert {
+  id: string;
+  status: string;
+  dedupeKey: string;
+  payload?: string;
+  errorMessage?: string | null;
+  tradeId?: string | null;
+  createdAt: string;
+}
+
+interface Channel {
+  id: string;
+  name: string;
+}
+
+const DEFAULT_FIELD_MAPPING = JSON.stringify({
+  pair: "ticker",
+  type: "action",
+  price: "price",
+  stopLoss: "sl",
+  takeProfit1: "tp1",
+  takeProfit2: "tp2",
+  takeProfit3: "tp3",
+  alertId: "id",
+}, null, 2);
+
+const DEFAULT_SIDE_MAPPING = JSON.stringify({ long: "buy", short: "sell" }, null, 2);
+
+const emptySource = {
+  name: "",
+  slug: "",
+  payloadFormat: "json" as 'json' | 'text',
+  channelId: "",
+  defaultSignalType: "intraday",
+  defaultLeverage: "1",
+  dedupeWindowSeconds: "300",
+  fieldMapping: DEFAULT_FIELD_MAPPING,
+  sideMapping: DEFAULT_SIDE_MAPPING,
+};
+
+const alertStatusVariant = (status: string): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case "created":
+      return "default";
+    case "duplicate":
+      return "secondary";
+    case "rejected":
+    case "failed":
+      return "destructive";
+    default:
+      return "outline";
+  }
+};
+
+export default function SignalSourcesPage() {
+  const { toast } = useToast();
+  const [isAddingSource, setIsAddingSource] = useState(false);
+  const [newSource, setNewSource] = useState(emptySource);
+  const [revealedSecret, setRevealedSecret] = useState<{ name: string; url: string; secret: string } | null>(null);
+  const [selectedSourceId, setSelectedSourceId] = useState<string | null>(null);
+
+  const { data: sources = [], isLoading } = useQuery<SignalSource[]>({
+    queryKey: ["/api/signal-sources"],
+  });
+
+  const { data: channels = [] } = useQuery<Channel[]>({
+    queryKey: ["/api/channels"],
+  });
+
+  const { data: alerts = [], isLoading: alertsLoading } = useQuery<SignalAlert[]>({
+    queryKey: ["/api/signal-sources", selectedSourceId, "alerts"],
+    enabled: !!selectedSourceId,
+    refetchInterval: 15000,
+  });
+
+  const showSecret = (source: SignalSource) => {
+    if (source.secret) {
+      setRevealedSecret({
+        name: source.name,
+        url: `${window.location.origin}${source.webhookPath}`,
+        secret: source.secret,
+      });
+    }
+  };
+
+  const onError = (fallback: string) => (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createSourceMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest("POST", "/api/signal-sources", data);
+      return response.json();
+    },
+    onSuccess: (source: SignalSource) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/signal-sources"] });
+      setNewSource(emptySource);
+      setIsAddingSource(false);
+      showSecret(source);
+      toast({ title: "Success", description: "Signal source created" });
+    },
+    onError: onError("Failed to create signal source"),
+  });
+
+  const toggleSourceMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return await apiRequest("PATCH", `/api/signal-sources/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/signal-sources"] });
+    },
+    onError: onError("Failed to update signal source"),
+  });
+
+  const regenerateSecretMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/signal-sources/${id}/regenerate-secret`);
+      return response.json();
+    },
+    onSuccess: (source: SignalSource) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/signal-sources"] });
+      showSecret(source);
+      toast({ title: "Secret regenerated", description: "Update your TradingView alerts with the new secret" });
+    },
+    onError: onError("Failed to regenerate secret"),
+  });
+
+  const deleteSourceMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/signal-sources/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/signal-sources"] });
+      setSelectedSourceId(null);
+      toast({ title: "Success", description: "Signal source deleted" });
+    },
+    onError: onError("Failed to delete signal source"),
+  });
+
+  const handleAddSource = () => {
+    if (!newSource.name || !newSource.slug) {
+      toast({
+        title: "Validation Error",
+        description: "Please fill in name and slug",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    let fieldMapping: Record<string, string>;
+    let sideMapping: Record<string, string>;
+    try {
+      fieldMapping = JSON.parse(newSource.fieldMapping || "{}");
+      sideMapping = JSON.parse(newSource.sideMapping || "{}");
+    } catch {
+      toast({
+        title: "Validation Error",
+        description: "Field and side mappings must be valid JSON objects",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createSourceMutation.mutate({
+      name: newSource.name,
+      slug: newSource.slug,
+      payloadFormat: newSource.payloadFormat,
+      channelId: newSource.channelId || null,
+      defaultSignalType: newSource.defaultSignalType,
+      defaultLeverage: newSource.defaultLeverage,
+      dedupeWindowSeconds: newSource.dedupeWindowSeconds,
+      fieldMapping,
+      sideMapping,
+      isActive: true,
+    });
+  };
+
+  const selectedSource = sources.find((source) => source.id === selectedSourceId);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Signal Sources</h1>
+          <p className="text-muted-foreground">
+            TradingView alert webhooks that register trades automatically
+          </p>
+        </div>
+        <Button onClick={() => setIsAddingSource(true)} data-testid="button-add-signal-source">
+          <i className="fas fa-plus mr-2" />
+          Add Source
+        </Button>
+      </div>
+
+      {/* Secret is shown once - after create or regenerate */}
+      {revealedSecret && (
+        <Card className="border-primary">
+          <CardHeader>
+            <CardTitle>Webhook details for {revealedSecret.name}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div>
+              <Label>Webhook URL</Label>
+              <Input readOnly value={revealedSecret.url} className="font-mono" data-testid="input-webhook-url" />
+            </div>
+            <div>
+              <Label>Shared secret</Label>
+              <Input readOnly value={revealedSecret.secret} className="font-mono" data-testid="input-webhook-secret" />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Add <code>"secret": "{revealedSecret.secret.slice(0, 6)}…"</code> to the alert message (or <code>secret=…</code> for
+              plain-text alerts). This secret will not be shown again.
+            </p>
+            <Button variant="outline" onClick={() => setRevealedSecret(null)} data-testid="button-dismiss-secret">
+              Done
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Add Source Form */}
+      {isAddingSource && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Signal Source</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="sourceName">Name *</Label>
+                <Input
+                  id="sourceName"
+                  placeholder="e.g., TradingView Scalper"
+                  value={newSource.name}
+                  onChange={(e) => setNewSource((prev) => ({ ...prev, name: e.target.value }))}
+                  data-testid="input-source-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="sourceSlug">Slug *</Label>
+                <Input
+                  id="sourceSlug"
+                  placeholder="e.g., tv-scalper"
+                  value={newSource.slug}
+                  onChange={(e) => setNewSource((prev) => ({ ...prev, slug: e.target.value.toLowerCase() }))}
+                  data-testid="input-source-slug"
+                />
+              </div>
+              <div>
+                <Label>Payload Format</Label>
+                <Select
+                  value={newSource.payloadFormat}
+                  onValueChange={(value: 'json' | 'text') => setNewSource((prev) => ({ ...prev, payloadFormat: value }))}
+                >
+                  <SelectTrigger data-testid="select-payload-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="json">JSON</SelectItem>
+                    <SelectItem value="text">Plain text (key=value)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Channel</Label>
+                <Select
+                  value={newSource.channelId || "none"}
+                  onValueChange={(value) => setNewSource((prev) => ({ ...prev, channelId: value === "none" ? "" : value }))}
+                >
+                  <SelectTrigger data-testid="select-source-channel">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No channel</SelectItem>
+                    {channels.map((channel) => (
+                      <SelectItem key={channel.id} value={channel.id}>{channel.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="defaultSignalType">Default Signal Type</Label>
+                <Input
+                  id="defaultSignalType"
+                  value={newSource.defaultSignalType}
+                  onChange={(e) => setNewSource((prev) => ({ ...prev, defaultSignalType: e.target.value }))}
+                  data-testid="input-default-signal-type"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="defaultLeverage">Default Leverage</Label>
+                  <Input
+                    id="defaultLeverage"
+                    type="number"
+                    min={1}
+                    value={newSource.defaultLeverage}
+                    onChange={(e) => setNewSource((prev) => ({ ...prev, defaultLeverage: e.target.value }))}
+                    data-testid="input-default-leverage"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="dedupeWindow">Dedupe Window (s)</Label>
+                  <Input
+                    id="dedupeWindow"
+                    type="number"
+                    min={0}
+                    value={newSource.dedupeWindowSeconds}
+                    onChange={(e) => setNewSource((prev) => ({ ...prev, dedupeWindowSeconds: e.target.value }))}
+                    data-testid="input-dedupe-window"
+                  />
+                </div>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="fieldMapping">Field Mapping (trade field → payload path)</Label>
+                <Textarea
+                  id="fieldMapping"
+                  rows={10}
+                  className="font-mono text-sm"
+                  value={newSource.fieldMapping}
+                  onChange={(e) => setNewSource((prev) => ({ ...prev, fieldMapping: e.target.value }))}
+                  data-testid="textarea-field-mapping"
+                />
+              </div>
+              <div>
+                <Label htmlFor="sideMapping">Side Mapping (alert action → buy/sell)</Label>
+                <Textarea
+                  id="sideMapping"
+                  rows={10}
+                  className="font-mono text-sm"
+                  value={newSource.sideMapping}
+                  onChange={(e) => setNewSource((prev) => ({ ...prev, sideMapping: e.target.value }))}
+                  data-testid="textarea-side-mapping"
+                />
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                onClick={handleAddSource}
+                disabled={createSourceMutation.isPending}
+                data-testid="button-save-signal-source"
+              >
+                {createSourceMutation.isPending ? "Adding..." : "Add Source"}
+              </Button>
+              <Button variant="outline" onClick={() => setIsAddingSource(false)} data-testid="button-cancel-signal-source">
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Sources Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Sources ({sources.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {sources.length === 0 ? (
+            <div className="text-center py-8">
+              <i className="fas fa-satellite-dish text-4xl text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">No signal sources</h3>
+              <p className="text-muted-foreground mb-4">
+                Add a source to receive TradingView alerts as trades
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Webhook</TableHead>
+                  <TableHead>Last Alert</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sources.map((source) => (
+                  <TableRow key={source.id}>
+                    <TableCell>
+                      <div className="font-medium">{source.name}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {source.payloadFormat.toUpperCase()} · {source.defaultSignalType} · secret {source.secretPreview}
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{source.webhookPath}</TableCell>
+                    <TableCell className="text-sm">
+                      {source.lastAlertAt
+                        ? formatDistanceToNow(new Date(source.lastAlertAt), { addSuffix: true })
+                        : "Never"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          checked={source.isActive}
+                          onCheckedChange={(checked) => toggleSourceMutation.mutate({ id: source.id, isActive: checked })}
+                          disabled={toggleSourceMutation.isPending}
+                          data-testid={`toggle-source-${source.id}`}
+                        />
+                        <Badge variant={source.isActive ? "default" : "secondary"}>
+                          {source.isActive ? "Active" : "Inactive"}
+                        </Badge>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setSelectedSourceId(source.id)}
+                          data-testid={`button-alerts-${source.id}`}
+                        >
+                          <i className="fas fa-list mr-2" />
+                          Alerts
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => regenerateSecretMutation.mutate(source.id)}
+                          disabled={regenerateSecretMutation.isPending}
+                          data-testid={`button-regenerate-${source.id}`}
+                        >
+                          <i className="fas fa-key mr-2" />
+                          New Secret
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            if (confirm(`Delete signal source "${source.name}" and its alert log?`)) {
+                              deleteSourceMutation.mutate(source.id);
+                            }
+                          }}
+                          disabled={deleteSourceMutation.isPending}
+                          data-testid={`button-delete-${source.id}`}
+                        >
+                          <i className="fas fa-trash" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Alert log for the selected source */}
+      {selectedSource && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Alerts - {selectedSource.name}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {alertsLoading ? (
+              <div className="text-muted-foreground">Loading alerts...</div>
+            ) : alerts.length === 0 ? (
+              <div className="text-muted-foreground">No alerts received yet</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Received</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Payload</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {alerts.map((alert) => (
+                    <TableRow key={alert.id}>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {formatDistanceToNow(new Date(alert.createdAt), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={alertStatusVariant(alert.status)}>{alert.status}</Badge>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs max-w-md truncate" title={alert.payload}>
+                        {alert.payload}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {alert.errorMessage || (alert.tradeId ? `Trade ${alert.tradeId.slice(0, 8)}` : "-")}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
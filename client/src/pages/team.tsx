@@ -0,0 +1,342 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { format, formatDistanceToNow } from "date-fns";
+import { ROLE_LABELS, ROLE_PERMISSIONS, userRoles, type AdminUserProfile, type UserInvite, type UserRole } from "@shared/schema";
+
+type TeamMember = Omit<AdminUserProfile, "createdAt"> & { createdAt: string | null };
+type PendingInvite = Omit<UserInvite, "tokenHash" | "expiresAt" | "createdAt" | "acceptedAt"> & {
+  expiresAt: string;
+  createdAt: string | null;
+};
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  owner: "Everything, including team members and roles",
+  trader: "Trades, copy trading, messaging, integrations and system - no team management",
+  analyst: "Research reports and backtests, read-only trades and messaging",
+  support: "Copy trading followers and applications, read-only trades and messaging",
+  read_only: "Can view every page, cannot change anything",
+};
+
+export default function TeamPage() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [inviteForm, setInviteForm] = useState<{ email: string; role: UserRole; sendEmail: boolean }>({
+    email: "",
+    role: "analyst",
+    sendEmail: true,
+  });
+  const [lastInviteUrl, setLastInviteUrl] = useState<string | null>(null);
+
+  const { data: members = [], isLoading: membersLoading } = useQuery<TeamMember[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const { data: invites = [] } = useQuery<PendingInvite[]>({
+    queryKey: ["/api/admin/invites"],
+  });
+
+  const onError = (fallback: string) => (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }) => {
+      const response = await apiRequest("PATCH", `/api/admin/users/${id}/role`, { role });
+      return response.json();
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      if (id === currentUser?.id) {
+        queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      }
+      toast({ title: "Success", description: "Role updated" });
+    },
+    onError: onError("Failed to update role"),
+  });
+
+  const removeUserMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/admin/users/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({ title: "Success", description: "Team member removed" });
+    },
+    onError: onError("Failed to remove team member"),
+  });
+
+  const createInviteMutation = useMutation({
+    mutationFn: async (data: typeof inviteForm) => {
+      const response = await apiRequest("POST", "/api/admin/invites", data);
+      return response.json() as Promise<{ inviteUrl: string; emailSent: boolean }>;
+    },
+    onSuccess: (result, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invites"] });
+      setLastInviteUrl(result.inviteUrl);
+      setInviteForm((prev) => ({ ...prev, email: "" }));
+      toast({
+        title: "Invite created",
+        description: result.emailSent
+          ? `Invite emailed to ${variables.email}`
+          : variables.sendEmail
+            ? "The email could not be sent - copy the link below and share it yourself"
+            : "Copy the link below and share it with your teammate",
+        variant: variables.sendEmail && !result.emailSent ? "destructive" : "default",
+      });
+    },
+    onError: onError("Failed to create invite"),
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/admin/invites/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invites"] });
+      toast({ title: "Success", description: "Invite revoked" });
+    },
+    onError: onError("Failed to revoke invite"),
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    createInviteMutation.mutate(inviteForm);
+  };
+
+  const copyInviteUrl = async () => {
+    if (!lastInviteUrl) return;
+    try {
+      await navigator.clipboard.writeText(lastInviteUrl);
+      toast({ title: "Copied", description: "Invite link copied to clipboard" });
+    } catch {
+      toast({ title: "Error", description: "Could not copy - select the link and copy it manually", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Team</h1>
+        <p className="text-muted-foreground">
+          Who can sign in to the dashboard and what each role is allowed to do
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Invite a team member</CardTitle>
+          <CardDescription>Invite links work once and expire after 7 days</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleInvite} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={inviteForm.email}
+                onChange={(e) => setInviteForm((prev) => ({ ...prev, email: e.target.value }))}
+                placeholder="teammate@example.com"
+                required
+                data-testid="input-invite-email"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select
+                value={inviteForm.role}
+                onValueChange={(value) => setInviteForm((prev) => ({ ...prev, role: value as UserRole }))}
+              >
+                <SelectTrigger data-testid="select-invite-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {userRoles.map((role) => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={createInviteMutation.isPending} data-testid="button-send-invite">
+              <i className="fas fa-paper-plane mr-2" />
+              {createInviteMutation.isPending ? "Inviting..." : "Invite"}
+            </Button>
+          </form>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="invite-send-email"
+              checked={inviteForm.sendEmail}
+              onCheckedChange={(checked) => setInviteForm((prev) => ({ ...prev, sendEmail: checked }))}
+              data-testid="switch-invite-send-email"
+            />
+            <Label htmlFor="invite-send-email" className="text-sm font-normal">Email the invite link</Label>
+          </div>
+          <p className="text-sm text-muted-foreground">{ROLE_DESCRIPTIONS[inviteForm.role]}</p>
+
+          {lastInviteUrl && (
+            <div className="flex items-center gap-2 rounded-md border border-border p-3">
+              <Input readOnly value={lastInviteUrl} className="font-mono text-xs" data-testid="input-invite-url" />
+              <Button variant="outline" size="sm" onClick={copyInviteUrl} data-testid="button-copy-invite-url">
+                <i className="fas fa-copy" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Members ({members.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {membersLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map((member) => (
+                  <TableRow key={member.id} data-testid={`row-team-member-${member.id}`}>
+                    <TableCell>
+                      <div className="font-medium">
+                        {[member.firstName, member.lastName].filter(Boolean).join(" ") || member.username}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        @{member.username}
+                        {member.id === currentUser?.id && <Badge variant="outline" className="ml-2 text-xs">You</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">{member.email || "-"}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => updateRoleMutation.mutate({ id: member.id, role: value as UserRole })}
+                        disabled={updateRoleMutation.isPending}
+                      >
+                        <SelectTrigger className="w-36" data-testid={`select-role-${member.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {userRoles.map((role) => (
+                            <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {ROLE_PERMISSIONS[member.role as UserRole]?.length || 0} permissions
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {member.createdAt ? format(new Date(member.createdAt), "MMM dd, yyyy") : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {member.id !== currentUser?.id && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            if (confirm(`Remove ${member.username} from the dashboard?`)) {
+                              removeUserMutation.mutate(member.id);
+                            }
+                          }}
+                          disabled={removeUserMutation.isPending}
+                          data-testid={`button-remove-member-${member.id}`}
+                        >
+                          <i className="fas fa-user-minus" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pending Invites ({invites.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {invites.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">No pending invites</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invites.map((invite) => (
+                  <TableRow key={invite.id} data-testid={`row-invite-${invite.id}`}>
+                    <TableCell className="text-sm">{invite.email}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{ROLE_LABELS[invite.role as UserRole] || invite.role}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDistanceToNow(new Date(invite.expiresAt), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => revokeInviteMutation.mutate(invite.id)}
+                        disabled={revokeInviteMutation.isPending}
+                        data-testid={`button-revoke-invite-${invite.id}`}
+                      >
+                        Revoke
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { isUnauthorizedError } from "@/lib/authUtils";
 import { Button } from "@/components/ui/button";
 import { Plus, MessageSquare } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import type { TemplateLocale } from "@shared/templateEngine";
 
 export default function TemplatesPage() {
   const { toast } = useToast();
@@ -26,6 +27,8 @@ export default function TemplatesPage() {
     buttons: [] as any[][],
     parseMode: "HTML",
     imageUrl: "",
+    templateType: "trade",
+    locale: "english" as TemplateLocale,
   });
 
   const { data: templatesData, refetch: refetchTemplates, error: templatesError } = useQuery({
@@ -51,12 +54,14 @@ export default function TemplatesPage() {
     return null;
   }
 
-  const handleTemplateChange = (template: string, buttons?: any[][], parseMode?: string, imageUrl?: string) => {
+  const handleTemplateChange = (template: string, buttons?: any[][], parseMode?: string, imageUrl?: string, templateType?: string, locale?: TemplateLocale) => {
     setPreviewData({ 
       template, 
       buttons: buttons || [],
       parseMode: parseMode || "HTML",
       imageUrl: imageUrl || "",
+      templateType: templateType || "trade",
+      locale: locale || "english",
     });
   };
 
@@ -67,6 +72,8 @@ export default function TemplatesPage() {
       buttons: template.buttons || [],
       parseMode: template.parseMode || "HTML",
       imageUrl: template.imageUrl || "",
+      templateType: template.templateType || "trade",
+      locale: "english",
     });
   };
 
@@ -138,6 +145,8 @@ export default function TemplatesPage() {
                     buttons={previewData.buttons}
                     parseMode={previewData.parseMode}
                     imageUrl={previewData.imageUrl}
+                    templateType={previewData.templateType}
+                    locale={previewData.locale}
                   />
                 </div>
               </DialogContent>
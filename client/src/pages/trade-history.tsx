@@ -9,7 +9,7 @@ import { Calendar, Star, TrendingUp, TrendingDown, Filter, ExternalLink } from "
 import campusLogo from "@assets/6208450096694152058_1758021301213.jpg";
 import { YearlyPnLHeatmap } from '@/components/calendar/YearlyPnLHeatmap';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Trade, TargetStatusV2 } from "@shared/schema";
+import { Trade, TargetStatusV2, DailyPnl } from "@shared/schema";
 
 type TradeWithGainLoss = Trade & {
   gainLoss?: {
@@ -23,6 +23,11 @@ interface TradeHistoryResponse {
   total: number;
 }
 
+interface DailyPnlResponse {
+  days: DailyPnl[];
+  timezone: string;
+}
+
 type FilterType = 'all' | 'today' | 'yesterday' | 'this_week' | 'this_month' | 'custom';
 
 export default function TradeHistoryPage() {
@@ -34,6 +39,11 @@ export default function TradeHistoryPage() {
     refetchInterval: 30000, // Refresh every 30 seconds
   });
 
+  const { data: dailyPnlData } = useQuery<DailyPnlResponse>({
+    queryKey: ["/api/public/trades/daily-pnl"],
+    refetchInterval: 60000,
+  });
+
   const { trades = [], total = 0 } = data || {};
   
   // Enhanced filtering logic based on filter type
@@ -257,7 +267,7 @@ export default function TradeHistoryPage() {
         
         {/* Yearly P&L Heatmap */}
         <YearlyPnLHeatmap 
-          trades={trades || []} 
+          days={dailyPnlData?.days || []} 
           className="mb-6"
         />
         
@@ -10,12 +10,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Plus, Code } from "lucide-react";
 
 export default function TradesPage() {
   const { toast } = useToast();
+  const { can } = useAuth();
   const [selectedTrade, setSelectedTrade] = useState<any>(null);
   const [showCreateTrade, setShowCreateTrade] = useState(false);
   const [showDeveloper, setShowDeveloper] = useState(false);
@@ -177,30 +179,36 @@ export default function TradesPage() {
             </div>
             
             <div className="flex space-x-2">
-              <Button 
-                onClick={() => setShowCreateTrade(true)}
-                data-testid="button-create-trade"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Create Trade
-              </Button>
-              <Button 
-                variant="outline"
-                onClick={() => setShowDeveloper(true)}
-                data-testid="button-developer"
-              >
-                <Code className="h-4 w-4 mr-2" />
-                Developer
-              </Button>
-              <Button 
-                variant="outline" 
-                onClick={handleSync} 
-                disabled={syncMutation.isPending}
-                data-testid="button-sync"
-              >
-                <i className={`fas fa-sync -ml-1 mr-2 h-4 w-4 ${syncMutation.isPending ? 'animate-spin' : ''}`} />
-                {syncMutation.isPending ? 'Syncing...' : 'Sync'}
-              </Button>
+              {can("trades.manage") && (
+                <Button 
+                  onClick={() => setShowCreateTrade(true)}
+                  data-testid="button-create-trade"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Trade
+                </Button>
+              )}
+              {can("integrations.view") && (
+                <Button 
+                  variant="outline"
+                  onClick={() => setShowDeveloper(true)}
+                  data-testid="button-developer"
+                >
+                  <Code className="h-4 w-4 mr-2" />
+                  Developer
+                </Button>
+              )}
+              {can("trades.manage") && (
+                <Button 
+                  variant="outline" 
+                  onClick={handleSync} 
+                  disabled={syncMutation.isPending}
+                  data-testid="button-sync"
+                >
+                  <i className={`fas fa-sync -ml-1 mr-2 h-4 w-4 ${syncMutation.isPending ? 'animate-spin' : ''}`} />
+                  {syncMutation.isPending ? 'Syncing...' : 'Sync'}
+                </Button>
+              )}
             </div>
           </div>
         </CardContent>
@@ -10,18 +10,23 @@ import campusLogo from "@assets/6208450096694152058_1758021301213.jpg";
 import { UserTradeHistory } from "./user-trade-history";
 import { UserAccountSettings } from "./user-account-settings";
 
-interface CopyTradingUser {
+export interface CopyTradingUser {
   id: string;
   name: string;
   email: string;
   exchange: string;
   riskPerTrade: string;
   tradeFund: string;
-  maxTradesPerDay?: number;
+  maxTradesPerDay?: number | null;
   isActive: boolean;
+  copyingPaused: boolean;
+  paperTrading: boolean;
   lowFund: boolean;
   futuresWalletBalance: string;
-  notes?: string;
+  sourceFilter: string[] | null;
+  signalTypeFilter: string[] | null;
+  notes?: string | null;
+  apiKeyHint: string;
   createdAt: string;
 }
 
@@ -38,15 +43,18 @@ export default function UserAccessPage() {
   const [otpTimer, setOtpTimer] = useState(0);
   const [copyTradingUser, setCopyTradingUser] = useState<CopyTradingUser | null>(null);
 
-  // Check if user is already logged in
+  // Resume an existing follower session (cookie set by verify-otp)
   useEffect(() => {
-    const savedEmail = localStorage.getItem('userEmail');
-    const savedAccount = localStorage.getItem('copyTradingUser');
-    if (savedEmail && savedAccount) {
-      setEmail(savedEmail);
-      setCopyTradingUser(JSON.parse(savedAccount));
-      setCurrentView('dashboard');
-    }
+    fetch('/api/user-access/profile')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (data?.success && data.profile) {
+          setEmail(data.profile.email);
+          setCopyTradingUser(data.profile);
+          setCurrentView('dashboard');
+        }
+      })
+      .catch(() => {});
   }, []);
 
   // OTP timer countdown
@@ -122,8 +130,6 @@ export default function UserAccessPage() {
       const data = await response.json();
 
       if (data.success && data.copyTradingUser) {
-        localStorage.setItem('userEmail', email);
-        localStorage.setItem('copyTradingUser', JSON.stringify(data.copyTradingUser));
         setCopyTradingUser(data.copyTradingUser);
         setCurrentView('dashboard');
         toast({
@@ -144,9 +150,8 @@ export default function UserAccessPage() {
     }
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('userEmail');
-    localStorage.removeItem('copyTradingUser');
+  const handleLogout = async () => {
+    await fetch('/api/user-access/logout', { method: 'POST' }).catch(() => {});
     setCopyTradingUser(null);
     setCurrentView('login');
     setStep('email');
@@ -158,6 +163,18 @@ export default function UserAccessPage() {
     });
   };
 
+  const handleSessionExpired = () => {
+    setCopyTradingUser(null);
+    setCurrentView('login');
+    setStep('email');
+    setOtp('');
+    toast({
+      title: "Session Expired",
+      description: "Please sign in again with a new verification code.",
+      variant: "destructive",
+    });
+  };
+
   const formatTimer = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -170,6 +187,7 @@ export default function UserAccessPage() {
       <UserTradeHistory 
         copyTradingUser={copyTradingUser} 
         onBack={() => setCurrentView('dashboard')} 
+        onSessionExpired={handleSessionExpired}
       />
     );
   }
@@ -179,6 +197,8 @@ export default function UserAccessPage() {
       <UserAccountSettings 
         copyTradingUser={copyTradingUser} 
         onBack={() => setCurrentView('dashboard')} 
+        onProfileChange={setCopyTradingUser}
+        onSessionExpired={handleSessionExpired}
       />
     );
   }
@@ -206,6 +226,11 @@ export default function UserAccessPage() {
             <p className="text-sm text-blue-600 dark:text-blue-400 mt-1" data-testid="text-brand">
               Campus For Wisdom Trading Community
             </p>
+            {copyTradingUser.copyingPaused && (
+              <p className="text-sm text-orange-600 dark:text-orange-400 mt-2" data-testid="text-copying-paused">
+                Copying is paused - new trades won't be copied to your account
+              </p>
+            )}
           </div>
 
           {/* Quick Actions */}
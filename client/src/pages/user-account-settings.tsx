@@ -6,97 +6,188 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, User, Mail, Phone, Calendar, CheckCircle, Edit, Save, Shield, X } from 'lucide-react';
+import { ArrowLeft, User, Mail, Calendar, CheckCircle, Edit, Save, Shield, X, Key, PauseCircle } from 'lucide-react';
 import { format } from 'date-fns';
-
-interface CopyTradingUser {
-  id: string;
-  name: string;
-  email: string;
-  exchange: string;
-  riskPerTrade: string;
-  tradeFund: string;
-  maxTradesPerDay?: number;
-  isActive: boolean;
-  lowFund: boolean;
-  futuresWalletBalance: string;
-  notes?: string;
-  createdAt: string;
-}
+import type { CopyTradingUser } from './user-access';
 
 interface UserAccountSettingsProps {
   copyTradingUser: CopyTradingUser;
   onBack: () => void;
+  onProfileChange: (profile: CopyTradingUser) => void;
+  onSessionExpired: () => void;
+}
+
+interface AuditLog {
+  id: string;
+  action: string;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  ipAddress: string | null;
+  createdAt: string;
 }
 
-export function UserAccountSettings({ copyTradingUser, onBack }: UserAccountSettingsProps) {
+const SOURCE_OPTIONS = [
+  { value: 'manual', label: 'Manual' },
+  { value: 'api', label: 'API' },
+  { value: 'coindcx', label: 'CoinDCX' },
+];
+
+const SIGNAL_TYPE_OPTIONS = [
+  { value: 'intraday', label: 'Intraday' },
+  { value: 'swing', label: 'Swing' },
+  { value: 'scalp', label: 'Scalp' },
+  { value: 'positional', label: 'Positional' },
+];
+
+const ACTION_LABELS: Record<string, string> = {
+  login: 'Signed in',
+  logout: 'Signed out',
+  settings_updated: 'Settings updated',
+  credentials_rotated: 'API keys changed',
+  copying_paused: 'Copying paused',
+  copying_resumed: 'Copying resumed',
+};
+
+const toEditForm = (profile: CopyTradingUser) => ({
+  name: profile.name || '',
+  notes: profile.notes || '',
+  riskPerTrade: profile.riskPerTrade ? String(parseFloat(profile.riskPerTrade)) : '',
+  tradeFund: profile.tradeFund ? String(parseFloat(profile.tradeFund)) : '',
+  maxTradesPerDay: profile.maxTradesPerDay ? String(profile.maxTradesPerDay) : '',
+  sourceFilter: profile.sourceFilter || SOURCE_OPTIONS.map(option => option.value),
+  signalTypeFilter: profile.signalTypeFilter || SIGNAL_TYPE_OPTIONS.map(option => option.value),
+});
+
+export function UserAccountSettings({ copyTradingUser, onBack, onProfileChange, onSessionExpired }: UserAccountSettingsProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isEditing, setIsEditing] = useState(false);
-  const [editForm, setEditForm] = useState({
-    name: copyTradingUser.name || '',
-    notes: copyTradingUser.notes || '',
-  });
+  const [editForm, setEditForm] = useState(() => toEditForm(copyTradingUser));
+  const [credentialsForm, setCredentialsForm] = useState({ apiKey: '', apiSecret: '' });
+
+  // All follower endpoints are scoped to the session cookie - a 401 means it expired
+  const followerRequest = async (method: string, url: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (response.status === 401) {
+      onSessionExpired();
+      throw new Error('Session expired');
+    }
+    const data = await response.json();
+    if (!response.ok || data.success === false) {
+      throw new Error(data.errors?.[0]?.message || data.message || 'Request failed');
+    }
+    return data;
+  };
 
   const { data: profileData, isLoading, error } = useQuery({
-    queryKey: ['copy-trading-profile', copyTradingUser.email],
-    queryFn: async () => {
-      const response = await fetch(`/api/user-access/profile/${encodeURIComponent(copyTradingUser.email)}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch profile');
-      }
-      return response.json();
-    },
+    queryKey: ['copy-trading-profile', copyTradingUser.id],
+    queryFn: () => followerRequest('GET', '/api/user-access/profile'),
     initialData: { success: true, profile: copyTradingUser },
   });
 
+  const { data: activityData } = useQuery({
+    queryKey: ['copy-trading-activity', copyTradingUser.id],
+    queryFn: () => followerRequest('GET', '/api/user-access/activity'),
+  });
+
+  const profile: CopyTradingUser | undefined = profileData?.profile;
+  const activity: AuditLog[] = activityData?.logs || [];
+
+  const applyProfile = (updated: CopyTradingUser) => {
+    queryClient.setQueryData(['copy-trading-profile', copyTradingUser.id], { success: true, profile: updated });
+    queryClient.invalidateQueries({ queryKey: ['copy-trading-activity', copyTradingUser.id] });
+    onProfileChange(updated);
+  };
+
+  const onMutationError = (title: string) => (error: Error) => {
+    if (error.message === 'Session expired') return;
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+      duration: 3000,
+    });
+  };
+
   const updateProfileMutation = useMutation({
-    mutationFn: async (updatedData: typeof editForm) => {
-      const response = await fetch(`/api/user-access/profile/${encodeURIComponent(copyTradingUser.email)}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(updatedData),
-      });
-      if (!response.ok) {
-        throw new Error('Failed to update profile');
-      }
-      return response.json();
-    },
-    onSuccess: () => {
+    mutationFn: (form: typeof editForm) => followerRequest('PATCH', '/api/user-access/profile', {
+      name: form.name,
+      notes: form.notes || null,
+      riskPerTrade: form.riskPerTrade,
+      tradeFund: form.tradeFund,
+      maxTradesPerDay: form.maxTradesPerDay ? form.maxTradesPerDay : null,
+      sourceFilter: form.sourceFilter,
+      signalTypeFilter: form.signalTypeFilter,
+    }),
+    onSuccess: (data) => {
       toast({
-        title: "Profile Updated",
-        description: "Your profile information has been updated successfully.",
+        title: "Settings Updated",
+        description: data.message === 'No changes' ? "Nothing to update." : "Your copy trading settings have been updated.",
         duration: 3000,
       });
       setIsEditing(false);
-      queryClient.invalidateQueries({ queryKey: ['copy-trading-profile', copyTradingUser.email] });
+      applyProfile(data.profile);
     },
-    onError: () => {
+    onError: onMutationError("Update Failed"),
+  });
+
+  const rotateCredentialsMutation = useMutation({
+    mutationFn: (credentials: typeof credentialsForm) => followerRequest('POST', '/api/user-access/credentials', credentials),
+    onSuccess: (data) => {
       toast({
-        title: "Update Failed",
-        description: "Failed to update your profile. Please try again.",
-        variant: "destructive",
+        title: "API Keys Updated",
+        description: "Your new exchange API keys were verified and saved.",
         duration: 3000,
       });
+      setCredentialsForm({ apiKey: '', apiSecret: '' });
+      applyProfile(data.profile);
     },
+    onError: onMutationError("API Key Update Failed"),
   });
 
-  const handleSave = () => {
-    updateProfileMutation.mutate(editForm);
-  };
+  const pauseMutation = useMutation({
+    mutationFn: (paused: boolean) => followerRequest('POST', '/api/user-access/pause', { paused }),
+    onSuccess: (data) => {
+      toast({
+        title: data.message,
+        description: data.profile.copyingPaused
+          ? "New trades won't be copied until you resume."
+          : "New trades will be copied to your account again.",
+        duration: 3000,
+      });
+      applyProfile(data.profile);
+    },
+    onError: onMutationError("Update Failed"),
+  });
 
   const handleCancel = () => {
-    setEditForm({
-      name: profileData?.profile?.name || '',
-      notes: profileData?.profile?.notes || '',
-    });
+    if (profile) {
+      setEditForm(toEditForm(profile));
+    }
     setIsEditing(false);
   };
 
-  const profile = profileData?.profile;
+  const toggleListValue = (field: 'sourceFilter' | 'signalTypeFilter', value: string, checked: boolean) => {
+    setEditForm(prev => ({
+      ...prev,
+      [field]: checked ? [...prev[field], value] : prev[field].filter(v => v !== value),
+    }));
+  };
+
+  const describeChanges = (changes: AuditLog['changes']) => {
+    if (!changes) return null;
+    return Object.entries(changes)
+      .map(([field, change]) => `${field}: ${Array.isArray(change.from) ? change.from.join(', ') : change.from ?? '-'} → ${Array.isArray(change.to) ? change.to.join(', ') : change.to ?? '-'}`)
+      .join('; ');
+  };
+
+  const readOnlyClass = "bg-gray-50 dark:bg-gray-800";
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -137,9 +228,9 @@ export function UserAccountSettings({ copyTradingUser, onBack }: UserAccountSett
       </div>
 
       {/* Content */}
-      <div className="max-w-2xl mx-auto px-4 py-6 sm:px-6">
+      <div className="max-w-2xl mx-auto px-4 py-6 sm:px-6 space-y-6">
         {error && (
-          <Card className="mb-6 border-red-200 dark:border-red-800" data-testid="card-error">
+          <Card className="border-red-200 dark:border-red-800" data-testid="card-error">
             <CardContent className="pt-6">
               <div className="flex items-center space-x-2 text-red-600 dark:text-red-400">
                 <span className="text-sm">Failed to load profile information. Please try again.</span>
@@ -149,7 +240,7 @@ export function UserAccountSettings({ copyTradingUser, onBack }: UserAccountSett
         )}
 
         {/* Account Status */}
-        <Card className="mb-6" data-testid="card-status">
+        <Card data-testid="card-status">
           <CardHeader>
             <CardTitle className="flex items-center space-x-2">
               <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400" />
@@ -164,6 +255,14 @@ export function UserAccountSettings({ copyTradingUser, onBack }: UserAccountSett
                   <Badge className={`${profile?.isActive ? 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400' : 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400'}`} data-testid="badge-account-status">
                     {profile?.isActive ? 'Active' : 'Inactive'}
                   </Badge>
+                  {profile?.copyingPaused && (
+                    <Badge variant="outline" className="text-orange-600 border-orange-300" data-testid="badge-copying-paused">
+                      Paused
+                    </Badge>
+                  )}
+                  {profile?.paperTrading && (
+                    <Badge variant="outline" data-testid="badge-paper-trading">Paper</Badge>
+                  )}
                 </div>
               </div>
               <div className="text-right">
@@ -176,24 +275,60 @@ export function UserAccountSettings({ copyTradingUser, onBack }: UserAccountSett
           </CardContent>
         </Card>
 
-        {/* Profile Information */}
+        {/* Pause Copying */}
+        <Card data-testid="card-copying">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <PauseCircle className="h-5 w-5" />
+              <span>Copy Trading</span>
+            </CardTitle>
+            <CardDescription>
+              Pause to stop new trades being copied. Positions already open are not closed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  {profile?.copyingPaused ? 'Copying paused' : 'Copying new trades'}
+                </p>
+                {!profile?.isActive && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Your account is disabled by the admin - resuming won't copy trades until it is re-enabled
+                  </p>
+                )}
+              </div>
+              <Switch
+                checked={!profile?.copyingPaused}
+                onCheckedChange={(checked) => pauseMutation.mutate(!checked)}
+                disabled={pauseMutation.isPending}
+                data-testid="switch-copying"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Profile & Trading Settings */}
         <Card data-testid="card-profile">
           <CardHeader>
             <div className="flex items-center justify-between">
               <div>
                 <CardTitle className="flex items-center space-x-2">
                   <User className="h-5 w-5" />
-                  <span>Profile Information</span>
+                  <span>Profile & Trading Settings</span>
                 </CardTitle>
                 <CardDescription>
-                  Manage your personal information and contact details
+                  How much you risk per trade and which signals are copied
                 </CardDescription>
               </div>
               {!isEditing ? (
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setIsEditing(true)}
+                  onClick={() => {
+                    if (profile) setEditForm(toEditForm(profile));
+                    setIsEditing(true);
+                  }}
                   className="flex items-center space-x-1"
                   data-testid="button-edit"
                 >
@@ -215,7 +350,7 @@ export function UserAccountSettings({ copyTradingUser, onBack }: UserAccountSett
                   </Button>
                   <Button
                     size="sm"
-                    onClick={handleSave}
+                    onClick={() => updateProfileMutation.mutate(editForm)}
                     disabled={updateProfileMutation.isPending}
                     className="flex items-center space-x-1"
                     data-testid="button-save"
@@ -228,7 +363,7 @@ export function UserAccountSettings({ copyTradingUser, onBack }: UserAccountSett
             </div>
           </CardHeader>
           <CardContent>
-            {isLoading ? (
+            {isLoading || !profile ? (
               <div className="space-y-6">
                 {[...Array(4)].map((_, i) => (
                   <div key={i} className="space-y-2">
@@ -248,9 +383,9 @@ export function UserAccountSettings({ copyTradingUser, onBack }: UserAccountSett
                   <Input
                     id="email"
                     type="email"
-                    value={profile?.email || ''}
+                    value={profile.email || ''}
                     disabled
-                    className="bg-gray-50 dark:bg-gray-800"
+                    className={readOnlyClass}
                     data-testid="input-email"
                   />
                   <p className="text-xs text-gray-500 dark:text-gray-400">
@@ -261,25 +396,16 @@ export function UserAccountSettings({ copyTradingUser, onBack }: UserAccountSett
                 {/* Name */}
                 <div className="space-y-2">
                   <Label htmlFor="name">Full Name</Label>
-                  {isEditing ? (
-                    <Input
-                      id="name"
-                      type="text"
-                      value={editForm.name}
-                      onChange={(e) => setEditForm(prev => ({ ...prev, name: e.target.value }))}
-                      placeholder="Enter your full name"
-                      data-testid="input-name"
-                    />
-                  ) : (
-                    <Input
-                      id="name"
-                      type="text"
-                      value={copyTradingUser?.name || 'Not set'}
-                      disabled
-                      className="bg-gray-50 dark:bg-gray-800"
-                      data-testid="display-name"
-                    />
-                  )}
+                  <Input
+                    id="name"
+                    type="text"
+                    value={isEditing ? editForm.name : profile.name || 'Not set'}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, name: e.target.value }))}
+                    disabled={!isEditing}
+                    className={isEditing ? undefined : readOnlyClass}
+                    placeholder="Enter your full name"
+                    data-testid="input-name"
+                  />
                 </div>
 
                 {/* Exchange */}
@@ -288,9 +414,9 @@ export function UserAccountSettings({ copyTradingUser, onBack }: UserAccountSett
                   <Input
                     id="exchange"
                     type="text"
-                    value={copyTradingUser?.exchange || 'Not set'}
+                    value={profile.exchange || 'Not set'}
                     disabled
-                    className="bg-gray-50 dark:bg-gray-800"
+                    className={readOnlyClass}
                     data-testid="display-exchange"
                   />
                 </div>
@@ -301,22 +427,28 @@ export function UserAccountSettings({ copyTradingUser, onBack }: UserAccountSett
                     <Label htmlFor="riskPerTrade">Risk Per Trade (%)</Label>
                     <Input
                       id="riskPerTrade"
-                      type="text"
-                      value={copyTradingUser?.riskPerTrade ? `${copyTradingUser.riskPerTrade}%` : 'Not set'}
-                      disabled
-                      className="bg-gray-50 dark:bg-gray-800"
-                      data-testid="display-risk-per-trade"
+                      type={isEditing ? 'number' : 'text'}
+                      min={5}
+                      max={50}
+                      value={isEditing ? editForm.riskPerTrade : profile.riskPerTrade ? `${profile.riskPerTrade}%` : 'Not set'}
+                      onChange={(e) => setEditForm(prev => ({ ...prev, riskPerTrade: e.target.value }))}
+                      disabled={!isEditing}
+                      className={isEditing ? undefined : readOnlyClass}
+                      data-testid="input-risk-per-trade"
                     />
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="tradeFund">Trade Fund (USDT)</Label>
                     <Input
                       id="tradeFund"
-                      type="text"
-                      value={copyTradingUser?.tradeFund ? `$${copyTradingUser.tradeFund}` : 'Not set'}
-                      disabled
-                      className="bg-gray-50 dark:bg-gray-800"
-                      data-testid="display-trade-fund"
+                      type={isEditing ? 'number' : 'text'}
+                      min={100}
+                      max={100000}
+                      value={isEditing ? editForm.tradeFund : profile.tradeFund ? `$${profile.tradeFund}` : 'Not set'}
+                      onChange={(e) => setEditForm(prev => ({ ...prev, tradeFund: e.target.value }))}
+                      disabled={!isEditing}
+                      className={isEditing ? undefined : readOnlyClass}
+                      data-testid="input-trade-fund"
                     />
                   </div>
                 </div>
@@ -326,68 +458,128 @@ export function UserAccountSettings({ copyTradingUser, onBack }: UserAccountSett
                   <Label htmlFor="maxTrades">Max Trades Per Day</Label>
                   <Input
                     id="maxTrades"
-                    type="text"
-                    value={copyTradingUser?.maxTradesPerDay || 'No limit'}
-                    disabled
-                    className="bg-gray-50 dark:bg-gray-800"
-                    data-testid="display-max-trades"
+                    type={isEditing ? 'number' : 'text'}
+                    min={1}
+                    max={20}
+                    value={isEditing ? editForm.maxTradesPerDay : profile.maxTradesPerDay || 'No limit'}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, maxTradesPerDay: e.target.value }))}
+                    disabled={!isEditing}
+                    className={isEditing ? undefined : readOnlyClass}
+                    placeholder="No limit"
+                    data-testid="input-max-trades"
                   />
+                  {isEditing && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Leave empty for no daily limit</p>
+                  )}
                 </div>
 
-                {/* Status & Verification */}
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="status">Application Status</Label>
-                    <Input
-                      id="status"
-                      type="text"
-                      value={'Active'}
-                      disabled
-                      className="bg-gray-50 dark:bg-gray-800"
-                      data-testid="display-status"
-                    />
+                {/* Source Filter */}
+                <div className="space-y-2">
+                  <Label>Copy Trades From Sources</Label>
+                  <div className="grid grid-cols-3 gap-3">
+                    {SOURCE_OPTIONS.map((source) => (
+                      <div key={source.value} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`source-${source.value}`}
+                          checked={(isEditing ? editForm.sourceFilter : profile.sourceFilter || []).includes(source.value)}
+                          onCheckedChange={(checked) => toggleListValue('sourceFilter', source.value, !!checked)}
+                          disabled={!isEditing}
+                          data-testid={`checkbox-source-${source.value}`}
+                        />
+                        <Label htmlFor={`source-${source.value}`} className="text-sm font-normal">
+                          {source.label}
+                        </Label>
+                      </div>
+                    ))}
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="credentialsVerified">API Credentials Verified</Label>
-                    <Input
-                      id="credentialsVerified"
-                      type="text"
-                      value={'Yes'}
-                      disabled
-                      className="bg-gray-50 dark:bg-gray-800"
-                      data-testid="display-credentials-verified"
-                    />
+                </div>
+
+                {/* Signal Type Filter */}
+                <div className="space-y-2">
+                  <Label>Copy Signal Types</Label>
+                  <div className="grid grid-cols-2 gap-3">
+                    {SIGNAL_TYPE_OPTIONS.map((signalType) => (
+                      <div key={signalType.value} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`signal-${signalType.value}`}
+                          checked={(isEditing ? editForm.signalTypeFilter : profile.signalTypeFilter || []).includes(signalType.value)}
+                          onCheckedChange={(checked) => toggleListValue('signalTypeFilter', signalType.value, !!checked)}
+                          disabled={!isEditing}
+                          data-testid={`checkbox-signal-${signalType.value}`}
+                        />
+                        <Label htmlFor={`signal-${signalType.value}`} className="text-sm font-normal">
+                          {signalType.label}
+                        </Label>
+                      </div>
+                    ))}
                   </div>
                 </div>
 
                 {/* Notes */}
                 <div className="space-y-2">
                   <Label htmlFor="notes">Additional Notes</Label>
-                  {isEditing ? (
-                    <Input
-                      id="notes"
-                      type="text"
-                      value={editForm.notes}
-                      onChange={(e) => setEditForm(prev => ({ ...prev, notes: e.target.value }))}
-                      placeholder="Enter any additional notes"
-                      data-testid="input-notes"
-                    />
-                  ) : (
-                    <Input
-                      id="notes"
-                      type="text"
-                      value={copyTradingUser?.notes || 'No notes'}
-                      disabled
-                      className="bg-gray-50 dark:bg-gray-800"
-                      data-testid="display-notes"
-                    />
-                  )}
+                  <Input
+                    id="notes"
+                    type="text"
+                    value={isEditing ? editForm.notes : profile.notes || 'No notes'}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, notes: e.target.value }))}
+                    disabled={!isEditing}
+                    className={isEditing ? undefined : readOnlyClass}
+                    placeholder="Enter any additional notes"
+                    data-testid="input-notes"
+                  />
                 </div>
               </div>
             )}
           </CardContent>
         </Card>
 
+        {/* API Keys */}
+        <Card data-testid="card-api-keys">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Key className="h-5 w-5" />
+              <span>Exchange API Keys</span>
+            </CardTitle>
+            <CardDescription>
+              {profile?.apiKeyHint
+                ? `Current key ends in ••••${profile.apiKeyHint}. New keys are verified with ${profile.exchange} before they replace it.`
+                : 'New keys are verified with your exchange before they are saved.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="newApiKey">New API Key</Label>
+              <Input
+                id="newApiKey"
+                type="text"
+                autoComplete="off"
+                value={credentialsForm.apiKey}
+                onChange={(e) => setCredentialsForm(prev => ({ ...prev, apiKey: e.target.value }))}
+                data-testid="input-new-api-key"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="newApiSecret">New API Secret</Label>
+              <Input
+                id="newApiSecret"
+                type="password"
+                autoComplete="off"
+                value={credentialsForm.apiSecret}
+                onChange={(e) => setCredentialsForm(prev => ({ ...prev, apiSecret: e.target.value }))}
+                data-testid="input-new-api-secret"
+              />
+            </div>
+            <Button
+              onClick={() => rotateCredentialsMutation.mutate(credentialsForm)}
+              disabled={rotateCredentialsMutation.isPending || !credentialsForm.apiKey || !credentialsForm.apiSecret}
+              data-testid="button-rotate-keys"
+            >
+              {rotateCredentialsMutation.isPending ? 'Verifying...' : 'Verify & Replace Keys'}
+            </Button>
+          </CardContent>
+        </Card>
+
         {/* Account Activity */}
         <Card data-testid="card-activity">
           <CardHeader>
@@ -395,25 +587,32 @@ export function UserAccountSettings({ copyTradingUser, onBack }: UserAccountSett
               <Calendar className="h-5 w-5" />
               <span>Account Activity</span>
             </CardTitle>
+            <CardDescription>Sign-ins and every change made from this portal</CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="space-y-4">
-              <div className="flex justify-between items-center py-2">
-                <span className="text-sm text-gray-600 dark:text-gray-400">Last Login</span>
-                <span className="text-sm font-medium text-gray-900 dark:text-white" data-testid="text-last-login">
-                  Never
-                </span>
-              </div>
-              <div className="flex justify-between items-center py-2">
-                <span className="text-sm text-gray-600 dark:text-gray-400">Account Created</span>
-                <span className="text-sm font-medium text-gray-900 dark:text-white" data-testid="text-account-created">
-                  {copyTradingUser?.createdAt 
-                    ? format(new Date(copyTradingUser.createdAt), 'MMM dd, yyyy HH:mm')
-                    : 'Unknown'
-                  }
-                </span>
+            {activity.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400" data-testid="text-no-activity">No activity yet</p>
+            ) : (
+              <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                {activity.map((log) => (
+                  <div key={log.id} className="py-2" data-testid={`activity-${log.id}`}>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium text-gray-900 dark:text-white">
+                        {ACTION_LABELS[log.action] || log.action}
+                      </span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {format(new Date(log.createdAt), 'MMM dd, yyyy HH:mm')}
+                      </span>
+                    </div>
+                    {log.changes && (
+                      <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 break-words">
+                        {describeChanges(log.changes)}
+                      </p>
+                    )}
+                  </div>
+                ))}
               </div>
-            </div>
+            )}
           </CardContent>
         </Card>
 
@@ -433,31 +632,14 @@ export function UserAccountSettings({ copyTradingUser, onBack }: UserAccountSett
                   Approved
                 </Badge>
               </div>
-              
-              {/* Admin Notes */}
-              <div className="space-y-2">
-                <Label className="text-sm text-gray-600 dark:text-gray-400">Admin Notes</Label>
-                <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-md min-h-[60px]" data-testid="display-admin-notes">
-                  <p className="text-sm text-gray-900 dark:text-white">
-                    {'No admin notes available'}
-                  </p>
-                </div>
-              </div>
-
-              {/* Processed Information */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="flex justify-between items-center py-2">
-                  <span className="text-sm text-gray-600 dark:text-gray-400">Processed By</span>
-                  <span className="text-sm font-medium text-gray-900 dark:text-white" data-testid="text-processed-by">
-                    {'System'}
-                  </span>
-                </div>
-                <div className="flex justify-between items-center py-2">
-                  <span className="text-sm text-gray-600 dark:text-gray-400">Processed At</span>
-                  <span className="text-sm font-medium text-gray-900 dark:text-white" data-testid="text-processed-at">
-                    {'Auto Approved'}
-                  </span>
-                </div>
+              <div className="flex justify-between items-center py-2">
+                <span className="text-sm text-gray-600 dark:text-gray-400">Account Created</span>
+                <span className="text-sm font-medium text-gray-900 dark:text-white" data-testid="text-account-created">
+                  {profile?.createdAt
+                    ? format(new Date(profile.createdAt), 'MMM dd, yyyy HH:mm')
+                    : 'Unknown'
+                  }
+                </span>
               </div>
             </div>
           </CardContent>
@@ -465,4 +647,4 @@ export function UserAccountSettings({ copyTradingUser, onBack }: UserAccountSett
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
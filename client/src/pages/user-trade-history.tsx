@@ -6,21 +6,7 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ArrowLeft, TrendingUp, TrendingDown, Clock, CheckCircle } from 'lucide-react';
 import { format } from 'date-fns';
-
-interface CopyTradingUser {
-  id: string;
-  name: string;
-  email: string;
-  exchange: string;
-  riskPerTrade: string;
-  tradeFund: string;
-  maxTradesPerDay?: number;
-  isActive: boolean;
-  lowFund: boolean;
-  futuresWalletBalance: string;
-  notes?: string;
-  createdAt: string;
-}
+import type { CopyTradingUser } from './user-access';
 
 interface CopyTrade {
   id: string;
@@ -47,16 +33,21 @@ interface CopyTrade {
 interface UserTradeHistoryProps {
   copyTradingUser: CopyTradingUser;
   onBack: () => void;
+  onSessionExpired: () => void;
 }
 
-export function UserTradeHistory({ copyTradingUser, onBack }: UserTradeHistoryProps) {
+export function UserTradeHistory({ copyTradingUser, onBack, onSessionExpired }: UserTradeHistoryProps) {
   const [currentPage, setCurrentPage] = useState(1);
   const pageSize = 20;
 
   const { data: tradesData, isLoading, error } = useQuery({
-    queryKey: ['user-copy-trades', copyTradingUser.email, currentPage],
+    queryKey: ['user-copy-trades', copyTradingUser.id, currentPage],
     queryFn: async () => {
-      const response = await fetch(`/api/user-access/trades/${encodeURIComponent(copyTradingUser.email)}?page=${currentPage}&limit=${pageSize}`);
+      const response = await fetch(`/api/user-access/trades?page=${currentPage}&limit=${pageSize}`);
+      if (response.status === 401) {
+        onSessionExpired();
+        throw new Error('Session expired');
+      }
       if (!response.ok) {
         throw new Error('Failed to fetch copy trade history');
       }
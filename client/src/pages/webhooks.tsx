@@ -0,0 +1,575 @@
+import { Fragment, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { formatDistanceToNow } from "date-fns";
+import { webhookEventTypes } from "@shared/schema";
+
+interface WebhookEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  events: string[];
+  isActive: boolean;
+  createdAt: string;
+  secretPreview: string;
+  secret?: string; // Only present right after create/regenerate
+}
+
+interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: string;
+  payload: Record<string, any>;
+  status: "pending" | "delivered" | "failed" | "cancelled";
+  attempts: number;
+  lastStatusCode?: number | null;
+  lastError?: string | null;
+  responseBody?: string | null;
+  nextAttemptAt?: string | null;
+  deliveredAt?: string | null;
+  replayOf?: string | null;
+  createdAt: string;
+  endpoint?: { name: string | null; url: string | null };
+}
+
+// "ping" is test-only and always delivered, so it is not offered as a subscription
+const SUBSCRIBABLE_EVENTS = webhookEventTypes.filter((event) => event !== "ping");
+
+const emptyEndpoint = {
+  name: "",
+  url: "",
+  events: [] as string[],
+};
+
+const deliveryStatusVariant = (status: string): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case "delivered":
+      return "default";
+    case "pending":
+      return "secondary";
+    case "failed":
+      return "destructive";
+    default:
+      return "outline";
+  }
+};
+
+export default function WebhooksPage() {
+  const { toast } = useToast();
+  const [isAddingEndpoint, setIsAddingEndpoint] = useState(false);
+  const [newEndpoint, setNewEndpoint] = useState(emptyEndpoint);
+  const [revealedSecret, setRevealedSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [filters, setFilters] = useState({ endpointId: "all", status: "all" });
+  const [expandedDeliveryId, setExpandedDeliveryId] = useState<string | null>(null);
+
+  const { data: endpoints = [], isLoading } = useQuery<WebhookEndpoint[]>({
+    queryKey: ["/api/webhook-endpoints"],
+  });
+
+  const { data: deliveriesData, isLoading: deliveriesLoading } = useQuery<{ deliveries: WebhookDelivery[]; total: number }>({
+    queryKey: ["/api/webhook-deliveries", filters],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (filters.endpointId !== "all") params.append("endpointId", filters.endpointId);
+      if (filters.status !== "all") params.append("status", filters.status);
+      params.append("limit", "100");
+
+      const response = await fetch(`/api/webhook-deliveries?${params.toString()}`, {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    refetchInterval: 15000,
+  });
+
+  const deliveries = deliveriesData?.deliveries || [];
+
+  const showSecret = (endpoint: WebhookEndpoint) => {
+    if (endpoint.secret) {
+      setRevealedSecret({ name: endpoint.name, secret: endpoint.secret });
+    }
+  };
+
+  const onError = (fallback: string) => (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const invalidateDeliveries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/webhook-deliveries"] });
+  };
+
+  const createEndpointMutation = useMutation({
+    mutationFn: async (data: typeof emptyEndpoint) => {
+      const response = await apiRequest("POST", "/api/webhook-endpoints", { ...data, isActive: true });
+      return response.json();
+    },
+    onSuccess: (endpoint: WebhookEndpoint) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhook-endpoints"] });
+      setNewEndpoint(emptyEndpoint);
+      setIsAddingEndpoint(false);
+      showSecret(endpoint);
+      toast({ title: "Success", description: "Webhook endpoint created" });
+    },
+    onError: onError("Failed to create webhook endpoint"),
+  });
+
+  const toggleEndpointMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return await apiRequest("PATCH", `/api/webhook-endpoints/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhook-endpoints"] });
+    },
+    onError: onError("Failed to update webhook endpoint"),
+  });
+
+  const regenerateSecretMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/webhook-endpoints/${id}/regenerate-secret`);
+      return response.json();
+    },
+    onSuccess: (endpoint: WebhookEndpoint) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhook-endpoints"] });
+      showSecret(endpoint);
+      toast({ title: "Secret regenerated", description: "Update your receiver with the new signing secret" });
+    },
+    onError: onError("Failed to regenerate secret"),
+  });
+
+  const testEndpointMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/webhook-endpoints/${id}/test`);
+      return response.json();
+    },
+    onSuccess: (result: { success: boolean; message: string }) => {
+      invalidateDeliveries();
+      toast({
+        title: result.success ? "Test delivered" : "Test failed",
+        description: result.message,
+        variant: result.success ? "default" : "destructive",
+      });
+    },
+    onError: onError("Failed to send test event"),
+  });
+
+  const deleteEndpointMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/webhook-endpoints/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhook-endpoints"] });
+      setFilters((prev) => ({ ...prev, endpointId: "all" }));
+      invalidateDeliveries();
+      toast({ title: "Success", description: "Webhook endpoint deleted" });
+    },
+    onError: onError("Failed to delete webhook endpoint"),
+  });
+
+  const replayDeliveryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/webhook-deliveries/${id}/replay`);
+      return response.json();
+    },
+    onSuccess: (result: { success: boolean; message: string }) => {
+      invalidateDeliveries();
+      toast({
+        title: result.success ? "Replayed" : "Replay failed",
+        description: result.message,
+        variant: result.success ? "default" : "destructive",
+      });
+    },
+    onError: onError("Failed to replay delivery"),
+  });
+
+  const toggleEvent = (event: string, checked: boolean) => {
+    setNewEndpoint((prev) => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter((e) => e !== event),
+    }));
+  };
+
+  const handleAddEndpoint = () => {
+    if (!newEndpoint.name || !newEndpoint.url) {
+      toast({
+        title: "Validation Error",
+        description: "Please fill in name and URL",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createEndpointMutation.mutate(newEndpoint);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Webhooks</h1>
+          <p className="text-muted-foreground">
+            Push trade, copy trade and research report events to your own HTTP endpoints
+          </p>
+        </div>
+        <Button onClick={() => setIsAddingEndpoint(true)} data-testid="button-add-webhook">
+          <i className="fas fa-plus mr-2" />
+          Add Endpoint
+        </Button>
+      </div>
+
+      {/* Secret is shown once - after create or regenerate */}
+      {revealedSecret && (
+        <Card className="border-primary">
+          <CardHeader>
+            <CardTitle>Signing secret for {revealedSecret.name}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Input readOnly value={revealedSecret.secret} className="font-mono" data-testid="input-webhook-signing-secret" />
+            <p className="text-sm text-muted-foreground">
+              Each request carries <code>X-Webhook-Signature: t=&lt;timestamp&gt;,v1=&lt;signature&gt;</code> where the
+              signature is the hex HMAC-SHA256 of <code>&lt;timestamp&gt;.&lt;raw body&gt;</code> using this secret.
+              This secret will not be shown again.
+            </p>
+            <Button variant="outline" onClick={() => setRevealedSecret(null)} data-testid="button-dismiss-webhook-secret">
+              Done
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Add Endpoint Form */}
+      {isAddingEndpoint && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Webhook Endpoint</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="endpointName">Name *</Label>
+                <Input
+                  id="endpointName"
+                  placeholder="e.g., Journal Sync"
+                  value={newEndpoint.name}
+                  onChange={(e) => setNewEndpoint((prev) => ({ ...prev, name: e.target.value }))}
+                  data-testid="input-webhook-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="endpointUrl">URL *</Label>
+                <Input
+                  id="endpointUrl"
+                  placeholder="https://example.com/hooks/trades"
+                  value={newEndpoint.url}
+                  onChange={(e) => setNewEndpoint((prev) => ({ ...prev, url: e.target.value }))}
+                  data-testid="input-webhook-url"
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Events</Label>
+              <p className="text-sm text-muted-foreground mb-2">Leave all unchecked to receive every event</p>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {SUBSCRIBABLE_EVENTS.map((event) => (
+                  <label key={event} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={newEndpoint.events.includes(event)}
+                      onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                      data-testid={`checkbox-event-${event}`}
+                    />
+                    <span className="font-mono">{event}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                onClick={handleAddEndpoint}
+                disabled={createEndpointMutation.isPending}
+                data-testid="button-save-webhook"
+              >
+                {createEndpointMutation.isPending ? "Adding..." : "Add Endpoint"}
+              </Button>
+              <Button variant="outline" onClick={() => setIsAddingEndpoint(false)} data-testid="button-cancel-webhook">
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Endpoints Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Endpoints ({endpoints.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {endpoints.length === 0 ? (
+            <div className="text-center py-8">
+              <i className="fas fa-paper-plane text-4xl text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">No webhook endpoints</h3>
+              <p className="text-muted-foreground mb-4">
+                Add an endpoint to receive signed event notifications
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Events</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {endpoints.map((endpoint) => (
+                  <TableRow key={endpoint.id}>
+                    <TableCell>
+                      <div className="font-medium">{endpoint.name}</div>
+                      <div className="text-xs font-mono text-muted-foreground">{endpoint.url}</div>
+                      <div className="text-xs text-muted-foreground">secret {endpoint.secretPreview}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {endpoint.events.length === 0 ? "All events" : endpoint.events.join(", ")}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          checked={endpoint.isActive}
+                          onCheckedChange={(checked) => toggleEndpointMutation.mutate({ id: endpoint.id, isActive: checked })}
+                          disabled={toggleEndpointMutation.isPending}
+                          data-testid={`toggle-webhook-${endpoint.id}`}
+                        />
+                        <Badge variant={endpoint.isActive ? "default" : "secondary"}>
+                          {endpoint.isActive ? "Active" : "Inactive"}
+                        </Badge>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => testEndpointMutation.mutate(endpoint.id)}
+                          disabled={testEndpointMutation.isPending}
+                          data-testid={`button-test-webhook-${endpoint.id}`}
+                        >
+                          <i className="fas fa-vial mr-2" />
+                          Test
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setFilters((prev) => ({ ...prev, endpointId: endpoint.id }))}
+                          data-testid={`button-deliveries-${endpoint.id}`}
+                        >
+                          <i className="fas fa-list mr-2" />
+                          Deliveries
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => regenerateSecretMutation.mutate(endpoint.id)}
+                          disabled={regenerateSecretMutation.isPending}
+                          data-testid={`button-regenerate-webhook-${endpoint.id}`}
+                        >
+                          <i className="fas fa-key mr-2" />
+                          New Secret
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            if (confirm(`Delete webhook endpoint "${endpoint.name}" and its delivery log?`)) {
+                              deleteEndpointMutation.mutate(endpoint.id);
+                            }
+                          }}
+                          disabled={deleteEndpointMutation.isPending}
+                          data-testid={`button-delete-webhook-${endpoint.id}`}
+                        >
+                          <i className="fas fa-trash" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Delivery Log */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Delivery Log ({deliveriesData?.total || 0})</CardTitle>
+            <div className="flex space-x-2">
+              <Select
+                value={filters.endpointId}
+                onValueChange={(value) => setFilters((prev) => ({ ...prev, endpointId: value }))}
+              >
+                <SelectTrigger className="w-48" data-testid="select-delivery-endpoint">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All endpoints</SelectItem>
+                  {endpoints.map((endpoint) => (
+                    <SelectItem key={endpoint.id} value={endpoint.id}>{endpoint.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={filters.status}
+                onValueChange={(value) => setFilters((prev) => ({ ...prev, status: value }))}
+              >
+                <SelectTrigger className="w-36" data-testid="select-delivery-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  <SelectItem value="delivered">Delivered</SelectItem>
+                  <SelectItem value="pending">Retrying</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {deliveriesLoading ? (
+            <div className="text-muted-foreground">Loading deliveries...</div>
+          ) : deliveries.length === 0 ? (
+            <div className="text-muted-foreground">No deliveries yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((delivery) => (
+                  <Fragment key={delivery.id}>
+                    <TableRow>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                        {delivery.replayOf && <Badge variant="outline" className="ml-2">replay</Badge>}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{delivery.eventType}</TableCell>
+                      <TableCell className="text-sm">{delivery.endpoint?.name || "-"}</TableCell>
+                      <TableCell>
+                        <Badge variant={deliveryStatusVariant(delivery.status)}>
+                          {delivery.status === "pending" && delivery.attempts > 0 ? "retrying" : delivery.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div>
+                          {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}
+                          {delivery.lastStatusCode ? ` · HTTP ${delivery.lastStatusCode}` : ""}
+                        </div>
+                        {delivery.lastError && (
+                          <div className="text-xs text-destructive max-w-xs truncate" title={delivery.lastError}>
+                            {delivery.lastError}
+                          </div>
+                        )}
+                        {delivery.status === "pending" && delivery.nextAttemptAt && delivery.attempts > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            next retry {formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setExpandedDeliveryId(expandedDeliveryId === delivery.id ? null : delivery.id)}
+                            data-testid={`button-payload-${delivery.id}`}
+                          >
+                            <i className="fas fa-code" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => replayDeliveryMutation.mutate(delivery.id)}
+                            disabled={replayDeliveryMutation.isPending}
+                            data-testid={`button-replay-${delivery.id}`}
+                          >
+                            <i className="fas fa-redo mr-2" />
+                            Replay
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                    {expandedDeliveryId === delivery.id && (
+                      <TableRow>
+                        <TableCell colSpan={6}>
+                          <pre className="text-xs font-mono bg-muted p-3 rounded overflow-x-auto">
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </pre>
+                          {delivery.responseBody && (
+                            <pre className="text-xs font-mono bg-muted p-3 rounded overflow-x-auto mt-2">
+                              {delivery.responseBody}
+                            </pre>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
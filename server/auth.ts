@@ -1,12 +1,14 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Request } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User } from "@shared/schema";
+import { User, ROLE_PERMISSIONS, hasPermission, acceptUserInviteSchema, registerSchema, twoFactorCodeSchema, reauthenticateSchema, type Permission, type UserRole, type AdminSession } from "@shared/schema";
 import connectPg from "connect-pg-simple";
+import { twoFactorService } from "./services/twoFactorService";
+import { setAuditContext } from "./services/auditService";
 
 declare global {
   namespace Express {
@@ -14,6 +16,21 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    copyTradingUserId?: string; // Follower signed in to the /user-access portal
+    twoFactorPending?: { userId: string; expiresAt: number }; // Password accepted, waiting for the authenticator code
+    loginInfo?: { ipAddress: string | null; userAgent: string | null; signedInAt: string }; // Shown in the session list
+    reauthenticatedAt?: number; // Last password / 2FA confirmation - dangerous operations need it to be recent
+  }
+}
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+const TWO_FACTOR_CHALLENGE_MS = 5 * 60 * 1000; // Time to enter the code after the password
+const MAX_AUTH_FAILURES = 5; // Wrong 2FA codes / re-auth attempts per user before the lockout
+const AUTH_LOCKOUT_MS = 15 * 60 * 1000;
+const REAUTH_WINDOW_MS = 10 * 60 * 1000;
+
 const scryptAsync = promisify(scrypt);
 
 async function hashPassword(password: string) {
@@ -29,8 +46,70 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+/**
+ * Invite tokens are emailed once and only their sha256 is stored
+ */
+export function generateInviteToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("hex");
+  return { token, tokenHash: hashInviteToken(token) };
+}
+
+export function hashInviteToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// What the dashboard gets for the signed-in admin - the sidebar hides pages by `permissions`
+function toSessionUser(user: User) {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    role: user.role,
+    permissions: ROLE_PERMISSIONS[user.role as UserRole] || [],
+    twoFactorEnabled: twoFactorService.isEnabled(user),
+    recoveryCodesRemaining: twoFactorService.remainingRecoveryCodes(user),
+  };
+}
+
+// Log in and stamp the session with what the session list shows - a fresh login counts as a recent re-auth
+function signIn(req: Request, user: User): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.login(user, (err) => {
+      if (err) return reject(err);
+      req.session.loginInfo = {
+        ipAddress: req.ip || null,
+        userAgent: req.get("user-agent") || null,
+        signedInAt: new Date().toISOString(),
+      };
+      req.session.reauthenticatedAt = Date.now();
+      resolve();
+    });
+  });
+}
+
+// Counted on the user row, not the session - a new login or another session doesn't start a fresh count
+function authLockedMessage(user: User): string | null {
+  if (!user.authLockedUntil || user.authLockedUntil.getTime() <= Date.now()) {
+    return null;
+  }
+  const minutes = Math.ceil((user.authLockedUntil.getTime() - Date.now()) / 60000);
+  return `Too many incorrect attempts - try again in ${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+async function recordAuthFailure(user: User): Promise<string | null> {
+  const updated = await storage.recordFailedAuthAttempt(user.id, MAX_AUTH_FAILURES, AUTH_LOCKOUT_MS);
+  return updated ? authLockedMessage(updated) : null;
+}
+
+// Session ids are bearer secrets - the session list only ever shows a hash of them
+function sessionHandle(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
 export function setupAuth(app: Express) {
-  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
+  const sessionTtl = SESSION_TTL_MS;
   const pgStore = connectPg(session);
   const sessionStore = new pgStore({
     conString: process.env.DATABASE_URL,
@@ -85,31 +164,142 @@ export function setupAuth(app: Express) {
     }
   });
 
+  // Open only until the first (owner) account exists - after that, accounts come from invites
   app.post("/api/register", async (req, res, next) => {
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const isFirstUser = (await storage.countUsers()) === 0;
+      const validationResult = isFirstUser ? registerSchema.safeParse(req.body) : acceptUserInviteSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: validationResult.error.issues });
+      }
+
+      const { username, password, firstName, lastName } = validationResult.data;
+      let invite = null;
+      if (!isFirstUser) {
+        invite = await storage.getUserInviteByTokenHash(hashInviteToken(req.body.token));
+        if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+          return res.status(403).json({ message: "This invite link is invalid or has expired" });
+        }
+      }
+
+      const existingUser = await storage.getUserByUsername(username);
       if (existingUser) {
         return res.status(400).json({ message: "Username already exists" });
       }
 
-      const user = await storage.createUser({
-        ...req.body,
-        password: await hashPassword(req.body.password),
-      });
+      const fields = {
+        username,
+        password: await hashPassword(password),
+        email: invite ? invite.email : ('email' in validationResult.data && validationResult.data.email) || null,
+        firstName: firstName || null,
+        lastName: lastName || null,
+      };
+      const user = invite ? await storage.createUser({ ...fields, role: invite.role }) : await storage.createFirstOwner(fields);
+      if (!user) {
+        // Another first sign-up won the race - everyone after that needs an invite
+        return res.status(403).json({ message: "Registration is by invite only" });
+      }
+
+      if (invite && !(await storage.markUserInviteAccepted(invite.id, user.id))) {
+        // Someone else accepted the same invite first
+        await storage.deleteUser(user.id);
+        return res.status(403).json({ message: "This invite link is invalid or has expired" });
+      }
 
-      req.login(user, (err) => {
-        if (err) return next(err);
-        res.status(201).json({ id: user.id, username: user.username, email: user.email });
-      });
+      await signIn(req, user);
+      setAuditContext(res, { action: "admin_user.register", entityType: "admin_user", entityId: user.id });
+      res.status(201).json(toSessionUser(user));
     } catch (error) {
       console.error("Registration error:", error);
       res.status(500).json({ message: "Registration failed" });
     }
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    const user = req.user as User;
-    res.status(200).json({ id: user.id, username: user.username, email: user.email });
+  // Public - what the invite page shows before the account is created
+  app.get("/api/invites/:token", async (req, res) => {
+    try {
+      const invite = await storage.getUserInviteByTokenHash(hashInviteToken(req.params.token));
+      if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+        return res.status(404).json({ message: "This invite link is invalid or has expired" });
+      }
+      res.json({ email: invite.email, role: invite.role, expiresAt: invite.expiresAt });
+    } catch (error) {
+      console.error("Error loading invite:", error);
+      res.status(500).json({ message: "Failed to load invite" });
+    }
+  });
+
+  // Password step - with 2FA on, the session only remembers the pending user until /api/login/2fa
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", async (err: any, user: User | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      try {
+        if (twoFactorService.isEnabled(user)) {
+          const lockedMessage = authLockedMessage(user);
+          if (lockedMessage) {
+            return res.status(429).json({ message: lockedMessage });
+          }
+          req.session.twoFactorPending = { userId: user.id, expiresAt: Date.now() + TWO_FACTOR_CHALLENGE_MS };
+          return res.status(200).json({ twoFactorRequired: true });
+        }
+
+        await signIn(req, user);
+        setAuditContext(res, { action: "admin_session.login", entityType: "admin_session", entityId: user.id });
+        res.status(200).json(toSessionUser(user));
+      } catch (error) {
+        next(error);
+      }
+    })(req, res, next);
+  });
+
+  app.post("/api/login/2fa", async (req, res) => {
+    const pending = req.session.twoFactorPending;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.twoFactorPending;
+      return res.status(401).json({ message: "Sign-in timed out - enter your password again" });
+    }
+
+    const validationResult = twoFactorCodeSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ message: "Validation failed", errors: validationResult.error.issues });
+    }
+
+    try {
+      const user = await storage.getUser(pending.userId);
+      if (!user) {
+        delete req.session.twoFactorPending;
+        return res.status(401).json({ message: "Sign-in timed out - enter your password again" });
+      }
+
+      const lockedMessage = authLockedMessage(user);
+      if (lockedMessage) {
+        delete req.session.twoFactorPending;
+        return res.status(429).json({ message: lockedMessage });
+      }
+
+      const result = await twoFactorService.verify(user, validationResult.data.code);
+      if (!result.valid) {
+        const nowLocked = await recordAuthFailure(user);
+        if (nowLocked) {
+          delete req.session.twoFactorPending;
+          return res.status(429).json({ message: nowLocked });
+        }
+        return res.status(401).json({ message: "Incorrect authentication code" });
+      }
+
+      await storage.resetFailedAuthAttempts(user.id);
+      await signIn(req, user);
+      setAuditContext(res, { action: "admin_session.login", entityType: "admin_session", entityId: user.id });
+      const refreshedUser = (await storage.getUser(user.id)) || user;
+      res.status(200).json({ ...toSessionUser(refreshedUser), usedRecoveryCode: !!result.usedRecoveryCode });
+    } catch (error) {
+      console.error("2FA login error:", error);
+      res.status(500).json({ message: "Sign-in failed" });
+    }
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -121,8 +311,153 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    const user = req.user as User;
-    res.json({ id: user.id, username: user.username, email: user.email });
+    res.json(toSessionUser(req.user as User));
+  });
+
+  // Confirm it's you - the 2FA code when enrolled, the password otherwise
+  app.post("/api/auth/reauth", isAuthenticated, async (req, res) => {
+    const validationResult = reauthenticateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ message: "Validation failed", errors: validationResult.error.issues });
+    }
+
+    try {
+      const user = req.user as User;
+      const lockedMessage = authLockedMessage(user);
+      if (lockedMessage) {
+        return res.status(429).json({ message: lockedMessage });
+      }
+
+      const { password, code } = validationResult.data;
+      const twoFactorEnabled = twoFactorService.isEnabled(user);
+      const valid = twoFactorEnabled
+        ? !!code && (await twoFactorService.verify(user, code)).valid
+        : !!password && (await comparePasswords(password, user.password));
+      if (!valid) {
+        const nowLocked = await recordAuthFailure(user);
+        if (nowLocked) {
+          return res.status(429).json({ message: nowLocked });
+        }
+        return res.status(401).json({ message: twoFactorEnabled ? "Incorrect authentication code" : "Incorrect password" });
+      }
+
+      await storage.resetFailedAuthAttempts(user.id);
+      req.session.reauthenticatedAt = Date.now();
+      setAuditContext(res, { action: "admin_session.reauth", entityType: "admin_session", entityId: user.id });
+      res.json({ success: true, validUntil: new Date(req.session.reauthenticatedAt + REAUTH_WINDOW_MS).toISOString() });
+    } catch (error) {
+      console.error("Re-authentication error:", error);
+      res.status(500).json({ message: "Re-authentication failed" });
+    }
+  });
+
+  // 2FA enrollment - setup stores an unconfirmed secret, enable switches it on after one valid code.
+  // Both need a recent password confirmation, or a stolen session could enroll its own authenticator
+  app.post("/api/auth/2fa/setup", isAuthenticated, requireRecentAuth, async (req, res) => {
+    try {
+      const user = req.user as User;
+      if (twoFactorService.isEnabled(user)) {
+        return res.status(400).json({ message: "Two-factor authentication is already on - turn it off first to re-enroll" });
+      }
+      const enrollment = await twoFactorService.beginEnrollment(user);
+      res.json(enrollment);
+    } catch (error) {
+      console.error("2FA setup error:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post("/api/auth/2fa/enable", isAuthenticated, requireRecentAuth, async (req, res) => {
+    const validationResult = twoFactorCodeSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ message: "Validation failed", errors: validationResult.error.issues });
+    }
+
+    try {
+      const user = (await storage.getUser((req.user as User).id))!;
+      const recoveryCodes = await twoFactorService.completeEnrollment(user, validationResult.data.code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ message: "Incorrect code - check your authenticator app's clock and try again" });
+      }
+      req.session.reauthenticatedAt = Date.now();
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("2FA enable error:", error);
+      res.status(500).json({ message: "Failed to turn on two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", isAuthenticated, requireRecentAuth, async (req, res) => {
+    try {
+      await twoFactorService.disable(req.user as User);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("2FA disable error:", error);
+      res.status(500).json({ message: "Failed to turn off two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/recovery-codes", isAuthenticated, requireRecentAuth, async (req, res) => {
+    try {
+      const user = req.user as User;
+      if (!twoFactorService.isEnabled(user)) {
+        return res.status(400).json({ message: "Two-factor authentication is off" });
+      }
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(user);
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Recovery code regeneration error:", error);
+      res.status(500).json({ message: "Failed to generate recovery codes" });
+    }
+  });
+
+  // Signed-in sessions of the current admin - any of them (other than this one) can be revoked
+  app.get("/api/auth/sessions", isAuthenticated, async (req, res) => {
+    try {
+      const rows = await storage.getUserSessions((req.user as User).id);
+      const sessions: AdminSession[] = rows.map(row => ({
+        id: sessionHandle(row.sid),
+        current: row.sid === req.sessionID,
+        ipAddress: row.sess?.loginInfo?.ipAddress ?? null,
+        userAgent: row.sess?.loginInfo?.userAgent ?? null,
+        signedInAt: row.sess?.loginInfo?.signedInAt ?? null,
+        // The store pushes expiry out by the TTL on every request, so this is when the session was last used
+        lastActiveAt: new Date(new Date(row.expire).getTime() - SESSION_TTL_MS).toISOString(),
+        expiresAt: new Date(row.expire).toISOString(),
+      }));
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", isAuthenticated, async (req, res) => {
+    try {
+      if (req.params.id === sessionHandle(req.sessionID)) {
+        return res.status(400).json({ message: "Use log out to end the current session" });
+      }
+      const userId = (req.user as User).id;
+      const target = (await storage.getUserSessions(userId)).find(row => sessionHandle(row.sid) === req.params.id);
+      const revoked = target ? await storage.deleteUserSession(target.sid, userId) : false;
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+
+  app.post("/api/auth/sessions/revoke-others", isAuthenticated, async (req, res) => {
+    try {
+      const revoked = await storage.deleteOtherUserSessions((req.user as User).id, req.sessionID);
+      res.json({ success: true, revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
   });
 }
 
@@ -131,4 +466,51 @@ export const isAuthenticated = (req: any, res: any, next: any) => {
     return next();
   }
   res.status(401).json({ message: "Unauthorized" });
+};
+
+/**
+ * Role check - goes after isAuthenticated (or the API key middleware), an API key carries its owner's role
+ */
+export const requirePermission = (permission: Permission) => (req: any, res: any, next: any) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  if (!hasPermission(req.user.role, permission)) {
+    return res.status(403).json({ message: "Your role does not allow this action", permission });
+  }
+  next();
+};
+
+/**
+ * Dangerous operations - the admin must have entered their password or 2FA code in the last few minutes
+ */
+export const requireRecentAuth = (req: any, res: any, next: any) => {
+  const reauthenticatedAt = req.session?.reauthenticatedAt;
+  if (req.authMethod === "api_key" || !reauthenticatedAt || Date.now() - reauthenticatedAt > REAUTH_WINDOW_MS) {
+    return res.status(403).json({ message: "Confirm it's you to continue", reauthRequired: true });
+  }
+  next();
+};
+
+/**
+ * Follower portal session - set after OTP verification, separate from the admin passport login
+ */
+export const isCopyTradingUserAuthenticated = async (req: any, res: any, next: any) => {
+  const copyTradingUserId = req.session?.copyTradingUserId;
+  if (!copyTradingUserId) {
+    return res.status(401).json({ success: false, message: "Please sign in again" });
+  }
+
+  try {
+    const copyTradingUser = await storage.getCopyTradingUser(copyTradingUserId);
+    if (!copyTradingUser) {
+      delete req.session.copyTradingUserId;
+      return res.status(401).json({ success: false, message: "Please sign in again" });
+    }
+    req.copyTradingUser = copyTradingUser;
+    next();
+  } catch (error) {
+    console.error("Error loading copy trading user session:", error);
+    res.status(500).json({ success: false, message: "Authentication failed" });
+  }
 };
\ No newline at end of file
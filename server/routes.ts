@@ -1,17 +1,36 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./auth";
+import fs from "fs";
+import path from "path";
+import { storage, templateContent } from "./storage";
+import { setupAuth, isAuthenticated, isCopyTradingUserAuthenticated, requirePermission, requireRecentAuth, generateInviteToken } from "./auth";
 import { tradeMonitor } from "./services/tradeMonitor";
+import { priceWatcher, StreamPriceSource, CoinDCXMarkPriceSource } from "./services/priceWatcher";
+import { coindcxSocket } from "./services/coindcxSocket";
 import { telegramService } from "./services/telegram";
-import { coindcxService, CoinDCXService } from "./services/coindcx";
+import { coindcxService } from "./services/coindcx";
+import { getExchangeAdapter, isSupportedExchange } from "./services/exchangeAdapter";
+import { getFollowerExchange, isPaperOrderId, setPaperPriceSource, startPaperMatching } from "./services/paperExchange";
 import { automationService } from "./services/automationService";
 import { copyTradingService } from "./services/copyTradingService";
-import { sendApplicationConfirmationEmail } from "./services/email";
-import { insertTelegramChannelSchema, insertMessageTemplateSchema, registerSchema, loginSchema, completeTradeSchema, updateSafebookSchema, insertAutomationSchema, updateTradeSchema, insertTradeSchema, User, uploadUrlRequestSchema, finalizeImageUploadSchema, insertCopyTradingUserSchema, insertCopyTradingApplicationSchema, insertCopyTradeSchema, sendOtpSchema, verifyOtpSchema, sendUserAccessOtpSchema, verifyUserAccessOtpSchema, insertResearchReportSchema } from "@shared/schema";
+import { copyTradeAnalyticsService } from "./services/copyTradeAnalyticsService";
+import { tradeRegistrationService } from "./services/tradeRegistration";
+import { signalIngestionService } from "./services/signalIngestion";
+import { webhookService } from "./services/webhookService";
+import { jobQueue } from "./services/jobQueue";
+import { registerJobHandlers } from "./services/jobHandlers";
+import { backtestService, FileCandleSource } from "./services/backtestService";
+import { auditService, setAuditContext } from "./services/auditService";
+import { apiKeyService } from "./services/apiKeyService";
+import { encryptionKeyService } from "./services/encryptionKeyService";
+import { templatePreviewService, TemplatePreviewNotFoundError } from "./services/templatePreviewService";
+import { insertTelegramChannelSchema, insertMessageTemplateSchema, templateLocaleVariantsSchema, templateBodyForLocale, templatePreviewSchema, registerSchema, loginSchema, completeTradeSchema, dailyPnlQuerySchema, updateSafebookSchema, insertAutomationSchema, updateTradeSchema, insertTradeSchema, User, uploadUrlRequestSchema, finalizeImageUploadSchema, insertCopyTradingUserSchema, insertCopyTradingApplicationSchema, insertCopyTradeSchema, sendOtpSchema, verifyOtpSchema, sendUserAccessOtpSchema, verifyUserAccessOtpSchema, updateFollowerSettingsSchema, rotateFollowerCredentialsSchema, pauseFollowerCopyingSchema, insertResearchReportSchema, insertSignalSourceSchema, insertWebhookEndpointSchema, backtestRequestSchema, auditLogQuerySchema, createUserInviteSchema, updateUserRoleSchema, ROLE_LABELS, createApiKeySchema, type ApiKeyScope, type AdminUserProfile, type InsertMessageTemplate, type SignalSource, type WebhookEndpoint, type CopyTradingUser, type InsertCopyTradingUser, type FollowerProfile, type FollowerAuditAction } from "@shared/schema";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
 import { safeDecrypt } from "./utils/encryption";
+import { buildSampleTemplateContext } from "./utils/templateContext";
+import { renderTemplate, validateTemplate, escapeModeForParseMode, TemplateSyntaxError, TEMPLATE_LOCALES, isTemplateLocale, toTemplateLocale } from "@shared/templateEngine";
 import { OpenAIService } from "./services/openaiService";
+import { sendTeamInviteEmail } from "./services/email";
 
 // API Key Authentication Middleware
 async function authenticateApiKey(req: any, res: any, next: any) {
@@ -24,12 +43,14 @@ async function authenticateApiKey(req: any, res: any, next: any) {
   const apiKey = authHeader.substring(7); // Remove 'Bearer ' prefix
   
   try {
-    const user = await storage.validateApiKey(apiKey);
-    if (!user) {
-      return res.status(401).json({ message: "Invalid API key" });
+    const result = await apiKeyService.authenticate(apiKey, req.ip);
+    if (!result.success) {
+      return res.status(result.status).json({ message: result.message });
     }
     
-    req.user = user;
+    req.user = result.user;
+    req.apiKey = result.apiKey;
+    req.authMethod = 'api_key';
     next();
   } catch (error) {
     console.error("API key validation error:", error);
@@ -37,6 +58,16 @@ async function authenticateApiKey(req: any, res: any, next: any) {
   }
 }
 
+// Narrow API key callers to the key's scopes - dashboard sessions are only checked by role
+function requireApiKeyScope(scope: ApiKeyScope) {
+  return (req: any, res: any, next: any) => {
+    if (req.authMethod === 'api_key' && !apiKeyService.hasScope(req.apiKey, scope)) {
+      return res.status(403).json({ message: `API key is missing the ${scope} scope` });
+    }
+    next();
+  };
+}
+
 // Combined authentication middleware (session OR API key)
 async function authenticateSessionOrApiKey(req: any, res: any, next: any) {
   // Try session authentication first
@@ -48,10 +79,110 @@ async function authenticateSessionOrApiKey(req: any, res: any, next: any) {
   return authenticateApiKey(req, res, next);
 }
 
+// Follower portal view of the account - credentials reduced to a hint
+function toFollowerProfile(user: CopyTradingUser): FollowerProfile {
+  const apiKey = safeDecrypt(user.apiKey);
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    exchange: user.exchange,
+    riskPerTrade: user.riskPerTrade,
+    tradeFund: user.tradeFund,
+    maxTradesPerDay: user.maxTradesPerDay,
+    isActive: user.isActive,
+    copyingPaused: user.copyingPaused,
+    paperTrading: user.paperTrading,
+    lowFund: user.lowFund,
+    futuresWalletBalance: user.futuresWalletBalance,
+    sourceFilter: user.sourceFilter,
+    signalTypeFilter: user.signalTypeFilter,
+    notes: user.notes,
+    createdAt: user.createdAt,
+    apiKeyHint: apiKey.length > 4 ? apiKey.slice(-4) : '',
+  };
+}
+
+// Dashboard view of an admin account - no password hash or API key
+function toAdminUserProfile(user: User): AdminUserProfile {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    role: user.role,
+    createdAt: user.createdAt,
+  };
+}
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Decimal columns come back as strings ('2.00') - compare settings by value, lists by content
+function normalizeSettingValue(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return JSON.stringify(value);
+  const numeric = Number(value);
+  return value !== '' && Number.isFinite(numeric) ? String(numeric) : String(value);
+}
+
+// Audit a follower portal action - failures are logged, never block the request
+async function auditFollowerAction(req: any, copyUserId: string, action: FollowerAuditAction, changes?: Record<string, { from: unknown; to: unknown }>) {
+  try {
+    await storage.createCopyTradingUserAuditLog({
+      copyUserId,
+      action,
+      changes: changes || null,
+      ipAddress: req.ip || null,
+      userAgent: req.get('user-agent') || null,
+    });
+  } catch (error) {
+    console.error(`Failed to audit follower action ${action} for ${copyUserId}:`, error);
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Durable background jobs (delayed posts, copy trade execution, wallet refreshes, emails)
+  registerJobHandlers();
+  jobQueue.start();
+
   // Initialize time-based scheduler for simple automations
   automationService.initializeScheduler();
+
+  // Real-time positions/orders/prices over the CoinDCX stream (opt-in via COINDCX_STREAM_ENABLED=true)
+  if (process.env.COINDCX_STREAM_ENABLED === 'true') {
+    coindcxSocket.subscribePrices();
+    tradeMonitor.startRealtime();
+    priceWatcher.setPriceSource(new StreamPriceSource());
+  }
+
+  // Paper followers fill against CoinDCX mark prices, streamed when the socket is on
+  setPaperPriceSource(process.env.COINDCX_STREAM_ENABLED === 'true' ? new StreamPriceSource() : new CoinDCXMarkPriceSource());
+  startPaperMatching();
+  copyTradingService.closeOrphanedPaperCopyTrades().catch(error => console.error('Failed to close orphaned paper copy trades:', error));
+
+  // Watch live mark prices for active trades (opt-in via PRICE_WATCHER_ENABLED=true, or start it from the admin API)
+  if (process.env.PRICE_WATCHER_ENABLED === 'true') {
+    priceWatcher.start();
+  }
   
+  // Admins created before roles existed get the new column's read_only default - give them back ownership
+  storage.promoteLegacyAdminsToOwner()
+    .then(promoted => promoted.forEach(user => console.log(`👑 Promoted pre-role admin ${user.username} to owner`)))
+    .catch(error => console.error('Owner backfill failed:', error));
+
+  // Completed trades closed without an exit price have no exitTime - the P&L heatmap buckets by it
+  storage.backfillTradeExitTimes()
+    .then(count => count > 0 && console.log(`🗓️ Backfilled exit time on ${count} completed trades`))
+    .catch(error => console.error('Exit time backfill failed:', error));
+
+  // Move any plaintext users.apiKey into hashed api_keys before keys are checked
+  apiKeyService.migrateLegacyKeys().catch(error => console.error('API key migration failed:', error));
+
+  // Audit every successful mutating request made by an admin session or API key - mounted before
+  // the auth routes so sign-ins, re-auth, 2FA and session changes are recorded too
+  app.use(auditService.middleware());
+
   // Auth middleware
   setupAuth(app);
 
@@ -75,7 +206,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Trade routes
-  app.get('/api/trades', isAuthenticated, async (req, res) => {
+  app.get('/api/trades', authenticateSessionOrApiKey, requireApiKeyScope('trades:read'), requirePermission('trades.view'), async (req, res) => {
     try {
       const { status, channelId, search, page = '1', limit = '50' } = req.query;
       const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
@@ -95,7 +226,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/trades/stats', isAuthenticated, async (req, res) => {
+  app.get('/api/trades/stats', isAuthenticated, requirePermission('trades.view'), async (req, res) => {
     try {
       const stats = await storage.getTradeStats();
       res.json(stats);
@@ -105,7 +236,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/trades/:id', isAuthenticated, async (req, res) => {
+  // Daily P&L aggregation (Asia/Kolkata days) - filter by from/to, channelId, signalType, source
+  app.get('/api/trades/daily-pnl', isAuthenticated, requirePermission('trades.view'), async (req, res) => {
+    try {
+      const filters = dailyPnlQuerySchema.parse(req.query);
+      const days = await storage.getDailyPnl(filters);
+      res.json({ days, timezone: 'Asia/Kolkata' });
+    } catch (error) {
+      console.error("Error fetching daily P&L:", error);
+      
+      if (error && typeof error === 'object' && 'issues' in error) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: error.issues 
+        });
+      }
+      
+      res.status(500).json({ message: "Failed to fetch daily P&L" });
+    }
+  });
+
+  app.get('/api/trades/:id', authenticateSessionOrApiKey, requireApiKeyScope('trades:read'), requirePermission('trades.view'), async (req, res) => {
     try {
       const trade = await storage.getTrade(req.params.id);
       if (!trade) {
@@ -119,18 +270,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create new trade (manual or via API)
-  app.post('/api/trades', authenticateSessionOrApiKey, async (req, res) => {
+  app.post('/api/trades', authenticateSessionOrApiKey, requireApiKeyScope('trades:create'), requirePermission('trades.manage'), async (req, res) => {
     try {
       // Parse and validate request body
       const tradeData = insertTradeSchema.parse(req.body);
       
-      // Auto-generate Trade ID if not provided
-      if (!tradeData.tradeId) {
-        const timestamp = Date.now().toString().slice(-6); // Last 6 digits of timestamp
-        const random = Math.random().toString(36).substring(2, 5).toUpperCase(); // Random 3 chars
-        tradeData.tradeId = `T${timestamp}${random}`; // e.g., T789123ABC
-      }
-      
       // If source is not provided, check if it's an API call (has Authorization header)
       if (!tradeData.source) {
         const authHeader = req.headers.authorization;
@@ -141,56 +285,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // If signalType is not provided and source is manual, set to 'manual'
-      if (!tradeData.signalType && tradeData.source === 'manual') {
-        tradeData.signalType = 'manual';
-      }
-      
-      // Set default values for manual and API trades
-      if (tradeData.source === 'manual' || tradeData.source === 'api') {
-        console.log(`🔍 Debug before calculation - total: "${tradeData.total}" (type: ${typeof tradeData.total})`);
-        if (!tradeData.total) {
-          // Calculate total = price * quantity (using leverage as quantity)
-          tradeData.total = (parseFloat(tradeData.price) * tradeData.leverage).toString();
-          console.log(`✅ Calculated total: ${tradeData.total}`);
-        }
-        if (!tradeData.fee) {
-          tradeData.fee = '0'; // Default fee
-        }
-        if (!tradeData.safebookPrice) {
-          tradeData.safebookPrice = undefined; // Explicitly set to undefined
-        }
-      }
-      
-      console.log(`📝 Creating new ${tradeData.source} trade:`, {
-        pair: tradeData.pair,
-        type: tradeData.type,
-        leverage: tradeData.leverage,
-        source: tradeData.source,
-        signalType: tradeData.signalType
-      });
-      
-      const newTrade = await storage.createTrade(tradeData);
-      
-      console.log(`✅ Trade created successfully: ${newTrade.id}`);
-      
-      // Trigger automations for the new trade
-      try {
-        await automationService.triggerAutomations(newTrade, 'trade_registered');
-        console.log(`🔔 Automations triggered for trade: ${newTrade.id}`);
-      } catch (error) {
-        console.error(`⚠️ Failed to trigger automations for trade ${newTrade.id}:`, error);
-        // Don't fail the trade creation if automation fails
-      }
-      
-      // Process copy trading for the new trade
-      try {
-        await copyTradingService.processNewTradeForCopyTrading(newTrade);
-        console.log(`📋 Copy trading processed for trade: ${newTrade.id}`);
-      } catch (error) {
-        console.error(`⚠️ Failed to process copy trading for trade ${newTrade.id}:`, error);
-        // Don't fail the trade creation if copy trading fails
-      }
+      // Same path as alert webhooks: create, then automations and copy trading
+      const newTrade = await tradeRegistrationService.registerTrade(tradeData);
       
       res.status(201).json(newTrade);
       
@@ -209,7 +305,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/trades/:id/complete', isAuthenticated, async (req, res) => {
+  app.patch('/api/trades/:id/complete', isAuthenticated, requirePermission('trades.manage'), async (req, res) => {
     try {
       // Parse and validate request body first
       const completionData = completeTradeSchema.parse(req.body);
@@ -229,8 +325,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Manual completion should NOT trigger automations
-      // Only target status updates should trigger automations
+      // Only target status updates should trigger automations - already posted messages are still brought up to date
+      void webhookService.emitTradeEvent('trade_completed', updatedTrade);
+      void automationService.syncTradeMessages(updatedTrade.id, 'trade_completed');
       
+      setAuditContext(res, { before: trade, after: updatedTrade });
       res.json(updatedTrade);
     } catch (error) {
       console.error("Error completing trade:", error);
@@ -248,7 +347,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Endpoint to reopen completed trades
-  app.patch('/api/trades/:id/reopen', isAuthenticated, async (req, res) => {
+  app.patch('/api/trades/:id/reopen', isAuthenticated, requirePermission('trades.manage'), async (req, res) => {
     try {
       const trade = await storage.getTrade(req.params.id);
       if (!trade) {
@@ -267,6 +366,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       console.log(`✅ API: Trade reopened successfully: ${reopenedTrade.tradeId}, status: ${reopenedTrade.status}`);
+      setAuditContext(res, { before: trade, after: reopenedTrade });
       res.json(reopenedTrade);
     } catch (error) {
       console.error("Error reopening trade:", error);
@@ -275,7 +375,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Endpoint to exit trade on exchange immediately at market price
-  app.patch('/api/trades/:id/exit', isAuthenticated, async (req, res) => {
+  app.patch('/api/trades/:id/exit', isAuthenticated, requirePermission('trades.manage'), async (req, res) => {
     try {
       const trade = await storage.getTrade(req.params.id);
       if (!trade) {
@@ -316,12 +416,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`✅ API: Trade exited successfully on exchange: ${trade.tradeId}`);
       
       // Exit trade only on exchange - keep database trade status unchanged (active)
-      // Mark as exited on exchange and add note for record keeping
+      // Mark as exited on exchange and add note for record keeping (P&L recorded at current mark price)
+      const exitPrice = await priceWatcher.getCurrentPrice(trade.pair);
       const updatedTrade = await storage.markExchangeExited(trade.id, 
-        `🚪 Position exited on exchange at market price: ${exitResult.message}`
+        `🚪 Position exited on exchange at market price: ${exitResult.message}`,
+        exitPrice
       );
       
+      if (updatedTrade) {
+        void automationService.syncTradeMessages(updatedTrade.id, 'manual_exit');
+      }
+
       console.log(`🏁 API: Trade exit completed - Exchange exited, Database remains active`);
+      setAuditContext(res, { before: trade, after: updatedTrade || trade });
       res.json({
         success: true,
         message: "Trade position successfully exited on exchange - trade remains active for tracking",
@@ -346,7 +453,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Endpoint to exit original trade AND all copy trades for a trade
-  app.patch('/api/trades/:id/exit-for-all', isAuthenticated, async (req, res) => {
+  app.patch('/api/trades/:id/exit-for-all', isAuthenticated, requirePermission('trades.exit'), requireRecentAuth, async (req, res) => {
     try {
       const trade = await storage.getTrade(req.params.id);
       if (!trade) {
@@ -383,9 +490,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         if (exitResult.success) {
           originalExited = true;
+          const exitPrice = await priceWatcher.getCurrentPrice(trade.pair);
           await storage.markExchangeExited(trade.id, 
-            `🚪 Position exited via EXIT FOR ALL at market price: ${exitResult.message}`
+            `🚪 Position exited via EXIT FOR ALL at market price: ${exitResult.message}`,
+            exitPrice
           );
+          void automationService.syncTradeMessages(trade.id, 'exit_for_all');
           console.log(`✅ EXIT FOR ALL: Original trade exited successfully`);
           results.push({ type: 'original', trade: trade.tradeId, status: 'success', message: exitResult.message });
         } else {
@@ -421,10 +531,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
               continue;
             }
 
-            // Decrypt credentials and create service instance for this user
-            const decryptedKey = safeDecrypt(copyUser.apiKey);
-            const decryptedSecret = safeDecrypt(copyUser.apiSecret);
-            const userCoinDCXService = new CoinDCXService(decryptedKey, decryptedSecret);
+            // Decrypt credentials and resolve the venue (or paper account) this copy trade was routed to
+            const copyVenue = getFollowerExchange(copyUser, {
+              exchange: copyTrade.exchange,
+              paper: isPaperOrderId(copyTrade.executedTradeId),
+            });
+            if (!copyVenue) {
+              copyTradesFailed++;
+              results.push({ 
+                type: 'copy', 
+                trade: copyTrade.executedTradeId, 
+                user: copyUser.name,
+                status: 'failed', 
+                message: 'Failed to decrypt API credentials' 
+              });
+              continue;
+            }
 
             // Determine trade type for copy trade
             let copyTradeType: 'spot' | 'margin' | 'futures' = 'futures';
@@ -440,10 +562,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
             console.log(`🚪 EXIT FOR ALL: Exiting copy trade for ${copyUser.name} (${copyTradeType}, ${copyTrade.leverage}x)`);
             
             // Exit copy trade using user's credentials
-            const copyExitResult = await userCoinDCXService.exitTrade(
-              copyTrade.executedTradeId!,
-              copyTrade.pair,
-              copyTradeType
+            const copyExitResult = await copyVenue.adapter.exitPosition(
+              copyVenue.credentials,
+              { tradeId: copyTrade.executedTradeId!, pair: copyTrade.pair, tradeType: copyTradeType }
             );
             
             if (copyExitResult.success) {
@@ -452,6 +573,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
               await storage.updateCopyTradeStatus(copyTrade.id, 'exited', 
                 `Exited via EXIT FOR ALL: ${copyExitResult.message}`
               );
+              // This follower's position is closed now - estimate its P&L until fills are reconciled
+              const copyExitPrice = await priceWatcher.getCurrentPrice(copyTrade.pair);
+              if (copyExitPrice && copyTrade.executedQuantity && !copyTrade.exitPrice) {
+                await storage.updateCopyTradePnl(copyTrade.id, { exitPrice: copyExitPrice, exitTime: new Date(), pnlSource: 'estimated' });
+              }
               console.log(`✅ EXIT FOR ALL: Copy trade exited for ${copyUser.name}`);
               results.push({ 
                 type: 'copy', 
@@ -519,6 +645,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`🏁 EXIT FOR ALL: ${message}`);
       
+      setAuditContext(res, { before: trade, after: (await storage.getTrade(trade.id)) || trade });
       res.json({
         success: true,
         message,
@@ -536,7 +663,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Endpoint to update target status (for all 5 target types) - V2 with 5-field support
-  app.patch('/api/trades/:id/target-status', isAuthenticated, async (req, res) => {
+  app.patch('/api/trades/:id/target-status', isAuthenticated, requirePermission('trades.manage'), async (req, res) => {
     try {
       const { targetType, hit } = req.body;
       
@@ -561,18 +688,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Only active trades can have target status updated" });
       }
 
-      // For targets that auto-complete (stop_loss, target_3), trigger automation FIRST
-      // while trade is still active, then complete the trade
-      const autoCompletingTargets = ['stop_loss', 'target_3'];
-      
-      console.log(`🔍 Debug: targetType=${targetType}, hit=${hit}, isAutoCompleting=${autoCompletingTargets.includes(targetType)}`);
       console.log(`🎯 TARGET-STATUS: Processing ${targetType} hit=${hit} for trade ${trade.id} (${trade.tradeId})`);
-      
-      if (hit && autoCompletingTargets.includes(targetType)) {
-        console.log(`🚀 Pre-completion automation trigger for ${targetType}`);
-        // Trigger automation FIRST while trade is still active
-        await tradeMonitor.triggerTargetHit(trade.id, targetType);
-      }
 
       // Use V2 method which handles business logic and auto-completion
       const result = await storage.updateTradeTargetStatusV2(trade.id, { targetType, hit });
@@ -581,20 +697,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ message: "Failed to update target status" });
       }
 
+      // Another update (e.g. the price watcher) got there first or a business rule blocked it - its automations already ran
+      if (!result.applied) {
+        return res.status(409).json({ message: "Target status was not changed - it was already updated or is blocked by another target", trade: result.trade });
+      }
+
       const { trade: updatedTrade, autoCompleted } = result;
       
       console.log(`✅ TARGET-STATUS: Storage update complete. AutoCompleted=${autoCompleted}, CompletionReason=${updatedTrade.completionReason || 'N/A'}, Status=${updatedTrade.status}`);
       
-      // For non-auto-completing targets (safebook, target_1, target_2), trigger automation AFTER update
-      if (hit && !autoCompletingTargets.includes(targetType)) {
-        console.log(`🎯 Post-update automation trigger for ${targetType}`);
+      // Automations fire only once this request's update has been applied (auto-completed trades included)
+      if (hit) {
         await tradeMonitor.triggerTargetHit(updatedTrade.id, targetType);
       }
+
+      if (autoCompleted) {
+        void webhookService.emitTradeEvent('trade_completed', updatedTrade);
+      }
+
+      // Refresh the original post - a hit target can be struck through, a cleared one restored
+      void automationService.syncTradeMessages(updatedTrade.id, `${targetType}_${hit ? 'hit' : 'cleared'}`);
+
+      // Take partial profits on followers' positions at T1/T2
+      const copyTradeSync = hit && (targetType === 'target_1' || targetType === 'target_2')
+        ? await copyTradingService.propagateMasterTradeChange(updatedTrade, { kind: 'partial_close', target: targetType })
+        : undefined;
       
       // Return both trade and auto-completion status for frontend
+      setAuditContext(res, { action: `trade.target_status.${targetType}`, before: trade, after: updatedTrade });
       res.json({ 
         trade: updatedTrade,
-        autoCompleted 
+        autoCompleted,
+        copyTradeSync
       });
     } catch (error) {
       console.error("Error updating target status:", error);
@@ -603,7 +737,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Endpoint to update safebook status without completing the trade
-  app.patch('/api/trades/:id/safebook', isAuthenticated, async (req, res) => {
+  app.patch('/api/trades/:id/safebook', isAuthenticated, requirePermission('trades.manage'), async (req, res) => {
     try {
       // Parse and validate request body
       const safebookData = updateSafebookSchema.parse(req.body);
@@ -624,8 +758,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Trigger automation for safebook hit
       await tradeMonitor.triggerSafebook(updatedTrade.id, safebookData.price);
+      void automationService.syncTradeMessages(updatedTrade.id, 'safe_book_hit');
+
+      // Move followers' stop loss to their own entry
+      const copyTradeSync = await copyTradingService.propagateMasterTradeChange(updatedTrade, { kind: 'breakeven' });
       
-      res.json(updatedTrade);
+      setAuditContext(res, { before: trade, after: updatedTrade });
+      res.json({ ...updatedTrade, copyTradeSync });
     } catch (error) {
       console.error("Error updating safebook:", error);
       
@@ -642,7 +781,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Edit trade endpoint
-  app.put('/api/trades/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/trades/:id', isAuthenticated, requirePermission('trades.manage'), async (req, res) => {
     try {
       const tradeData = updateTradeSchema.parse(req.body);
       
@@ -655,6 +794,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!updatedTrade) {
         return res.status(500).json({ message: "Failed to update trade" });
       }
+      setAuditContext(res, { before: trade, after: updatedTrade });
+
+      // Posts of automations with "edit on trade update" show the new levels
+      void automationService.syncTradeMessages(updatedTrade.id, 'trade_updated');
+
+      // Mirror SL/TP edits onto followers' open positions
+      const levelChanged = (before: string | null, after: string | null) =>
+        !!after && Number(after) > 0 && Number(after) !== Number(before || 0);
+      const stopLossChanged = levelChanged(trade.stopLossTrigger, updatedTrade.stopLossTrigger);
+      const takeProfitChanged = levelChanged(trade.takeProfitTrigger, updatedTrade.takeProfitTrigger);
+
+      if (updatedTrade.status === 'active' && (stopLossChanged || takeProfitChanged)) {
+        const copyTradeSync = await copyTradingService.propagateMasterTradeChange(updatedTrade, {
+          kind: 'protection',
+          ...(stopLossChanged && { stopLoss: Number(updatedTrade.stopLossTrigger) }),
+          ...(takeProfitChanged && { takeProfit: Number(updatedTrade.takeProfitTrigger) }),
+        });
+        return res.json({ ...updatedTrade, copyTradeSync });
+      }
       
       res.json(updatedTrade);
     } catch (error) {
@@ -673,57 +831,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete trade endpoint
-  app.delete('/api/trades/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/trades/:id', isAuthenticated, requirePermission('trades.manage'), async (req, res) => {
     try {
       const trade = await storage.getTrade(req.params.id);
       if (!trade) {
         return res.status(404).json({ message: "Trade not found" });
       }
 
+      // Posts have to go before the trade - deleting it removes the sent message records
+      const telegramMessages = req.query.deleteMessages === 'true'
+        ? await automationService.deleteTradeMessages(trade.id, 'trade_deleted')
+        : undefined;
+
       const success = await storage.deleteTrade(req.params.id);
       if (!success) {
         return res.status(500).json({ message: "Failed to delete trade" });
       }
       
-      res.json({ message: "Trade deleted successfully" });
+      setAuditContext(res, { before: trade });
+      res.json({ message: "Trade deleted successfully", telegramMessages });
     } catch (error) {
       console.error("Error deleting trade:", error);
       res.status(500).json({ message: "Failed to delete trade" });
     }
   });
 
-  // Developer API endpoints
-  app.get('/api/developer/api-key', isAuthenticated, async (req, res) => {
+  // Developer API keys - each admin manages their own; the full key is only returned on create
+  app.get('/api/developer/api-keys', isAuthenticated, requirePermission('integrations.view'), async (req, res) => {
     try {
       const user = req.user as User;
-      let apiKey = await storage.getUserApiKey(user.id);
-      
-      // If no API key exists, generate one
-      if (!apiKey) {
-        apiKey = await storage.generateApiKey(user.id);
+      const keys = await storage.getApiKeysByUser(user.id);
+      res.json(keys.map(key => apiKeyService.toSummary(key)));
+    } catch (error) {
+      console.error("Error fetching API keys:", error);
+      res.status(500).json({ message: "Failed to fetch API keys" });
+    }
+  });
+
+  app.post('/api/developer/api-keys', isAuthenticated, requirePermission('integrations.manage'), requireRecentAuth, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const data = createApiKeySchema.parse(req.body);
+      const invalidEntries = apiKeyService.findInvalidIpEntries(data.ipAllowlist);
+      if (invalidEntries.length > 0) {
+        return res.status(400).json({ message: `Invalid IP allowlist entries: ${invalidEntries.join(', ')}` });
       }
-      
-      res.json({ apiKey });
+
+      const { apiKey, key } = await apiKeyService.createKey(user.id, data);
+      const summary = apiKeyService.toSummary(apiKey);
+      setAuditContext(res, { after: summary });
+      res.status(201).json({ ...summary, key });
     } catch (error) {
-      console.error("Error retrieving API key:", error);
-      res.status(500).json({ message: "Failed to retrieve API key" });
+      console.error("Error creating API key:", error);
+      if (error && typeof error === 'object' && 'issues' in error) {
+        return res.status(400).json({ message: "Validation failed", errors: error.issues });
+      }
+      res.status(500).json({ message: "Failed to create API key" });
     }
   });
 
-  app.post('/api/developer/api-key', isAuthenticated, async (req, res) => {
+  app.delete('/api/developer/api-keys/:id', isAuthenticated, requirePermission('integrations.manage'), async (req, res) => {
     try {
       const user = req.user as User;
-      const newApiKey = await storage.generateApiKey(user.id);
-      
-      res.json({ apiKey: newApiKey });
+      const apiKey = await storage.revokeApiKey(req.params.id, user.id);
+      if (!apiKey) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+      setAuditContext(res, { action: 'api_key.revoke', after: apiKeyService.toSummary(apiKey) });
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error generating API key:", error);
-      res.status(500).json({ message: "Failed to generate API key" });
+      console.error("Error revoking API key:", error);
+      res.status(500).json({ message: "Failed to revoke API key" });
     }
   });
 
   // Channel routes
-  app.get('/api/channels', isAuthenticated, async (req, res) => {
+  app.get('/api/channels', isAuthenticated, requirePermission('messaging.view'), async (req, res) => {
     try {
       const channels = await storage.getTelegramChannels();
       res.json(channels);
@@ -733,7 +916,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/channels', isAuthenticated, async (req, res) => {
+  app.post('/api/channels', isAuthenticated, requirePermission('messaging.manage'), async (req, res) => {
     try {
       const channelData = insertTelegramChannelSchema.parse(req.body);
       const channel = await storage.createTelegramChannel(channelData);
@@ -744,13 +927,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/channels/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/channels/:id', isAuthenticated, requirePermission('messaging.manage'), async (req, res) => {
     try {
       const channelData = insertTelegramChannelSchema.partial().parse(req.body);
+      const before = await storage.getTelegramChannel(req.params.id);
       const channel = await storage.updateTelegramChannel(req.params.id, channelData);
       if (!channel) {
         return res.status(404).json({ message: "Channel not found" });
       }
+      setAuditContext(res, { before, after: channel });
       res.json(channel);
     } catch (error) {
       console.error("Error updating channel:", error);
@@ -758,10 +943,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/channels/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/channels/:id', isAuthenticated, requirePermission('messaging.manage'), async (req, res) => {
     try {
       // Allow partial updates for specific fields like isActive, templateId
-      const allowedFields = ['isActive', 'templateId', 'name', 'description'];
+      const allowedFields = ['isActive', 'templateId', 'name', 'description', 'locale'];
       const updateData: any = {};
       
       for (const [key, value] of Object.entries(req.body)) {
@@ -770,10 +955,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      if (updateData.locale !== undefined && !isTemplateLocale(updateData.locale)) {
+        return res.status(400).json({ message: `Locale must be one of: ${Object.keys(TEMPLATE_LOCALES).join(', ')}` });
+      }
+
+      const before = await storage.getTelegramChannel(req.params.id);
       const channel = await storage.updateTelegramChannel(req.params.id, updateData);
       if (!channel) {
         return res.status(404).json({ message: "Channel not found" });
       }
+      setAuditContext(res, { before, after: channel });
       res.json(channel);
     } catch (error) {
       console.error("Error updating channel:", error);
@@ -781,12 +972,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/channels/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/channels/:id', isAuthenticated, requirePermission('messaging.manage'), async (req, res) => {
     try {
+      const before = await storage.getTelegramChannel(req.params.id);
       const success = await storage.deleteTelegramChannel(req.params.id);
       if (!success) {
         return res.status(404).json({ message: "Channel not found" });
       }
+      setAuditContext(res, { before });
       res.json({ message: "Channel deleted successfully" });
     } catch (error) {
       console.error("Error deleting channel:", error);
@@ -795,7 +988,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Send test message to channel
-  app.post('/api/channels/:id/test', isAuthenticated, async (req, res) => {
+  app.post('/api/channels/:id/test', isAuthenticated, requirePermission('messaging.manage'), async (req, res) => {
     try {
       const { message, templateId } = req.body;
       const channelId = req.params.id;
@@ -823,93 +1016,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ message: 'Template not found' });
         }
 
-        // Use telegramService for proper template handling
-        
-        // Create mock data based on template type
-        let variables: any = {};
-        
-        if (template.templateType === 'research_report') {
-          // Mock research report data for testing
-          const mockResearchData = {
-            pair: 'BTC-USDT',
-            supportLevel: '42,500.00',
-            resistanceLevel: '48,000.00',
-            summary: 'Strong bullish momentum with potential breakout above resistance. Support levels holding well.',
-            upsideTarget1: '50,000.00',
-            upsideTarget2: '52,500.00',
-            downsideTarget1: '40,000.00',
-            downsideTarget2: '38,500.00',
-            breakoutDirection: 'upside',
-            imageUrl: '/images/btc-analysis.png',
-            timestamp: new Date().toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' }),
-            reportId: 'RR-TEST-123'
-          };
-          
-          variables = {
-            pair: mockResearchData.pair,
-            supportLevel: mockResearchData.supportLevel,
-            resistanceLevel: mockResearchData.resistanceLevel,
-            summary: mockResearchData.summary,
-            upsideTarget1: mockResearchData.upsideTarget1,
-            upsideTarget2: mockResearchData.upsideTarget2,
-            downsideTarget1: mockResearchData.downsideTarget1,
-            downsideTarget2: mockResearchData.downsideTarget2,
-            breakoutDirection: mockResearchData.breakoutDirection,
-            imageUrl: mockResearchData.imageUrl,
-            timestamp: mockResearchData.timestamp,
-            reportId: mockResearchData.reportId
-          };
-        } else {
-          // Mock trade data for template testing
-          const mockTrade = {
-            id: 'test-trade-123',
-            pair: 'BTC-USDT',
-            price: '45,250.50',
-            type: 'BUY',
-            leverage: '10x',
-            stopLoss: '42,000.00',
-            takeProfit1: '47,000.00',
-            takeProfit2: '48,500.00',
-            takeProfit3: '50,000.00',
-            safebookPrice: '46,000.00',
-            timestamp: new Date().toLocaleString('en-GB', { 
-              timeZone: 'Asia/Kolkata',
-              day: '2-digit',
-              month: 'short',
-              year: 'numeric',
-              hour: '2-digit',
-              minute: '2-digit'
-            }),
-            profitLoss: '+2.5%',
-            quantity: '0.1',
-            tradeId: 'TXN-TEST-123',
-            signalType: 'Intraday'
-          };
-
-          variables = {
-            pair: mockTrade.pair,
-            price: mockTrade.price,
-            type: mockTrade.type,
-            leverage: mockTrade.leverage,
-            stopLoss: mockTrade.stopLoss,
-            takeProfit1: mockTrade.takeProfit1,
-            takeProfit2: mockTrade.takeProfit2,
-            takeProfit3: mockTrade.takeProfit3,
-            safebookPrice: mockTrade.safebookPrice,
-            timestamp: mockTrade.timestamp,
-            profitLoss: mockTrade.profitLoss,
-            quantity: mockTrade.quantity,
-            tradeId: mockTrade.tradeId,
-            signalType: mockTrade.signalType
-          };
-        }
-
-        // Process template with mock data
-        let processedMessage = template.template;
-
-        for (const [key, value] of Object.entries(variables)) {
-          const placeholder = `{${key}}`;
-          processedMessage = processedMessage.replace(new RegExp(placeholder, 'g'), value || '');
+        // Render the channel's locale variant against sample data for its type
+        const locale = toTemplateLocale(channel.locale);
+        const context = buildSampleTemplateContext(template.templateType, locale);
+        let processedMessage: string;
+        try {
+          processedMessage = renderTemplate(templateBodyForLocale(template, locale), context, escapeModeForParseMode(template.parseMode), locale);
+        } catch (error) {
+          if (error instanceof TemplateSyntaxError) {
+            return res.status(400).json({ message: error.message, issues: error.issues });
+          }
+          throw error;
         }
 
         // Prepare message for Telegram
@@ -980,17 +1097,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (template.buttons && Array.isArray(template.buttons) && template.buttons.length > 0) {
           const processedButtons = template.buttons.map((row: any[]) => {
             return row.map((button: any) => {
-              let buttonText = button.text || '';
-              let buttonUrl = button.url || '';
-              
-              // Replace variables in button text and URL
-              for (const [key, value] of Object.entries(variables)) {
-                const placeholder = `{${key}}`;
-                buttonText = buttonText.replace(new RegExp(placeholder, 'g'), value || '');
-                if (buttonUrl) {
-                  buttonUrl = buttonUrl.replace(new RegExp(placeholder, 'g'), value || '');
-                }
-              }
+              const buttonText = renderTemplate(button.text || '', context, 'plain');
+              const buttonUrl = button.url ? renderTemplate(button.url, context, 'url') : '';
               
               const renderedButton: any = { text: buttonText };
               if (button.url && buttonUrl) {
@@ -1070,7 +1178,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Template routes
-  app.get('/api/templates', isAuthenticated, async (req, res) => {
+  app.get('/api/templates', isAuthenticated, requirePermission('messaging.view'), async (req, res) => {
     try {
       const { channelId } = req.query;
       const templates = await storage.getMessageTemplates(channelId as string);
@@ -1081,26 +1189,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/templates', isAuthenticated, async (req, res) => {
+  app.post('/api/templates', isAuthenticated, requirePermission('messaging.manage'), async (req, res) => {
     try {
       const templateData = insertMessageTemplateSchema.parse(req.body);
-      const template = await storage.createMessageTemplate(templateData);
+      const user = req.user as User;
+      const template = await storage.createMessageTemplate(templateData, { createdBy: user.id, createdByName: user.username });
       res.status(201).json(template);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error creating template:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors[0]?.message || "Validation failed", errors: error.errors });
+      }
       res.status(400).json({ message: "Failed to create template" });
     }
   });
 
-  app.put('/api/templates/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/templates/:id', isAuthenticated, requirePermission('messaging.manage'), async (req, res) => {
     try {
       // For updates, we need to parse without the refinement check since it's optional
       // The refinement is mainly for creation validation
       const templateData = req.body;
-      const template = await storage.updateMessageTemplate(req.params.id, templateData);
+      if (typeof templateData.template === 'string') {
+        const issues = validateTemplate(templateData.template);
+        if (issues.length > 0) {
+          return res.status(400).json({ message: `Line ${issues[0].line}, column ${issues[0].column}: ${issues[0].message}`, issues });
+        }
+      }
+      if (templateData.localeVariants !== undefined) {
+        const variants = templateLocaleVariantsSchema.safeParse(templateData.localeVariants);
+        if (!variants.success) {
+          return res.status(400).json({ message: variants.error.errors[0].message });
+        }
+      }
+      const before = await storage.getMessageTemplate(req.params.id);
+      const user = req.user as User;
+      // Content changes are saved as a new version - automations pinned to an older one keep sending it
+      const { currentVersion, ...changes } = templateData;
+      const template = await storage.updateMessageTemplate(req.params.id, changes, { createdBy: user.id, createdByName: user.username });
       if (!template) {
         return res.status(404).json({ message: "Template not found" });
       }
+      setAuditContext(res, { before, after: template });
       res.json(template);
     } catch (error) {
       console.error("Error updating template:", error);
@@ -1108,17 +1237,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/templates/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/templates/:id/versions', isAuthenticated, requirePermission('messaging.view'), async (req, res) => {
+    try {
+      const template = await storage.getMessageTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      const versions = await storage.getMessageTemplateVersions(req.params.id);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching template versions:", error);
+      res.status(500).json({ message: "Failed to fetch template versions" });
+    }
+  });
+
+  // Rollback copies an old version's content into a new version - history is never rewritten
+  app.post('/api/templates/:id/versions/:version/rollback', isAuthenticated, requirePermission('messaging.manage'), async (req, res) => {
+    try {
+      const version = parseInt(req.params.version);
+      const before = await storage.getMessageTemplate(req.params.id);
+      if (!before) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      const snapshot = Number.isInteger(version) ? await storage.getMessageTemplateVersion(req.params.id, version) : undefined;
+      if (!snapshot) {
+        return res.status(404).json({ message: "Template version not found" });
+      }
+      if (snapshot.version === before.currentVersion) {
+        return res.status(400).json({ message: `Version ${version} is already the current version` });
+      }
+
+      const user = req.user as User;
+      const template = await storage.updateMessageTemplate(req.params.id, templateContent(snapshot) as Partial<InsertMessageTemplate>, {
+        createdBy: user.id,
+        createdByName: user.username,
+        note: `Rolled back to version ${snapshot.version}`,
+        restoredFromVersion: snapshot.version,
+      });
+      setAuditContext(res, { action: 'template.rollback', entityId: req.params.id, before, after: template });
+      res.json(template);
+    } catch (error) {
+      console.error("Error rolling back template:", error);
+      res.status(500).json({ message: "Failed to roll back template" });
+    }
+  });
+
+  app.patch('/api/templates/:id', isAuthenticated, requirePermission('messaging.manage'), async (req, res) => {
     try {
       const { isArchived } = req.body;
       if (typeof isArchived !== 'boolean') {
         return res.status(400).json({ message: "isArchived must be a boolean" });
       }
       
+      const before = await storage.getMessageTemplate(req.params.id);
       const template = await storage.updateMessageTemplate(req.params.id, { isArchived });
       if (!template) {
         return res.status(404).json({ message: "Template not found" });
       }
+      setAuditContext(res, { action: isArchived ? 'template.archive' : 'template.unarchive', before, after: template });
       res.json(template);
     } catch (error) {
       console.error("Error archiving template:", error);
@@ -1126,12 +1303,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/templates/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/templates/:id', isAuthenticated, requirePermission('messaging.manage'), async (req, res) => {
     try {
+      const before = await storage.getMessageTemplate(req.params.id);
       const success = await storage.deleteMessageTemplate(req.params.id);
       if (!success) {
         return res.status(404).json({ message: "Template not found" });
       }
+      setAuditContext(res, { before });
       res.json({ message: "Template deleted successfully" });
     } catch (error) {
       console.error("Error deleting template:", error);
@@ -1139,7 +1318,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/templates/test', isAuthenticated, async (req, res) => {
+  app.post('/api/templates/test', isAuthenticated, requirePermission('messaging.manage'), async (req, res) => {
     try {
       const { template, channelId, includeFields } = req.body;
       
@@ -1178,8 +1357,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Render a draft template against sample data or a real trade / research report - nothing is sent
+  app.post('/api/templates/preview', isAuthenticated, requirePermission('messaging.view'), async (req, res) => {
+    try {
+      const request = templatePreviewSchema.parse(req.body);
+      const preview = await templatePreviewService.preview(request);
+      res.json(preview);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof TemplatePreviewNotFoundError) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error previewing template:", error);
+      res.status(500).json({ message: "Failed to preview template" });
+    }
+  });
+
   // Image upload routes for templates
-  app.post('/api/templates/images/upload-url', isAuthenticated, async (req, res) => {
+  app.post('/api/templates/images/upload-url', isAuthenticated, requirePermission('messaging.manage'), async (req, res) => {
     try {
       // Validate request body (even though empty, it ensures proper parsing)
       uploadUrlRequestSchema.parse(req.body);
@@ -1216,7 +1413,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/templates/images/finalize', isAuthenticated, async (req, res) => {
+  app.post('/api/templates/images/finalize', isAuthenticated, requirePermission('messaging.manage'), async (req, res) => {
     try {
       // Validate request body with proper schema
       const { imageURL } = finalizeImageUploadSchema.parse(req.body);
@@ -1301,7 +1498,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Automation routes
-  app.get('/api/automations', isAuthenticated, async (req, res) => {
+  app.get('/api/automations', isAuthenticated, requirePermission('messaging.view'), async (req, res) => {
     try {
       const automations = await storage.getAutomations();
       res.json(automations);
@@ -1311,7 +1508,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/automations', isAuthenticated, async (req, res) => {
+  app.post('/api/automations', isAuthenticated, requirePermission('messaging.manage'), async (req, res) => {
     try {
       const automationData = insertAutomationSchema.parse(req.body);
       
@@ -1334,6 +1531,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!template.isActive) {
         return res.status(400).json({ message: "Selected template is not active" });
       }
+
+      if (automationData.templateVersion && !(await storage.getMessageTemplateVersion(template.id, automationData.templateVersion))) {
+        return res.status(400).json({ message: `Selected template has no version ${automationData.templateVersion}` });
+      }
       
       const automation = await storage.createAutomation(automationData);
       res.status(201).json(automation);
@@ -1352,16 +1553,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/automations/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/automations/:id', isAuthenticated, requirePermission('messaging.manage'), async (req, res) => {
     try {
       // For automation updates, use req.body directly since schema has refinement
       const updates = req.body;
+      const before = await storage.getAutomation(req.params.id);
+
+      const templateId = updates.templateId || before?.templateId;
+      if (updates.templateVersion && templateId && !(await storage.getMessageTemplateVersion(templateId, updates.templateVersion))) {
+        return res.status(400).json({ message: `Selected template has no version ${updates.templateVersion}` });
+      }
+
       const automation = await storage.updateAutomation(req.params.id, updates);
       
       if (!automation) {
         return res.status(404).json({ message: "Automation not found" });
       }
       
+      setAuditContext(res, { before, after: automation });
       res.json(automation);
     } catch (error) {
       console.error("Error updating automation:", error);
@@ -1378,14 +1587,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/automations/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/automations/:id', isAuthenticated, requirePermission('messaging.manage'), async (req, res) => {
     try {
+      const before = await storage.getAutomation(req.params.id);
       const deleted = await storage.deleteAutomation(req.params.id);
       
       if (!deleted) {
         return res.status(404).json({ message: "Automation not found" });
       }
       
+      setAuditContext(res, { before });
       res.json({ message: "Automation deleted successfully" });
     } catch (error) {
       console.error("Error deleting automation:", error);
@@ -1394,7 +1605,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Toggle automation active/inactive status
-  app.patch('/api/automations/:id/toggle', isAuthenticated, async (req, res) => {
+  app.patch('/api/automations/:id/toggle', isAuthenticated, requirePermission('messaging.manage'), async (req, res) => {
     try {
       const { isActive } = req.body;
       
@@ -1402,12 +1613,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "isActive must be a boolean" });
       }
       
+      const before = await storage.getAutomation(req.params.id);
       const updatedAutomation = await storage.toggleAutomationStatus(req.params.id, isActive);
       
       if (!updatedAutomation) {
         return res.status(404).json({ message: "Automation not found" });
       }
       
+      setAuditContext(res, { before, after: updatedAutomation });
       res.json(updatedAutomation);
     } catch (error) {
       console.error("Error toggling automation status:", error);
@@ -1416,7 +1629,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Sent messages routes
-  app.get('/api/sent-messages', isAuthenticated, async (req, res) => {
+  app.get('/api/sent-messages', isAuthenticated, requirePermission('messaging.view'), async (req, res) => {
     try {
       const { status, limit, offset } = req.query;
       
@@ -1450,8 +1663,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/sent-messages/:id/edits', isAuthenticated, requirePermission('messaging.view'), async (req, res) => {
+    try {
+      const edits = await storage.getSentMessageEdits(req.params.id);
+      res.json(edits);
+    } catch (error) {
+      console.error("Error fetching sent message edits:", error);
+      res.status(500).json({ message: "Failed to fetch message edits" });
+    }
+  });
+
   // Copy Trading User Management Routes
-  app.get('/api/copy-trading/users', isAuthenticated, async (req, res) => {
+  app.get('/api/copy-trading/users', isAuthenticated, requirePermission('copy_trading.view'), async (req, res) => {
     try {
       const users = await storage.getCopyTradingUsers();
       
@@ -1459,19 +1682,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const usersWithBalance = await Promise.all(
         users.map(async (user) => {
           try {
-            // Decrypt API credentials with debugging
-            const apiKey = safeDecrypt(user.apiKey);
-            const apiSecret = safeDecrypt(user.apiSecret);
+            // Paper followers report their simulated wallet
+            const venue = getFollowerExchange(user);
             
-            // Credentials decrypted securely
-            
-            if (apiKey && apiSecret) {
-              const walletResult = await coindcxService.getFuturesWalletBalance(apiKey, apiSecret);
+            if (venue) {
+              const walletResult = await venue.adapter.getFuturesBalance(venue.credentials);
               
-              if (walletResult.success && walletResult.balance) {
-                // Extract USDT balance from the wallet response
-                const usdtWallet = walletResult.balance.find((wallet: any) => wallet.currency_short_name === 'USDT');
-                const usdtBalance = usdtWallet ? parseFloat(usdtWallet.balance || '0') : 0;
+              if (walletResult.success) {
+                const usdtBalance = walletResult.usdtBalance || 0;
                 
                 // Save wallet balance to database and update lowFund status
                 try {
@@ -1484,7 +1702,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               
               return {
                 ...user,
-                walletBalance: walletResult.success ? walletResult.balance : null,
+                walletBalance: walletResult.success ? walletResult.raw : null,
                 walletError: walletResult.success ? null : walletResult.message,
                 // Override with database values for UI display
                 futuresWalletBalance: user.futuresWalletBalance || 0,
@@ -1515,15 +1733,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/copy-trading/users', isAuthenticated, async (req, res) => {
+  app.post('/api/copy-trading/users', isAuthenticated, requirePermission('copy_trading.manage'), async (req, res) => {
     try {
       // Validate request body
       const userData = insertCopyTradingUserSchema.parse(req.body);
       
       console.log(`🔐 Verifying credentials for new copy trading user: ${userData.name}`);
       
-      // Verify credentials with CoinDCX before saving
-      const credentialCheck = await coindcxService.validateCustomCredentials(userData.apiKey, userData.apiSecret);
+      // Verify credentials with the user's exchange before saving
+      const credentialCheck = await getExchangeAdapter(userData.exchange).validateCredentials({
+        apiKey: userData.apiKey,
+        apiSecret: userData.apiSecret,
+      });
       
       if (!credentialCheck.valid) {
         console.log(`❌ Credential verification failed for user: ${userData.name}`);
@@ -1554,7 +1775,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/copy-trading/users/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/copy-trading/users/:id', isAuthenticated, requirePermission('copy_trading.manage'), async (req, res) => {
     try {
       const userData = insertCopyTradingUserSchema.partial().parse(req.body);
       
@@ -1562,7 +1783,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (userData.apiKey && userData.apiSecret) {
         console.log(`🔐 Verifying updated credentials for copy trading user: ${req.params.id}`);
         
-        const credentialCheck = await coindcxService.validateCustomCredentials(userData.apiKey, userData.apiSecret);
+        const exchange = userData.exchange || (await storage.getCopyTradingUser(req.params.id))?.exchange;
+        const credentialCheck = await getExchangeAdapter(exchange).validateCredentials({
+          apiKey: userData.apiKey,
+          apiSecret: userData.apiSecret,
+        });
         
         if (!credentialCheck.valid) {
           console.log(`❌ Updated credential verification failed for user: ${req.params.id}`);
@@ -1575,11 +1800,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`✅ Updated credentials verified for user: ${req.params.id}`);
       }
       
+      const before = await storage.getCopyTradingUser(req.params.id);
       const updatedUser = await storage.updateCopyTradingUser(req.params.id, userData);
       
       if (!updatedUser) {
         return res.status(404).json({ message: "Copy trading user not found" });
       }
+      setAuditContext(res, { before, after: updatedUser });
       
       console.log(`✅ Copy trading user updated successfully: ${updatedUser.id}`);
       res.json(updatedUser);
@@ -1597,7 +1824,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/copy-trading/users/:id/toggle', isAuthenticated, async (req, res) => {
+  app.patch('/api/copy-trading/users/:id/toggle', isAuthenticated, requirePermission('copy_trading.manage'), async (req, res) => {
     try {
       const { isActive } = req.body;
       
@@ -1605,11 +1832,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "isActive must be a boolean" });
       }
       
+      const before = await storage.getCopyTradingUser(req.params.id);
       const updatedUser = await storage.toggleCopyTradingUser(req.params.id, isActive);
       
       if (!updatedUser) {
         return res.status(404).json({ message: "Copy trading user not found" });
       }
+      setAuditContext(res, { before, after: updatedUser });
       
       console.log(`✅ Copy trading user ${isActive ? 'activated' : 'deactivated'}: ${updatedUser.id}`);
       res.json(updatedUser);
@@ -1619,13 +1848,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/copy-trading/users/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/copy-trading/users/:id', isAuthenticated, requirePermission('copy_trading.manage'), requireRecentAuth, async (req, res) => {
     try {
+      const before = await storage.getCopyTradingUser(req.params.id);
       const deleted = await storage.deleteCopyTradingUser(req.params.id);
       
       if (!deleted) {
         return res.status(404).json({ message: "Copy trading user not found" });
       }
+      setAuditContext(res, { before });
       
       console.log(`✅ Copy trading user deleted successfully: ${req.params.id}`);
       res.json({ message: "Copy trading user deleted successfully" });
@@ -1636,7 +1867,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin Copy Trading Application Routes (requires authentication)
-  app.get('/api/copy-trading/applications', isAuthenticated, async (req, res) => {
+  // Follower self-service history (portal logins, settings, key rotations, pauses)
+  app.get('/api/copy-trading/users/:id/audit-logs', isAuthenticated, requirePermission('copy_trading.view'), async (req, res) => {
+    try {
+      const logs = await storage.getCopyTradingUserAuditLogs(req.params.id, 100);
+      res.json(logs);
+    } catch (error) {
+      console.error("Error fetching copy trading user audit logs:", error);
+      res.status(500).json({ message: "Failed to fetch audit logs" });
+    }
+  });
+
+  app.get('/api/copy-trading/applications', isAuthenticated, requirePermission('copy_trading.view'), async (req, res) => {
     try {
       const { status, limit, offset } = req.query;
       
@@ -1653,7 +1895,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/copy-trading/applications/:id/approve', isAuthenticated, async (req, res) => {
+  app.patch('/api/copy-trading/applications/:id/approve', isAuthenticated, requirePermission('copy_trading.manage'), requireRecentAuth, async (req, res) => {
     try {
       const { notes } = req.body;
       
@@ -1689,6 +1931,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const newUser = await storage.createCopyTradingUser(userData);
       
       console.log(`✅ Application approved and user created: ${newUser.id} for ${application.email}`);
+      setAuditContext(res, { before: application, after: updatedApplication });
       res.json({ 
         message: "Application approved and user created successfully",
         application: updatedApplication,
@@ -1700,10 +1943,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/copy-trading/applications/:id/reject', isAuthenticated, async (req, res) => {
+  app.patch('/api/copy-trading/applications/:id/reject', isAuthenticated, requirePermission('copy_trading.manage'), async (req, res) => {
     try {
       const { notes } = req.body;
       
+      const before = await storage.getCopyTradingApplication(req.params.id);
       const updatedApplication = await storage.updateCopyTradingApplicationStatus(
         req.params.id, 
         'rejected', 
@@ -1713,6 +1957,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!updatedApplication) {
         return res.status(404).json({ message: "Application not found" });
       }
+      setAuditContext(res, { before, after: updatedApplication });
       
       console.log(`❌ Application rejected: ${req.params.id}`);
       res.json({ 
@@ -1728,7 +1973,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Public Copy Trading Application Routes  
   app.post('/api/public/verify-credentials', async (req, res) => {
     try {
-      const { apiKey, apiSecret } = req.body;
+      const { apiKey, apiSecret, exchange = 'coindcx' } = req.body;
       
       if (!apiKey || !apiSecret) {
         return res.status(400).json({ 
@@ -1737,10 +1982,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      if (!isSupportedExchange(exchange)) {
+        return res.status(400).json({ 
+          valid: false, 
+          message: `Unsupported exchange: ${exchange}` 
+        });
+      }
+
       console.log(`🔐 Public credential verification request for API key: ${apiKey.substring(0, 8)}...`);
       
-      // Verify credentials using CoinDCX service
-      const result = await coindcxService.validateCustomCredentials(apiKey, apiSecret);
+      // Verify credentials against the selected exchange
+      const result = await getExchangeAdapter(exchange).validateCredentials({ apiKey, apiSecret });
       
       res.json(result);
     } catch (error: any) {
@@ -1776,7 +2028,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Verify credentials before saving application
       console.log(`🔐 Verifying credentials for application: ${applicationData.email}`);
-      const credentialCheck = await coindcxService.validateCustomCredentials(applicationData.apiKey, applicationData.apiSecret);
+      const credentialCheck = await getExchangeAdapter(applicationData.exchange).validateCredentials({
+        apiKey: applicationData.apiKey,
+        apiSecret: applicationData.apiSecret,
+      });
       
       if (!credentialCheck.valid) {
         console.log(`❌ Credential verification failed for application: ${applicationData.email}`);
@@ -1796,25 +2051,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`✅ Copy trading application created successfully: ${newApplication.id}`);
       
-      // Send confirmation email to applicant
+      // Queue confirmation email to applicant
       try {
-        const emailSent = await sendApplicationConfirmationEmail(
-          applicationData.email,
-          {
-            name: applicationData.name || 'Unknown',
-            applicationId: newApplication.id!,
-            exchange: applicationData.exchange || 'Unknown',
-            submittedAt: new Date()
-          }
-        );
-        
-        if (emailSent) {
-          console.log(`📧 Confirmation email sent to: ${applicationData.email}`);
-        } else {
-          console.log(`⚠️  Failed to send confirmation email to: ${applicationData.email}`);
-        }
+        await jobQueue.enqueue('email.application_confirmation', {
+          email: applicationData.email,
+          name: applicationData.name || 'Unknown',
+          applicationId: newApplication.id!,
+          exchange: applicationData.exchange || 'Unknown',
+          submittedAt: new Date().toISOString()
+        });
+        console.log(`📧 Confirmation email queued for: ${applicationData.email}`);
       } catch (emailError) {
-        console.error('Error sending confirmation email:', emailError);
+        console.error('Error queueing confirmation email:', emailError);
         // Don't fail the application submission if email fails
       }
       
@@ -1838,7 +2086,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Copy Trading Trades Management Routes
-  app.get('/api/copy-trading/trades', isAuthenticated, async (req, res) => {
+  app.get('/api/copy-trading/trades', isAuthenticated, requirePermission('copy_trading.view'), async (req, res) => {
     try {
       const { userId, status, limit, offset } = req.query;
       
@@ -1856,7 +2104,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/copy-trading/trades', isAuthenticated, async (req, res) => {
+  // Execution quality per follower, pair and signal source - slippage, latency, rejections, size vs intended risk
+  app.get('/api/copy-trading/analytics/execution', isAuthenticated, requirePermission('copy_trading.view'), async (req, res) => {
+    try {
+      const { userId, days } = req.query;
+      const report = await copyTradeAnalyticsService.getExecutionReport({
+        userId: userId ? (userId as string) : undefined,
+        days: days ? Math.min(Math.max(parseInt(days as string) || 30, 1), 365) : 30,
+      });
+      res.json(report);
+    } catch (error) {
+      console.error("Error building copy trade execution report:", error);
+      res.status(500).json({ message: "Failed to build execution report" });
+    }
+  });
+
+  app.post('/api/copy-trading/trades', isAuthenticated, requirePermission('copy_trading.manage'), async (req, res) => {
     try {
       // Validate request body using Zod schema
       const copyTradeData = insertCopyTradeSchema.parse(req.body);
@@ -1879,7 +2142,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/copy-trading/trades/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/copy-trading/trades/:id', isAuthenticated, requirePermission('copy_trading.manage'), async (req, res) => {
     try {
       const { status, errorMessage } = req.body;
       
@@ -1901,6 +2164,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Reconcile estimated copy trade P&L against followers' exchange fills
+  app.post('/api/copy-trading/trades/reconcile-pnl', isAuthenticated, requirePermission('copy_trading.manage'), async (req, res) => {
+    try {
+      const result = await copyTradingService.reconcileClosedCopyTradesPnl();
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error("Error reconciling copy trade P&L:", error);
+      res.status(500).json({ message: "Failed to reconcile copy trade P&L" });
+    }
+  });
+
+  // Sync follower orders/positions for all open copy trades and flag drift
+  app.post('/api/copy-trading/trades/reconcile-lifecycle', isAuthenticated, requirePermission('copy_trading.manage'), async (req, res) => {
+    try {
+      const result = await copyTradingService.reconcileOpenCopyTrades();
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error("Error reconciling copy trade lifecycles:", error);
+      res.status(500).json({ message: "Failed to reconcile copy trade lifecycles" });
+    }
+  });
+
+  // Reconcile a single copy trade against the follower's exchange account
+  app.post('/api/copy-trading/trades/:id/reconcile', isAuthenticated, requirePermission('copy_trading.manage'), async (req, res) => {
+    try {
+      const copyTrade = await storage.getCopyTrade(req.params.id);
+      if (!copyTrade) {
+        return res.status(404).json({ message: "Copy trade not found" });
+      }
+
+      const result = await copyTradingService.reconcileCopyTradeLifecycle(copyTrade);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+
+      const updatedCopyTrade = await storage.getCopyTrade(req.params.id);
+      res.json({ ...result, copyTrade: updatedCopyTrade });
+    } catch (error) {
+      console.error("Error reconciling copy trade:", error);
+      res.status(500).json({ message: "Failed to reconcile copy trade" });
+    }
+  });
+
   // TODO: Implement copy trade stats in future
   // app.get('/api/copy-trading/trades/stats', isAuthenticated, async (req, res) => {
   //   try {
@@ -1914,7 +2220,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // });
 
   // System status routes
-  app.get('/api/status', isAuthenticated, async (req, res) => {
+  app.get('/api/status', isAuthenticated, requirePermission('system.view'), async (req, res) => {
     try {
       const monitorStatus = tradeMonitor.getStatus();
       const telegramValid = await telegramService.validateBotToken();
@@ -1922,6 +2228,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json({
         monitor: monitorStatus,
+        priceWatcher: priceWatcher.getStatus(),
         telegram: { connected: telegramValid },
         coindcx: { connected: coindcxValid },
       });
@@ -1931,17 +2238,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/monitor/start', isAuthenticated, async (req, res) => {
+  app.post('/api/monitor/start', isAuthenticated, requirePermission('system.manage'), async (req, res) => {
     try {
-      // Trade monitoring is always running in manual sync mode
-      res.json({ message: "Trade monitoring already running" });
+      // Manual sync is always available - start switches on the real-time stream
+      tradeMonitor.startRealtime();
+      res.json({ message: "Real-time trade monitoring started", status: tradeMonitor.getStatus() });
     } catch (error) {
       console.error("Error starting monitor:", error);
       res.status(500).json({ message: "Failed to start monitoring" });
     }
   });
 
-  app.post('/api/monitor/stop', isAuthenticated, async (req, res) => {
+  app.post('/api/monitor/stop', isAuthenticated, requirePermission('system.manage'), async (req, res) => {
     try {
       tradeMonitor.stopMonitoring();
       res.json({ message: "Trade monitoring stopped" });
@@ -1951,8 +2259,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Price watcher controls - automatic target/stop loss detection from live mark prices
+  app.post('/api/price-watcher/start', isAuthenticated, requirePermission('system.manage'), async (req, res) => {
+    try {
+      priceWatcher.start();
+      res.json({ message: "Price watcher started", status: priceWatcher.getStatus() });
+    } catch (error) {
+      console.error("Error starting price watcher:", error);
+      res.status(500).json({ message: "Failed to start price watcher" });
+    }
+  });
+
+  app.post('/api/price-watcher/stop', isAuthenticated, requirePermission('system.manage'), async (req, res) => {
+    try {
+      priceWatcher.stop();
+      res.json({ message: "Price watcher stopped", status: priceWatcher.getStatus() });
+    } catch (error) {
+      console.error("Error stopping price watcher:", error);
+      res.status(500).json({ message: "Failed to stop price watcher" });
+    }
+  });
+
+  // Run a single price check immediately
+  app.post('/api/price-watcher/check', isAuthenticated, requirePermission('system.manage'), async (req, res) => {
+    try {
+      const result = await priceWatcher.checkOnce();
+      res.json({ ...result, status: priceWatcher.getStatus() });
+    } catch (error) {
+      console.error("Error running price check:", error);
+      res.status(500).json({ message: "Failed to run price check" });
+    }
+  });
+
   // Manual sync endpoint - fetches trades from CoinDCX and saves to database
-  app.post('/api/trades/sync', isAuthenticated, async (req, res) => {
+  app.post('/api/trades/sync', isAuthenticated, requirePermission('trades.manage'), async (req, res) => {
     try {
       const result = await tradeMonitor.manualSync();
       res.json(result);
@@ -2016,7 +2356,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const data = verifyUserAccessOtpSchema.parse(req.body);
       const result = await storage.verifyUserAccessOtp(data);
-      res.json(result);
+      if (!result.success || !result.copyTradingUser) {
+        return res.json({ success: false, message: result.message });
+      }
+
+      // New session id before signing in, so a session id planted before login can't be reused (same as req.login for admins)
+      await new Promise<void>((resolve, reject) => req.session.regenerate(err => err ? reject(err) : resolve()));
+
+      // Every follower endpoint below is scoped to this session, not to an email in the URL
+      req.session.copyTradingUserId = result.copyTradingUser.id;
+      await auditFollowerAction(req, result.copyTradingUser.id, 'login');
+
+      res.json({
+        success: true,
+        message: result.message,
+        copyTradingUser: toFollowerProfile(result.copyTradingUser),
+      });
     } catch (error) {
       console.error("Error verifying user access OTP:", error);
       if (error && typeof error === 'object' && 'issues' in error) {
@@ -2033,26 +2388,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/user-access/logout', isCopyTradingUserAuthenticated, async (req: any, res) => {
+    await auditFollowerAction(req, req.copyTradingUser.id, 'logout');
+    delete req.session.copyTradingUserId;
+    res.json({ success: true, message: "Logged out" });
+  });
+
   // Copy Trading User authenticated routes (for copy trading users after OTP verification)
-  app.get('/api/user-access/trades/:email', async (req, res) => {
+  app.get('/api/user-access/trades', isCopyTradingUserAuthenticated, async (req: any, res) => {
     try {
-      const { email } = req.params;
       const { page = '1', limit = '20' } = req.query;
-      
-      // Verify copy trading user exists
-      const copyTradingUser = await storage.getCopyTradingUserByEmail(email);
-      if (!copyTradingUser) {
-        return res.status(404).json({ 
-          success: false,
-          message: "Copy trading user not found" 
-        });
-      }
-
       const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
       
-      // Get copy trades for this specific user
+      // Get copy trades for the signed-in follower only
       const result = await storage.getCopyTrades({
-        userId: copyTradingUser.id,
+        userId: req.copyTradingUser.id,
         limit: parseInt(limit as string),
         offset,
       });
@@ -2070,44 +2420,117 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/user-access/profile/:email', async (req, res) => {
+  app.get('/api/user-access/profile', isCopyTradingUserAuthenticated, async (req: any, res) => {
+    res.json({
+      success: true,
+      profile: toFollowerProfile(req.copyTradingUser)
+    });
+  });
+
+  app.patch('/api/user-access/profile', isCopyTradingUserAuthenticated, async (req: any, res) => {
     try {
-      const { email } = req.params;
-      
-      const copyTradingUser = await storage.getCopyTradingUserByEmail(email);
-      if (!copyTradingUser) {
-        return res.status(404).json({ 
-          success: false,
-          message: "Copy trading user not found" 
-        });
+      const settings = updateFollowerSettingsSchema.parse(req.body);
+      const before: CopyTradingUser = req.copyTradingUser;
+
+      // Only record fields that actually changed, compared as they are stored
+      const changes: Record<string, { from: unknown; to: unknown }> = {};
+      for (const [field, value] of Object.entries(settings)) {
+        if (value === undefined) continue;
+        const previous = before[field as keyof CopyTradingUser];
+        if (normalizeSettingValue(previous) !== normalizeSettingValue(value)) {
+          changes[field] = { from: previous ?? null, to: value };
+        }
       }
 
-      // Don't expose sensitive information (API keys, etc.)
-      const safeProfile = {
-        id: copyTradingUser.id,
-        name: copyTradingUser.name,
-        email: copyTradingUser.email,
-        exchange: copyTradingUser.exchange,
-        riskPerTrade: copyTradingUser.riskPerTrade,
-        tradeFund: copyTradingUser.tradeFund,
-        maxTradesPerDay: copyTradingUser.maxTradesPerDay,
-        isActive: copyTradingUser.isActive,
-        lowFund: copyTradingUser.lowFund,
-        futuresWalletBalance: copyTradingUser.futuresWalletBalance,
-        notes: copyTradingUser.notes,
-        createdAt: copyTradingUser.createdAt,
-      };
+      if (Object.keys(changes).length === 0) {
+        return res.json({ success: true, message: "No changes", profile: toFollowerProfile(before) });
+      }
 
-      res.json({
+      // A null max trades per day clears the limit - updateCopyTradingUser stores it as null
+      const updated = await storage.updateCopyTradingUser(before.id, settings as Partial<InsertCopyTradingUser>);
+      if (!updated) {
+        return res.status(404).json({ success: false, message: "Copy trading user not found" });
+      }
+
+      await auditFollowerAction(req, before.id, 'settings_updated', changes);
+      console.log(`✅ Follower ${before.id} updated settings: ${Object.keys(changes).join(', ')}`);
+
+      res.json({ success: true, message: "Settings updated", profile: toFollowerProfile(updated) });
+    } catch (error: any) {
+      console.error("Error updating follower settings:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ success: false, message: "Validation failed", errors: error.issues });
+      }
+      res.status(500).json({ success: false, message: "Failed to update settings" });
+    }
+  });
+
+  app.post('/api/user-access/credentials', isCopyTradingUserAuthenticated, async (req: any, res) => {
+    try {
+      const credentials = rotateFollowerCredentialsSchema.parse(req.body);
+      const user: CopyTradingUser = req.copyTradingUser;
+
+      console.log(`🔐 Verifying rotated credentials for follower: ${user.id}`);
+      const credentialCheck = await getExchangeAdapter(user.exchange).validateCredentials(credentials);
+      if (!credentialCheck.valid) {
+        console.log(`❌ Rotated credential verification failed for follower: ${user.id}`);
+        return res.status(400).json({ success: false, message: credentialCheck.message || "Credential verification failed" });
+      }
+
+      const previousHint = toFollowerProfile(user).apiKeyHint;
+      const updated = await storage.updateCopyTradingUser(user.id, credentials);
+      if (!updated) {
+        return res.status(404).json({ success: false, message: "Copy trading user not found" });
+      }
+
+      await auditFollowerAction(req, user.id, 'credentials_rotated', {
+        apiKeyHint: { from: previousHint, to: credentials.apiKey.slice(-4) },
+      });
+      console.log(`✅ Follower ${user.id} rotated exchange API keys`);
+
+      res.json({ success: true, message: "API keys updated", profile: toFollowerProfile(updated) });
+    } catch (error: any) {
+      console.error("Error rotating follower credentials:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ success: false, message: "Validation failed", errors: error.issues });
+      }
+      res.status(500).json({ success: false, message: "Failed to update API keys" });
+    }
+  });
+
+  app.post('/api/user-access/pause', isCopyTradingUserAuthenticated, async (req: any, res) => {
+    try {
+      const { paused } = pauseFollowerCopyingSchema.parse(req.body);
+      const user: CopyTradingUser = req.copyTradingUser;
+
+      if (!!user.copyingPaused !== paused) {
+        await storage.updateCopyTradingUser(user.id, { copyingPaused: paused });
+        await auditFollowerAction(req, user.id, paused ? 'copying_paused' : 'copying_resumed');
+        console.log(`${paused ? '⏸️' : '▶️'} Follower ${user.id} ${paused ? 'paused' : 'resumed'} copying`);
+      }
+
+      const refreshed = await storage.getCopyTradingUser(user.id);
+      res.json({
         success: true,
-        profile: safeProfile
+        message: paused ? "Copying paused" : "Copying resumed",
+        profile: toFollowerProfile(refreshed || user),
       });
+    } catch (error: any) {
+      console.error("Error pausing follower copying:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ success: false, message: "Validation failed", errors: error.issues });
+      }
+      res.status(500).json({ success: false, message: "Failed to update copying status" });
+    }
+  });
+
+  app.get('/api/user-access/activity', isCopyTradingUserAuthenticated, async (req: any, res) => {
+    try {
+      const logs = await storage.getCopyTradingUserAuditLogs(req.copyTradingUser.id, 50);
+      res.json({ success: true, logs });
     } catch (error) {
-      console.error("Error fetching copy trading user profile:", error);
-      res.status(500).json({ 
-        success: false,
-        message: "Failed to fetch profile" 
-      });
+      console.error("Error fetching follower activity:", error);
+      res.status(500).json({ success: false, message: "Failed to fetch account activity" });
     }
   });
 
@@ -2169,7 +2592,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // OTP Stats (Admin only)
-  app.get('/api/otp/stats', isAuthenticated, async (req, res) => {
+  app.get('/api/otp/stats', isAuthenticated, requirePermission('system.view'), async (req, res) => {
     try {
       const stats = await storage.getOTPStats();
       res.status(200).json(stats);
@@ -2209,8 +2632,531 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Public daily P&L aggregation for the heatmap and embed widget
+  app.get('/api/public/trades/daily-pnl', async (req, res) => {
+    try {
+      const filters = dailyPnlQuerySchema.parse(req.query);
+      const days = await storage.getDailyPnl(filters);
+      res.json({ days, timezone: 'Asia/Kolkata' });
+    } catch (error) {
+      console.error("Error fetching public daily P&L:", error);
+      
+      if (error && typeof error === 'object' && 'issues' in error) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: error.issues 
+        });
+      }
+      
+      res.status(500).json({ message: "Failed to fetch daily P&L" });
+    }
+  });
+
+  // Signal ingestion - TradingView alert webhook (authenticated by the per-source shared secret)
+  app.post('/api/webhooks/tradingview/:slug', express.text({ type: 'text/*', limit: '64kb' }), async (req, res) => {
+    try {
+      const result = await signalIngestionService.ingest(
+        req.params.slug,
+        req.body,
+        req.get('x-webhook-secret') || undefined,
+        typeof req.query.secret === 'string' ? req.query.secret : undefined
+      );
+
+      const { statusCode, ...body } = result;
+      res.status(statusCode).json(body);
+    } catch (error) {
+      console.error("Error ingesting signal alert:", error);
+      res.status(500).json({ success: false, message: "Failed to process alert" });
+    }
+  });
+
+  // Signal source management - secrets are only returned in full on create/regenerate
+  const toSignalSourceResponse = (source: SignalSource) => {
+    const { secret, ...rest } = source;
+    return {
+      ...rest,
+      secretPreview: `••••${safeDecrypt(secret).slice(-4)}`,
+      webhookPath: `/api/webhooks/tradingview/${source.slug}`,
+    };
+  };
+
+  app.get('/api/signal-sources', isAuthenticated, requirePermission('integrations.view'), async (req, res) => {
+    try {
+      const sources = await storage.getSignalSources();
+      res.json(sources.map(toSignalSourceResponse));
+    } catch (error) {
+      console.error("Error fetching signal sources:", error);
+      res.status(500).json({ message: "Failed to fetch signal sources" });
+    }
+  });
+
+  app.post('/api/signal-sources', isAuthenticated, requirePermission('integrations.manage'), async (req, res) => {
+    try {
+      const sourceData = insertSignalSourceSchema.parse(req.body);
+
+      if (await storage.getSignalSourceBySlug(sourceData.slug)) {
+        return res.status(400).json({ message: "A signal source with this slug already exists" });
+      }
+
+      const secret = signalIngestionService.generateSecret();
+      const source = await storage.createSignalSource({ ...sourceData, secret });
+      res.status(201).json({ ...toSignalSourceResponse(source), secret });
+    } catch (error) {
+      console.error("Error creating signal source:", error);
+      
+      if (error && typeof error === 'object' && 'issues' in error) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: error.issues 
+        });
+      }
+      
+      res.status(500).json({ message: "Failed to create signal source" });
+    }
+  });
+
+  app.patch('/api/signal-sources/:id', isAuthenticated, requirePermission('integrations.manage'), async (req, res) => {
+    try {
+      const sourceData = insertSignalSourceSchema.partial().parse(req.body);
+
+      if (sourceData.slug) {
+        const existing = await storage.getSignalSourceBySlug(sourceData.slug);
+        if (existing && existing.id !== req.params.id) {
+          return res.status(400).json({ message: "A signal source with this slug already exists" });
+        }
+      }
+
+      const source = await storage.updateSignalSource(req.params.id, sourceData);
+      if (!source) {
+        return res.status(404).json({ message: "Signal source not found" });
+      }
+      res.json(toSignalSourceResponse(source));
+    } catch (error) {
+      console.error("Error updating signal source:", error);
+      
+      if (error && typeof error === 'object' && 'issues' in error) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: error.issues 
+        });
+      }
+      
+      res.status(500).json({ message: "Failed to update signal source" });
+    }
+  });
+
+  app.post('/api/signal-sources/:id/regenerate-secret', isAuthenticated, requirePermission('integrations.manage'), async (req, res) => {
+    try {
+      const secret = signalIngestionService.generateSecret();
+      const source = await storage.updateSignalSource(req.params.id, { secret });
+      if (!source) {
+        return res.status(404).json({ message: "Signal source not found" });
+      }
+      res.json({ ...toSignalSourceResponse(source), secret });
+    } catch (error) {
+      console.error("Error regenerating signal source secret:", error);
+      res.status(500).json({ message: "Failed to regenerate secret" });
+    }
+  });
+
+  app.delete('/api/signal-sources/:id', isAuthenticated, requirePermission('integrations.manage'), async (req, res) => {
+    try {
+      const deleted = await storage.deleteSignalSource(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Signal source not found" });
+      }
+      res.json({ message: "Signal source deleted" });
+    } catch (error) {
+      console.error("Error deleting signal source:", error);
+      res.status(500).json({ message: "Failed to delete signal source" });
+    }
+  });
+
+  app.get('/api/signal-sources/:id/alerts', isAuthenticated, requirePermission('integrations.view'), async (req, res) => {
+    try {
+      const limit = Math.min(parseInt((req.query.limit as string) || '50'), 200);
+      const alerts = await storage.getSignalAlerts(req.params.id, limit);
+      res.json(alerts);
+    } catch (error) {
+      console.error("Error fetching signal alerts:", error);
+      res.status(500).json({ message: "Failed to fetch signal alerts" });
+    }
+  });
+
+  // Outbound webhooks - endpoint management and delivery log
+  const toWebhookEndpointResponse = (endpoint: WebhookEndpoint) => {
+    const { secret, ...rest } = endpoint;
+    return {
+      ...rest,
+      secretPreview: `••••${safeDecrypt(secret).slice(-4)}`,
+    };
+  };
+
+  app.get('/api/webhook-endpoints', isAuthenticated, requirePermission('integrations.view'), async (req, res) => {
+    try {
+      const endpoints = await storage.getWebhookEndpoints();
+      res.json(endpoints.map(toWebhookEndpointResponse));
+    } catch (error) {
+      console.error("Error fetching webhook endpoints:", error);
+      res.status(500).json({ message: "Failed to fetch webhook endpoints" });
+    }
+  });
+
+  app.post('/api/webhook-endpoints', isAuthenticated, requirePermission('integrations.manage'), async (req, res) => {
+    try {
+      const endpointData = insertWebhookEndpointSchema.parse(req.body);
+      const secret = webhookService.generateSecret();
+      const endpoint = await storage.createWebhookEndpoint({ ...endpointData, secret });
+      res.status(201).json({ ...toWebhookEndpointResponse(endpoint), secret });
+    } catch (error) {
+      console.error("Error creating webhook endpoint:", error);
+      
+      if (error && typeof error === 'object' && 'issues' in error) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: error.issues 
+        });
+      }
+      
+      res.status(500).json({ message: "Failed to create webhook endpoint" });
+    }
+  });
+
+  app.patch('/api/webhook-endpoints/:id', isAuthenticated, requirePermission('integrations.manage'), async (req, res) => {
+    try {
+      const endpointData = insertWebhookEndpointSchema.partial().parse(req.body);
+      const endpoint = await storage.updateWebhookEndpoint(req.params.id, endpointData);
+      if (!endpoint) {
+        return res.status(404).json({ message: "Webhook endpoint not found" });
+      }
+      res.json(toWebhookEndpointResponse(endpoint));
+    } catch (error) {
+      console.error("Error updating webhook endpoint:", error);
+      
+      if (error && typeof error === 'object' && 'issues' in error) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: error.issues 
+        });
+      }
+      
+      res.status(500).json({ message: "Failed to update webhook endpoint" });
+    }
+  });
+
+  app.post('/api/webhook-endpoints/:id/regenerate-secret', isAuthenticated, requirePermission('integrations.manage'), async (req, res) => {
+    try {
+      const secret = webhookService.generateSecret();
+      const endpoint = await storage.updateWebhookEndpoint(req.params.id, { secret });
+      if (!endpoint) {
+        return res.status(404).json({ message: "Webhook endpoint not found" });
+      }
+      res.json({ ...toWebhookEndpointResponse(endpoint), secret });
+    } catch (error) {
+      console.error("Error regenerating webhook secret:", error);
+      res.status(500).json({ message: "Failed to regenerate secret" });
+    }
+  });
+
+  app.post('/api/webhook-endpoints/:id/test', isAuthenticated, requirePermission('integrations.manage'), async (req, res) => {
+    try {
+      const result = await webhookService.sendTestPing(req.params.id);
+      res.json(result);
+    } catch (error) {
+      console.error("Error sending webhook test ping:", error);
+      res.status(500).json({ message: "Failed to send test event" });
+    }
+  });
+
+  app.delete('/api/webhook-endpoints/:id', isAuthenticated, requirePermission('integrations.manage'), async (req, res) => {
+    try {
+      const deleted = await storage.deleteWebhookEndpoint(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Webhook endpoint not found" });
+      }
+      res.json({ message: "Webhook endpoint deleted" });
+    } catch (error) {
+      console.error("Error deleting webhook endpoint:", error);
+      res.status(500).json({ message: "Failed to delete webhook endpoint" });
+    }
+  });
+
+  app.get('/api/webhook-deliveries', isAuthenticated, requirePermission('integrations.view'), async (req, res) => {
+    try {
+      const { endpointId, status, eventType, limit, offset } = req.query;
+      
+      const filters: any = {};
+      if (endpointId) filters.endpointId = endpointId as string;
+      if (status && status !== 'all') filters.status = status as string;
+      if (eventType && eventType !== 'all') filters.eventType = eventType as string;
+      if (limit) filters.limit = Math.min(parseInt(limit as string), 200);
+      if (offset) filters.offset = parseInt(offset as string);
+      
+      const result = await storage.getWebhookDeliveries(filters);
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  app.post('/api/webhook-deliveries/:id/replay', isAuthenticated, requirePermission('integrations.manage'), async (req, res) => {
+    try {
+      const result = await webhookService.replayDelivery(req.params.id);
+      if (!result.success && !result.delivery) {
+        return res.status(400).json(result);
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error replaying webhook delivery:", error);
+      res.status(500).json({ message: "Failed to replay delivery" });
+    }
+  });
+
+  // Admin audit log - search across all entities, or one entity's history with entityType + entityId
+  app.get('/api/audit-logs', isAuthenticated, requirePermission('audit.view'), async (req, res) => {
+    try {
+      const query = auditLogQuerySchema.parse(req.query);
+      const result = await storage.getAuditLogs(query);
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching audit logs:", error);
+      if (error && typeof error === 'object' && 'issues' in error) {
+        return res.status(400).json({ message: "Validation failed", errors: error.issues });
+      }
+      res.status(500).json({ message: "Failed to fetch audit logs" });
+    }
+  });
+
+  // Admin users - roles and removal; there must always be at least one owner left
+  app.get('/api/admin/users', isAuthenticated, requirePermission('users.manage'), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toAdminUserProfile));
+    } catch (error) {
+      console.error("Error fetching admin users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.patch('/api/admin/users/:id/role', isAuthenticated, requirePermission('users.manage'), async (req, res) => {
+    try {
+      const { role } = updateUserRoleSchema.parse(req.body);
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (user.role === 'owner' && role !== 'owner' && (await storage.countUsers('owner')) <= 1) {
+        return res.status(400).json({ message: "Cannot change the role of the last owner" });
+      }
+
+      const updatedUser = await storage.updateUserRole(user.id, role);
+      setAuditContext(res, { before: toAdminUserProfile(user), after: toAdminUserProfile(updatedUser!) });
+      res.json(toAdminUserProfile(updatedUser!));
+    } catch (error) {
+      console.error("Error updating user role:", error);
+      if (error && typeof error === 'object' && 'issues' in error) {
+        return res.status(400).json({ message: "Validation failed", errors: error.issues });
+      }
+      res.status(500).json({ message: "Failed to update role" });
+    }
+  });
+
+  app.delete('/api/admin/users/:id', isAuthenticated, requirePermission('users.manage'), async (req, res) => {
+    try {
+      const currentUser = req.user as User;
+      if (req.params.id === currentUser.id) {
+        return res.status(400).json({ message: "You cannot remove your own account" });
+      }
+
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (user.role === 'owner' && (await storage.countUsers('owner')) <= 1) {
+        return res.status(400).json({ message: "Cannot remove the last owner" });
+      }
+
+      await storage.deleteUser(user.id);
+      setAuditContext(res, { before: toAdminUserProfile(user) });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting user:", error);
+      res.status(500).json({ message: "Failed to remove user" });
+    }
+  });
+
+  // Admin invites - the link is returned once (and optionally emailed), only its hash is stored
+  app.get('/api/admin/invites', isAuthenticated, requirePermission('users.manage'), async (req, res) => {
+    try {
+      const invites = await storage.getPendingUserInvites();
+      res.json(invites.map(({ tokenHash, ...invite }) => invite));
+    } catch (error) {
+      console.error("Error fetching invites:", error);
+      res.status(500).json({ message: "Failed to fetch invites" });
+    }
+  });
+
+  app.post('/api/admin/invites', isAuthenticated, requirePermission('users.manage'), async (req, res) => {
+    try {
+      const { email, role, sendEmail } = createUserInviteSchema.parse(req.body);
+      const currentUser = req.user as User;
+      const { token, tokenHash } = generateInviteToken();
+
+      const { tokenHash: _, ...invite } = await storage.createUserInvite({
+        email,
+        role,
+        tokenHash,
+        invitedBy: currentUser.id,
+        expiresAt: new Date(Date.now() + INVITE_TTL_MS),
+      });
+
+      const baseUrl = process.env.PUBLIC_BASE_URL || `${req.protocol}://${req.get('host')}`;
+      const inviteUrl = `${baseUrl}/?invite=${token}`;
+
+      let emailSent = false;
+      if (sendEmail) {
+        // Sent directly rather than queued so the token never lands in the jobs table
+        emailSent = await sendTeamInviteEmail(email, {
+          role: ROLE_LABELS[role],
+          inviteUrl,
+          invitedBy: currentUser.username,
+          expiresAt: invite.expiresAt,
+        });
+      }
+
+      setAuditContext(res, { entityId: invite.id, after: invite });
+      res.status(201).json({ invite, inviteUrl, emailSent });
+    } catch (error) {
+      console.error("Error creating invite:", error);
+      if (error && typeof error === 'object' && 'issues' in error) {
+        return res.status(400).json({ message: "Validation failed", errors: error.issues });
+      }
+      res.status(500).json({ message: "Failed to create invite" });
+    }
+  });
+
+  app.delete('/api/admin/invites/:id', isAuthenticated, requirePermission('users.manage'), async (req, res) => {
+    try {
+      const deleted = await storage.deleteUserInvite(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking invite:", error);
+      res.status(500).json({ message: "Failed to revoke invite" });
+    }
+  });
+
+  // Background job queue - pending and dead-lettered jobs
+  app.get('/api/jobs', isAuthenticated, requirePermission('system.view'), async (req, res) => {
+    try {
+      const { status, type, limit, offset } = req.query;
+      
+      const filters: any = {};
+      if (status && status !== 'all') filters.status = status as string;
+      if (type && type !== 'all') filters.type = type as string;
+      if (limit) filters.limit = Math.min(parseInt(limit as string), 200);
+      if (offset) filters.offset = parseInt(offset as string);
+      
+      const result = await storage.getJobs(filters);
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      res.status(500).json({ message: "Failed to fetch jobs" });
+    }
+  });
+
+  app.get('/api/jobs/stats', isAuthenticated, requirePermission('system.view'), async (req, res) => {
+    try {
+      const stats = await storage.getJobStats();
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching job stats:", error);
+      res.status(500).json({ message: "Failed to fetch job stats" });
+    }
+  });
+
+  app.post('/api/jobs/:id/retry', isAuthenticated, requirePermission('system.manage'), async (req, res) => {
+    try {
+      const result = await jobQueue.retryJob(req.params.id);
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      console.error("Error retrying job:", error);
+      res.status(500).json({ message: "Failed to retry job" });
+    }
+  });
+
+  app.delete('/api/jobs/:id', isAuthenticated, requirePermission('system.manage'), async (req, res) => {
+    try {
+      const result = await jobQueue.discardJob(req.params.id);
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      console.error("Error discarding job:", error);
+      res.status(500).json({ message: "Failed to discard job" });
+    }
+  });
+
+  // Encryption keys - which key stored credentials are on, and re-encryption onto the active key
+  app.get('/api/admin/encryption/health', isAuthenticated, requirePermission('system.view'), async (req, res) => {
+    try {
+      const report = await encryptionKeyService.getHealthReport();
+      res.json(report);
+    } catch (error) {
+      console.error("Error building encryption health report:", error);
+      res.status(500).json({ message: "Failed to check encrypted data" });
+    }
+  });
+
+  app.post('/api/admin/encryption/reencrypt', isAuthenticated, requirePermission('system.manage'), requireRecentAuth, async (req, res) => {
+    try {
+      const job = await jobQueue.enqueue('encryption.reencrypt_all', {}, { uniqueKey: 'encryption.reencrypt_all', maxAttempts: 1 });
+      if (!job) {
+        return res.status(409).json({ success: false, message: "Re-encryption is already queued or running" });
+      }
+      res.status(202).json({ success: true, message: "Re-encryption queued", jobId: job.id });
+    } catch (error) {
+      console.error("Error queueing re-encryption:", error);
+      res.status(500).json({ message: "Failed to queue re-encryption" });
+    }
+  });
+
+  // Backtest API - replays stored signals against offline candle files, never touches the exchange
+  app.post('/api/backtests/run', isAuthenticated, requirePermission('backtest.run'), async (req, res) => {
+    try {
+      const settings = backtestRequestSchema.parse(req.body);
+      const candleDir = process.env.BACKTEST_CANDLE_DIR || path.resolve('data/candles');
+
+      if (!fs.existsSync(candleDir)) {
+        return res.status(400).json({ message: `Candle directory not found: ${candleDir}` });
+      }
+
+      const trades = await storage.getTradesCreatedBetween(
+        new Date(`${settings.from}T00:00:00+05:30`),
+        new Date(`${settings.to}T23:59:59.999+05:30`),
+        settings.channelId
+      );
+
+      console.log(`🧪 Running backtest over ${trades.length} signals (${settings.from} → ${settings.to})`);
+      const result = await backtestService.run(trades, settings, new FileCandleSource(candleDir));
+      res.json(result);
+    } catch (error) {
+      if (error && typeof error === 'object' && 'issues' in error) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: error.issues 
+        });
+      }
+      console.error("Error running backtest:", error);
+      res.status(500).json({ message: "Failed to run backtest" });
+    }
+  });
+
   // Research Reports API Routes
-  app.get('/api/research-reports', isAuthenticated, async (req, res) => {
+  app.get('/api/research-reports', isAuthenticated, requirePermission('research.view'), async (req, res) => {
     try {
       const { isActive, limit, offset } = req.query;
       
@@ -2227,7 +3173,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/research-reports/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/research-reports/:id', isAuthenticated, requirePermission('research.view'), async (req, res) => {
     try {
       const { id } = req.params;
       const report = await storage.getResearchReport(id);
@@ -2243,7 +3189,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/research-reports', isAuthenticated, async (req, res) => {
+  app.post('/api/research-reports', isAuthenticated, requirePermission('research.manage'), async (req, res) => {
     try {
       const reportData = insertResearchReportSchema.parse(req.body);
       const report = await storage.createResearchReport(reportData);
@@ -2274,7 +3220,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/research-reports/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/research-reports/:id', isAuthenticated, requirePermission('research.manage'), async (req, res) => {
     try {
       const { id } = req.params;
       const reportData = insertResearchReportSchema.partial().parse(req.body);
@@ -2292,7 +3238,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/research-reports/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/research-reports/:id', isAuthenticated, requirePermission('research.manage'), async (req, res) => {
     try {
       const { id } = req.params;
       const success = await storage.deleteResearchReport(id);
@@ -2309,7 +3255,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Text Enhancement API
-  app.post('/api/enhance-text', isAuthenticated, async (req, res) => {
+  app.post('/api/enhance-text', isAuthenticated, requirePermission('research.manage'), async (req, res) => {
     try {
       const { text, language = 'english', level = 'low' } = req.body;
       
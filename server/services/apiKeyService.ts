@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import net from 'net';
+import { storage } from '../storage';
+import {
+  apiKeyScopes,
+  type ApiKey,
+  type ApiKeyScope,
+  type ApiKeySummary,
+  type CreateApiKey,
+  type User,
+} from '@shared/schema';
+
+const KEY_PREFIX_LENGTH = 12; // 'cfw_' + 8 characters
+
+export type ApiKeyAuthResult =
+  | { success: true; user: User; apiKey: ApiKey }
+  | { success: false; status: number; message: string };
+
+/**
+ * Named, hashed API keys - scopes, expiry, IP allowlists and usage counts
+ */
+export class ApiKeyService {
+  generateKey(): string {
+    return `cfw_${crypto.randomBytes(24).toString('base64url')}`;
+  }
+
+  hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Entries that are neither an IP address nor a CIDR range with a valid prefix length
+   */
+  findInvalidIpEntries(entries: string[]): string[] {
+    return entries.filter(entry => {
+      const [address, prefix] = entry.split('/');
+      const family = net.isIP(address);
+      if (!family) return true;
+      if (prefix === undefined) return false;
+      const bits = Number(prefix);
+      return !Number.isInteger(bits) || bits < 0 || bits > (family === 4 ? 32 : 128);
+    });
+  }
+
+  isIpAllowed(ipAllowlist: string[], ipAddress: string | undefined): boolean {
+    if (ipAllowlist.length === 0) return true;
+    if (!ipAddress) return false;
+
+    // Express reports IPv4 clients on a dual-stack socket as ::ffff:1.2.3.4
+    const address = ipAddress.startsWith('::ffff:') && net.isIPv4(ipAddress.slice(7)) ? ipAddress.slice(7) : ipAddress;
+    const family = net.isIP(address);
+    if (!family) return false;
+
+    const blockList = new net.BlockList();
+    for (const entry of ipAllowlist) {
+      const [network, prefix] = entry.split('/');
+      const type = net.isIPv6(network) ? 'ipv6' : 'ipv4';
+      if (prefix === undefined) {
+        blockList.addAddress(network, type);
+      } else {
+        blockList.addSubnet(network, Number(prefix), type);
+      }
+    }
+    return blockList.check(address, family === 6 ? 'ipv6' : 'ipv4');
+  }
+
+  async createKey(userId: string, data: CreateApiKey): Promise<{ apiKey: ApiKey; key: string }> {
+    const key = this.generateKey();
+    const apiKey = await storage.createApiKey({
+      userId,
+      name: data.name,
+      keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+      keyHash: this.hashKey(key),
+      scopes: data.scopes,
+      ipAllowlist: data.ipAllowlist,
+      expiresAt: data.expiresAt || null,
+    });
+    return { apiKey, key };
+  }
+
+  /**
+   * Resolve a bearer key to its owner - usage is counted for every accepted request
+   */
+  async authenticate(key: string, ipAddress: string | undefined): Promise<ApiKeyAuthResult> {
+    const apiKey = await storage.getApiKeyByHash(this.hashKey(key));
+    if (!apiKey || apiKey.revokedAt) {
+      return { success: false, status: 401, message: "Invalid API key" };
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt < new Date()) {
+      return { success: false, status: 401, message: "API key has expired" };
+    }
+    if (!this.isIpAllowed((apiKey.ipAllowlist as string[]) || [], ipAddress)) {
+      return { success: false, status: 403, message: `API key is not allowed from ${ipAddress || 'this address'}` };
+    }
+
+    const user = await storage.getUser(apiKey.userId);
+    if (!user) {
+      return { success: false, status: 401, message: "Invalid API key" };
+    }
+
+    storage.recordApiKeyUsage(apiKey.id, ipAddress || null).catch(error => {
+      console.error(`Failed to record usage of API key ${apiKey.id}:`, error);
+    });
+    return { success: true, user, apiKey };
+  }
+
+  hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+    return ((apiKey.scopes as string[]) || []).includes(scope);
+  }
+
+  toSummary(apiKey: ApiKey): ApiKeySummary {
+    const { keyHash, ...summary } = apiKey;
+    return {
+      ...summary,
+      scopes: (apiKey.scopes as ApiKeyScope[]) || [],
+      ipAllowlist: (apiKey.ipAllowlist as string[]) || [],
+    };
+  }
+
+  /**
+   * One-off move of the old plaintext users.apiKey into a hashed, full-scope key so existing integrations keep working
+   */
+  async migrateLegacyKeys(): Promise<void> {
+    const users = await storage.getUsersWithLegacyApiKey();
+    for (const user of users) {
+      try {
+        const keyHash = this.hashKey(user.apiKey!);
+        // Already copied on an earlier start that stopped before clearing the old column
+        if (!(await storage.getApiKeyByHash(keyHash))) {
+          await storage.createApiKey({
+            userId: user.id,
+            name: 'Default key',
+            keyPrefix: user.apiKey!.slice(0, KEY_PREFIX_LENGTH),
+            keyHash,
+            scopes: [...apiKeyScopes],
+            ipAllowlist: [],
+          });
+        }
+        await storage.clearLegacyApiKey(user.id);
+        console.log(`🔑 Migrated legacy API key of ${user.username} to a hashed key`);
+      } catch (error) {
+        console.error(`Failed to migrate legacy API key of ${user.username}:`, error);
+      }
+    }
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,175 @@
+import type { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+import type { AuditChanges } from '@shared/schema';
+
+// Route prefix -> entity type, longest prefixes first so /api/copy-trading/trades isn't read as /api/trades
+const ENTITY_PREFIXES: [string, string][] = [
+  ['/api/copy-trading/applications', 'copy_trading_application'],
+  ['/api/copy-trading/users', 'copy_trading_user'],
+  ['/api/copy-trading/trades', 'copy_trade'],
+  ['/api/webhook-deliveries', 'webhook_delivery'],
+  ['/api/admin/encryption', 'encryption_key'],
+  ['/api/admin/invites', 'user_invite'],
+  ['/api/auth/sessions', 'admin_session'],
+  ['/api/auth/2fa', 'two_factor'],
+  ['/api/admin/users', 'admin_user'],
+  ['/api/webhook-endpoints', 'webhook_endpoint'],
+  ['/api/research-reports', 'research_report'],
+  ['/api/signal-sources', 'signal_source'],
+  ['/api/developer/api-keys', 'api_key'],
+  ['/api/price-watcher', 'price_watcher'],
+  ['/api/automations', 'automation'],
+  ['/api/templates', 'template'],
+  ['/api/channels', 'channel'],
+  ['/api/monitor', 'monitor'],
+  ['/api/trades', 'trade'],
+  ['/api/jobs', 'job'],
+];
+
+// POSTs that compute or preview something without changing state
+const READ_ONLY_ROUTES = new Set([
+  '/api/backtests/run',
+  '/api/enhance-text',
+  '/api/templates/images/upload-url',
+  '/api/templates/preview',
+]);
+
+// Followers (/api/user-access) have their own audit trail; public and inbound webhook routes have no admin actor
+const EXCLUDED_PREFIXES = ['/api/user-access', '/api/public', '/api/webhooks'];
+
+const SENSITIVE_KEY = /password|secret|api_?key|token|otp|recovery/i;
+const IGNORED_FIELDS = new Set(['updatedAt']);
+const DEFAULT_VERBS: Record<string, string> = { POST: 'create', PUT: 'update', PATCH: 'update', DELETE: 'delete' };
+
+/**
+ * What a route knows about the change - anything not set is inferred from the request and response
+ */
+export interface AuditContext {
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Attach before/after snapshots (or override the inferred entity) for the audit entry of this request
+ */
+export function setAuditContext(res: Response, context: AuditContext) {
+  res.locals.audit = { ...(res.locals.audit || {}), ...context };
+}
+
+/**
+ * Append-only admin audit log - every successful mutating request made with a dashboard session or API key
+ */
+export class AuditService {
+  /**
+   * Express middleware - records after the response is sent so it never slows down or fails the request
+   */
+  middleware() {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (!DEFAULT_VERBS[req.method] || !req.path.startsWith('/api/') || EXCLUDED_PREFIXES.some(prefix => req.path.startsWith(prefix))) {
+        return next();
+      }
+
+      // Keep the response body - for creates it's the only place the new entity (and its id) shows up
+      const originalJson = res.json.bind(res);
+      res.json = (body?: any) => {
+        res.locals.auditResponse = body;
+        return originalJson(body);
+      };
+
+      res.on('finish', () => {
+        if (res.statusCode >= 400) return;
+        void this.recordRequest(req, res);
+      });
+
+      next();
+    };
+  }
+
+  private async recordRequest(req: Request, res: Response) {
+    const user = req.user as { id: string; username: string } | undefined;
+    const routePath: string = req.route?.path || req.path;
+    if (!user || READ_ONLY_ROUTES.has(routePath)) return;
+
+    try {
+      const context: AuditContext = res.locals.audit || {};
+      const inferred = this.inferEntity(req.method, routePath);
+      const response = res.locals.auditResponse;
+      const before = context.before !== undefined ? this.redact(context.before) : null;
+      const after = this.redact(context.after !== undefined ? context.after : req.method === 'DELETE' ? null : response ?? req.body ?? null);
+      const entityId = context.entityId || req.params?.id || (response && typeof response === 'object' && typeof response.id === 'string' ? response.id : undefined);
+
+      await storage.createAuditLog({
+        actorType: (req as any).authMethod === 'api_key' ? 'api_key' : 'user',
+        actorId: user.id,
+        actorName: (req as any).apiKey ? `${user.username} (${(req as any).apiKey.name})` : user.username,
+        action: context.action || `${context.entityType || inferred.entityType}.${inferred.verb}`,
+        entityType: context.entityType || inferred.entityType,
+        entityId: entityId || null,
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        before,
+        after,
+        changes: before && after ? this.diff(before, after) : null,
+        ipAddress: req.ip || null,
+        userAgent: req.get('user-agent') || null,
+      });
+    } catch (error) {
+      console.error(`Failed to write audit log for ${req.method} ${req.originalUrl}:`, error);
+    }
+  }
+
+  /**
+   * '/api/trades/:id/reopen' -> trade.reopen, 'PUT /api/trades/:id' -> trade.update
+   */
+  inferEntity(method: string, routePath: string): { entityType: string; verb: string } {
+    const match = ENTITY_PREFIXES.find(([prefix]) => routePath === prefix || routePath.startsWith(`${prefix}/`));
+    const prefix = match ? match[0] : `/api/${routePath.split('/')[2] || ''}`;
+    const entityType = match ? match[1] : (routePath.split('/')[2] || 'unknown').replace(/-/g, '_');
+
+    const rest = routePath.slice(prefix.length).split('/').filter(segment => segment && !segment.startsWith(':'));
+    const verb = rest.length > 0 ? rest.join('.').replace(/-/g, '_') : DEFAULT_VERBS[method];
+    return { entityType, verb };
+  }
+
+  /**
+   * Field-level diff of two snapshots - only top-level fields, compared by their JSON form
+   */
+  diff(before: unknown, after: unknown): AuditChanges | null {
+    if (!before || !after || typeof before !== 'object' || typeof after !== 'object' || Array.isArray(before) || Array.isArray(after)) {
+      return null;
+    }
+
+    const changes: AuditChanges = {};
+    const beforeRecord = before as Record<string, unknown>;
+    const afterRecord = after as Record<string, unknown>;
+    const fields = new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]);
+
+    for (const field of Array.from(fields)) {
+      if (IGNORED_FIELDS.has(field) || !(field in afterRecord)) continue;
+      if (JSON.stringify(beforeRecord[field] ?? null) !== JSON.stringify(afterRecord[field] ?? null)) {
+        changes[field] = { from: beforeRecord[field] ?? null, to: afterRecord[field] ?? null };
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Deep copy with credentials, secrets and tokens replaced - audit rows are readable by every admin
+   */
+  redact(value: unknown): any {
+    if (value === null || value === undefined) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (Array.isArray(value)) return value.map(item => this.redact(item));
+    if (typeof value !== 'object') return value;
+
+    return Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([key, field]) => [
+      key,
+      SENSITIVE_KEY.test(key) && field !== null && field !== undefined && field !== '' ? '[redacted]' : this.redact(field),
+    ]));
+  }
+}
+
+export const auditService = new AuditService();
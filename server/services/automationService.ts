@@ -1,8 +1,16 @@
 import { storage } from '../storage';
-import { telegramService } from './telegram';
-import { Trade, Automation, TelegramChannel, MessageTemplate, InsertSentMessage } from '../../shared/schema';
+import { telegramService, type TelegramEditMessage } from './telegram';
+import { webhookService } from './webhookService';
+import { jobQueue } from './jobQueue';
+import { getExchangeAdapter } from './exchangeAdapter';
+import { Trade, Automation, TelegramChannel, MessageTemplate, InsertSentMessage, SentMessage, templateBodyForLocale } from '../../shared/schema';
+import { renderTemplate as renderMessageTemplate, escapeModeForParseMode, toTemplateLocale, type TemplateContext, type TemplateLocale } from '../../shared/templateEngine';
+import { buildTradeTemplateContext, buildResearchReportTemplateContext, buildSimpleTemplateContext } from '../utils/templateContext';
 import * as cron from 'node-cron';
 
+// Appended to the logged text of a message sent as text with an image link because the photo failed
+const IMAGE_LINK_FALLBACK_NOTE = ' [sent with image link fallback]';
+
 export type AutomationTrigger = 
   | 'trade_registered' 
   | 'stop_loss_hit'
@@ -15,6 +23,10 @@ export type AutomationTrigger =
 export class AutomationService {
   private cronTask?: any; // Store cron task for management
   private walletBalanceCron?: any; // Store wallet balance cron task
+  private pnlReconcileCron?: any; // Store copy trade P&L reconciliation cron task
+  private webhookRetryCron?: any; // Store outbound webhook retry cron task
+  private lifecycleReconcileCron?: any; // Store copy trade order lifecycle reconciliation cron task
+  private tradeMessageSyncs = new Map<string, Promise<void>>(); // Per-trade chain so edits of one post never overlap
   
   /**
    * Get validated public base URL for image hosting
@@ -118,6 +130,13 @@ export class AutomationService {
   async triggerAutomations(trigger: 'research_report_submit', data: any): Promise<void>;
   
   async triggerAutomations(tradeOrTrigger: Trade | 'research_report_submit', triggerOrData: AutomationTrigger | any): Promise<void> {
+    // Outbound webhooks fire for every event, independent of Telegram automations
+    if (typeof tradeOrTrigger === 'string') {
+      void webhookService.emit('research_report_submitted', { report: webhookService.serializeResearchReport(triggerOrData) });
+    } else {
+      void webhookService.emitTradeEvent(triggerOrData, tradeOrTrigger);
+    }
+
     try {
       // Handle research report trigger
       if (typeof tradeOrTrigger === 'string' && tradeOrTrigger === 'research_report_submit') {
@@ -154,17 +173,11 @@ export class AutomationService {
         // Process each matching automation with delay support
         for (const automation of matchingAutomations) {
           if (automation.automationType === 'research_report' && automation.delayInMinutes) {
-            // Schedule delayed message
+            // Schedule delayed message - persisted so a restart doesn't drop it
             const delayMs = automation.delayInMinutes * 60 * 1000;
             console.log(`⏰ Scheduling research report message with ${automation.delayInMinutes} minutes delay`);
             
-            setTimeout(async () => {
-              try {
-                await this.processResearchReportAutomation(automation, data);
-              } catch (error) {
-                console.error(`❌ Error processing delayed research report automation:`, error);
-              }
-            }, delayMs);
+            await jobQueue.enqueue('automation.research_report', { automationId: automation.id, data }, { delayMs });
           } else {
             // Send immediately
             await this.processResearchReportAutomation(automation, data);
@@ -329,7 +342,7 @@ export class AutomationService {
       // Get channel and template details
       const [channel, template] = await Promise.all([
         storage.getTelegramChannel(automation.channelId),
-        storage.getMessageTemplate(automation.templateId)
+        storage.getMessageTemplateAtVersion(automation.templateId, automation.templateVersion)
       ]);
       
       if (!channel || !channel.isActive) {
@@ -338,7 +351,7 @@ export class AutomationService {
       }
       
       if (!template || !template.isActive) {
-        console.log(`⚠️  Template not found or inactive for automation ${automation.id}`);
+        console.log(`⚠️  Template not found or inactive for automation ${automation.id}${automation.templateVersion ? ` (pinned version ${automation.templateVersion})` : ''}`);
         return;
       }
       
@@ -361,7 +374,9 @@ export class AutomationService {
       }
       
       // Generate message from template with trade data
-      const messageText = this.renderTemplate(template, trade);
+      const locale = toTemplateLocale(channel.locale);
+      const context = await this.buildTradeContext(trade, template.includeFields);
+      const messageText = this.renderTemplate(template, context, locale);
       
       if (!messageText.trim()) {
         console.log(`⚠️  Empty message generated for automation ${automation.id}, skipping`);
@@ -398,7 +413,7 @@ export class AutomationService {
           // Add inline keyboard if template has buttons
           if (template.buttons && Array.isArray(template.buttons) && template.buttons.length > 0) {
             photoMessageOptions.reply_markup = {
-              inline_keyboard: this.renderButtons(template.buttons, trade)
+              inline_keyboard: this.renderButtons(template.buttons, context, locale)
             };
           }
           
@@ -438,7 +453,7 @@ export class AutomationService {
         // Add inline keyboard if template has buttons
         if (template.buttons && Array.isArray(template.buttons) && template.buttons.length > 0) {
           textOptions.reply_markup = {
-            inline_keyboard: this.renderButtons(template.buttons, trade)
+            inline_keyboard: this.renderButtons(template.buttons, context, locale)
           };
         }
         
@@ -585,9 +600,12 @@ export class AutomationService {
             automationId: automation.id,
             tradeId: trade.id,
             channelId: channel.channelId,
+            templateId: template.id,
+            templateVersion: template.currentVersion,
             telegramMessageId: finalResult.messageId,
             replyToMessageId: isReplyTrigger ? originalMessageId : undefined,
-            messageText: messageText + (messageType === 'text_fallback' ? ' [sent with image link fallback]' : ''),
+            messageText: messageText + (messageType === 'text_fallback' ? IMAGE_LINK_FALLBACK_NOTE : ''),
+            messageType: messageType.replace('_no_reply', ''),
             status: 'sent',
             sentAt: new Date()
           });
@@ -597,6 +615,8 @@ export class AutomationService {
             automationId: automation.id,
             tradeId: trade.id,
             channelId: channel.channelId,
+            templateId: template.id,
+            templateVersion: template.currentVersion,
             replyToMessageId: isReplyTrigger ? originalMessageId : undefined,
             messageText: messageText,
             status: 'failed',
@@ -611,6 +631,8 @@ export class AutomationService {
           automationId: automation.id,
           tradeId: trade.id,
           channelId: channel.channelId,
+          templateId: template.id,
+          templateVersion: template.currentVersion,
           replyToMessageId: isReplyTrigger ? originalMessageId : undefined,
           messageText: messageText,
           status: 'failed',
@@ -627,103 +649,175 @@ export class AutomationService {
   }
   
   /**
-   * Render template with trade data - substitute variables like {pair}, {price}, etc.
+   * Re-render the trade_registered posts of automations that opted in, after the trade changed
+   * (levels edited, targets hit) - templates can strike through hit targets with {#if target.hit}
+   * Syncs for one trade run one after another, each reading the trade when its turn comes, so the newest state lands last
    */
-  private renderTemplate(template: MessageTemplate, trade: Trade): string {
-    let messageText = template.template;
-    
-    // HTML escape function for user-provided content
-    const htmlEscape = (text: string): string => {
-      return text
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;')
-        .replace(/"/g, '&quot;')
-        .replace(/'/g, '&#039;');
-    };
-    
-    // Define available variables and their values (with HTML escaping for all string content)
-    const variables: Record<string, string> = {
-      'pair': htmlEscape(trade.pair || ''),
-      'type': htmlEscape(trade.type || ''),
-      'price': trade.price ? `$${Number(trade.price).toFixed(4)}` : '',
-      'total': trade.total ? Number(trade.total).toFixed(4) : '',
-      'leverage': trade.leverage ? `${trade.leverage}x` : '',
-      'status': htmlEscape(trade.status || ''),
-      'tradeId': htmlEscape(trade.tradeId || ''),
-      'timestamp': trade.createdAt ? new Date(trade.createdAt).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' }) : '',
-      'fee': trade.fee ? `$${Number(trade.fee).toFixed(4)}` : '$0.00',
-      'stopLoss': trade.stopLossTrigger ? `$${Number(trade.stopLossTrigger).toFixed(4)}` : '',
-      'takeProfit1': trade.takeProfitTrigger ? `$${Number(trade.takeProfitTrigger).toFixed(4)}` : '',
-      'takeProfit2': trade.takeProfit2 ? `$${Number(trade.takeProfit2).toFixed(4)}` : '',
-      'takeProfit3': trade.takeProfit3 ? `$${Number(trade.takeProfit3).toFixed(4)}` : '',
-      'safebookPrice': trade.safebookPrice ? `$${Number(trade.safebookPrice).toFixed(4)}` : '',
-      'signalType': htmlEscape(trade.signalType || ''), // Add missing signalType variable
-      'notes': htmlEscape(trade.notes || '') // HTML escape user notes
-    };
-    
-    // Filter variables based on template's includeFields setting
-    if (template.includeFields && Array.isArray(template.includeFields) && template.includeFields.length > 0) {
-      // Only include specified fields
-      const filteredVariables: Record<string, string> = {};
-      for (const field of template.includeFields as string[]) {
-        if (variables[field] !== undefined) {
-          filteredVariables[field] = variables[field];
+  syncTradeMessages(tradeId: string, reason: string): Promise<void> {
+    const next = (this.tradeMessageSyncs.get(tradeId) || Promise.resolve()).then(() => this.applyTradeMessageSync(tradeId, reason));
+    this.tradeMessageSyncs.set(tradeId, next);
+    void next.finally(() => {
+      if (this.tradeMessageSyncs.get(tradeId) === next) {
+        this.tradeMessageSyncs.delete(tradeId);
+      }
+    });
+    return next;
+  }
+
+  private async applyTradeMessageSync(tradeId: string, reason: string): Promise<void> {
+    try {
+      const trade = await storage.getTrade(tradeId);
+      if (!trade) return;
+
+      const posted = await storage.getPostedTradeMessages(trade.id);
+      for (const { message, automation } of posted) {
+        if (automation?.triggerType === 'trade_registered' && automation.editOnTradeUpdate) {
+          await this.editTradeMessage(message, automation, trade, reason);
         }
       }
-      // Replace variables with filtered set
-      for (const [key, value] of Object.entries(filteredVariables)) {
-        const placeholder = `{${key}}`;
-        messageText = messageText.replace(new RegExp(placeholder, 'g'), value);
+    } catch (error) {
+      console.error(`❌ Error syncing posted messages for trade ${tradeId}:`, error);
+    }
+  }
+
+  /**
+   * Delete every post for a trade from its channels - Telegram refuses for posts older than 48 hours
+   */
+  async deleteTradeMessages(tradeId: string, reason: string): Promise<{ deleted: number; failed: number }> {
+    const posted = await storage.getPostedTradeMessages(tradeId);
+    let deleted = 0;
+    let failed = 0;
+
+    // Newest first - replies go before the post they reply to
+    for (const { message } of posted.reverse()) {
+      const result = await telegramService.deleteMessage(message.channelId, message.telegramMessageId!);
+      await storage.recordSentMessageEdit(message, {
+        action: 'delete',
+        reason,
+        previousText: message.messageText,
+        status: result.success ? 'deleted' : 'failed',
+        errorMessage: result.error,
+      });
+
+      if (result.success) {
+        deleted++;
+      } else {
+        failed++;
+        console.error(`❌ Could not delete message ${message.telegramMessageId} in ${message.channelId}: ${result.error}`);
       }
+    }
+
+    console.log(`🗑️ Deleted ${deleted}/${posted.length} posted messages for trade ${tradeId}`);
+    return { deleted, failed };
+  }
+
+  /**
+   * Edit one posted message to match the trade now - with the template version it was sent with, so only the trade's changes show
+   */
+  private async editTradeMessage(message: SentMessage, automation: Automation, trade: Trade, reason: string): Promise<void> {
+    const [channel, template] = await Promise.all([
+      storage.getTelegramChannel(automation.channelId),
+      storage.getMessageTemplateAtVersion(message.templateId || automation.templateId, message.templateVersion ?? automation.templateVersion),
+    ]);
+
+    if (!template) {
+      console.log(`⚠️ Cannot edit message ${message.telegramMessageId} - its template is gone`);
+      return;
+    }
+
+    const locale = toTemplateLocale(channel?.locale);
+    const context = await this.buildTradeContext(trade, template.includeFields);
+    const renderedText = this.renderTemplate(template, context, locale);
+    const isFallback = message.messageType === 'text_fallback';
+    const previousText = (message.messageText || '').replace(IMAGE_LINK_FALLBACK_NOTE, '');
+
+    if (!renderedText.trim() || renderedText === previousText) {
+      return;
+    }
+
+    // A text fallback for a photo carries the image link - keep it
+    let text = renderedText;
+    const imageUrl = isFallback && template.imageUrl ? this.convertToAbsoluteUrl(template.imageUrl.trim()) : null;
+    if (imageUrl) {
+      text += `\n\n📷 <a href="${imageUrl}">View Image</a>`;
+    }
+
+    // Buttons have to be sent again or Telegram removes them
+    const editOptions: TelegramEditMessage = {
+      text,
+      parse_mode: (template.parseMode || 'HTML') as 'HTML' | 'Markdown',
+      disable_web_page_preview: !isFallback,
+    };
+    if (Array.isArray(template.buttons) && template.buttons.length > 0) {
+      editOptions.reply_markup = { inline_keyboard: this.renderButtons(template.buttons, context, locale) };
+    }
+
+    let action: 'edit_text' | 'edit_caption' = message.messageType === 'photo' ? 'edit_caption' : 'edit_text';
+    let result = action === 'edit_caption'
+      ? await telegramService.editMessageCaption(message.channelId, message.telegramMessageId!, editOptions)
+      : await telegramService.editMessageText(message.channelId, message.telegramMessageId!, editOptions);
+
+    // Messages from before message types were recorded may be photos
+    if (!result.success && !message.messageType && result.error?.includes('no text in the message')) {
+      action = 'edit_caption';
+      result = await telegramService.editMessageCaption(message.channelId, message.telegramMessageId!, editOptions);
+    }
+
+    const status = result.unchanged ? 'unchanged' : result.success ? 'edited' : 'failed';
+    await storage.recordSentMessageEdit(message, {
+      action,
+      reason,
+      previousText: message.messageText,
+      messageText: renderedText + (isFallback ? IMAGE_LINK_FALLBACK_NOTE : ''),
+      status,
+      errorMessage: result.error,
+    });
+
+    if (result.success) {
+      console.log(`✏️ ${status === 'edited' ? 'Edited' : 'Left unchanged'} message ${message.telegramMessageId} in ${channel?.name || message.channelId} (${reason})`);
     } else {
-      // Include all variables (default behavior)
-      for (const [key, value] of Object.entries(variables)) {
-        const placeholder = `{${key}}`;
-        messageText = messageText.replace(new RegExp(placeholder, 'g'), value);
-      }
+      console.error(`❌ Failed to edit message ${message.telegramMessageId} in ${channel?.name || message.channelId}: ${result.error}`);
     }
-    
-    // Remove only known unreplaced placeholders to avoid artifacts
-    const knownPlaceholders = Object.keys(variables).map(key => `{${key}}`);
-    for (const placeholder of knownPlaceholders) {
-      // Remove any remaining instances of known placeholders that weren't replaced
-      messageText = messageText.replace(new RegExp(placeholder.replace(/[{}]/g, '\\$&'), 'g'), '');
+  }
+
+  /**
+   * Trade variables for a template - prices carry the pair's tick size so the price filter can use it
+   */
+  async buildTradeContext(trade: Trade, includeFields?: unknown): Promise<TemplateContext> {
+    let tickSize: number | undefined;
+    try {
+      tickSize = (await getExchangeAdapter('coindcx').getInstrumentMeta(trade.pair)).tickSize;
+    } catch (error) {
+      console.warn(`⚠️ No tick size for ${trade.pair}, prices use default precision:`, error instanceof Error ? error.message : error);
     }
-    
-    return messageText;
+
+    return buildTradeTemplateContext(trade, {
+      tickSize,
+      includeFields: Array.isArray(includeFields) ? includeFields as string[] : [],
+    });
+  }
+
+  /**
+   * Render template with trade data - variables, {#if}/{#each} blocks and filters, escaped for the parse mode.
+   * The channel's locale picks the template variant and how numbers and dates are formatted.
+   */
+  private renderTemplate(template: MessageTemplate, context: TemplateContext, locale: TemplateLocale): string {
+    return renderMessageTemplate(templateBodyForLocale(template, locale), context, escapeModeForParseMode(template.parseMode), locale);
   }
 
   /**
    * Render inline keyboard buttons with variable substitution
    */
-  private renderButtons(buttons: any[], trade: Trade): any[][] {
-    const variables = this.getVariables(trade);
-    
+  private renderButtons(buttons: any[], context: TemplateContext, locale: TemplateLocale): any[][] {
     return buttons.map((row: any[]) => {
       return row.map((button: any) => {
-        let buttonText = button.text || '';
-        let buttonUrl = button.url || '';
-        let callbackData = button.callback_data || '';
-        
-        // Replace variables in button text
-        for (const [key, value] of Object.entries(variables)) {
-          const placeholder = `{${key}}`;
-          buttonText = buttonText.replace(new RegExp(placeholder, 'g'), value);
-          if (buttonUrl) {
-            buttonUrl = buttonUrl.replace(new RegExp(placeholder, 'g'), value);
-          }
-          if (callbackData) {
-            callbackData = callbackData.replace(new RegExp(placeholder, 'g'), value);
-          }
-        }
-        
-        const renderedButton: any = { text: buttonText };
+        // Button text is plain text and URLs need URL-encoding - neither uses the message parse mode
+        const renderedButton: any = { text: renderMessageTemplate(button.text || '', context, 'plain', locale) };
         
         if (button.url) {
-          renderedButton.url = buttonUrl;
+          renderedButton.url = renderMessageTemplate(button.url, context, 'url', locale);
         } else if (button.callback_data) {
-          renderedButton.callback_data = callbackData;
+          renderedButton.callback_data = renderMessageTemplate(button.callback_data, context, 'plain', locale);
         }
         
         return renderedButton;
@@ -731,39 +825,6 @@ export class AutomationService {
     });
   }
 
-  /**
-   * Get variables for substitution (shared by template and buttons)
-   */
-  private getVariables(trade: Trade): Record<string, string> {
-    const htmlEscape = (text: string): string => {
-      return text
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;')
-        .replace(/"/g, '&quot;')
-        .replace(/'/g, '&#039;');
-    };
-    
-    return {
-      'pair': htmlEscape(trade.pair || ''),
-      'type': htmlEscape(trade.type || ''),
-      'price': trade.price ? `$${Number(trade.price).toFixed(4)}` : '',
-      'total': trade.total ? Number(trade.total).toFixed(4) : '',
-      'leverage': trade.leverage ? `${trade.leverage}x` : '',
-      'status': htmlEscape(trade.status || ''),
-      'tradeId': htmlEscape(trade.tradeId || ''),
-      'timestamp': trade.createdAt ? new Date(trade.createdAt).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' }) : '',
-      'fee': trade.fee ? `$${Number(trade.fee).toFixed(4)}` : '$0.00',
-      'stopLoss': trade.stopLossTrigger ? `$${Number(trade.stopLossTrigger).toFixed(4)}` : '',
-      'takeProfit1': trade.takeProfitTrigger ? `$${Number(trade.takeProfitTrigger).toFixed(4)}` : '',
-      'takeProfit2': trade.takeProfit2 ? `$${Number(trade.takeProfit2).toFixed(4)}` : '',
-      'takeProfit3': trade.takeProfit3 ? `$${Number(trade.takeProfit3).toFixed(4)}` : '',
-      'safebookPrice': trade.safebookPrice ? `$${Number(trade.safebookPrice).toFixed(4)}` : '',
-      'signalType': htmlEscape(trade.signalType || ''),
-      'notes': htmlEscape(trade.notes || '')
-    };
-  }
-
   /**
    * Initialize time-based scheduler for simple automations
    */
@@ -795,9 +856,10 @@ export class AutomationService {
       console.log('🕒 Time-based scheduler initialized and started (Kolkata timezone)');
 
       // Add a separate 60-second cron job for wallet balance updates
+      // Runs through the job queue; the unique key skips a tick while the previous refresh is still queued
       this.walletBalanceCron = cron.schedule('* * * * *', async () => {
         try {
-          await this.updateAllWalletBalances();
+          await jobQueue.enqueue('wallet.refresh_all', {}, { uniqueKey: 'wallet.refresh_all', maxAttempts: 1 });
         } catch (error) {
           console.error('❌ Error in automatic wallet balance update:', error);
         }
@@ -808,6 +870,49 @@ export class AutomationService {
       // Start the wallet balance update cron
       this.walletBalanceCron.start();
       console.log('💰 60-second wallet balance auto-update initialized and started');
+
+      // Every 5 minutes: replace estimated copy trade P&L with exchange fill data
+      this.pnlReconcileCron = cron.schedule('*/5 * * * *', async () => {
+        try {
+          const { copyTradingService } = await import('./copyTradingService');
+          await copyTradingService.reconcileClosedCopyTradesPnl();
+        } catch (error) {
+          console.error('❌ Error in copy trade P&L reconciliation:', error);
+        }
+      }, {
+        timezone: 'Asia/Kolkata'
+      });
+
+      this.pnlReconcileCron.start();
+      console.log('💹 5-minute copy trade P&L reconciliation initialized and started');
+
+      // Every minute: queue a retry pass for outbound webhook deliveries whose backoff has elapsed
+      this.webhookRetryCron = cron.schedule('* * * * *', async () => {
+        try {
+          await jobQueue.enqueue('webhook.retry_due', {}, { uniqueKey: 'webhook.retry_due', maxAttempts: 1 });
+        } catch (error) {
+          console.error('❌ Error scheduling webhook delivery retries:', error);
+        }
+      }, {
+        timezone: 'Asia/Kolkata'
+      });
+
+      this.webhookRetryCron.start();
+      console.log('🪝 Webhook delivery retry scheduler initialized and started');
+
+      // Every 2 minutes: sync follower orders/positions and flag drift from the master trade
+      this.lifecycleReconcileCron = cron.schedule('*/2 * * * *', async () => {
+        try {
+          await jobQueue.enqueue('copy_trade.reconcile_lifecycle', {}, { uniqueKey: 'copy_trade.reconcile_lifecycle', maxAttempts: 1 });
+        } catch (error) {
+          console.error('❌ Error scheduling copy trade lifecycle reconciliation:', error);
+        }
+      }, {
+        timezone: 'Asia/Kolkata'
+      });
+
+      this.lifecycleReconcileCron.start();
+      console.log('🔎 2-minute copy trade lifecycle reconciliation initialized and started');
       
     } catch (error) {
       console.error('❌ Error initializing scheduler:', error);
@@ -896,11 +1001,11 @@ export class AutomationService {
       console.log(`🤖 Executing simple automation: ${automation.name}`);
 
       // Get the template and channel
-      const template = await storage.getMessageTemplate(automation.templateId);
+      const template = await storage.getMessageTemplateAtVersion(automation.templateId, automation.templateVersion);
       const channel = await storage.getTelegramChannel(automation.channelId);
 
       if (!template) {
-        console.error(`❌ Template not found for automation ${automation.name}`);
+        console.error(`❌ Template not found for automation ${automation.name}${automation.templateVersion ? ` (pinned version ${automation.templateVersion})` : ''}`);
         return;
       }
 
@@ -909,8 +1014,14 @@ export class AutomationService {
         return;
       }
 
-      // For simple templates, no variable substitution needed - use template as-is
-      const messageText = template.template;
+      // Simple templates have no trade - only the send time ({timestamp}, {weekday}, ...) and blocks/filters
+      const locale = toTemplateLocale(channel.locale);
+      const messageText = renderMessageTemplate(
+        templateBodyForLocale(template, locale),
+        buildSimpleTemplateContext(new Date(), locale),
+        escapeModeForParseMode(template.parseMode),
+        locale,
+      );
 
       // Process inline buttons (no variable substitution for simple templates)
       const processedButtons = this.processSimpleButtons((template.buttons as any[][]) || []);
@@ -940,6 +1051,8 @@ export class AutomationService {
         tradeId: null, // No trade for simple automations
         telegramMessageId: telegramResult?.messageId?.toString(),
         channelId: channel.channelId,
+        templateId: template.id,
+        templateVersion: template.currentVersion,
         messageText: messageText,
         status: 'sent',
         sentAt: new Date(),
@@ -1024,28 +1137,22 @@ export class AutomationService {
       await Promise.allSettled(
         users.map(async (user) => {
           try {
-            // Import coindcx and encryption services
-            const { CoinDCXService } = await import('./coindcx');
-            const { safeDecrypt } = await import('../utils/encryption');
+            // Import the follower venue resolver (decrypts credentials, routes paper followers)
+            const { getFollowerExchange } = await import('./paperExchange');
             
-            // Decrypt API credentials
-            const apiKey = safeDecrypt(user.apiKey);
-            const apiSecret = safeDecrypt(user.apiSecret);
+            const venue = getFollowerExchange(user);
             
-            if (!apiKey || !apiSecret) {
+            if (!venue) {
               console.warn(`⚠️ Failed to decrypt credentials for user ${user.name}`);
               errorCount++;
               return;
             }
 
-            // Create CoinDCX service instance
-            const coindcxService = new CoinDCXService();
-            const walletResult = await coindcxService.getFuturesWalletBalance(apiKey, apiSecret);
+            // Fetch from the user's own exchange (or paper account)
+            const walletResult = await venue.adapter.getFuturesBalance(venue.credentials);
             
-            if (walletResult.success && walletResult.balance) {
-              // Extract USDT balance
-              const usdtWallet = walletResult.balance.find((wallet: any) => wallet.currency_short_name === 'USDT');
-              const usdtBalance = usdtWallet ? parseFloat(usdtWallet.balance || '0') : 0;
+            if (walletResult.success) {
+              const usdtBalance = walletResult.usdtBalance || 0;
               
               // Update wallet balance in database
               await storage.updateCopyTradingUserWalletBalance(user.id, usdtBalance);
@@ -1071,12 +1178,12 @@ export class AutomationService {
   /**
    * Process research report automation - send message to channel using research template
    */
-  private async processResearchReportAutomation(automation: Automation, data: any): Promise<void> {
+  async processResearchReportAutomation(automation: Automation, data: any): Promise<void> {
     try {
       // Get channel and template details
       const [channel, template] = await Promise.all([
         storage.getTelegramChannel(automation.channelId),
-        storage.getMessageTemplate(automation.templateId)
+        storage.getMessageTemplateAtVersion(automation.templateId, automation.templateVersion)
       ]);
       
       if (!channel || !channel.isActive) {
@@ -1085,14 +1192,14 @@ export class AutomationService {
       }
       
       if (!template || !template.isActive) {
-        console.log(`⚠️ Template not found or inactive for automation ${automation.id}`);
+        console.log(`⚠️ Template not found or inactive for automation ${automation.id}${automation.templateVersion ? ` (pinned version ${automation.templateVersion})` : ''}`);
         return;
       }
       
       console.log(`📊 Processing research report automation: ${automation.name} -> Channel: ${channel.name}, Template: ${template.name}`);
       
       // Generate message from template with research report data
-      const messageText = this.renderResearchReportTemplate(template, data);
+      const messageText = this.renderResearchReportTemplate(template, data, toTemplateLocale(channel.locale));
       
       if (!messageText.trim()) {
         console.log(`⚠️ Empty message generated for research report automation ${automation.id}, skipping`);
@@ -1156,6 +1263,8 @@ export class AutomationService {
       const logData: InsertSentMessage = {
         automationId: automation.id,
         channelId: channel.channelId,
+        templateId: template.id,
+        templateVersion: template.currentVersion,
         messageText,
         status: finalStatus as any,
         sentAt: new Date(),
@@ -1176,57 +1285,12 @@ export class AutomationService {
   }
   
   /**
-   * Render research report template with data - substitute variables like {pair}, {supportLevel}, etc.
+   * Render research report template with data - variables like {pair}, {supportLevel}, blocks and filters.
+   * Research reports are always sent as HTML.
    */
-  private renderResearchReportTemplate(template: MessageTemplate, data: any): string {
-    let messageText = template.template;
-    
-    // HTML escape function for user-provided content
-    const htmlEscape = (text: string): string => {
-      return text
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;')
-        .replace(/"/g, '&quot;')
-        .replace(/'/g, '&#039;');
-    };
-    
-    // Helper function to format numbers (remove trailing zeros)
-    const formatNumber = (value: any): string => {
-      if (!value) return '';
-      const num = parseFloat(value.toString());
-      return isNaN(num) ? '' : `$${num.toString()}`; // toString() removes trailing zeros
-    };
-    
-    // Extract scenarios data
-    const scenarios = data.scenarios || {};
-    const upside = scenarios.upside || {};
-    const downside = scenarios.downside || {};
-    
-    // Define available research report variables
-    const variables: Record<string, string> = {
-      'pair': htmlEscape(data.pair || ''),
-      'supportLevel': htmlEscape(data.supportLevel || ''),
-      'resistanceLevel': htmlEscape(data.resistanceLevel || ''),
-      'summary': htmlEscape(data.summary || ''),
-      'upsideTarget1': formatNumber(upside.target1),
-      'upsideTarget2': formatNumber(upside.target2),
-      'downsideTarget1': formatNumber(downside.target1),
-      'downsideTarget2': formatNumber(downside.target2),
-      'breakoutDirection': data.breakoutDirection ? `📈 ${data.breakoutDirection.charAt(0).toUpperCase() + data.breakoutDirection.slice(1)}` : '📈 Upside',
-      'imageUrl': data.imageUrl || '',
-      'timestamp': new Date().toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' }),
-      'reportId': htmlEscape(data.id || '')
-    };
-    
-    // Replace all variables in template
-    for (const [key, value] of Object.entries(variables)) {
-      const placeholder = `{${key}}`;
-      messageText = messageText.replace(new RegExp(placeholder, 'g'), value);
-    }
-    
-    return messageText;
+  private renderResearchReportTemplate(template: MessageTemplate, data: any, locale: TemplateLocale): string {
+    return renderMessageTemplate(templateBodyForLocale(template, locale), buildResearchReportTemplateContext(data), 'HTML', locale);
   }
 }
 
-export const automationService = new AutomationService();
\ No newline at end of file
+export const automationService = new AutomationService();
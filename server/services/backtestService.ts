@@ -0,0 +1,406 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { positionSizingService, type PositionSizeResult } from './positionSizing';
+import { getKolkataPeriodStarts } from '../utils/tradingDay';
+import { matchesSourceFilter, matchesSignalTypeFilter } from '../utils/copyFilters';
+import { checkActivityLimits, checkExposureLimits } from '../utils/copyRiskLimits';
+import type { FuturesInstrumentMeta } from './coindcx';
+import type {
+  Trade,
+  BacktestRequest,
+  BacktestResult,
+  BacktestTradeResult,
+  BacktestEquityPoint,
+  BacktestSkipReason,
+  CopyTradeRiskSnapshot,
+} from '@shared/schema';
+
+/**
+ * One OHLC bar - time is the bar open in ms since epoch
+ */
+export interface Candle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/**
+ * Pluggable source of historical candles keyed by trade pair (e.g. "SOL_USDT")
+ */
+export interface CandleSource {
+  readonly name: string;
+  getCandles(pair: string, from: Date, to: Date): Promise<Candle[]>;
+  getInstrumentMeta?(pair: string): Promise<FuturesInstrumentMeta | undefined>;
+}
+
+// Lot rules used when the candle source has none for a pair - fine-grained so sizing is barely rounded
+const DEFAULT_BACKTEST_META: FuturesInstrumentMeta = {
+  stepSize: 0.001,
+  minQty: 0.001,
+  maxLeverage: 100,
+  minNotional: 0,
+  tickSize: 0.0001,
+};
+
+const ENTRY_TIMEOUT_MS = 24 * 60 * 60 * 1000; // Limit entry not touched within a day counts as not filled
+
+/**
+ * Reads candles from files in a directory - `<PAIR>.csv` (time,open,high,low,close) or `<PAIR>.json`
+ * (array of candles). Optional `instruments.json` maps pairs to lot rules.
+ */
+export class FileCandleSource implements CandleSource {
+  readonly name = 'file';
+  private cache = new Map<string, Candle[]>();
+  private instruments?: Record<string, FuturesInstrumentMeta>;
+
+  constructor(private directory: string) {}
+
+  async getCandles(pair: string, from: Date, to: Date): Promise<Candle[]> {
+    let candles = this.cache.get(pair);
+    if (!candles) {
+      candles = await this.loadPair(pair);
+      this.cache.set(pair, candles);
+    }
+    return candles.filter(candle => candle.time >= from.getTime() && candle.time <= to.getTime());
+  }
+
+  async getInstrumentMeta(pair: string): Promise<FuturesInstrumentMeta | undefined> {
+    if (!this.instruments) {
+      try {
+        this.instruments = JSON.parse(await fs.readFile(path.join(this.directory, 'instruments.json'), 'utf8'));
+      } catch {
+        this.instruments = {};
+      }
+    }
+    return this.instruments![pair];
+  }
+
+  private async loadPair(pair: string): Promise<Candle[]> {
+    const base = path.join(this.directory, pair);
+
+    const json = await fs.readFile(`${base}.json`, 'utf8').catch(() => null);
+    if (json !== null) {
+      const rows: any[] = JSON.parse(json);
+      return this.sort(rows.map(row => this.toCandle(row.time ?? row.timestamp, row.open, row.high, row.low, row.close)));
+    }
+
+    const csv = await fs.readFile(`${base}.csv`, 'utf8').catch(() => null);
+    if (csv === null) {
+      return [];
+    }
+
+    const candles: Candle[] = [];
+    for (const line of csv.split(/\r?\n/)) {
+      const [time, open, high, low, close] = line.split(',').map(cell => cell.trim());
+      // Skips the header row and blank lines
+      if (!time || isNaN(parseFloat(open))) continue;
+      candles.push(this.toCandle(time, open, high, low, close));
+    }
+    return this.sort(candles);
+  }
+
+  private toCandle(time: string | number, open: any, high: any, low: any, close: any): Candle {
+    const numeric = Number(time);
+    return {
+      // Epoch seconds, epoch ms or an ISO string
+      time: Number.isFinite(numeric) ? (numeric < 1e12 ? numeric * 1000 : numeric) : new Date(time).getTime(),
+      open: parseFloat(open),
+      high: parseFloat(high),
+      low: parseFloat(low),
+      close: parseFloat(close),
+    };
+  }
+
+  private sort(candles: Candle[]): Candle[] {
+    return candles.filter(candle => Number.isFinite(candle.time)).sort((a, b) => a.time - b.time);
+  }
+}
+
+/**
+ * Replays historical signals through the copy filters, the follower risk guardrails and position sizing,
+ * then walks candles to fill the limit entry and exit on the follower bracket (stop loss and first target)
+ */
+export class BacktestService {
+  async run(trades: Trade[], settings: BacktestRequest, source: CandleSource): Promise<BacktestResult> {
+    const ordered = [...trades].sort((a, b) => this.signalTime(a) - this.signalTime(b));
+    const results: BacktestTradeResult[] = [];
+
+    for (const trade of ordered) {
+      const skip = this.checkFilters(trade, settings);
+      if (skip) {
+        results.push(this.skippedResult(trade, skip.reason, skip.message));
+        continue;
+      }
+
+      // Guardrails see the simulated account as it stood when the signal came in
+      const snapshot = this.riskSnapshot(results, this.signalTime(trade));
+      const activityBreach = checkActivityLimits(settings, snapshot);
+      if (activityBreach) {
+        results.push(this.skippedResult(trade, activityBreach.reason as BacktestSkipReason, activityBreach.message));
+        continue;
+      }
+
+      results.push(await this.simulateTrade(trade, settings, source, snapshot));
+    }
+
+    const startingBalance = settings.startingBalance ?? settings.tradeFund;
+    const equityCurve = this.buildEquityCurve(results, startingBalance, settings.from);
+    return { summary: this.summarize(results, equityCurve, startingBalance), equityCurve, trades: results };
+  }
+
+  private signalTime(trade: Trade): number {
+    return trade.createdAt ? new Date(trade.createdAt).getTime() : 0;
+  }
+
+  /**
+   * Same source/signal type filters as live copying
+   */
+  private checkFilters(trade: Trade, settings: BacktestRequest): { reason: BacktestSkipReason; message: string } | null {
+    if (!matchesSourceFilter(settings.sourceFilter, trade.source)) {
+      return { reason: 'source_filter', message: `Source ${trade.source} not copied` };
+    }
+    if (!matchesSignalTypeFilter(settings.signalTypeFilter, trade.signalType)) {
+      return { reason: 'signal_type_filter', message: `Signal type ${trade.signalType} not copied` };
+    }
+    return null;
+  }
+
+  /**
+   * The simulated follower at a point in time, shaped like the live risk snapshot - copies made that day,
+   * P&L realized that day / week, and positions still open (an unfilled entry is pending, with no notional)
+   */
+  private riskSnapshot(results: BacktestTradeResult[], at: number): CopyTradeRiskSnapshot {
+    const { dayStart, weekStart } = getKolkataPeriodStarts(new Date(at));
+    const copied = results.filter(result => result.status !== 'skipped');
+    const realizedSince = (start: Date) => copied
+      .filter(result => result.status === 'closed' && result.exitTime)
+      .filter(result => {
+        const exitTime = new Date(result.exitTime!).getTime();
+        return exitTime >= start.getTime() && exitTime <= at;
+      })
+      .reduce((sum, result) => sum + result.pnl, 0);
+
+    const openPositions = copied
+      .filter(result => {
+        if (result.status === 'not_filled') {
+          return new Date(result.signalTime).getTime() + ENTRY_TIMEOUT_MS > at;
+        }
+        return !result.exitTime || new Date(result.exitTime).getTime() > at || result.status === 'open';
+      })
+      .map(result => ({
+        pair: result.pair,
+        notional: result.entryTime && new Date(result.entryTime).getTime() <= at ? result.notional : 0,
+      }));
+
+    return {
+      tradesToday: copied.filter(result => new Date(result.signalTime).getTime() >= dayStart.getTime()).length,
+      realizedPnlToday: realizedSince(dayStart),
+      realizedPnlWeek: realizedSince(weekStart),
+      openPositions,
+    };
+  }
+
+  private async simulateTrade(
+    trade: Trade,
+    settings: BacktestRequest,
+    source: CandleSource,
+    snapshot: CopyTradeRiskSnapshot
+  ): Promise<BacktestTradeResult> {
+    const entry = parseFloat(trade.price);
+    const stopLoss = trade.stopLossTrigger ? parseFloat(trade.stopLossTrigger) : null;
+    const takeProfit = trade.takeProfitTrigger ? parseFloat(trade.takeProfitTrigger) : null;
+    const isLong = trade.type.toLowerCase() !== 'sell';
+    const meta = (await source.getInstrumentMeta?.(trade.pair)) || DEFAULT_BACKTEST_META;
+
+    // Size exactly like execution: risk-based with a stop loss, else the master leverage on the whole fund
+    let quantity: number;
+    let leverage: number;
+    if (stopLoss) {
+      const sizing = await positionSizingService.sizePosition({
+        entry,
+        stopLoss,
+        fund: settings.tradeFund,
+        riskPct: settings.riskPerTrade,
+        pair: trade.pair,
+        exchange: settings.exchange,
+        meta,
+      });
+      if ('success' in sizing && !sizing.success) {
+        return this.skippedResult(trade, 'sizing_failed', sizing.error);
+      }
+      ({ qty: quantity, leverage } = sizing as PositionSizeResult);
+    } else {
+      leverage = trade.leverage;
+      quantity = positionSizingService.roundDownToStep((settings.tradeFund * leverage) / entry, meta.stepSize);
+    }
+
+    const exposureBreach = checkExposureLimits(settings, snapshot, trade.pair, { notional: quantity * entry, leverage });
+    if (exposureBreach) {
+      return this.skippedResult(trade, exposureBreach.reason as BacktestSkipReason, exposureBreach.message);
+    }
+
+    const signalTime = this.signalTime(trade);
+    const periodEnd = new Date(`${settings.to}T23:59:59.999+05:30`);
+    const candles = await source.getCandles(trade.pair, new Date(signalTime), periodEnd);
+    if (candles.length === 0) {
+      return this.skippedResult(trade, 'no_candles', `No candles for ${trade.pair} after the signal`);
+    }
+
+    const base: BacktestTradeResult = {
+      ...this.skippedResult(trade),
+      status: 'not_filled',
+      skipReason: undefined,
+      quantity,
+      leverage,
+      notional: quantity * entry,
+    };
+
+    // Limit entry fills on the first bar that trades through the entry price
+    const fillIndex = candles.findIndex(candle =>
+      candle.time - signalTime <= ENTRY_TIMEOUT_MS && candle.low <= entry && candle.high >= entry
+    );
+    if (fillIndex === -1) {
+      return { ...base, message: 'Entry price not reached within 24 hours' };
+    }
+
+    const entryTime = new Date(candles[fillIndex].time).toISOString();
+    let exitPrice: number | null = null;
+    let exitReason: BacktestTradeResult['exitReason'] = null;
+    let exitTime = 0;
+
+    // The fill bar can already reach the stop, so it is checked for the stop only - intrabar order is unknown and a
+    // target there can't be credited. After that a stop and target inside one bar resolve to the stop (conservative)
+    for (let index = fillIndex; index < candles.length; index++) {
+      const candle = candles[index];
+      const stopHit = stopLoss !== null && (isLong ? candle.low <= stopLoss : candle.high >= stopLoss);
+      const targetHit = index > fillIndex && takeProfit !== null && (isLong ? candle.high >= takeProfit : candle.low <= takeProfit);
+
+      if (stopHit) {
+        exitPrice = stopLoss;
+        exitReason = 'stop_loss';
+      } else if (targetHit) {
+        exitPrice = takeProfit;
+        exitReason = 'take_profit';
+      }
+      if (exitReason) {
+        exitTime = candle.time;
+        break;
+      }
+    }
+
+    const lastCandle = candles[candles.length - 1];
+    const closed = exitReason !== null;
+    if (!closed) {
+      // Still open when the data ends - mark to the last close
+      exitPrice = lastCandle.close;
+      exitReason = 'end_of_data';
+      exitTime = lastCandle.time;
+    }
+
+    const direction = isLong ? 1 : -1;
+    const fees = (entry + exitPrice!) * quantity * settings.feeRate;
+    const pnl = (exitPrice! - entry) * quantity * direction - fees;
+
+    return {
+      ...base,
+      status: closed ? 'closed' : 'open',
+      entryTime,
+      exitTime: new Date(exitTime).toISOString(),
+      exitPrice,
+      exitReason,
+      fees,
+      pnl,
+      rMultiple: stopLoss ? ((exitPrice! - entry) * direction) / Math.abs(entry - stopLoss) : null,
+    };
+  }
+
+  private skippedResult(trade: Trade, skipReason?: BacktestSkipReason, message?: string): BacktestTradeResult {
+    return {
+      tradeId: trade.tradeId,
+      pair: trade.pair,
+      type: trade.type,
+      source: trade.source,
+      signalType: trade.signalType,
+      signalTime: new Date(this.signalTime(trade)).toISOString(),
+      status: 'skipped',
+      skipReason,
+      message,
+      entryPrice: parseFloat(trade.price),
+      stopLoss: trade.stopLossTrigger ? parseFloat(trade.stopLossTrigger) : null,
+      takeProfit: trade.takeProfitTrigger ? parseFloat(trade.takeProfitTrigger) : null,
+      quantity: 0,
+      leverage: 0,
+      notional: 0,
+      entryTime: null,
+      exitTime: null,
+      exitPrice: null,
+      exitReason: null,
+      fees: 0,
+      pnl: 0,
+      rMultiple: null,
+    };
+  }
+
+  /**
+   * Equity after each exit in time order, with drawdown from the running peak
+   */
+  private buildEquityCurve(results: BacktestTradeResult[], startingBalance: number, from: string): BacktestEquityPoint[] {
+    const exits = results
+      .filter(result => result.exitTime && (result.status === 'closed' || result.status === 'open'))
+      .sort((a, b) => new Date(a.exitTime!).getTime() - new Date(b.exitTime!).getTime());
+
+    const curve: BacktestEquityPoint[] = [{
+      time: new Date(`${from}T00:00:00+05:30`).toISOString(),
+      equity: startingBalance,
+      drawdown: 0,
+      drawdownPercent: 0,
+    }];
+
+    let equity = startingBalance;
+    let peak = startingBalance;
+    for (const result of exits) {
+      equity += result.pnl;
+      peak = Math.max(peak, equity);
+      curve.push({
+        time: result.exitTime!,
+        equity,
+        drawdown: peak - equity,
+        drawdownPercent: peak > 0 ? ((peak - equity) / peak) * 100 : 0,
+      });
+    }
+    return curve;
+  }
+
+  private summarize(results: BacktestTradeResult[], equityCurve: BacktestEquityPoint[], startingBalance: number): BacktestResult['summary'] {
+    const traded = results.filter(result => result.status === 'closed' || result.status === 'open');
+    const closed = results.filter(result => result.status === 'closed');
+    const wins = closed.filter(result => result.pnl > 0).length;
+    const totalPnl = traded.reduce((sum, result) => sum + result.pnl, 0);
+    const withR = closed.filter(result => result.rMultiple !== null);
+    const finalEquity = equityCurve[equityCurve.length - 1].equity;
+    const worst = equityCurve.reduce((max, point) => point.drawdown > max.drawdown ? point : max, equityCurve[0]);
+
+    return {
+      signals: results.length,
+      copied: results.filter(result => result.status !== 'skipped').length,
+      skipped: results.filter(result => result.status === 'skipped').length,
+      notFilled: results.filter(result => result.status === 'not_filled').length,
+      closed: closed.length,
+      wins,
+      losses: closed.filter(result => result.pnl < 0).length,
+      winRate: closed.length > 0 ? (wins / closed.length) * 100 : 0,
+      totalPnl,
+      totalFees: traded.reduce((sum, result) => sum + result.fees, 0),
+      startingBalance,
+      finalEquity,
+      returnPercent: startingBalance > 0 ? (totalPnl / startingBalance) * 100 : 0,
+      maxDrawdown: worst.drawdown,
+      maxDrawdownPercent: Math.max(...equityCurve.map(point => point.drawdownPercent)),
+      averageR: withR.length > 0 ? withR.reduce((sum, result) => sum + result.rMultiple!, 0) / withR.length : null,
+    };
+  }
+}
+
+export const backtestService = new BacktestService();
@@ -0,0 +1,453 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import type { FuturesFill, FuturesInstrumentMeta } from './coindcx';
+import type {
+  ExchangeAdapter,
+  ExchangeBalanceResult,
+  ExchangeCredentials,
+  ExchangeExitRequest,
+  ExchangeOrderResult,
+  FuturesOrderRequest,
+  FuturesOrderState,
+  FuturesOrderStatus,
+  FuturesPositionState,
+  PositionProtectionRequest,
+  PositionReduceRequest,
+} from './exchangeAdapter';
+import { joinSymbol, splitPair } from '../utils/symbols';
+
+interface BinanceSymbolInfo {
+  symbol: string;
+  status: string;
+  contractType: string;
+  filters: { filterType: string; [key: string]: any }[];
+}
+
+/**
+ * Binance USDⓈ-M futures adapter for copy trading
+ */
+export class BinanceFuturesService implements ExchangeAdapter {
+  readonly id = 'binance' as const;
+  readonly displayName = 'Binance';
+
+  private baseUrl: string;
+  private recvWindow = 5000;
+  private metadataCache: Map<string, { data: FuturesInstrumentMeta, expiry: number }> = new Map();
+  private cacheExpiryMs = 60 * 60 * 1000; // 1 hour TTL
+
+  constructor() {
+    this.baseUrl = process.env.BINANCE_FUTURES_BASE_URL || 'https://fapi.binance.com';
+  }
+
+  /**
+   * "SOL_USDT" → "SOLUSDT"
+   */
+  toExchangeSymbol(pair: string): string {
+    const { base, quote } = splitPair(pair);
+    return `${base}${quote}`;
+  }
+
+  /**
+   * "SOLUSDT" → "SOL_USDT"
+   */
+  fromExchangeSymbol(symbol: string): string {
+    return joinSymbol(symbol);
+  }
+
+  /**
+   * Signed request - Binance signs the url-encoded params with HMAC-SHA256
+   */
+  private async signedRequest(
+    method: 'GET' | 'POST' | 'DELETE',
+    endpoint: string,
+    credentials: ExchangeCredentials,
+    params: Record<string, string | number | boolean> = {}
+  ): Promise<any> {
+    const query = new URLSearchParams(
+      Object.entries({ ...params, recvWindow: this.recvWindow, timestamp: Date.now() })
+        .map(([key, value]) => [key, String(value)])
+    ).toString();
+    const signature = crypto.createHmac('sha256', credentials.apiSecret).update(query).digest('hex');
+
+    const response = await axios.request({
+      method,
+      url: `${this.baseUrl}${endpoint}?${query}&signature=${signature}`,
+      headers: { 'X-MBX-APIKEY': credentials.apiKey },
+      timeout: 15000,
+    });
+
+    return response.data;
+  }
+
+  /**
+   * Map Binance error payloads ({ code, msg }) to our message format
+   */
+  private describeError(error: any): string {
+    const status = error.response?.status;
+    const apiMessage = error.response?.data?.msg;
+
+    if (status === 401 || error.response?.data?.code === -2015) {
+      return 'Invalid API credentials';
+    } else if (status === 403) {
+      return 'API access forbidden - check futures trading permissions';
+    } else if (status === 429 || status === 418) {
+      return 'Rate limit exceeded - retrying...';
+    } else if (error.code === 'ECONNABORTED') {
+      return 'Connection timeout';
+    } else if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
+      return 'Connection failed';
+    }
+    return apiMessage || error.message || 'Unknown error';
+  }
+
+  async getInstrumentMeta(pair: string): Promise<FuturesInstrumentMeta> {
+    const symbol = this.toExchangeSymbol(pair);
+
+    const cached = this.metadataCache.get(symbol);
+    if (cached && Date.now() < cached.expiry) {
+      return cached.data;
+    }
+
+    try {
+      console.log(`📡 Fetching Binance market metadata for ${symbol}...`);
+      const response = await axios.get(`${this.baseUrl}/fapi/v1/exchangeInfo`, { timeout: 10000 });
+      const symbols: BinanceSymbolInfo[] = response.data?.symbols || [];
+
+      // Cache every perpetual in one pass - exchangeInfo is a heavy call
+      const expiry = Date.now() + this.cacheExpiryMs;
+      for (const info of symbols) {
+        if (info.contractType !== 'PERPETUAL') continue;
+
+        const lotSize = info.filters.find(f => f.filterType === 'LOT_SIZE');
+        const priceFilter = info.filters.find(f => f.filterType === 'PRICE_FILTER');
+        const minNotional = info.filters.find(f => f.filterType === 'MIN_NOTIONAL');
+
+        this.metadataCache.set(info.symbol, {
+          data: {
+            stepSize: parseFloat(lotSize?.stepSize || '1'),
+            minQty: parseFloat(lotSize?.minQty || '1'),
+            maxLeverage: 125, // Per-symbol brackets need a signed call; exchange rejects anything above the bracket
+            minNotional: parseFloat(minNotional?.notional || '5'),
+            tickSize: priceFilter ? parseFloat(priceFilter.tickSize) : undefined,
+          },
+          expiry,
+        });
+      }
+
+      const fresh = this.metadataCache.get(symbol);
+      if (!fresh) {
+        throw new Error(`Trading pair ${pair} (${symbol}) not listed on Binance futures`);
+      }
+      return fresh.data;
+    } catch (error: any) {
+      console.error(`❌ Failed to fetch Binance metadata for ${symbol}:`, error.message);
+
+      if (cached) {
+        console.log(`⚠️ Using expired Binance cache for ${symbol} as fallback`);
+        return cached.data;
+      }
+      throw error;
+    }
+  }
+
+  async placeFuturesOrder(credentials: ExchangeCredentials, order: FuturesOrderRequest): Promise<ExchangeOrderResult> {
+    const symbol = this.toExchangeSymbol(order.pair);
+    const side = order.side === 'buy' ? 'BUY' : 'SELL';
+    const closeSide = order.side === 'buy' ? 'SELL' : 'BUY';
+
+    try {
+      console.log(`📤 BINANCE: Placing ${side} ${order.total_quantity} ${symbol} @ ${order.price} (${order.leverage}x)`);
+
+      await this.signedRequest('POST', '/fapi/v1/leverage', credentials, {
+        symbol,
+        leverage: Math.max(1, Math.round(order.leverage)),
+      });
+
+      const entry = await this.signedRequest('POST', '/fapi/v1/order', credentials, {
+        symbol,
+        side,
+        type: 'LIMIT',
+        timeInForce: 'GTC',
+        quantity: order.total_quantity,
+        price: order.price,
+      });
+
+      if (!entry?.orderId) {
+        return { success: false, message: 'Order placement failed: No valid order ID received from exchange', data: entry };
+      }
+
+      // Binance has no bracket on the entry order - attach SL/TP as close-position triggers
+      const warnings: string[] = [];
+      const attach = async (type: 'STOP_MARKET' | 'TAKE_PROFIT_MARKET', stopPrice?: number) => {
+        if (!stopPrice) return null;
+        try {
+          return await this.signedRequest('POST', '/fapi/v1/order', credentials, {
+            symbol,
+            side: closeSide,
+            type,
+            stopPrice,
+            closePosition: true,
+            workingType: 'MARK_PRICE',
+          });
+        } catch (error: any) {
+          warnings.push(`${type} not placed: ${this.describeError(error)}`);
+          return null;
+        }
+      };
+
+      const stopLoss = await attach('STOP_MARKET', order.stop_loss_price);
+      const takeProfit = await attach('TAKE_PROFIT_MARKET', order.take_profit_price);
+
+      console.log(`✅ BINANCE: Order created ${entry.orderId}${warnings.length ? ` (${warnings.join('; ')})` : ''}`);
+
+      return {
+        success: true,
+        orderId: String(entry.orderId),
+        message: warnings.length > 0 ? `Order placed with warnings: ${warnings.join('; ')}` : 'Order placed successfully',
+        data: { entry, stopLoss, takeProfit },
+      };
+    } catch (error: any) {
+      console.error(`❌ BINANCE: Order creation failed for ${symbol}:`, {
+        status: error.response?.status,
+        responseData: error.response?.data,
+        message: error.message,
+      });
+      return { success: false, message: `Order failed: ${this.describeError(error)}`, data: error.response?.data };
+    }
+  }
+
+  /**
+   * Close the whole position with a reduce-only market order and cancel resting SL/TP triggers
+   */
+  async exitPosition(credentials: ExchangeCredentials, request: ExchangeExitRequest): Promise<{ success: boolean; message: string; data?: any }> {
+    const symbol = this.toExchangeSymbol(request.pair);
+
+    try {
+      const positions: any[] = await this.signedRequest('GET', '/fapi/v2/positionRisk', credentials, { symbol });
+      const position = positions.find(p => p.symbol === symbol && parseFloat(p.positionAmt) !== 0);
+
+      if (!position) {
+        return { success: false, message: 'Position already closed or not found' };
+      }
+
+      const amount = parseFloat(position.positionAmt);
+      const result = await this.signedRequest('POST', '/fapi/v1/order', credentials, {
+        symbol,
+        side: amount > 0 ? 'SELL' : 'BUY',
+        type: 'MARKET',
+        quantity: Math.abs(amount),
+        reduceOnly: true,
+      });
+
+      await this.signedRequest('DELETE', '/fapi/v1/allOpenOrders', credentials, { symbol }).catch(error => {
+        console.warn(`⚠️ BINANCE: Failed to cancel open orders for ${symbol}: ${this.describeError(error)}`);
+      });
+
+      console.log(`✅ BINANCE: Exited ${symbol} position (${amount})`);
+      return { success: true, message: `Trade ${request.pair} successfully exited at market price`, data: result };
+    } catch (error: any) {
+      console.error(`❌ BINANCE: Failed to exit ${symbol}:`, error.response?.data || error.message);
+      return { success: false, message: this.describeError(error), data: error.response?.data };
+    }
+  }
+
+  async getFuturesBalance(credentials: ExchangeCredentials): Promise<ExchangeBalanceResult> {
+    try {
+      const balances: any[] = await this.signedRequest('GET', '/fapi/v2/balance', credentials);
+      const usdt = balances.find(b => b.asset === 'USDT');
+
+      return {
+        success: true,
+        usdtBalance: usdt ? parseFloat(usdt.balance || '0') : 0,
+        raw: balances,
+        message: 'Balance fetched successfully',
+      };
+    } catch (error: any) {
+      return { success: false, message: `Balance fetch failed: ${this.describeError(error)}` };
+    }
+  }
+
+  async validateCredentials(credentials: ExchangeCredentials): Promise<{ valid: boolean; message: string }> {
+    try {
+      const account = await this.signedRequest('GET', '/fapi/v2/account', credentials);
+      if (account?.canTrade === false) {
+        return { valid: false, message: 'API key does not have futures trading permission on Binance.' };
+      }
+      return { valid: true, message: 'Credentials verified successfully' };
+    } catch (error: any) {
+      return { valid: false, message: `Verification failed: ${this.describeError(error)}` };
+    }
+  }
+
+  async getFills(credentials: ExchangeCredentials, pair: string, fromDate?: Date): Promise<{ success: boolean; fills?: FuturesFill[]; message: string }> {
+    try {
+      const rows: any[] = await this.signedRequest('GET', '/fapi/v1/userTrades', credentials, {
+        symbol: this.toExchangeSymbol(pair),
+        limit: 100,
+        ...(fromDate && { startTime: fromDate.getTime() }),
+      });
+
+      const fills: FuturesFill[] = rows.map(row => ({
+        orderId: String(row.orderId),
+        side: row.side === 'BUY' ? 'buy' : 'sell',
+        price: parseFloat(row.price),
+        quantity: parseFloat(row.qty),
+        fee: parseFloat(row.commission || '0'),
+        timestamp: Number(row.time),
+      }));
+
+      return { success: true, fills, message: `Fetched ${fills.length} fills` };
+    } catch (error: any) {
+      return { success: false, message: `Trade history fetch failed: ${this.describeError(error)}` };
+    }
+  }
+
+  async getOrder(credentials: ExchangeCredentials, orderId: string, pair: string): Promise<{ success: boolean; order?: FuturesOrderState; message: string }> {
+    try {
+      const row = await this.signedRequest('GET', '/fapi/v1/order', credentials, {
+        symbol: this.toExchangeSymbol(pair),
+        orderId,
+      });
+
+      const statusMap: Record<string, FuturesOrderStatus> = {
+        NEW: 'open',
+        PARTIALLY_FILLED: 'partially_filled',
+        FILLED: 'filled',
+        CANCELED: 'cancelled',
+        EXPIRED: 'cancelled',
+        REJECTED: 'rejected',
+      };
+      const avgPrice = parseFloat(row.avgPrice || '0');
+
+      return {
+        success: true,
+        order: {
+          orderId: String(row.orderId),
+          status: statusMap[row.status] || 'open',
+          side: row.side === 'SELL' ? 'sell' : 'buy',
+          price: parseFloat(row.price || '0'),
+          avgPrice: avgPrice > 0 ? avgPrice : null,
+          quantity: parseFloat(row.origQty || '0'),
+          filledQuantity: parseFloat(row.executedQty || '0'),
+        },
+        message: `Order ${row.status}`,
+      };
+    } catch (error: any) {
+      return { success: false, message: `Order lookup failed: ${this.describeError(error)}` };
+    }
+  }
+
+  /**
+   * Open position plus the close-position SL/TP triggers attached by placeFuturesOrder
+   */
+  async getPosition(credentials: ExchangeCredentials, pair: string): Promise<{ success: boolean; position?: FuturesPositionState | null; message: string }> {
+    const symbol = this.toExchangeSymbol(pair);
+
+    try {
+      const positions: any[] = await this.signedRequest('GET', '/fapi/v2/positionRisk', credentials, { symbol });
+      const row = positions.find(p => p.symbol === symbol && parseFloat(p.positionAmt) !== 0);
+      if (!row) {
+        return { success: true, position: null, message: 'No open position' };
+      }
+
+      const openOrders: any[] = await this.signedRequest('GET', '/fapi/v1/openOrders', credentials, { symbol });
+      const triggerPrice = (type: string) => {
+        const order = openOrders.find(o => o.type === type);
+        return order ? parseFloat(order.stopPrice) : null;
+      };
+
+      const amount = parseFloat(row.positionAmt);
+      return {
+        success: true,
+        position: {
+          pair,
+          side: amount > 0 ? 'buy' : 'sell',
+          quantity: Math.abs(amount),
+          entryPrice: parseFloat(row.entryPrice),
+          markPrice: parseFloat(row.markPrice),
+          stopLoss: triggerPrice('STOP_MARKET'),
+          takeProfit: triggerPrice('TAKE_PROFIT_MARKET'),
+        },
+        message: 'Open position found',
+      };
+    } catch (error: any) {
+      return { success: false, message: `Position lookup failed: ${this.describeError(error)}` };
+    }
+  }
+
+  /**
+   * Place the new trigger for each level being changed, then cancel the ones it replaces - a rejected
+   * replacement leaves the old stop in place. Binance allows one closePosition trigger per side, so
+   * replacements are reduce-only orders for the open quantity
+   */
+  async updatePositionProtection(credentials: ExchangeCredentials, request: PositionProtectionRequest): Promise<{ success: boolean; message: string; data?: any }> {
+    const symbol = this.toExchangeSymbol(request.pair);
+    const closeSide = request.side === 'buy' ? 'SELL' : 'BUY';
+    const levels: { type: 'STOP_MARKET' | 'TAKE_PROFIT_MARKET'; stopPrice?: number }[] = [
+      { type: 'STOP_MARKET', stopPrice: request.stopLoss },
+      { type: 'TAKE_PROFIT_MARKET', stopPrice: request.takeProfit },
+    ];
+
+    try {
+      const positions: any[] = await this.signedRequest('GET', '/fapi/v2/positionRisk', credentials, { symbol });
+      const position = positions.find(p => p.symbol === symbol && parseFloat(p.positionAmt) !== 0);
+      if (!position) {
+        return { success: false, message: 'TP/SL update failed: no open position' };
+      }
+
+      const openOrders: any[] = await this.signedRequest('GET', '/fapi/v1/openOrders', credentials, { symbol });
+      const placed: any[] = [];
+
+      for (const { type, stopPrice } of levels) {
+        if (!stopPrice) continue;
+
+        placed.push(await this.signedRequest('POST', '/fapi/v1/order', credentials, {
+          symbol,
+          side: closeSide,
+          type,
+          stopPrice,
+          quantity: String(position.positionAmt).replace('-', ''),
+          reduceOnly: true,
+          workingType: 'MARK_PRICE',
+        }));
+
+        for (const order of openOrders.filter(o => o.type === type)) {
+          try {
+            await this.signedRequest('DELETE', '/fapi/v1/order', credentials, { symbol, orderId: order.orderId });
+          } catch (error: any) {
+            // The new trigger is live - a leftover old one is reduce-only/close-position too, so it can't open anything
+            console.warn(`⚠️ BINANCE: Could not cancel replaced ${type} ${order.orderId} on ${symbol}:`, error.response?.data || error.message);
+          }
+        }
+      }
+
+      console.log(`✅ BINANCE: Updated ${symbol} protection (SL ${request.stopLoss ?? '-'}, TP ${request.takeProfit ?? '-'})`);
+      return { success: true, message: 'Position TP/SL updated', data: placed };
+    } catch (error: any) {
+      console.error(`❌ BINANCE: Failed to update ${symbol} protection:`, error.response?.data || error.message);
+      return { success: false, message: `TP/SL update failed: ${this.describeError(error)}`, data: error.response?.data };
+    }
+  }
+
+  async reducePosition(credentials: ExchangeCredentials, request: PositionReduceRequest): Promise<ExchangeOrderResult> {
+    const symbol = this.toExchangeSymbol(request.pair);
+
+    try {
+      const result = await this.signedRequest('POST', '/fapi/v1/order', credentials, {
+        symbol,
+        side: request.side === 'buy' ? 'SELL' : 'BUY',
+        type: 'MARKET',
+        quantity: request.quantity,
+        reduceOnly: true,
+      });
+
+      console.log(`✅ BINANCE: Reduced ${symbol} position by ${request.quantity}`);
+      return { success: true, orderId: result?.orderId ? String(result.orderId) : undefined, message: 'Reduce order placed', data: result };
+    } catch (error: any) {
+      console.error(`❌ BINANCE: Failed to reduce ${symbol}:`, error.response?.data || error.message);
+      return { success: false, message: `Reduce order failed: ${this.describeError(error)}`, data: error.response?.data };
+    }
+  }
+}
+
+export const binanceFuturesService = new BinanceFuturesService();
@@ -33,7 +33,7 @@ interface CoinDCXConfig {
   baseUrl: string;
 }
 
-interface FuturesInstrumentMeta {
+export interface FuturesInstrumentMeta {
   stepSize: number;
   minQty: number;
   maxLeverage: number;
@@ -41,6 +41,15 @@ interface FuturesInstrumentMeta {
   tickSize?: number;
 }
 
+export interface FuturesFill {
+  orderId: string;
+  side: 'buy' | 'sell';
+  price: number;
+  quantity: number;
+  fee: number;
+  timestamp: number; // ms since epoch
+}
+
 interface CoinDCXMarketDetail {
   pair: string;
   coindcx_name: string;
@@ -677,6 +686,198 @@ export class CoinDCXService {
     }
   }
 
+  /**
+   * Fetch futures fills (trade history) with custom credentials
+   * @param pair Trading pair without prefix (e.g., "SOL_USDT")
+   * @param fromDate Only fills at or after this time
+   */
+  async getFuturesTradeHistory(
+    apiKey: string,
+    apiSecret: string,
+    pair: string,
+    fromDate?: Date
+  ): Promise<{ success: boolean; fills?: FuturesFill[]; message: string }> {
+    try {
+      const endpoint = '/exchange/v1/derivatives/futures/trades';
+      const requestBody: any = {
+        timestamp: Date.now(),
+        pair: `B-${pair.replace(/^B-/, '')}`,
+        page: '1',
+        size: '100',
+      };
+      if (fromDate) {
+        requestBody.from_date = fromDate.toISOString().slice(0, 10);
+      }
+
+      const body = JSON.stringify(requestBody);
+      const signature = crypto.createHmac('sha256', apiSecret).update(body).digest('hex');
+
+      const response = await axios.post(`${this.config.baseUrl}${endpoint}`, body, {
+        headers: {
+          'X-AUTH-APIKEY': apiKey,
+          'X-AUTH-SIGNATURE': signature,
+          'Content-Type': 'application/json',
+        },
+        timeout: 10000,
+      });
+
+      const rows: any[] = Array.isArray(response.data) ? response.data : [];
+      const fills: FuturesFill[] = rows
+        .map(row => ({
+          orderId: row.order_id,
+          side: row.side,
+          price: parseFloat(row.price),
+          quantity: parseFloat(row.quantity),
+          fee: parseFloat(row.fee_amount || '0'),
+          timestamp: Number(row.timestamp),
+        }))
+        .filter(fill => !fromDate || fill.timestamp >= fromDate.getTime());
+
+      return { success: true, fills, message: `Fetched ${fills.length} fills` };
+    } catch (error: any) {
+      console.error(`❌ Futures trade history fetch failed for ${pair}:`, {
+        status: error.response?.status,
+        message: error.message,
+        responseData: error.response?.data
+      });
+
+      if (error.response?.status === 401) {
+        return { success: false, message: 'Invalid API credentials' };
+      }
+      return { success: false, message: `Trade history fetch failed: ${error.response?.data?.message || error.message}` };
+    }
+  }
+
+  /**
+   * Signed futures request with custom credentials - returns the untouched response body
+   */
+  private async signedFuturesRequest(apiKey: string, apiSecret: string, endpoint: string, requestBody: Record<string, any>): Promise<any> {
+    const body = JSON.stringify({ timestamp: Date.now(), ...requestBody });
+    const signature = crypto.createHmac('sha256', apiSecret).update(body).digest('hex');
+
+    const response = await axios.post(`${this.config.baseUrl}${endpoint}`, body, {
+      headers: {
+        'X-AUTH-APIKEY': apiKey,
+        'X-AUTH-SIGNATURE': signature,
+        'Content-Type': 'application/json',
+      },
+      timeout: 10000,
+    });
+
+    return response.data;
+  }
+
+  /**
+   * Signed futures request with custom credentials - returns the raw response rows
+   */
+  private async signedFuturesPost(apiKey: string, apiSecret: string, endpoint: string, requestBody: Record<string, any>): Promise<any[]> {
+    const data = await this.signedFuturesRequest(apiKey, apiSecret, endpoint, requestBody);
+
+    if (Array.isArray(data)) return data;
+    if (Array.isArray(data?.data)) return data.data;
+    return [];
+  }
+
+  /**
+   * Fetch the follower's futures orders (all lifecycle states) with custom credentials
+   */
+  async getFuturesOrders(apiKey: string, apiSecret: string, side?: 'buy' | 'sell'): Promise<{ success: boolean; orders?: any[]; message: string }> {
+    try {
+      const orders = await this.signedFuturesPost(apiKey, apiSecret, '/exchange/v1/derivatives/futures/orders', {
+        status: 'open,partially_filled,filled,cancelled,partially_cancelled,rejected,untriggered',
+        ...(side && { side }),
+        page: '1',
+        size: '100',
+        margin_currency_short_name: ['USDT'],
+      });
+      return { success: true, orders, message: `Fetched ${orders.length} orders` };
+    } catch (error: any) {
+      console.error('❌ Futures orders fetch failed:', error.response?.data || error.message);
+      if (error.response?.status === 401) {
+        return { success: false, message: 'Invalid API credentials' };
+      }
+      return { success: false, message: `Orders fetch failed: ${error.response?.data?.message || error.message}` };
+    }
+  }
+
+  /**
+   * Fetch the follower's futures positions with custom credentials
+   */
+  async getFuturesPositions(apiKey: string, apiSecret: string): Promise<{ success: boolean; positions?: CoinDCXTrade[]; message: string }> {
+    try {
+      const positions = await this.signedFuturesPost(apiKey, apiSecret, '/exchange/v1/derivatives/futures/positions', {
+        page: '1',
+        size: '100',
+        margin_currency_short_name: ['USDT'],
+      });
+      return { success: true, positions, message: `Fetched ${positions.length} positions` };
+    } catch (error: any) {
+      console.error('❌ Futures positions fetch failed:', error.response?.data || error.message);
+      if (error.response?.status === 401) {
+        return { success: false, message: 'Invalid API credentials' };
+      }
+      return { success: false, message: `Positions fetch failed: ${error.response?.data?.message || error.message}` };
+    }
+  }
+
+  /**
+   * Replace the stop loss and/or take profit on an open futures position with custom credentials
+   */
+  async setPositionTpSl(
+    apiKey: string,
+    apiSecret: string,
+    positionId: string,
+    levels: { stopLoss?: number; takeProfit?: number }
+  ): Promise<{ success: boolean; message: string; data?: any }> {
+    try {
+      // Same 2 decimal precision as order placement
+      const round = (price: number) => Math.round(price * 100) / 100;
+      const data = await this.signedFuturesRequest(apiKey, apiSecret, '/exchange/v1/derivatives/futures/positions/create_tpsl', {
+        id: positionId,
+        ...(levels.stopLoss && { stop_loss: { stop_price: round(levels.stopLoss), order_type: 'stop_market' } }),
+        ...(levels.takeProfit && { take_profit: { stop_price: round(levels.takeProfit), order_type: 'take_profit_market' } }),
+      });
+      return { success: true, message: 'Position TP/SL updated', data };
+    } catch (error: any) {
+      console.error('❌ Position TP/SL update failed:', error.response?.data || error.message);
+      if (error.response?.status === 401) {
+        return { success: false, message: 'Invalid API credentials' };
+      }
+      return { success: false, message: `TP/SL update failed: ${error.response?.data?.message || error.message}` };
+    }
+  }
+
+  /**
+   * Market order against an open position to close part of it with custom credentials
+   */
+  async reduceFuturesPosition(
+    apiKey: string,
+    apiSecret: string,
+    orderData: { side: 'buy' | 'sell'; pair: string; total_quantity: number }
+  ): Promise<{ success: boolean; orderId?: string; message: string; data?: any }> {
+    try {
+      const data = await this.signedFuturesRequest(apiKey, apiSecret, '/exchange/v1/derivatives/futures/orders/create', {
+        order: {
+          side: orderData.side,
+          pair: `B-${orderData.pair}`,
+          order_type: 'market_order',
+          total_quantity: orderData.total_quantity,
+          notification: 'email_notification',
+        },
+      });
+
+      const row = Array.isArray(data) ? data[0] : data;
+      const orderId = row?.id || row?.order_id;
+      return { success: true, orderId: orderId ? String(orderId) : undefined, message: 'Reduce order placed', data };
+    } catch (error: any) {
+      console.error('❌ Futures reduce order failed:', error.response?.data || error.message);
+      if (error.response?.status === 401) {
+        return { success: false, message: 'Invalid API credentials' };
+      }
+      return { success: false, message: `Reduce order failed: ${error.response?.data?.message || error.message}` };
+    }
+  }
+
   transformTradeData(coindcxTrade: CoinDCXTrade) {
     // Handle futures positions data format
     let pair = coindcxTrade.pair || coindcxTrade.market || 'UNKNOWN';
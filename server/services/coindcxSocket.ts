@@ -0,0 +1,366 @@
+import WebSocket from 'ws';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+
+/**
+ * Futures position payload pushed on the private "coindcx" channel
+ */
+export interface CoinDCXPositionUpdate {
+  id: string;
+  pair: string;
+  active_pos: number;
+  avg_price?: number;
+  mark_price?: number;
+  leverage?: number;
+  liquidation_price?: number;
+  locked_margin?: number;
+  take_profit_trigger?: number | null;
+  stop_loss_trigger?: number | null;
+  updated_at?: number;
+  [key: string]: any;
+}
+
+/**
+ * Futures order payload pushed on the private "coindcx" channel
+ */
+export interface CoinDCXOrderUpdate {
+  id: string;
+  pair: string;
+  side: 'buy' | 'sell';
+  status: string;
+  order_type?: string;
+  price?: number;
+  avg_price?: number;
+  total_quantity?: number;
+  remaining_quantity?: number;
+  fee_amount?: number;
+  updated_at?: number;
+  [key: string]: any;
+}
+
+interface Subscription {
+  channelName: string;
+  isPrivate: boolean;
+}
+
+// Public futures ticker channel (all instruments, mark + last price)
+const FUTURES_PRICES_CHANNEL = 'currentPrices@futures@rt';
+const FUTURES_PRICES_EVENT = 'currentPrices@futures#update';
+
+/**
+ * CoinDCX stream client (socket.io v2 protocol over a raw WebSocket)
+ * Handles reconnect with backoff, resubscription and engine.io heartbeats.
+ *
+ * Events: 'connected', 'disconnected', 'position', 'order', 'prices'
+ */
+export class CoinDCXSocketClient extends EventEmitter {
+  private url: string;
+  private apiKey: string;
+  private apiSecret: string;
+  private socket: WebSocket | null = null;
+  private subscriptions = new Map<string, Subscription>();
+  private shouldReconnect = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private pingTimer: NodeJS.Timeout | null = null;
+  private pongTimeout: NodeJS.Timeout | null = null;
+  private pingIntervalMs = 25000;
+  private pingTimeoutMs = 20000;
+  private connected = false;
+  private lastMessageAt: Date | null = null;
+  private latestPrices = new Map<string, number>();
+
+  constructor(customApiKey?: string, customApiSecret?: string) {
+    super();
+    this.url = process.env.COINDCX_STREAM_URL || 'wss://stream.coindcx.com';
+    this.apiKey = customApiKey || process.env.COINDCX_API_KEY || '';
+    this.apiSecret = customApiSecret || process.env.COINDCX_API_SECRET || '';
+  }
+
+  /**
+   * Open the stream and keep it open until disconnect() is called
+   */
+  connect(): void {
+    this.shouldReconnect = true;
+    this.openSocket();
+  }
+
+  disconnect(): void {
+    this.shouldReconnect = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.clearHeartbeat();
+
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.terminate();
+      this.socket = null;
+    }
+
+    if (this.connected) {
+      this.connected = false;
+      this.emit('disconnected');
+    }
+
+    console.log('🔌 CoinDCX stream disconnected');
+  }
+
+  /**
+   * Subscribe to private position/order updates for the configured account
+   */
+  subscribePrivate(): void {
+    if (!this.apiKey || !this.apiSecret) {
+      console.warn('⚠️ CoinDCX stream: API credentials missing - private channel not subscribed');
+      return;
+    }
+    this.subscribe('coindcx', true);
+  }
+
+  /**
+   * Subscribe to futures mark/last price updates for all instruments
+   */
+  subscribePrices(): void {
+    this.subscribe(FUTURES_PRICES_CHANNEL, false);
+  }
+
+  /**
+   * Latest mark price seen on the stream for a pair (e.g. "SOL_USDT")
+   */
+  getLatestPrice(pair: string): number | undefined {
+    return this.latestPrices.get(pair.replace(/^B-/, ''));
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getStatus() {
+    return {
+      connected: this.connected,
+      subscriptions: Array.from(this.subscriptions.keys()),
+      reconnectAttempts: this.reconnectAttempts,
+      lastMessageAt: this.lastMessageAt?.toISOString() || null,
+      pricesTracked: this.latestPrices.size,
+    };
+  }
+
+  private subscribe(channelName: string, isPrivate: boolean): void {
+    this.subscriptions.set(channelName, { channelName, isPrivate });
+    if (this.connected) {
+      this.sendJoin(this.subscriptions.get(channelName)!);
+    }
+  }
+
+  private openSocket(): void {
+    const socketUrl = `${this.url.replace(/\/$/, '')}/socket.io/?EIO=3&transport=websocket`;
+    console.log(`🔌 Connecting to CoinDCX stream: ${this.url}`);
+
+    const socket = new WebSocket(socketUrl);
+    this.socket = socket;
+
+    socket.on('message', (raw) => this.handlePacket(raw.toString()));
+
+    socket.on('error', (error) => {
+      console.error('❌ CoinDCX stream error:', error.message);
+    });
+
+    socket.on('close', (code) => {
+      console.log(`⚠️ CoinDCX stream closed (code ${code})`);
+      this.handleClose();
+    });
+  }
+
+  /**
+   * Decode an engine.io / socket.io v2 packet
+   */
+  private handlePacket(packet: string): void {
+    this.lastMessageAt = new Date();
+    const engineType = packet.charAt(0);
+
+    switch (engineType) {
+      case '0': {
+        // Engine open - carries heartbeat settings
+        try {
+          const handshake = JSON.parse(packet.slice(1));
+          this.pingIntervalMs = handshake.pingInterval || this.pingIntervalMs;
+          this.pingTimeoutMs = handshake.pingTimeout || this.pingTimeoutMs;
+        } catch {
+          // Keep defaults if the handshake is malformed
+        }
+        this.startHeartbeat();
+        break;
+      }
+      case '3':
+        // Pong
+        if (this.pongTimeout) {
+          clearTimeout(this.pongTimeout);
+          this.pongTimeout = null;
+        }
+        break;
+      case '4':
+        this.handleSocketMessage(packet.slice(1));
+        break;
+      default:
+        break;
+    }
+  }
+
+  private handleSocketMessage(payload: string): void {
+    const socketType = payload.charAt(0);
+
+    if (socketType === '0') {
+      // Namespace connected
+      this.connected = true;
+      this.reconnectAttempts = 0;
+      console.log('✅ CoinDCX stream connected');
+      this.subscriptions.forEach(subscription => this.sendJoin(subscription));
+      this.emit('connected');
+      return;
+    }
+
+    if (socketType !== '2') return;
+
+    try {
+      const [event, body] = JSON.parse(payload.slice(1));
+      this.dispatch(event, body);
+    } catch (error) {
+      console.error('❌ CoinDCX stream: failed to parse event payload:', error);
+    }
+  }
+
+  private dispatch(event: string, body: any): void {
+    const data = this.parseData(body);
+
+    switch (event) {
+      case 'df-position-update':
+        for (const position of this.asArray(data)) {
+          this.emit('position', position as CoinDCXPositionUpdate);
+        }
+        break;
+      case 'df-order-update':
+        for (const order of this.asArray(data)) {
+          this.emit('order', order as CoinDCXOrderUpdate);
+        }
+        break;
+      case FUTURES_PRICES_EVENT: {
+        const prices = this.extractPrices(data);
+        if (prices.size > 0) {
+          this.emit('prices', prices);
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Stream bodies wrap the payload as a JSON string in "data"
+   */
+  private parseData(body: any): any {
+    const data = body && typeof body === 'object' && 'data' in body ? body.data : body;
+    if (typeof data === 'string') {
+      try {
+        return JSON.parse(data);
+      } catch {
+        return data;
+      }
+    }
+    return data;
+  }
+
+  private asArray(data: any): any[] {
+    if (Array.isArray(data)) return data;
+    return data ? [data] : [];
+  }
+
+  private extractPrices(data: any): Map<string, number> {
+    const updates = new Map<string, number>();
+    const prices = data?.prices || {};
+
+    for (const [instrument, entry] of Object.entries<any>(prices)) {
+      const price = parseFloat(entry?.mp ?? entry?.ls);
+      if (!Number.isFinite(price) || price <= 0) continue;
+
+      const pair = instrument.replace(/^B-/, '');
+      this.latestPrices.set(pair, price);
+      updates.set(pair, price);
+    }
+
+    return updates;
+  }
+
+  private sendJoin(subscription: Subscription): void {
+    const payload: Record<string, string> = { channelName: subscription.channelName };
+
+    if (subscription.isPrivate) {
+      const body = JSON.stringify({ channel: subscription.channelName });
+      payload.authSignature = crypto.createHmac('sha256', this.apiSecret).update(body).digest('hex');
+      payload.apiKey = this.apiKey;
+    }
+
+    this.send(`42${JSON.stringify(['join', payload])}`);
+    console.log(`📡 CoinDCX stream: joined ${subscription.channelName}`);
+  }
+
+  private send(packet: string): void {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(packet);
+    }
+  }
+
+  private startHeartbeat(): void {
+    this.clearHeartbeat();
+
+    this.pingTimer = setInterval(() => {
+      this.send('2');
+
+      // Treat a missing pong as a dead connection
+      if (!this.pongTimeout) {
+        this.pongTimeout = setTimeout(() => {
+          console.warn('⚠️ CoinDCX stream heartbeat timed out - reconnecting');
+          this.socket?.terminate();
+        }, this.pingTimeoutMs);
+      }
+    }, this.pingIntervalMs);
+  }
+
+  private clearHeartbeat(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    if (this.pongTimeout) {
+      clearTimeout(this.pongTimeout);
+      this.pongTimeout = null;
+    }
+  }
+
+  private handleClose(): void {
+    this.clearHeartbeat();
+    this.socket = null;
+
+    if (this.connected) {
+      this.connected = false;
+      this.emit('disconnected');
+    }
+
+    if (!this.shouldReconnect) return;
+
+    // Exponential backoff capped at 60 seconds
+    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 60000);
+    this.reconnectAttempts++;
+    console.log(`🔄 CoinDCX stream reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket();
+    }, delay);
+  }
+}
+
+export const coindcxSocket = new CoinDCXSocketClient();
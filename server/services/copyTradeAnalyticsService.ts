@@ -0,0 +1,165 @@
+import { storage } from '../storage';
+import { getExchangeAdapter } from './exchangeAdapter';
+import type {
+  CopyTradeExecutionRow,
+  CopyTradeExecutionStats,
+  CopyTradeExecutionReport,
+  CopyTradeRejectionCategory,
+} from '@shared/schema';
+
+// First match wins - credentials and rate limits before the generic price/quantity wording
+const REJECTION_PATTERNS: { category: CopyTradeRejectionCategory; pattern: RegExp }[] = [
+  { category: 'credentials', pattern: /credential|api key|forbidden|unauthori[sz]ed|decrypt/i },
+  { category: 'rate_limit', pattern: /rate limit|too many requests|429/i },
+  { category: 'insufficient_funds', pattern: /insufficient (fund|balance)|low fund|wallet balance/i },
+  { category: 'position_sizing', pattern: /position sizing|metadata unavailable|insufficient margin/i },
+  { category: 'leverage', pattern: /leverage/i },
+  { category: 'quantity', pattern: /quantity|notional|step size|min(imum)? qty/i },
+  { category: 'price', pattern: /price|tick/i },
+  { category: 'network', pattern: /timeout|timed out|network|connection|econn|enotfound|dns/i },
+  { category: 'exchange_error', pattern: /server error|maintenance|rejected|bad request|http \d{3}/i },
+];
+
+interface ExecutionSample {
+  rejected: boolean;
+  slippagePercent: number | null;
+  slippageTicks: number | null;
+  orderLatencyMs: number | null;
+  fillLatencyMs: number | null;
+  riskRatio: number | null;
+}
+
+const average = (values: (number | null)[]): number | null => {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+};
+
+/**
+ * Execution quality of follower copies - how far and how late they filled vs the master entry,
+ * why orders were rejected and how the sized position compares with the risk the follower asked for
+ */
+export class CopyTradeAnalyticsService {
+  classifyRejection(message: string | null): CopyTradeRejectionCategory {
+    if (!message) return 'other';
+    return REJECTION_PATTERNS.find(({ pattern }) => pattern.test(message))?.category || 'other';
+  }
+
+  async getExecutionReport(options: { days?: number; userId?: string } = {}): Promise<CopyTradeExecutionReport> {
+    const since = new Date(Date.now() - (options.days || 30) * 24 * 60 * 60 * 1000);
+    const rows = await storage.getCopyTradeExecutionRows(since, options.userId);
+    const tickSizes = await this.loadTickSizes(rows);
+    const samples = rows.map(row => ({ row, sample: this.measure(row, tickSizes.get(`${row.exchange}:${row.pair}`)) }));
+
+    const groupBy = (keyOf: (row: CopyTradeExecutionRow) => string, labelOf: (row: CopyTradeExecutionRow) => string) => {
+      const groups = new Map<string, { label: string; samples: ExecutionSample[] }>();
+      for (const { row, sample } of samples) {
+        const key = keyOf(row);
+        const group = groups.get(key) || { label: labelOf(row), samples: [] };
+        group.samples.push(sample);
+        groups.set(key, group);
+      }
+      return Array.from(groups.entries())
+        .map(([key, group]) => this.summarize(key, group.label, group.samples))
+        .sort((a, b) => b.attempts - a.attempts);
+    };
+
+    const rejections = new Map<string, CopyTradeExecutionReport['rejections'][number]>();
+    for (const row of rows) {
+      if (row.status !== 'failed') continue;
+      const category = this.classifyRejection(row.errorMessage);
+      const key = `${row.exchange}:${category}`;
+      const entry = rejections.get(key) || { exchange: row.exchange, category, count: 0, example: row.errorMessage || '' };
+      entry.count++;
+      rejections.set(key, entry);
+    }
+
+    return {
+      since: since.toISOString(),
+      overall: this.summarize('all', 'All followers', samples.map(({ sample }) => sample)),
+      byFollower: groupBy(row => row.copyUserId, row => row.userName),
+      byPair: groupBy(row => row.pair, row => row.pair),
+      // Alert-created trades group by their signal source, the rest by how they were registered
+      bySource: groupBy(row => row.signalSourceId || row.source, row => row.signalSourceName || row.source),
+      rejections: Array.from(rejections.values()).sort((a, b) => b.count - a.count),
+    };
+  }
+
+  /**
+   * Tick size per venue/pair for slippage in ticks - pairs whose rules can't be loaded just have no tick figure
+   */
+  private async loadTickSizes(rows: CopyTradeExecutionRow[]): Promise<Map<string, number>> {
+    const tickSizes = new Map<string, number>();
+    const keys = new Set(rows.filter(row => row.status === 'executed').map(row => `${row.exchange}:${row.pair}`));
+
+    for (const key of Array.from(keys)) {
+      const [exchange, pair] = key.split(/:(.+)/);
+      try {
+        const meta = await getExchangeAdapter(exchange).getInstrumentMeta(pair);
+        if (meta.tickSize && meta.tickSize > 0) {
+          tickSizes.set(key, meta.tickSize);
+        }
+      } catch (error) {
+        console.warn(`⚠️ No tick size for ${key}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return tickSizes;
+  }
+
+  private measure(row: CopyTradeExecutionRow, tickSize?: number): ExecutionSample {
+    const masterCreated = row.masterCreatedAt ? new Date(row.masterCreatedAt).getTime() : null;
+    const sample: ExecutionSample = {
+      rejected: row.status === 'failed',
+      slippagePercent: null,
+      slippageTicks: null,
+      orderLatencyMs: masterCreated && row.executionTime ? new Date(row.executionTime).getTime() - masterCreated : null,
+      // filledAt is only the first reconcile pass until fills are reconciled - latency waits for the exact time
+      fillLatencyMs: masterCreated && row.filledAt && row.pnlSource === 'exchange' ? new Date(row.filledAt).getTime() - masterCreated : null,
+      riskRatio: null,
+    };
+
+    // Slippage only once the exchange confirmed the fill - before that executedPrice is just the order price
+    const confirmed = !!row.filledAt || row.orderStatus === 'filled' || row.orderStatus === 'partially_filled';
+    const masterEntry = Number(row.originalPrice);
+    const fillPrice = row.executedPrice ? Number(row.executedPrice) : null;
+
+    if (row.status === 'executed' && confirmed && fillPrice && masterEntry > 0) {
+      const direction = row.type.toLowerCase() === 'sell' ? -1 : 1;
+      const adverseMove = (fillPrice - masterEntry) * direction;
+      sample.slippagePercent = (adverseMove / masterEntry) * 100;
+      sample.slippageTicks = tickSize ? adverseMove / tickSize : null;
+    }
+
+    // Risk actually taken at the stop vs tradeFund x riskPerTrade the follower configured - the stop sent with the
+    // order, since breakeven and SL moves later overwrite the copy's stopLossPrice
+    const intendedRisk = Number(row.tradeFund) * (Number(row.riskPerTrade) / 100);
+    const entryStop = Number((row.orderParameters as { stop_loss_price?: number } | null)?.stop_loss_price) || null;
+    if (row.status === 'executed' && fillPrice && row.executedQuantity && entryStop && intendedRisk > 0) {
+      const actualRisk = Number(row.executedQuantity) * Math.abs(fillPrice - entryStop);
+      sample.riskRatio = (actualRisk / intendedRisk) * 100;
+    }
+
+    return sample;
+  }
+
+  private summarize(key: string, label: string, samples: ExecutionSample[]): CopyTradeExecutionStats {
+    const rejected = samples.filter(sample => sample.rejected).length;
+    const slippages = samples.map(sample => sample.slippagePercent).filter((value): value is number => value !== null);
+
+    return {
+      key,
+      label,
+      attempts: samples.length,
+      filled: slippages.length,
+      rejected,
+      rejectionRate: samples.length > 0 ? (rejected / samples.length) * 100 : 0,
+      avgSlippagePercent: average(slippages),
+      avgSlippageTicks: average(samples.map(sample => sample.slippageTicks)),
+      worstSlippagePercent: slippages.length > 0 ? Math.max(...slippages) : null,
+      avgOrderLatencyMs: average(samples.map(sample => sample.orderLatencyMs)),
+      avgFillLatencyMs: average(samples.map(sample => sample.fillLatencyMs)),
+      avgRiskRatio: average(samples.map(sample => sample.riskRatio)),
+    };
+  }
+}
+
+export const copyTradeAnalyticsService = new CopyTradeAnalyticsService();
@@ -0,0 +1,92 @@
+import { storage } from '../storage';
+import { positionSizingService, type PositionSizeResult } from './positionSizing';
+import { isSupportedExchange } from './exchangeAdapter';
+import { getKolkataPeriodStarts } from '../utils/tradingDay';
+import { checkActivityLimits, checkExposureLimits, needsExposure, type CopyRiskLimits } from '../utils/copyRiskLimits';
+import type { Trade, CopyTradingUser, CopyTradeSkipReason } from '@shared/schema';
+
+export type RiskCheckResult =
+  | { allowed: true; notional: number; leverage: number }
+  | { allowed: false; reason: CopyTradeSkipReason; message: string };
+
+/**
+ * Per-follower pre-trade guardrails - run before a copy trade is created for the follower
+ */
+export class CopyTradeRiskService {
+  /**
+   * Estimate the copy's notional and leverage the same way execution sizes it
+   */
+  private async estimateExposure(trade: Trade, user: CopyTradingUser): Promise<{ notional: number; leverage: number } | null> {
+    const entry = parseFloat(trade.price);
+    const tradeFund = parseFloat(user.tradeFund);
+
+    if (trade.stopLossTrigger) {
+      const sizing = await positionSizingService.sizePosition({
+        entry,
+        stopLoss: parseFloat(trade.stopLossTrigger),
+        fund: tradeFund,
+        riskPct: parseFloat(user.riskPerTrade),
+        pair: trade.pair,
+        exchange: isSupportedExchange(user.exchange) ? user.exchange : undefined,
+      });
+
+      // Sizing failures are reported by execution with the full reason - don't block on them here
+      if ('success' in sizing && !sizing.success) {
+        return null;
+      }
+      const { notional, leverage } = sizing as PositionSizeResult;
+      return { notional, leverage };
+    }
+
+    // No stop loss - execution falls back to the master leverage on the whole trade fund
+    return { notional: tradeFund * trade.leverage, leverage: trade.leverage };
+  }
+
+  /**
+   * Check every configured limit for this follower; the first breach wins
+   */
+  async evaluate(trade: Trade, user: CopyTradingUser): Promise<RiskCheckResult> {
+    if (user.lowFund) {
+      return {
+        allowed: false,
+        reason: 'low_fund',
+        message: `Futures wallet balance ${user.futuresWalletBalance} USDT is below the trade fund of ${user.tradeFund} USDT`,
+      };
+    }
+
+    const { dayStart, weekStart } = getKolkataPeriodStarts();
+    const snapshot = await storage.getCopyTradeRiskSnapshot(user.id, dayStart, weekStart);
+    const limits = this.limitsFor(user);
+
+    const activityBreach = checkActivityLimits(limits, snapshot);
+    if (activityBreach) {
+      return { allowed: false, ...activityBreach };
+    }
+
+    const exposure = needsExposure(limits) ? await this.estimateExposure(trade, user) : null;
+    if (!exposure) {
+      return { allowed: true, notional: 0, leverage: trade.leverage };
+    }
+
+    const exposureBreach = checkExposureLimits(limits, snapshot, trade.pair, exposure);
+    if (exposureBreach) {
+      return { allowed: false, ...exposureBreach };
+    }
+
+    return { allowed: true, ...exposure };
+  }
+
+  private limitsFor(user: CopyTradingUser): CopyRiskLimits {
+    return {
+      maxTradesPerDay: user.maxTradesPerDay,
+      maxOpenPositions: user.maxOpenPositions,
+      dailyLossLimit: user.dailyLossLimit ? parseFloat(user.dailyLossLimit) : null,
+      weeklyLossLimit: user.weeklyLossLimit ? parseFloat(user.weeklyLossLimit) : null,
+      maxPairNotional: user.maxPairNotional ? parseFloat(user.maxPairNotional) : null,
+      maxTotalNotional: user.maxTotalNotional ? parseFloat(user.maxTotalNotional) : null,
+      maxLeverage: user.maxLeverage,
+    };
+  }
+}
+
+export const copyTradeRiskService = new CopyTradeRiskService();
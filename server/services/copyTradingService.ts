@@ -1,11 +1,53 @@
 import { DatabaseStorage } from '../storage';
 import { CoinDCXService } from './coindcx';
-import { decrypt, safeDecrypt } from '../utils/encryption';
-import type { Trade, CopyTrade, CopyTradingUser } from '@shared/schema';
+import { decrypt } from '../utils/encryption';
+import { normalizeTargetStatus, type Trade, type CopyTrade, type CopyTradingUser, type CopyTradePartialClose, type CopyTradeSkipReason } from '@shared/schema';
 import { positionSizingService } from './positionSizing';
+import { getExchangeAdapter, type ExchangeAdapter, type ExchangeCredentials } from './exchangeAdapter';
+import { getFollowerExchange, getPaperExchange, isPaperOrderId } from './paperExchange';
+import { webhookService } from './webhookService';
+import { jobQueue } from './jobQueue';
+import { copyTradeRiskService } from './copyTradeRiskService';
+import { matchesSourceFilter, matchesSignalTypeFilter } from '../utils/copyFilters';
 
 const storage = new DatabaseStorage();
 
+/**
+ * A change on the master trade that has to be mirrored onto followers' open positions
+ */
+export type MasterTradeChange =
+  | { kind: 'protection'; stopLoss?: number; takeProfit?: number } // SL/TP edited on the master
+  | { kind: 'breakeven' } // Safebook - stop loss to each follower's entry
+  | { kind: 'partial_close'; target: CopyTradePartialClose['target'] }; // T1/T2 hit
+
+export interface CopyTradeSyncResult {
+  copyTradeId: string;
+  trade: string | null; // Follower exchange order id
+  user: string;
+  status: 'success' | 'failed' | 'skipped';
+  message: string;
+}
+
+export interface CopyTradeSyncSummary {
+  action: MasterTradeChange['kind'];
+  totalCopyTrades: number;
+  applied: number;
+  failed: number;
+  skipped: number;
+  results: CopyTradeSyncResult[];
+}
+
+// Share of the still-open follower quantity closed at each target - leaves a third of the position for T3
+const PARTIAL_CLOSE_FRACTIONS: Record<CopyTradePartialClose['target'], number> = {
+  target_1: 1 / 3,
+  target_2: 1 / 2,
+};
+
+/**
+ * Transient failure before the order went out - thrown to the job queue so it retries with backoff
+ */
+class RetryableCopyTradeError extends Error {}
+
 export class CopyTradingService {
   private coindcxService: CoinDCXService;
   private isDryRun: boolean;
@@ -16,14 +58,14 @@ export class CopyTradingService {
 
   constructor() {
     this.coindcxService = new CoinDCXService();
-    // Dry-run mode for safe testing (set COPY_TRADING_DRY_RUN=true to enable)
+    // Dry-run mode routes every follower to the paper exchange (set COPY_TRADING_DRY_RUN=true to enable)
     this.isDryRun = process.env.COPY_TRADING_DRY_RUN === 'true';
     this.maxRetries = parseInt(process.env.COPY_TRADING_MAX_RETRIES || '3');
     this.retryDelay = parseInt(process.env.COPY_TRADING_RETRY_DELAY || '1000'); // 1 second
     this.minApiInterval = parseInt(process.env.COPY_TRADING_API_INTERVAL || '2000'); // 2 seconds
     
     if (this.isDryRun) {
-      console.log('🧪 Copy Trading Service initialized in DRY-RUN mode - no real trades will be executed');
+      console.log('🧪 Copy Trading Service initialized in DRY-RUN mode - all copies go to the paper exchange');
     } else {
       console.log('🚀 Copy Trading Service initialized in LIVE mode - real trades will be executed');
     }
@@ -114,6 +156,18 @@ export class CopyTradingService {
     return true;
   }
 
+  /**
+   * Network, rate-limit and exchange-side failures worth another job attempt - unlike isRetryableError,
+   * our own validation errors (quantity, notional, missing data) are never transient
+   */
+  private isTransientError(error: any): boolean {
+    if (['ENOTFOUND', 'ECONNREFUSED', 'ECONNABORTED', 'ECONNRESET', 'ETIMEDOUT'].includes(error?.code)) {
+      return true;
+    }
+    const status = error?.response?.status;
+    return status === 429 || (status >= 500 && status < 600);
+  }
+
   /**
    * Process a new trade by creating copy trades for all active copy trading users
    */
@@ -121,6 +175,7 @@ export class CopyTradingService {
     success: boolean; 
     message: string; 
     copyTrades?: CopyTrade[];
+    skipped?: CopyTrade[];
     errors?: string[];
   }> {
     try {
@@ -133,18 +188,15 @@ export class CopyTradingService {
         console.log(`🔍 DEBUG: User ${user.name}, isActive: ${user.isActive} (type: ${typeof user.isActive})`);
       });
       
-      let activeCopyUsers = activeUsers.filter(user => user.isActive);
-      console.log(`🔍 DEBUG: Active users after isActive filter: ${activeCopyUsers.length}`);
+      // Followers can pause themselves from the portal without the admin deactivating them
+      let activeCopyUsers = activeUsers.filter(user => user.isActive && !user.copyingPaused);
+      console.log(`🔍 DEBUG: Active users after isActive/paused filter: ${activeCopyUsers.length}`);
       
       // Apply source filter - check if user wants to copy this trade source
       console.log(`🔍 DEBUG: Trade source: ${originalTrade.source}`);
       activeCopyUsers = activeCopyUsers.filter(user => {
         console.log(`🔍 DEBUG: User ${user.name} sourceFilter:`, user.sourceFilter);
-        if (!user.sourceFilter || !Array.isArray(user.sourceFilter) || user.sourceFilter.length === 0) {
-          console.log(`🔍 DEBUG: User ${user.name} has no source filter, including`);
-          return true; // No filter means copy all sources
-        }
-        const includes = user.sourceFilter.includes(originalTrade.source);
+        const includes = matchesSourceFilter(user.sourceFilter, originalTrade.source);
         console.log(`🔍 DEBUG: User ${user.name} source filter includes '${originalTrade.source}': ${includes}`);
         return includes;
       });
@@ -154,11 +206,7 @@ export class CopyTradingService {
       console.log(`🔍 DEBUG: Trade signalType: ${originalTrade.signalType}`);
       activeCopyUsers = activeCopyUsers.filter(user => {
         console.log(`🔍 DEBUG: User ${user.name} signalTypeFilter:`, user.signalTypeFilter);
-        if (!user.signalTypeFilter || !Array.isArray(user.signalTypeFilter) || user.signalTypeFilter.length === 0) {
-          console.log(`🔍 DEBUG: User ${user.name} has no signal type filter, including`);
-          return true; // No filter means copy all signal types
-        }
-        const includes = originalTrade.signalType && user.signalTypeFilter.map(s => s.toLowerCase()).includes(originalTrade.signalType.toLowerCase());
+        const includes = matchesSignalTypeFilter(user.signalTypeFilter, originalTrade.signalType);
         console.log(`🔍 DEBUG: User ${user.name} signal filter includes '${originalTrade.signalType}': ${includes}`);
         return includes;
       });
@@ -176,11 +224,20 @@ export class CopyTradingService {
       console.log(`👥 Found ${activeCopyUsers.length} active copy trading users`);
 
       const copyTrades: CopyTrade[] = [];
+      const skipped: CopyTrade[] = [];
       const errors: string[] = [];
 
-      // Create copy trades for each active user
+      // Create copy trades for each active user - guardrail breaches are recorded as skipped copies
       for (const user of activeCopyUsers) {
         try {
+          const riskCheck = await copyTradeRiskService.evaluate(originalTrade, user);
+          if (!riskCheck.allowed) {
+            const skippedTrade = await this.createCopyTradeForUser(originalTrade, user, { reason: riskCheck.reason, message: riskCheck.message });
+            skipped.push(skippedTrade);
+            console.log(`⏭️ Copy skipped for user: ${user.name} (${riskCheck.reason}) - ${riskCheck.message}`);
+            continue;
+          }
+
           const copyTrade = await this.createCopyTradeForUser(originalTrade, user);
           copyTrades.push(copyTrade);
           console.log(`✅ Copy trade created for user: ${user.name} (${copyTrade.id})`);
@@ -191,13 +248,14 @@ export class CopyTradingService {
         }
       }
 
-      // Execute copy trades asynchronously (fire and forget)
-      this.executeCopyTradesAsync(copyTrades);
+      // Queue execution - durable, so a restart doesn't leave copy trades stuck in pending
+      await this.executeCopyTradesAsync(copyTrades);
 
       return {
         success: true,
-        message: `Created ${copyTrades.length} copy trades for ${activeCopyUsers.length} users`,
+        message: `Created ${copyTrades.length} copy trades for ${activeCopyUsers.length} users${skipped.length > 0 ? ` (${skipped.length} skipped by risk guardrails)` : ''}`,
         copyTrades,
+        skipped,
         errors: errors.length > 0 ? errors : undefined
       };
 
@@ -211,9 +269,13 @@ export class CopyTradingService {
   }
 
   /**
-   * Create a copy trade record for a specific user
+   * Create a copy trade record for a specific user - pending, or already skipped when a guardrail blocked it
    */
-  private async createCopyTradeForUser(originalTrade: Trade, user: CopyTradingUser): Promise<CopyTrade> {
+  private async createCopyTradeForUser(
+    originalTrade: Trade,
+    user: CopyTradingUser,
+    skip?: { reason: CopyTradeSkipReason; message: string }
+  ): Promise<CopyTrade> {
     // Calculate quantity based on user's risk percentage
     const adjustedQuantity = this.calculateAdjustedQuantity(
       originalTrade.total,
@@ -225,6 +287,7 @@ export class CopyTradingService {
       copyUserId: user.id,
       executedTradeId: null,
       pair: originalTrade.pair,
+      exchange: user.exchange, // Follower's venue at copy time - exits route here even if the user switches later
       type: originalTrade.type,
       originalPrice: originalTrade.price,
       executedPrice: null,
@@ -233,9 +296,10 @@ export class CopyTradingService {
       stopLossPrice: originalTrade.stopLossTrigger || null, // Exact stop loss from original trade
       takeProfitPrice: originalTrade.takeProfitTrigger || null, // Exact take profit from original trade
       leverage: originalTrade.leverage.toString(),
-      status: 'pending',
+      status: skip ? 'skipped' : 'pending',
+      skipReason: skip?.reason ?? null,
       executionTime: null,
-      errorMessage: null,
+      errorMessage: skip?.message ?? null,
       pnl: null
     };
 
@@ -262,23 +326,49 @@ export class CopyTradingService {
   }
 
   /**
-   * Execute copy trades asynchronously
+   * Execute copy trades asynchronously through the job queue
    */
   private async executeCopyTradesAsync(copyTrades: CopyTrade[]) {
-    // Execute trades in parallel but don't await to avoid blocking the sync process
-    Promise.all(
-      copyTrades.map(copyTrade => this.executeCopyTrade(copyTrade))
-    ).then(() => {
-      console.log(`🏁 Finished executing ${copyTrades.length} copy trades`);
-    }).catch((error) => {
-      console.error('Error in copy trade execution batch:', error);
-    });
+    for (const copyTrade of copyTrades) {
+      try {
+        await jobQueue.enqueue('copy_trade.execute', { copyTradeId: copyTrade.id }, { uniqueKey: `copy_trade.execute:${copyTrade.id}` });
+      } catch (error) {
+        console.error(`❌ Failed to queue copy trade ${copyTrade.id}:`, error);
+      }
+    }
+    console.log(`📦 Queued ${copyTrades.length} copy trades for execution`);
+  }
+
+  /**
+   * Job handler - execute a queued copy trade if it is still pending
+   * The status check and the submission claim keep retries and re-runs after a restart from placing a second order
+   */
+  async executeQueuedCopyTrade(copyTradeId: string, canRetry: boolean = false): Promise<void> {
+    const copyTrade = await storage.getCopyTrade(copyTradeId);
+    if (!copyTrade) {
+      console.log(`⚠️ Queued copy trade ${copyTradeId} no longer exists, skipping`);
+      return;
+    }
+    if (copyTrade.status !== 'pending') {
+      console.log(`ℹ️ Queued copy trade ${copyTradeId} already ${copyTrade.status}, skipping`);
+      return;
+    }
+    if (copyTrade.orderSubmittedAt) {
+      // A previous run sent the order but never recorded the outcome - it may be live, so don't place another
+      const errorMsg = `Order submission was interrupted - check ${copyTrade.exchange} for an open ${copyTrade.pair} position before copying again`;
+      console.warn(`⚠️ Copy trade ${copyTradeId}: ${errorMsg}`);
+      await storage.updateCopyTradeStatus(copyTradeId, 'failed', errorMsg);
+      void webhookService.emitCopyTradeOutcome(copyTradeId);
+      return;
+    }
+
+    await this.executeCopyTrade(copyTrade, canRetry);
   }
 
   /**
    * Execute a single copy trade
    */
-  private async executeCopyTrade(copyTrade: CopyTrade): Promise<void> {
+  private async executeCopyTrade(copyTrade: CopyTrade, canRetry: boolean = false): Promise<void> {
     try {
       console.log(`🚀 Executing copy trade: ${copyTrade.id} for pair ${copyTrade.pair}`);
 
@@ -298,11 +388,11 @@ export class CopyTradingService {
         return;
       }
 
-      // Decrypt API credentials
-      const apiKey = safeDecrypt(user.apiKey);
-      const apiSecret = safeDecrypt(user.apiSecret);
+      // Paper followers - or every follower in dry-run mode - trade on the simulated exchange
+      const paper = this.isDryRun || !!user.paperTrading;
+      const venue = getFollowerExchange(user, { exchange: copyTrade.exchange, paper });
 
-      if (!apiKey || !apiSecret) {
+      if (!venue) {
         throw new Error('Failed to decrypt user API credentials');
       }
 
@@ -325,9 +415,15 @@ export class CopyTradingService {
       // 5. Update copy trade with execution details
 
       // Execute real trade using trade fund and mathematical formulas
-      await this.executeRealTrade(copyTrade, user, apiKey, apiSecret);
+      await this.executeRealTrade(copyTrade, user, venue.adapter, venue.credentials, paper, canRetry);
 
     } catch (error) {
+      if (error instanceof RetryableCopyTradeError) {
+        // Still pending and never submitted - the queue runs it again after its backoff
+        console.warn(`⏳ Copy trade ${copyTrade.id} hit a transient error before submission, leaving it to the job queue: ${error.message}`);
+        throw error;
+      }
+
       console.error(`❌ Failed to execute copy trade ${copyTrade.id}:`, error);
       
       // Update copy trade with error status
@@ -336,67 +432,30 @@ export class CopyTradingService {
         'failed',
         `Execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
+    } finally {
+      // Push the final executed/failed state to outbound webhooks
+      void webhookService.emitCopyTradeOutcome(copyTrade.id);
     }
   }
 
   /**
-   * Simulate trade execution (placeholder for actual trade execution logic)
-   */
-  private async simulateTradeExecution(copyTrade: CopyTrade): Promise<void> {
-    // Simulate execution delay
-    await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000));
-
-    // Simulate execution with 90% success rate
-    const isSuccessful = Math.random() > 0.1;
-
-    if (isSuccessful) {
-      // Simulate successful execution
-      const executionPrice = this.simulateExecutionPrice(copyTrade.originalPrice);
-      
-      await storage.updateCopyTradeStatus(
-        copyTrade.id,
-        'executed',
-        undefined
-      );
-
-      console.log(`✅ Copy trade ${copyTrade.id} executed successfully at ${executionPrice}`);
-    } else {
-      // Simulate execution failure
-      const failureReasons = [
-        'Insufficient balance',
-        'Market volatility too high',
-        'Order rejected by exchange',
-        'API rate limit exceeded',
-        'Network timeout'
-      ];
-      
-      const randomReason = failureReasons[Math.floor(Math.random() * failureReasons.length)];
-      
-      await storage.updateCopyTradeStatus(
-        copyTrade.id,
-        'failed',
-        `Simulated failure: ${randomReason}`
-      );
-
-      console.log(`❌ Copy trade ${copyTrade.id} failed: ${randomReason}`);
-    }
-  }
-
-  /**
-   * Execute real trade on CoinDCX exchange using user's trade fund and API credentials
-   * Includes dry-run mode, rate limiting, and retry mechanisms
+   * Execute trade on the follower's exchange (or paper account) using user's trade fund
+   * Includes rate limiting and retry mechanisms
    */
   private async executeRealTrade(
     copyTrade: CopyTrade, 
     user: any, 
-    apiKey: string, 
-    apiSecret: string
+    exchange: ExchangeAdapter,
+    credentials: ExchangeCredentials,
+    paper: boolean,
+    canRetry: boolean
   ): Promise<void> {
     let orderData: any = null; // Declare here so it's accessible in catch block
+    let submitted = false; // Past the submission claim - from here on a retry could place a second order
     
     try {
       const tradeContext = `${copyTrade.pair} ${copyTrade.type} for user ${user.name}`;
-      console.log(`🚀 Executing ${this.isDryRun ? 'DRY-RUN' : 'REAL'} trade: ${tradeContext}`);
+      console.log(`🚀 Executing ${paper ? 'PAPER' : 'REAL'} trade: ${tradeContext}`);
       
       // Get original trade data for calculations
       const originalTrade = await storage.getTrade(copyTrade.originalTradeId);
@@ -405,7 +464,7 @@ export class CopyTradingService {
       }
       
       // Fetch market metadata for proper sizing and rounding
-      const metadata = await this.coindcxService.getFuturesInstrumentMeta(copyTrade.pair);
+      const metadata = await exchange.getInstrumentMeta(copyTrade.pair);
       console.log(`📋 Market metadata for ${copyTrade.pair}:`, {
         minQty: metadata.minQty,
         stepSize: metadata.stepSize,
@@ -453,7 +512,7 @@ export class CopyTradingService {
         }
       }
       
-      console.log(`🚀 Executing ${this.isDryRun ? 'DRY-RUN' : 'REAL'} trade: ${copyTrade.pair} ${copyTrade.type} for ${user.name}`);
+      console.log(`🚀 Executing ${paper ? 'PAPER' : 'REAL'} trade: ${copyTrade.pair} ${copyTrade.type} for ${user.name}`);
       
       // NEW APPROACH: Use Position Sizing Service for exchange compliance
       let calculatedQuantity = 0;
@@ -466,7 +525,9 @@ export class CopyTradingService {
           stopLoss: stopLossPrice,
           fund: tradeFund,
           riskPct: user.riskPerTrade,
-          pair: copyTrade.pair
+          pair: copyTrade.pair,
+          exchange: exchange.id,
+          meta: metadata // Already fetched from the venue (or its paper twin)
         });
         
         // Check if position sizing failed
@@ -522,7 +583,7 @@ export class CopyTradingService {
         throw new Error(`Order validation failed: ${validation.message}`);
       }
       
-      // Prepare order data for CoinDCX API
+      // Prepare order data in canonical form - the adapter translates the pair
       const orderData = {
         side: copyTrade.type.toLowerCase() as 'buy' | 'sell',
         pair: copyTrade.pair,
@@ -533,7 +594,7 @@ export class CopyTradingService {
         ...(takeProfitPrice && { take_profit_price: takeProfitPrice })
       };
       
-      console.log(`\n📤 FINAL ORDER DATA TO COINDCX API:`);
+      console.log(`\n📤 FINAL ORDER DATA TO ${exchange.displayName.toUpperCase()} API:`);
       console.log(`   - Side: ${orderData.side.toUpperCase()}`);
       console.log(`   - Pair: ${orderData.pair}`);
       console.log(`   - Price: ${orderData.price} USDT`);
@@ -547,22 +608,13 @@ export class CopyTradingService {
       }
       console.log(`========================================\n`);
       
-      // Handle dry-run vs real execution
-      if (this.isDryRun) {
-        console.log(`🧪 DRY-RUN: Would place order:`, orderData);
-        
-        // Simulate execution for dry-run
-        await this.simulateDryRunExecution(copyTrade, calculatedQuantity, calculatedLeverage, entryPrice);
-        return;
-      }
+      console.log(`📤 Placing ${paper ? 'PAPER' : 'REAL'} order on ${exchange.displayName}:`, orderData);
       
-      console.log(`📤 Placing REAL order on CoinDCX:`, orderData);
-      
-      // Pre-order balance verification to catch insufficient funds early
+      // Pre-order balance verification to catch insufficient funds early (the paper exchange checks its own margin)
       const requiredMargin = (calculatedQuantity * entryPrice) / calculatedLeverage; // Basic margin calculation
       console.log(`💰 Pre-order check: Required margin ≈ ${requiredMargin.toFixed(2)} USDT, Wallet balance: ${user.walletBalance} USDT`);
       
-      if (user.walletBalance < requiredMargin * 1.1) { // 10% buffer for fees
+      if (!paper && user.walletBalance < requiredMargin * 1.1) { // 10% buffer for fees
         const insufficientMsg = `💰 Insufficient Funds: Required margin ≈ ${requiredMargin.toFixed(2)} USDT (+ fees), but wallet balance is only ${user.walletBalance} USDT. Please add more funds to your futures wallet.`;
         console.log(`⚠️ ${insufficientMsg}`);
         
@@ -572,18 +624,23 @@ export class CopyTradingService {
       }
       
       // Apply rate limiting for this user
-      await this.waitForRateLimit(user.id);
+      if (!paper) {
+        await this.waitForRateLimit(user.id);
+      }
+
+      // Record the submission before the order goes out so a re-run after a crash can't send it twice
+      if (!(await storage.claimCopyTradeSubmission(copyTrade.id, orderData))) {
+        console.log(`ℹ️ Copy trade ${copyTrade.id} was already submitted by another run, skipping`);
+        return;
+      }
+      submitted = true;
       
       // Execute the trade with retry mechanism
       const orderResult = await this.retryWithBackoff(
         async () => {
-          return await this.coindcxService.createFuturesOrder(
-            apiKey,
-            apiSecret,
-            orderData
-          );
+          return await exchange.placeFuturesOrder(credentials, orderData);
         },
-        `CoinDCX order creation for ${tradeContext}`
+        `${exchange.displayName} order creation for ${tradeContext}`
       );
       
       if (orderResult.success && orderResult.orderId && orderResult.orderId !== 'unknown') {
@@ -613,6 +670,10 @@ export class CopyTradingService {
       }
       
     } catch (error) {
+      if (canRetry && !submitted && this.isTransientError(error)) {
+        throw new RetryableCopyTradeError(this.classifyError(error));
+      }
+
       console.error(`❌ Trade execution failed for ${copyTrade.id}:`, error);
       
       // Classify error for better handling
@@ -630,46 +691,6 @@ export class CopyTradingService {
     }
   }
 
-  /**
-   * Simulate dry-run execution for testing purposes
-   */
-  private async simulateDryRunExecution(
-    copyTrade: CopyTrade,
-    quantity: number,
-    leverage: number,
-    price: number
-  ): Promise<void> {
-    // Simulate processing delay
-    await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 1000));
-    
-    // Simulate 95% success rate for dry-run
-    const isSuccessful = Math.random() > 0.05;
-    
-    if (isSuccessful) {
-      const mockOrderId = `DRY_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      await storage.updateCopyTradeExecution(copyTrade.id, {
-        executedTradeId: mockOrderId,
-        executedPrice: price,
-        executedQuantity: quantity,
-        leverage: leverage
-      });
-      
-      console.log(`🧪 DRY-RUN: Copy trade ${copyTrade.id} simulated successfully! Mock Order ID: ${mockOrderId}`);
-    } else {
-      const mockFailureReasons = [
-        'Simulated network timeout',
-        'Simulated rate limit',
-        'Simulated insufficient balance',
-        'Simulated exchange maintenance'
-      ];
-      const randomReason = mockFailureReasons[Math.floor(Math.random() * mockFailureReasons.length)];
-      
-      await storage.updateCopyTradeStatus(copyTrade.id, 'failed', `DRY-RUN failure: ${randomReason}`);
-      console.log(`🧪 DRY-RUN: Copy trade ${copyTrade.id} simulated failure: ${randomReason}`);
-    }
-  }
-
   /**
    * Classify error for better user understanding with enhanced insufficient fund handling
    */
@@ -725,16 +746,473 @@ export class CopyTradingService {
   }
 
   /**
-   * Simulate execution price with slight variation
+   * Replace an estimated copy trade P&L with figures from the follower's actual exchange fills
+   */
+  async reconcileCopyTradePnl(copyTrade: CopyTrade): Promise<{ success: boolean; partial?: boolean; message: string }> {
+    try {
+      if (!copyTrade.executedTradeId || copyTrade.executedTradeId.startsWith('DRY_')) {
+        return { success: false, message: 'No exchange order to reconcile against' };
+      }
+
+      const user = await storage.getCopyTradingUser(copyTrade.copyUserId);
+      if (!user) {
+        return { success: false, message: 'Copy trading user not found' };
+      }
+
+      const venue = getFollowerExchange(user, { exchange: copyTrade.exchange, paper: isPaperOrderId(copyTrade.executedTradeId) });
+      if (!venue) {
+        return { success: false, message: 'Failed to decrypt user API credentials' };
+      }
+
+      await this.waitForRateLimit(user.id);
+      const since = copyTrade.executionTime || copyTrade.createdAt || undefined;
+      const history = await venue.adapter.getFills(venue.credentials, copyTrade.pair, since);
+      if (!history.success || !history.fills) {
+        return { success: false, message: history.message };
+      }
+
+      const entrySide = copyTrade.type.toLowerCase() === 'sell' ? 'sell' : 'buy';
+      const entryFills = history.fills.filter(fill => fill.orderId === copyTrade.executedTradeId);
+      if (entryFills.length === 0) {
+        return { success: false, message: 'Entry fills not found yet' };
+      }
+
+      const sumQty = (fills: typeof entryFills) => fills.reduce((sum, fill) => sum + fill.quantity, 0);
+      const vwap = (fills: typeof entryFills) => fills.reduce((sum, fill) => sum + fill.price * fill.quantity, 0) / sumQty(fills);
+
+      const entryQty = sumQty(entryFills);
+      const positionQty = Math.min(entryQty, Number(copyTrade.executedQuantity) || entryQty);
+      const firstEntry = Math.min(...entryFills.map(fill => fill.timestamp));
+
+      // Opposite-side fills close this position oldest first, only up to its own quantity - later fills on
+      // the pair belong to manual trades or the next position. A fill straddling the close counts pro rata.
+      const exitFills: typeof entryFills = [];
+      let remaining = positionQty;
+      const candidates = history.fills
+        .filter(fill => fill.side !== entrySide && fill.timestamp >= firstEntry && fill.quantity > 0)
+        .sort((a, b) => a.timestamp - b.timestamp);
+      for (const fill of candidates) {
+        if (remaining <= positionQty * 0.01) break;
+        const quantity = Math.min(fill.quantity, remaining);
+        exitFills.push({ ...fill, quantity, fee: fill.fee * (quantity / fill.quantity) });
+        remaining -= quantity;
+      }
+
+      if (exitFills.length === 0) {
+        return { success: false, message: 'Exit fills not found yet' };
+      }
+      if (remaining > positionQty * 0.01) {
+        return {
+          success: false,
+          partial: true,
+          message: `Position only partly closed on exchange (${positionQty - remaining} of ${positionQty})`,
+        };
+      }
+
+      const fees = [...entryFills, ...exitFills].reduce((sum, fill) => sum + fill.fee, 0);
+      const exitTime = new Date(Math.max(...exitFills.map(fill => fill.timestamp)));
+
+      await storage.updateCopyTradePnl(copyTrade.id, {
+        exitPrice: vwap(exitFills),
+        exitTime,
+        fees,
+        executedPrice: vwap(entryFills),
+        executedQuantity: positionQty,
+        filledAt: new Date(firstEntry),
+        pnlSource: 'exchange',
+      });
+
+      console.log(`✅ Reconciled P&L for copy trade ${copyTrade.id} against ${exitFills.length} exit fills`);
+      return { success: true, message: 'P&L reconciled against exchange fills' };
+    } catch (error) {
+      console.error(`❌ Failed to reconcile P&L for copy trade ${copyTrade.id}:`, error);
+      return { success: false, message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Reconcile every recently closed copy trade whose P&L is still estimated
+   */
+  async reconcileClosedCopyTradesPnl(): Promise<{ checked: number; reconciled: number }> {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000); // Last 24 hours
+    const pending = await storage.getCopyTradesPendingPnlReconciliation(since);
+    let reconciled = 0;
+
+    for (const copyTrade of pending) {
+      const result = await this.reconcileCopyTradePnl(copyTrade);
+      if (result.success) {
+        reconciled++;
+      }
+    }
+
+    if (pending.length > 0) {
+      console.log(`💹 Copy trade P&L reconciliation: ${reconciled}/${pending.length} reconciled`);
+    }
+
+    return { checked: pending.length, reconciled };
+  }
+
+  /**
+   * Classify how a follower position closed from its exit price vs the copy's SL/TP
+   */
+  private classifyCloseReason(copyTrade: CopyTrade, exitPrice: number | null): string | null {
+    if (!exitPrice) return null;
+
+    const isLong = copyTrade.type.toLowerCase() !== 'sell';
+    const stopLoss = copyTrade.stopLossPrice ? Number(copyTrade.stopLossPrice) : null;
+    const takeProfit = copyTrade.takeProfitPrice ? Number(copyTrade.takeProfitPrice) : null;
+    const near = (level: number) => Math.abs(exitPrice - level) / level <= 0.005;
+
+    if (stopLoss && (near(stopLoss) || (isLong ? exitPrice < stopLoss : exitPrice > stopLoss))) {
+      return 'stop_loss';
+    }
+    if (takeProfit && (near(takeProfit) || (isLong ? exitPrice > takeProfit : exitPrice < takeProfit))) {
+      return 'take_profit';
+    }
+    return 'manual';
+  }
+
+  /**
+   * Compare a follower trigger price with the master's - CoinDCX rounds SL/TP to 2 decimals on order placement
+   */
+  private triggerDiffers(copyTrade: CopyTrade, followerPrice: number, masterPrice: number): boolean {
+    const tolerance = Math.max(masterPrice * 0.005, copyTrade.exchange === 'coindcx' ? 0.005 : 0);
+    return Math.abs(followerPrice - masterPrice) > tolerance;
+  }
+
+  /**
+   * Read the follower's entry order and position from their own account and sync the copy trade:
+   * fill price/quantity, cancellation, closure (with exchange P&L) and drift vs the master trade
    */
-  private simulateExecutionPrice(originalPrice: string): string {
+  async reconcileCopyTradeLifecycle(copyTrade: CopyTrade): Promise<{ success: boolean; message: string; drift?: string[] }> {
     try {
-      const price = parseFloat(originalPrice);
-      // Add small random variation (±0.1%)
-      const variation = price * (Math.random() - 0.5) * 0.002;
-      return (price + variation).toString();
+      if (!copyTrade.executedTradeId || copyTrade.executedTradeId.startsWith('DRY_')) {
+        return { success: false, message: 'No exchange order to reconcile against' };
+      }
+
+      const user = await storage.getCopyTradingUser(copyTrade.copyUserId);
+      if (!user) {
+        return { success: false, message: 'Copy trading user not found' };
+      }
+
+      const venue = getFollowerExchange(user, { exchange: copyTrade.exchange, paper: isPaperOrderId(copyTrade.executedTradeId) });
+      if (!venue) {
+        return { success: false, message: 'Failed to decrypt user API credentials' };
+      }
+
+      const { adapter, credentials } = venue;
+      const master = await storage.getTrade(copyTrade.originalTradeId);
+      const masterClosed = master?.status === 'completed' || !!master?.exchangeExited;
+
+      await this.waitForRateLimit(user.id);
+      const orderResult = await adapter.getOrder(credentials, copyTrade.executedTradeId, copyTrade.pair);
+      if (!orderResult.success || !orderResult.order) {
+        await storage.updateCopyTradeLifecycle(copyTrade.id, {});
+        return { success: false, message: orderResult.message };
+      }
+
+      const order = orderResult.order;
+      const drift: string[] = [];
+      const fillUpdates = {
+        orderStatus: order.status,
+        ...(order.avgPrice ? { executedPrice: order.avgPrice } : {}),
+        ...(order.filledQuantity > 0 ? { executedQuantity: order.filledQuantity } : {}),
+        // First pass that sees the fill - refined to the exact fill time once P&L is reconciled
+        ...(order.status === 'filled' && !copyTrade.filledAt ? { filledAt: new Date() } : {}),
+      };
+
+      // Nothing filled yet - either still resting or gone for good
+      if (order.filledQuantity === 0) {
+        if (order.status === 'cancelled' || order.status === 'rejected') {
+          await storage.updateCopyTradeLifecycle(copyTrade.id, {
+            ...fillUpdates,
+            status: 'cancelled',
+            errorMessage: `Entry order ${order.status} on exchange before filling`,
+            positionStatus: null,
+            driftDetails: null,
+          });
+          console.log(`🚫 Copy trade ${copyTrade.id}: entry order ${order.status} without fills`);
+          return { success: true, message: `Entry order ${order.status}` };
+        }
+
+        if (masterClosed) {
+          drift.push('Master trade is closed but the follower entry order is still open');
+        }
+        await storage.updateCopyTradeLifecycle(copyTrade.id, {
+          ...fillUpdates,
+          positionStatus: null,
+          driftDetails: drift.length > 0 ? drift : null,
+        });
+        return { success: true, message: 'Entry order still open', drift };
+      }
+
+      await this.waitForRateLimit(user.id);
+      const positionResult = await adapter.getPosition(credentials, copyTrade.pair);
+      if (!positionResult.success) {
+        await storage.updateCopyTradeLifecycle(copyTrade.id, fillUpdates);
+        return { success: false, message: positionResult.message };
+      }
+
+      const position = positionResult.position;
+      if (!position) {
+        // Filled but flat - the follower position has closed (SL/TP fill or manual exit)
+        const pnlResult = await this.reconcileCopyTradePnl(copyTrade);
+        const refreshed = await storage.getCopyTrade(copyTrade.id);
+        const exitPrice = pnlResult.success && refreshed?.exitPrice ? Number(refreshed.exitPrice) : null;
+        const closeReason = this.classifyCloseReason(copyTrade, exitPrice);
+
+        if (master && !masterClosed) {
+          drift.push(`Follower position closed (${closeReason || 'unknown reason'}) while the master trade is still active`);
+        }
+
+        await storage.updateCopyTradeLifecycle(copyTrade.id, {
+          ...fillUpdates,
+          // Keep it open for the next pass until exit fills show up, so P&L gets reconciled
+          positionStatus: pnlResult.success ? 'closed' : 'open',
+          closeReason,
+          driftDetails: drift.length > 0 ? drift : null,
+        });
+        console.log(`🏁 Copy trade ${copyTrade.id}: follower position closed (${closeReason || 'exit fills pending'})`);
+        return { success: true, message: `Position closed${closeReason ? ` (${closeReason})` : ''}`, drift };
+      }
+
+      // Position open - check it still mirrors the master trade
+      const expectedSide = copyTrade.type.toLowerCase() === 'sell' ? 'sell' : 'buy';
+      if (position.side !== expectedSide) {
+        drift.push(`Follower position is ${position.side} but the copy trade is ${expectedSide}`);
+      }
+      const expectedQuantity = copyTrade.remainingQuantity ? Number(copyTrade.remainingQuantity) : order.filledQuantity;
+      if (Math.abs(position.quantity - expectedQuantity) > expectedQuantity * 0.01) {
+        drift.push(`Position size ${position.quantity} differs from expected open quantity ${expectedQuantity}`);
+      }
+      if (masterClosed) {
+        drift.push('Master trade is closed but the follower position is still open');
+      }
+
+      // After safebook the follower stop sits at their own entry rather than the master's stop loss
+      const masterStopLoss = master && normalizeTargetStatus(master.targetStatus).safebook
+        ? (copyTrade.stopLossPrice ? Number(copyTrade.stopLossPrice) : null)
+        : (master?.stopLossTrigger ? Number(master.stopLossTrigger) : null);
+      const masterTakeProfit = master?.takeProfitTrigger ? Number(master.takeProfitTrigger) : null;
+      if (masterStopLoss && !masterClosed) {
+        if (!position.stopLoss) {
+          drift.push(`Follower position has no stop loss (master: ${masterStopLoss})`);
+        } else if (this.triggerDiffers(copyTrade, position.stopLoss, masterStopLoss)) {
+          drift.push(`Stop loss ${position.stopLoss} differs from master ${masterStopLoss}`);
+        }
+      }
+      if (masterTakeProfit && position.takeProfit && !masterClosed && this.triggerDiffers(copyTrade, position.takeProfit, masterTakeProfit)) {
+        drift.push(`Take profit ${position.takeProfit} differs from master ${masterTakeProfit}`);
+      }
+
+      await storage.updateCopyTradeLifecycle(copyTrade.id, {
+        ...fillUpdates,
+        positionStatus: 'open',
+        driftDetails: drift.length > 0 ? drift : null,
+      });
+
+      if (drift.length > 0) {
+        console.warn(`⚠️ Copy trade ${copyTrade.id} drift for ${user.name}: ${drift.join('; ')}`);
+      }
+      return { success: true, message: drift.length > 0 ? 'Position open with drift' : 'Position open and in sync', drift };
+    } catch (error) {
+      console.error(`❌ Failed to reconcile lifecycle for copy trade ${copyTrade.id}:`, error);
+      return { success: false, message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Reconcile every recent executed copy trade whose follower position isn't known to be closed
+   */
+  async reconcileOpenCopyTrades(): Promise<{ checked: number; drifted: number; closed: number }> {
+    const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000); // Last 7 days
+    const candidates = await storage.getCopyTradesForLifecycleReconciliation(since);
+    let drifted = 0;
+    let closed = 0;
+
+    for (const copyTrade of candidates) {
+      const result = await this.reconcileCopyTradeLifecycle(copyTrade);
+      if (result.drift && result.drift.length > 0) drifted++;
+      if (result.message.startsWith('Position closed')) closed++;
+    }
+
+    if (candidates.length > 0) {
+      console.log(`🔎 Copy trade lifecycle reconciliation: ${candidates.length} checked, ${closed} closed, ${drifted} drifted`);
+    }
+
+    return { checked: candidates.length, drifted, closed };
+  }
+
+  /**
+   * Paper accounts live in memory, so a restart wipes the positions behind earlier paper copies -
+   * close those at the current mark price (entry orders never seen filling are cancelled) instead of leaving them open
+   */
+  async closeOrphanedPaperCopyTrades(): Promise<number> {
+    const processStartedAt = new Date(Date.now() - process.uptime() * 1000);
+    const orphans = await storage.getOpenPaperCopyTrades(processStartedAt);
+
+    for (const copyTrade of orphans) {
+      try {
+        if (copyTrade.orderStatus === 'open') {
+          await storage.updateCopyTradeLifecycle(copyTrade.id, {
+            status: 'cancelled',
+            errorMessage: 'Paper entry order was dropped when the server restarted',
+            positionStatus: null,
+            driftDetails: null,
+          });
+          continue;
+        }
+
+        const exitPrice = await getPaperExchange(copyTrade.exchange).getMarkPrice(copyTrade.pair);
+        if (exitPrice && !copyTrade.exitPrice) {
+          await storage.updateCopyTradePnl(copyTrade.id, { exitPrice, exitTime: new Date(), pnlSource: 'estimated' });
+        }
+        await storage.updateCopyTradeLifecycle(copyTrade.id, { positionStatus: 'closed', closeReason: 'paper_reset', driftDetails: null });
+      } catch (error) {
+        console.error(`❌ Failed to close orphaned paper copy trade ${copyTrade.id}:`, error);
+      }
+    }
+
+    if (orphans.length > 0) {
+      console.log(`🧻 Closed ${orphans.length} paper copy trades left open before the restart`);
+    }
+    return orphans.length;
+  }
+
+  /**
+   * Mirror a master trade change onto every executed copy trade still open on a follower account
+   */
+  async propagateMasterTradeChange(trade: Trade, change: MasterTradeChange): Promise<CopyTradeSyncSummary> {
+    const summary: CopyTradeSyncSummary = {
+      action: change.kind,
+      totalCopyTrades: 0,
+      applied: 0,
+      failed: 0,
+      skipped: 0,
+      results: [],
+    };
+
+    try {
+      const copyTrades = await storage.getCopyTradesByOriginalId(trade.id);
+      const openCopyTrades = copyTrades.filter(ct =>
+        ct.status === 'executed' && ct.executedTradeId && ct.positionStatus !== 'closed'
+      );
+      summary.totalCopyTrades = openCopyTrades.length;
+
+      if (openCopyTrades.length === 0) {
+        return summary;
+      }
+
+      console.log(`🔁 Propagating ${change.kind} on trade ${trade.tradeId} to ${openCopyTrades.length} copy trades`);
+
+      for (const copyTrade of openCopyTrades) {
+        const result = await this.applyMasterTradeChange(copyTrade, change);
+        summary.results.push(result);
+        if (result.status === 'success') summary.applied++;
+        else if (result.status === 'failed') summary.failed++;
+        else summary.skipped++;
+      }
+
+      console.log(`🏁 ${change.kind} propagated for ${trade.tradeId}: ${summary.applied} applied, ${summary.failed} failed, ${summary.skipped} skipped`);
+    } catch (error) {
+      console.error(`❌ Failed to propagate ${change.kind} for trade ${trade.id}:`, error);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Apply one master change to one follower position
+   */
+  private async applyMasterTradeChange(copyTrade: CopyTrade, change: MasterTradeChange): Promise<CopyTradeSyncResult> {
+    const result: CopyTradeSyncResult = {
+      copyTradeId: copyTrade.id,
+      trade: copyTrade.executedTradeId,
+      user: 'Unknown',
+      status: 'failed',
+      message: '',
+    };
+
+    try {
+      const user = await storage.getCopyTradingUser(copyTrade.copyUserId);
+      if (!user) {
+        return { ...result, message: 'Copy trading user not found' };
+      }
+      result.user = user.name;
+
+      const side = copyTrade.type.toLowerCase() === 'sell' ? 'sell' : 'buy';
+      const entryPrice = Number(copyTrade.executedPrice || copyTrade.originalPrice);
+      const openQuantity = Number(copyTrade.remainingQuantity ?? copyTrade.executedQuantity ?? 0);
+      const partialCloses = (copyTrade.partialCloses as CopyTradePartialClose[] | null) || [];
+      const isDryRun = copyTrade.executedTradeId!.startsWith('DRY_'); // Legacy simulated rows - nothing to call
+
+      const venue = isDryRun
+        ? null
+        : getFollowerExchange(user, { exchange: copyTrade.exchange, paper: isPaperOrderId(copyTrade.executedTradeId) });
+      if (!isDryRun && !venue) {
+        return { ...result, message: 'Failed to decrypt user API credentials' };
+      }
+
+      // Work out the exchange action and the state to record once it succeeds
+      let levels: { stopLoss?: number; takeProfit?: number } | null = null;
+      let reduceQuantity = 0;
+
+      if (change.kind === 'protection') {
+        levels = { stopLoss: change.stopLoss, takeProfit: change.takeProfit };
+      } else if (change.kind === 'breakeven') {
+        if (!entryPrice) {
+          return { ...result, status: 'skipped', message: 'No entry price to move the stop loss to' };
+        }
+        levels = { stopLoss: entryPrice };
+      } else {
+        if (partialCloses.some(close => close.target === change.target)) {
+          return { ...result, status: 'skipped', message: `Partial close for ${change.target} already sent` };
+        }
+
+        const meta = await (venue?.adapter || getExchangeAdapter(copyTrade.exchange)).getInstrumentMeta(copyTrade.pair);
+        reduceQuantity = positionSizingService.roundDownToStep(openQuantity * PARTIAL_CLOSE_FRACTIONS[change.target], meta.stepSize);
+        if (reduceQuantity < meta.minQty || reduceQuantity >= openQuantity) {
+          return { ...result, status: 'skipped', message: `Position of ${openQuantity} too small to close part of at ${change.target}` };
+        }
+      }
+
+      if (venue) {
+        const { adapter, credentials } = venue;
+        await this.waitForRateLimit(user.id);
+
+        const exchangeResult = levels
+          ? await adapter.updatePositionProtection(credentials, { pair: copyTrade.pair, side, ...levels })
+          : await adapter.reducePosition(credentials, { pair: copyTrade.pair, side, quantity: reduceQuantity });
+
+        if (!exchangeResult.success) {
+          console.error(`❌ ${change.kind} failed for ${user.name}: ${exchangeResult.message}`);
+          return { ...result, message: exchangeResult.message };
+        }
+      }
+
+      if (levels) {
+        await storage.updateCopyTradeMirroredState(copyTrade.id, {
+          stopLossPrice: levels.stopLoss,
+          takeProfitPrice: levels.takeProfit,
+        });
+      } else if (change.kind === 'partial_close') {
+        await storage.updateCopyTradeMirroredState(copyTrade.id, {
+          remainingQuantity: openQuantity - reduceQuantity,
+          partialCloses: [...partialCloses, { target: change.target, quantity: reduceQuantity, at: new Date().toISOString() }],
+        });
+      }
+
+      const message = change.kind === 'protection'
+        ? `Updated${levels?.stopLoss ? ` SL ${levels.stopLoss}` : ''}${levels?.takeProfit ? ` TP ${levels.takeProfit}` : ''}`
+        : change.kind === 'breakeven'
+          ? `Stop loss moved to breakeven ${entryPrice}`
+          : `Closed ${reduceQuantity} of ${openQuantity} at ${change.target}`;
+
+      console.log(`✅ ${user.name}: ${message}${isDryRun ? ' (dry run)' : ''}`);
+      return { ...result, status: 'success', message: isDryRun ? `${message} (dry run)` : message };
     } catch (error) {
-      return originalPrice;
+      console.error(`❌ Failed to apply ${change.kind} to copy trade ${copyTrade.id}:`, error);
+      return { ...result, message: error instanceof Error ? error.message : 'Unknown error' };
     }
   }
 
@@ -255,6 +255,57 @@ export async function sendApplicationConfirmationEmail(
   }
 }
 
+/**
+ * Send a dashboard invite - the link carries the one-time invite token
+ */
+export async function sendTeamInviteEmail(
+  email: string,
+  inviteData: {
+    role: string;
+    inviteUrl: string;
+    invitedBy: string;
+    expiresAt: Date;
+  }
+): Promise<boolean> {
+  try {
+    const mailOptions = {
+      from: `"${FROM_NAME}" <${FROM_EMAIL}>`,
+      to: email,
+      subject: '👋 You have been invited to the Campus For Wisdom dashboard',
+      html: `
+        <div style="max-width: 600px; margin: 0 auto; padding: 20px; font-family: Arial, sans-serif;">
+          <div style="text-align: center; margin-bottom: 30px;">
+            <h1 style="color: #2563eb; margin: 0;">Campus For Wisdom</h1>
+            <p style="color: #64748b; margin: 5px 0 0 0;">Admin Dashboard</p>
+          </div>
+
+          <div style="background: #f8fafc; padding: 30px; border-radius: 10px; text-align: center;">
+            <h2 style="color: #1e293b; margin-bottom: 20px;">Join the team</h2>
+            <p style="color: #475569; margin-bottom: 25px; line-height: 1.6;">
+              <strong>${inviteData.invitedBy}</strong> invited you to the dashboard with the <strong>${inviteData.role}</strong> role.
+            </p>
+            <a href="${inviteData.inviteUrl}" style="display: inline-block; background: #2563eb; color: white; padding: 12px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">
+              Create your account
+            </a>
+            <p style="color: #64748b; font-size: 14px; margin-top: 25px;">
+              This invite expires on ${inviteData.expiresAt.toUTCString()}. If you weren't expecting it, you can ignore this email.
+            </p>
+          </div>
+        </div>
+      `
+    };
+
+    const info = await transporter.sendMail(mailOptions);
+
+    console.log(`📧 Team invite email sent to ${email}, Message ID: ${info.messageId}`);
+    return true;
+
+  } catch (error) {
+    console.error('Team invite email sending error:', error);
+    return false;
+  }
+}
+
 /**
  * Test SMTP configuration
  */
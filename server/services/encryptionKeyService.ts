@@ -0,0 +1,105 @@
+import { storage } from '../storage';
+import { getActiveKeyId, getKeyId, getKeyIds, reencrypt, tryDecrypt } from '../utils/encryption';
+import {
+  encryptedTables,
+  type EncryptedValueIssue,
+  type EncryptionHealthReport,
+  type ReencryptionResult,
+} from '@shared/schema';
+
+/**
+ * Key rotation for everything stored through utils/encryption - health report and re-encryption onto the active key
+ */
+export class EncryptionKeyService {
+  /**
+   * Which key each stored value is on, and which values can no longer be opened with the configured keyring
+   */
+  async getHealthReport(): Promise<EncryptionHealthReport> {
+    const activeKeyId = getActiveKeyId();
+    const report: EncryptionHealthReport = {
+      checkedAt: new Date().toISOString(),
+      activeKeyId,
+      keyIds: getKeyIds(),
+      totalValues: 0,
+      valuesByKey: {},
+      staleValues: 0,
+      unreadable: [],
+      unencrypted: [],
+    };
+
+    for (const table of encryptedTables) {
+      const rows = await storage.getEncryptedValues(table);
+      for (const row of rows) {
+        for (const [field, value] of Object.entries(row.values)) {
+          if (!value) continue;
+          report.totalValues++;
+
+          const issue: Omit<EncryptedValueIssue, 'error'> = { table, recordId: row.id, label: row.label, field };
+          const keyId = getKeyId(value);
+          if (!keyId) {
+            report.unencrypted.push({ ...issue, error: 'Stored in plaintext' });
+            continue;
+          }
+
+          report.valuesByKey[keyId] = (report.valuesByKey[keyId] || 0) + 1;
+          const result = tryDecrypt(value);
+          if (!result.success) {
+            report.unreadable.push({ ...issue, error: result.error });
+          } else if (keyId !== activeKeyId) {
+            report.staleValues++;
+          }
+        }
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Move every stored value onto the active key (plaintext leftovers get encrypted too) - safe to re-run
+   */
+  async reencryptAll(): Promise<ReencryptionResult> {
+    const result: ReencryptionResult = {
+      activeKeyId: getActiveKeyId(),
+      checked: 0,
+      reencrypted: 0,
+      changedDuringRun: 0,
+      failed: [],
+    };
+
+    for (const table of encryptedTables) {
+      const rows = await storage.getEncryptedValues(table);
+      for (const row of rows) {
+        for (const [field, value] of Object.entries(row.values)) {
+          if (!value) continue;
+          result.checked++;
+
+          try {
+            const next = reencrypt(value);
+            if (next === value) continue;
+
+            const replaced = await storage.replaceEncryptedValue(table, row.id, field, value, next);
+            if (replaced) {
+              result.reencrypted++;
+            } else {
+              result.changedDuringRun++;
+            }
+          } catch (error) {
+            result.failed.push({
+              table,
+              recordId: row.id,
+              label: row.label,
+              field,
+              error: error instanceof Error ? error.message : 'Failed to re-encrypt',
+            });
+          }
+        }
+      }
+    }
+
+    console.log(`🔐 Re-encryption onto key ${result.activeKeyId}: ${result.reencrypted}/${result.checked} values rewritten, ${result.failed.length} failed`);
+    return result;
+  }
+}
+
+export const encryptionKeyService = new EncryptionKeyService();
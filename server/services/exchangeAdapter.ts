@@ -0,0 +1,297 @@
+import { CoinDCXService, coindcxService, type FuturesFill, type FuturesInstrumentMeta } from './coindcx';
+import { binanceFuturesService } from './binance';
+import { splitPair } from '../utils/symbols';
+import { supportedExchanges } from '@shared/schema';
+
+export type ExchangeId = typeof supportedExchanges[number];
+
+export interface ExchangeCredentials {
+  apiKey: string;
+  apiSecret: string;
+}
+
+/**
+ * Futures order in canonical form - pair uses our internal symbol (e.g. "SOL_USDT")
+ */
+export interface FuturesOrderRequest {
+  side: 'buy' | 'sell';
+  pair: string;
+  total_quantity: number;
+  leverage: number;
+  price: number;
+  stop_loss_price?: number;
+  take_profit_price?: number;
+}
+
+export interface ExchangeOrderResult {
+  success: boolean;
+  orderId?: string;
+  message: string;
+  data?: any;
+}
+
+export interface ExchangeExitRequest {
+  tradeId: string; // Exchange order/position reference stored on the trade
+  pair: string;
+  tradeType?: 'spot' | 'margin' | 'futures';
+}
+
+export interface ExchangeBalanceResult {
+  success: boolean;
+  usdtBalance?: number;
+  raw?: any; // Untouched exchange response for display/debugging
+  message: string;
+}
+
+export type FuturesOrderStatus = 'open' | 'partially_filled' | 'filled' | 'cancelled' | 'rejected';
+
+/**
+ * Follower entry order as reported by the exchange
+ */
+export interface FuturesOrderState {
+  orderId: string;
+  status: FuturesOrderStatus;
+  side: 'buy' | 'sell';
+  price: number;
+  avgPrice: number | null; // Null until something fills
+  quantity: number;
+  filledQuantity: number;
+}
+
+/**
+ * Follower's open position for a pair - quantity is always positive, direction is in side
+ */
+export interface FuturesPositionState {
+  pair: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  entryPrice: number;
+  markPrice?: number;
+  stopLoss?: number | null;
+  takeProfit?: number | null;
+}
+
+/**
+ * New protective levels for an open position - omitted levels are left as they are
+ */
+export interface PositionProtectionRequest {
+  pair: string;
+  side: 'buy' | 'sell'; // Position direction
+  stopLoss?: number;
+  takeProfit?: number;
+}
+
+/**
+ * Close part of an open position at market
+ */
+export interface PositionReduceRequest {
+  pair: string;
+  side: 'buy' | 'sell'; // Position direction - the reduce order goes the other way
+  quantity: number;
+}
+
+/**
+ * Common surface every copy-trading venue must implement
+ */
+export interface ExchangeAdapter {
+  readonly id: ExchangeId;
+  readonly displayName: string;
+
+  toExchangeSymbol(pair: string): string;
+  fromExchangeSymbol(symbol: string): string;
+
+  getInstrumentMeta(pair: string): Promise<FuturesInstrumentMeta>;
+  placeFuturesOrder(credentials: ExchangeCredentials, order: FuturesOrderRequest): Promise<ExchangeOrderResult>;
+  exitPosition(credentials: ExchangeCredentials, request: ExchangeExitRequest): Promise<{ success: boolean; message: string; data?: any }>;
+  getFuturesBalance(credentials: ExchangeCredentials): Promise<ExchangeBalanceResult>;
+  validateCredentials(credentials: ExchangeCredentials): Promise<{ valid: boolean; message: string }>;
+  getFills(credentials: ExchangeCredentials, pair: string, fromDate?: Date): Promise<{ success: boolean; fills?: FuturesFill[]; message: string }>;
+  getOrder(credentials: ExchangeCredentials, orderId: string, pair: string): Promise<{ success: boolean; order?: FuturesOrderState; message: string }>;
+  getPosition(credentials: ExchangeCredentials, pair: string): Promise<{ success: boolean; position?: FuturesPositionState | null; message: string }>;
+  updatePositionProtection(credentials: ExchangeCredentials, request: PositionProtectionRequest): Promise<{ success: boolean; message: string; data?: any }>;
+  reducePosition(credentials: ExchangeCredentials, request: PositionReduceRequest): Promise<ExchangeOrderResult>;
+}
+
+const positiveOrNull = (value: unknown): number | null => {
+  const number = parseFloat(String(value ?? ''));
+  return Number.isFinite(number) && number > 0 ? number : null;
+};
+
+/**
+ * CoinDCX futures - canonical pairs are already CoinDCX pairs without the B- prefix
+ */
+export class CoinDCXAdapter implements ExchangeAdapter {
+  readonly id = 'coindcx' as const;
+  readonly displayName = 'CoinDCX';
+
+  toExchangeSymbol(pair: string): string {
+    const { base, quote } = splitPair(pair);
+    return `B-${base}_${quote}`;
+  }
+
+  fromExchangeSymbol(symbol: string): string {
+    return symbol.replace(/^B-/, '');
+  }
+
+  getInstrumentMeta(pair: string): Promise<FuturesInstrumentMeta> {
+    return coindcxService.getFuturesInstrumentMeta(pair);
+  }
+
+  placeFuturesOrder(credentials: ExchangeCredentials, order: FuturesOrderRequest): Promise<ExchangeOrderResult> {
+    return coindcxService.createFuturesOrder(credentials.apiKey, credentials.apiSecret, {
+      ...order,
+      pair: this.fromExchangeSymbol(this.toExchangeSymbol(order.pair)),
+    });
+  }
+
+  exitPosition(credentials: ExchangeCredentials, request: ExchangeExitRequest) {
+    const userService = new CoinDCXService(credentials.apiKey, credentials.apiSecret);
+    return userService.exitTrade(request.tradeId, request.pair, request.tradeType || 'futures');
+  }
+
+  async getFuturesBalance(credentials: ExchangeCredentials): Promise<ExchangeBalanceResult> {
+    const result = await coindcxService.getFuturesWalletBalance(credentials.apiKey, credentials.apiSecret);
+    if (!result.success || !result.balance) {
+      return { success: false, message: result.message };
+    }
+
+    const wallets = Array.isArray(result.balance) ? result.balance : [];
+    const usdtWallet = wallets.find((wallet: any) => wallet.currency_short_name === 'USDT');
+
+    return {
+      success: true,
+      usdtBalance: usdtWallet ? parseFloat(usdtWallet.balance || '0') : 0,
+      raw: result.balance,
+      message: result.message,
+    };
+  }
+
+  validateCredentials(credentials: ExchangeCredentials) {
+    return coindcxService.validateCustomCredentials(credentials.apiKey, credentials.apiSecret);
+  }
+
+  getFills(credentials: ExchangeCredentials, pair: string, fromDate?: Date) {
+    return coindcxService.getFuturesTradeHistory(credentials.apiKey, credentials.apiSecret, pair, fromDate);
+  }
+
+  /**
+   * CoinDCX has no single-order lookup for futures - list recent orders and pick ours
+   */
+  async getOrder(credentials: ExchangeCredentials, orderId: string, pair: string): Promise<{ success: boolean; order?: FuturesOrderState; message: string }> {
+    const result = await coindcxService.getFuturesOrders(credentials.apiKey, credentials.apiSecret);
+    if (!result.success || !result.orders) {
+      return { success: false, message: result.message };
+    }
+
+    const row = result.orders.find(order => String(order.id) === orderId);
+    if (!row) {
+      return { success: false, message: `Order ${orderId} not found in recent ${pair} orders` };
+    }
+
+    const quantity = parseFloat(row.total_quantity || '0');
+    const remaining = parseFloat(row.remaining_quantity ?? row.total_quantity ?? '0');
+    const statusMap: Record<string, FuturesOrderStatus> = {
+      initial: 'open',
+      open: 'open',
+      untriggered: 'open',
+      partially_filled: 'partially_filled',
+      filled: 'filled',
+      cancelled: 'cancelled',
+      partially_cancelled: 'cancelled', // Filled part stays in filledQuantity
+      rejected: 'rejected',
+    };
+
+    return {
+      success: true,
+      order: {
+        orderId,
+        status: statusMap[row.status] || 'open',
+        side: row.side === 'sell' ? 'sell' : 'buy',
+        price: parseFloat(row.price || '0'),
+        avgPrice: positiveOrNull(row.avg_price),
+        quantity,
+        filledQuantity: Math.max(0, quantity - remaining),
+      },
+      message: `Order ${row.status}`,
+    };
+  }
+
+  async getPosition(credentials: ExchangeCredentials, pair: string): Promise<{ success: boolean; position?: FuturesPositionState | null; message: string }> {
+    const result = await coindcxService.getFuturesPositions(credentials.apiKey, credentials.apiSecret);
+    if (!result.success || !result.positions) {
+      return { success: false, message: result.message };
+    }
+
+    const symbol = this.toExchangeSymbol(pair);
+    const row = result.positions.find(position => position.pair === symbol && (position.active_pos || 0) !== 0);
+    if (!row) {
+      return { success: true, position: null, message: 'No open position' };
+    }
+
+    const activePos = row.active_pos || 0;
+    return {
+      success: true,
+      position: {
+        pair,
+        side: activePos > 0 ? 'buy' : 'sell',
+        quantity: Math.abs(activePos),
+        entryPrice: row.avg_price || 0,
+        markPrice: row.mark_price,
+        stopLoss: positiveOrNull(row.stop_loss_trigger),
+        takeProfit: positiveOrNull(row.take_profit_trigger),
+      },
+      message: 'Open position found',
+    };
+  }
+
+  /**
+   * CoinDCX sets TP/SL on the position itself, so look up the position id for the pair first
+   */
+  async updatePositionProtection(credentials: ExchangeCredentials, request: PositionProtectionRequest): Promise<{ success: boolean; message: string; data?: any }> {
+    const result = await coindcxService.getFuturesPositions(credentials.apiKey, credentials.apiSecret);
+    if (!result.success || !result.positions) {
+      return { success: false, message: result.message };
+    }
+
+    const symbol = this.toExchangeSymbol(request.pair);
+    const row = result.positions.find(position => position.pair === symbol && (position.active_pos || 0) !== 0);
+    if (!row) {
+      return { success: false, message: 'Position already closed or not found' };
+    }
+
+    return coindcxService.setPositionTpSl(credentials.apiKey, credentials.apiSecret, row.id, {
+      stopLoss: request.stopLoss,
+      takeProfit: request.takeProfit,
+    });
+  }
+
+  reducePosition(credentials: ExchangeCredentials, request: PositionReduceRequest): Promise<ExchangeOrderResult> {
+    return coindcxService.reduceFuturesPosition(credentials.apiKey, credentials.apiSecret, {
+      side: request.side === 'buy' ? 'sell' : 'buy',
+      pair: request.pair,
+      total_quantity: request.quantity,
+    });
+  }
+}
+
+export const coindcxAdapter = new CoinDCXAdapter();
+
+const adapters: Record<ExchangeId, ExchangeAdapter> = {
+  coindcx: coindcxAdapter,
+  binance: binanceFuturesService,
+};
+
+export function isSupportedExchange(exchange: string | null | undefined): exchange is ExchangeId {
+  return !!exchange && (supportedExchanges as readonly string[]).includes(exchange);
+}
+
+/**
+ * Resolve the adapter for a follower's venue (defaults to CoinDCX for legacy rows)
+ */
+export function getExchangeAdapter(exchange?: string | null): ExchangeAdapter {
+  const id = exchange || 'coindcx';
+  if (!isSupportedExchange(id)) {
+    throw new Error(`Unsupported exchange: ${id}`);
+  }
+  return adapters[id];
+}
@@ -0,0 +1,68 @@
+import { storage } from '../storage';
+import { jobQueue } from './jobQueue';
+import { automationService } from './automationService';
+import { copyTradingService } from './copyTradingService';
+import { sendApplicationConfirmationEmail } from './email';
+import { sendQueuedOTPEmail } from './otp';
+import { encryptionKeyService } from './encryptionKeyService';
+import { webhookService } from './webhookService';
+
+/**
+ * Wire every durable job type to its handler - call once before jobQueue.start()
+ */
+export function registerJobHandlers(): void {
+  // Delayed research report post (automation.delayInMinutes)
+  jobQueue.register('automation.research_report', async ({ automationId, data }) => {
+    const automation = await storage.getAutomation(automationId);
+    if (!automation || !automation.isActive) {
+      console.log(`⚠️ Skipping delayed research report - automation ${automationId} missing or inactive`);
+      return;
+    }
+
+    await automationService.processResearchReportAutomation(automation, data);
+  });
+
+  // Transient exchange errors before the order is sent are retried by the queue - the last attempt marks the copy failed
+  jobQueue.register('copy_trade.execute', async ({ copyTradeId }, job) => {
+    await copyTradingService.executeQueuedCopyTrade(copyTradeId, job.attempts < job.maxAttempts);
+  });
+
+  jobQueue.register('copy_trade.reconcile_lifecycle', async () => {
+    await copyTradingService.reconcileOpenCopyTrades();
+  });
+
+  jobQueue.register('webhook.retry_due', async () => {
+    await webhookService.processDueDeliveries();
+  });
+
+  jobQueue.register('wallet.refresh_all', async () => {
+    await automationService.updateAllWalletBalances();
+  });
+
+  jobQueue.register('email.otp', async ({ otpId }) => {
+    await sendQueuedOTPEmail(otpId);
+  });
+
+  jobQueue.register('email.application_confirmation', async ({ email, name, applicationId, exchange, submittedAt }) => {
+    const emailSent = await sendApplicationConfirmationEmail(email, {
+      name,
+      applicationId,
+      exchange,
+      submittedAt: new Date(submittedAt),
+    });
+
+    if (!emailSent) {
+      throw new Error(`Failed to send confirmation email to ${email}`);
+    }
+    console.log(`📧 Confirmation email sent to: ${email}`);
+  });
+
+  // Key rotation - values that can't be moved (e.g. their key is gone) fail the job so they show up as dead-lettered
+  jobQueue.register('encryption.reencrypt_all', async () => {
+    const result = await encryptionKeyService.reencryptAll();
+    if (result.failed.length > 0) {
+      const sample = result.failed.slice(0, 5).map(issue => `${issue.table}.${issue.field} ${issue.recordId}: ${issue.error}`).join('; ');
+      throw new Error(`${result.failed.length} value(s) could not be re-encrypted - ${sample}`);
+    }
+  });
+}
@@ -0,0 +1,205 @@
+import { storage } from '../storage';
+import type { Job } from '@shared/schema';
+
+export type JobHandler = (payload: any, job: Job) => Promise<void>;
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  delayMs?: number;
+  maxAttempts?: number;
+  uniqueKey?: string; // Skip enqueueing while a pending/running job with this key exists
+}
+
+const POLL_INTERVAL_MS = 5000;
+const BATCH_SIZE = 10;
+const STALE_LOCK_MS = 10 * 60 * 1000; // Running longer than this means the worker died mid-job
+const COMPLETED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAINTENANCE_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+/**
+ * Postgres-backed job queue - persisted run-at, attempts, exponential backoff and dead-lettering
+ */
+export class JobQueueService {
+  private handlers = new Map<string, JobHandler>();
+  private pollTimer?: NodeJS.Timeout;
+  private isPolling = false;
+  private pollAgain = false;
+  private lastMaintenance = 0;
+
+  /**
+   * Register the handler for a job type - throw from the handler to retry
+   */
+  register(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  async enqueue(type: string, payload: Record<string, any> = {}, options: EnqueueOptions = {}): Promise<Job | undefined> {
+    if (options.uniqueKey) {
+      const existing = await storage.getActiveJobByUniqueKey(options.uniqueKey);
+      if (existing) {
+        return undefined;
+      }
+    }
+
+    const runAt = options.runAt || new Date(Date.now() + (options.delayMs || 0));
+    const job = await storage.createJob({
+      type,
+      payload,
+      runAt,
+      maxAttempts: options.maxAttempts ?? 5,
+      uniqueKey: options.uniqueKey,
+    });
+
+    // Due now - don't wait for the next poll tick
+    if (runAt.getTime() <= Date.now()) {
+      this.poke();
+    }
+    return job;
+  }
+
+  /**
+   * Delay before retry N: 30s, 1m, 2m, 4m ... capped at 1h
+   */
+  getBackoffMs(attempts: number): number {
+    return Math.min(30 * 1000 * Math.pow(2, Math.max(0, attempts - 1)), MAX_BACKOFF_MS);
+  }
+
+  start(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+
+    this.pollTimer = setInterval(() => this.poke(), POLL_INTERVAL_MS);
+    console.log(`📦 Job queue started (${this.handlers.size} handlers, polling every ${POLL_INTERVAL_MS / 1000}s)`);
+    this.poke();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  /**
+   * Run a poll now; if one is already running, run another straight after it
+   */
+  poke(): void {
+    if (this.isPolling) {
+      this.pollAgain = true;
+      return;
+    }
+
+    void this.poll();
+  }
+
+  private async poll(): Promise<void> {
+    this.isPolling = true;
+    try {
+      do {
+        this.pollAgain = false;
+        await this.runMaintenance();
+
+        const claimed = await storage.claimDueJobs(BATCH_SIZE);
+        await Promise.all(claimed.map(job => this.runJob(job)));
+
+        // A full batch means more are probably due
+        if (claimed.length === BATCH_SIZE) {
+          this.pollAgain = true;
+        }
+      } while (this.pollAgain);
+    } catch (error) {
+      console.error('❌ Job queue poll failed:', error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async runMaintenance(): Promise<void> {
+    if (Date.now() - this.lastMaintenance < MAINTENANCE_INTERVAL_MS) {
+      return;
+    }
+    this.lastMaintenance = Date.now();
+
+    const released = await storage.releaseStaleJobs(new Date(Date.now() - STALE_LOCK_MS));
+    const purged = await storage.deleteCompletedJobs(new Date(Date.now() - COMPLETED_RETENTION_MS));
+    if (released > 0 || purged > 0) {
+      console.log(`🧹 Job queue maintenance: released ${released} stale jobs, purged ${purged} completed jobs`);
+    }
+  }
+
+  private async runJob(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type);
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type "${job.type}"`);
+      }
+
+      await handler(job.payload, job);
+      await storage.updateJob(job.id, {
+        status: 'completed',
+        completedAt: new Date(),
+        lockedAt: null,
+        lastError: null,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      if (job.attempts >= job.maxAttempts) {
+        console.error(`☠️ Job ${job.type} (${job.id}) dead after ${job.attempts} attempts: ${message}`);
+        await storage.updateJob(job.id, { status: 'dead', lastError: message, lockedAt: null });
+        return;
+      }
+
+      const backoffMs = this.getBackoffMs(job.attempts);
+      console.warn(`⚠️ Job ${job.type} (${job.id}) failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${Math.round(backoffMs / 1000)}s: ${message}`);
+      await storage.updateJob(job.id, {
+        status: 'pending',
+        lastError: message,
+        lockedAt: null,
+        runAt: new Date(Date.now() + backoffMs),
+      });
+    }
+  }
+
+  /**
+   * Put a dead (or waiting) job back at the front of the queue with a fresh attempt budget
+   */
+  async retryJob(id: string): Promise<{ success: boolean; message: string; job?: Job }> {
+    const job = await storage.getJob(id);
+    if (!job) {
+      return { success: false, message: 'Job not found' };
+    }
+    if (job.status === 'running' || job.status === 'completed') {
+      return { success: false, message: `Cannot retry a ${job.status} job` };
+    }
+
+    const updated = await storage.updateJob(id, {
+      status: 'pending',
+      runAt: new Date(),
+      attempts: 0,
+    });
+    this.poke();
+    return { success: true, message: 'Job queued for retry', job: updated };
+  }
+
+  /**
+   * Drop a pending or dead job without running it
+   */
+  async discardJob(id: string): Promise<{ success: boolean; message: string }> {
+    const job = await storage.getJob(id);
+    if (!job) {
+      return { success: false, message: 'Job not found' };
+    }
+    if (job.status === 'running') {
+      return { success: false, message: 'Cannot discard a running job' };
+    }
+
+    await storage.deleteJob(id);
+    return { success: true, message: 'Job discarded' };
+  }
+}
+
+export const jobQueue = new JobQueueService();
@@ -2,6 +2,7 @@ import { eq, and, gt, lt } from 'drizzle-orm';
 import { db } from '../db';
 import { otpVerifications } from '@shared/schema';
 import { generateOTP, getOTPExpiry, sendOTPEmail } from './email';
+import { jobQueue } from './jobQueue';
 import type { InsertOtpVerification, VerifyOtp, SendOtp } from '@shared/schema';
 
 /**
@@ -57,20 +58,8 @@ export async function generateAndSendOTP({ email, purpose = 'application_submiss
       })
       .returning();
 
-    // Send OTP email
-    const emailSent = await sendOTPEmail(email, otp, purpose);
-
-    if (!emailSent) {
-      // Delete the OTP record if email sending failed
-      await db
-        .delete(otpVerifications)
-        .where(eq(otpVerifications.id, otpRecord.id));
-
-      return {
-        success: false,
-        message: 'Failed to send OTP email. Please check your email address and try again.',
-      };
-    }
+    // Send OTP email through the job queue - SMTP hiccups are retried instead of failing the request
+    await jobQueue.enqueue('email.otp', { otpId: otpRecord.id }, { maxAttempts: 3 });
 
     console.log(`🔐 OTP generated for ${email} (Purpose: ${purpose})`);
 
@@ -89,6 +78,27 @@ export async function generateAndSendOTP({ email, purpose = 'application_submiss
   }
 }
 
+/**
+ * Job handler - email a queued OTP while it is still usable
+ */
+export async function sendQueuedOTPEmail(otpId: string): Promise<void> {
+  const [otpRecord] = await db
+    .select()
+    .from(otpVerifications)
+    .where(eq(otpVerifications.id, otpId))
+    .limit(1);
+
+  // Replaced by a newer OTP, already used or expired - nothing worth sending
+  if (!otpRecord || otpRecord.isVerified || new Date() > otpRecord.expiresAt) {
+    return;
+  }
+
+  const emailSent = await sendOTPEmail(otpRecord.email, otpRecord.otp, otpRecord.purpose);
+  if (!emailSent) {
+    throw new Error(`Failed to send OTP email to ${otpRecord.email}`);
+  }
+}
+
 /**
  * Verify OTP code
  */
@@ -0,0 +1,590 @@
+import type { FuturesFill, FuturesInstrumentMeta } from './coindcx';
+import {
+  getExchangeAdapter,
+  type ExchangeAdapter,
+  type ExchangeId,
+  type ExchangeCredentials,
+  type FuturesOrderRequest,
+  type ExchangeOrderResult,
+  type ExchangeExitRequest,
+  type ExchangeBalanceResult,
+  type FuturesOrderState,
+  type FuturesPositionState,
+  type PositionProtectionRequest,
+  type PositionReduceRequest,
+} from './exchangeAdapter';
+import type { PriceSource } from './priceWatcher';
+import { safeDecrypt } from '../utils/encryption';
+import type { CopyTradingUser } from '@shared/schema';
+
+export const PAPER_ORDER_PREFIX = 'PAPER_';
+
+interface PaperOrder extends FuturesOrderState {
+  pair: string;
+  leverage: number;
+  stopLoss: number | null;
+  takeProfit: number | null;
+}
+
+interface PaperPosition {
+  pair: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  entryPrice: number;
+  leverage: number;
+  stopLoss: number | null;
+  takeProfit: number | null;
+}
+
+interface PaperAccount {
+  balance: number; // Wallet balance - realized P&L and fees, excludes open position P&L
+  orders: Map<string, PaperOrder>;
+  positions: Map<string, PaperPosition>; // One net position per pair, like the futures venues
+  fills: (FuturesFill & { pair: string })[];
+}
+
+export interface PaperExchangeOptions {
+  startingBalance?: number; // USDT credited to a new account
+  feeRate?: number; // Charged on every fill, as a fraction of notional
+}
+
+/**
+ * In-process simulated futures venue - same surface as the real adapters, but limit orders,
+ * stop losses and take profits fill against a price feed and balances live in memory per account.
+ * Symbols and lot rules come from the wrapped venue so sizing matches live trading.
+ * Accounts are keyed by the credentials' apiKey (the follower id) and reset when the process restarts -
+ * copies still open on them are closed at startup (copyTradingService.closeOrphanedPaperCopyTrades).
+ */
+export class PaperExchange implements ExchangeAdapter {
+  readonly id: ExchangeId;
+  readonly displayName: string;
+  private accounts = new Map<string, PaperAccount>();
+  private prices = new Map<string, number>();
+  private instrumentMeta = new Map<string, FuturesInstrumentMeta>();
+  private source: PriceSource | null = null;
+  private startingBalance: number;
+  private feeRate: number;
+  private orderSequence = 0;
+
+  constructor(private venue: ExchangeAdapter, options: PaperExchangeOptions = {}) {
+    this.id = venue.id;
+    this.displayName = `Paper (${venue.displayName})`;
+    this.startingBalance = options.startingBalance ?? 1000;
+    this.feeRate = options.feeRate ?? 0.0005;
+  }
+
+  /**
+   * Price feed pulled before every account operation and on each matching tick
+   */
+  setPriceSource(source: PriceSource | null): void {
+    this.source = source;
+  }
+
+  /**
+   * Pin lot rules for a pair so sizing never asks the real venue (offline tests)
+   */
+  setInstrumentMeta(pair: string, meta: FuturesInstrumentMeta): void {
+    this.instrumentMeta.set(pair, meta);
+  }
+
+  /**
+   * Push a price and fill whatever it crosses on every account
+   */
+  updatePrice(pair: string, price: number): void {
+    if (!Number.isFinite(price) || price <= 0) return;
+    this.prices.set(pair, price);
+
+    this.accounts.forEach(account => {
+      account.orders.forEach(order => {
+        if (order.pair === pair && order.status === 'open') {
+          this.matchOrder(account, order, price, false);
+        }
+      });
+
+      const position = account.positions.get(pair);
+      if (position) {
+        this.checkProtection(account, position, price);
+      }
+    });
+  }
+
+  /**
+   * One matching pass over every pair with a resting order or open position
+   */
+  async tick(): Promise<void> {
+    const pairs = new Set<string>();
+    this.accounts.forEach(account => {
+      account.orders.forEach(order => {
+        if (order.status === 'open') pairs.add(order.pair);
+      });
+      account.positions.forEach((_, pair) => pairs.add(pair));
+    });
+
+    await this.syncPrices(Array.from(pairs));
+  }
+
+  /**
+   * Current mark price for a pair from the feed, or the last one seen if the feed fails
+   */
+  async getMarkPrice(pair: string): Promise<number | undefined> {
+    await this.syncPrices([pair]);
+    return this.prices.get(pair);
+  }
+
+  /**
+   * Start an account over with a fresh balance
+   */
+  resetAccount(accountId: string, balance: number = this.startingBalance): void {
+    this.accounts.set(accountId, this.newAccount(balance));
+  }
+
+  toExchangeSymbol(pair: string): string {
+    return this.venue.toExchangeSymbol(pair);
+  }
+
+  fromExchangeSymbol(symbol: string): string {
+    return this.venue.fromExchangeSymbol(symbol);
+  }
+
+  async getInstrumentMeta(pair: string): Promise<FuturesInstrumentMeta> {
+    return this.instrumentMeta.get(pair) || this.venue.getInstrumentMeta(pair);
+  }
+
+  async placeFuturesOrder(credentials: ExchangeCredentials, order: FuturesOrderRequest): Promise<ExchangeOrderResult> {
+    if (order.total_quantity <= 0 || order.price <= 0 || order.leverage < 1) {
+      return { success: false, message: 'Invalid quantity, price or leverage' };
+    }
+
+    const account = this.getAccount(credentials);
+    const notional = order.total_quantity * order.price;
+    const required = notional / order.leverage + notional * this.feeRate;
+    const available = this.availableBalance(account);
+    if (required > available) {
+      return {
+        success: false,
+        message: `Insufficient balance: required margin ${required.toFixed(2)} USDT, available ${available.toFixed(2)} USDT`,
+      };
+    }
+
+    const paperOrder: PaperOrder = {
+      orderId: this.nextOrderId(),
+      status: 'open',
+      side: order.side,
+      pair: order.pair,
+      price: order.price,
+      avgPrice: null,
+      quantity: order.total_quantity,
+      filledQuantity: 0,
+      leverage: order.leverage,
+      stopLoss: order.stop_loss_price ?? null,
+      takeProfit: order.take_profit_price ?? null,
+    };
+    account.orders.set(paperOrder.orderId, paperOrder);
+
+    // A limit that is already marketable fills straight away at the better market price
+    await this.syncPrices([order.pair]);
+    const price = this.prices.get(order.pair);
+    if (price !== undefined && paperOrder.status === 'open') {
+      this.matchOrder(account, paperOrder, price, true);
+    }
+
+    console.log(`🧻 Paper order ${paperOrder.orderId}: ${order.side.toUpperCase()} ${order.total_quantity} ${order.pair} @ ${order.price} (${paperOrder.status})`);
+    return {
+      success: true,
+      orderId: paperOrder.orderId,
+      message: paperOrder.status === 'filled' ? 'Paper order filled' : 'Paper order placed',
+      data: this.toOrderState(paperOrder),
+    };
+  }
+
+  /**
+   * Cancel resting orders for the pair and close the position at the last price
+   */
+  async exitPosition(credentials: ExchangeCredentials, request: ExchangeExitRequest): Promise<{ success: boolean; message: string; data?: any }> {
+    const account = this.getAccount(credentials);
+    await this.syncPrices([request.pair]);
+
+    let cancelled = 0;
+    account.orders.forEach(order => {
+      if (order.pair === request.pair && order.status === 'open') {
+        order.status = 'cancelled';
+        cancelled++;
+      }
+    });
+
+    const position = account.positions.get(request.pair);
+    if (!position) {
+      return cancelled > 0
+        ? { success: true, message: `Cancelled ${cancelled} open paper orders` }
+        : { success: false, message: 'Position not found - already closed' };
+    }
+
+    const price = this.prices.get(request.pair);
+    if (price === undefined) {
+      return { success: false, message: `No price available for ${request.pair}` };
+    }
+
+    const orderId = this.closePosition(account, position, position.quantity, price);
+    return { success: true, message: `Paper position closed at ${price}`, data: { orderId } };
+  }
+
+  async getFuturesBalance(credentials: ExchangeCredentials): Promise<ExchangeBalanceResult> {
+    const account = this.getAccount(credentials);
+    await this.syncPrices(Array.from(account.positions.keys()));
+
+    let unrealizedPnl = 0;
+    account.positions.forEach(position => {
+      const price = this.prices.get(position.pair);
+      if (price !== undefined) {
+        unrealizedPnl += (price - position.entryPrice) * position.quantity * (position.side === 'buy' ? 1 : -1);
+      }
+    });
+
+    return {
+      success: true,
+      usdtBalance: account.balance,
+      raw: [{
+        currency_short_name: 'USDT',
+        balance: account.balance.toFixed(8),
+        available_balance: this.availableBalance(account).toFixed(8),
+        unrealized_pnl: unrealizedPnl.toFixed(8),
+        paper: true,
+      }],
+      message: 'Paper wallet balance',
+    };
+  }
+
+  async validateCredentials(_credentials: ExchangeCredentials): Promise<{ valid: boolean; message: string }> {
+    return { valid: true, message: 'Paper account - no exchange credentials needed' };
+  }
+
+  async getFills(credentials: ExchangeCredentials, pair: string, fromDate?: Date): Promise<{ success: boolean; fills?: FuturesFill[]; message: string }> {
+    const account = this.getAccount(credentials);
+    await this.syncPrices([pair]);
+
+    const from = fromDate ? fromDate.getTime() : 0;
+    const fills = account.fills
+      .filter(fill => fill.pair === pair && fill.timestamp >= from)
+      .map(({ pair: _pair, ...fill }) => fill);
+
+    return { success: true, fills, message: `Found ${fills.length} paper fills` };
+  }
+
+  async getOrder(credentials: ExchangeCredentials, orderId: string, pair: string): Promise<{ success: boolean; order?: FuturesOrderState; message: string }> {
+    const account = this.getAccount(credentials);
+    await this.syncPrices([pair]);
+
+    const order = account.orders.get(orderId);
+    if (!order) {
+      return { success: false, message: `Order ${orderId} not found in paper account` };
+    }
+    return { success: true, order: this.toOrderState(order), message: `Order ${order.status}` };
+  }
+
+  async getPosition(credentials: ExchangeCredentials, pair: string): Promise<{ success: boolean; position?: FuturesPositionState | null; message: string }> {
+    const account = this.getAccount(credentials);
+    await this.syncPrices([pair]);
+
+    const position = account.positions.get(pair);
+    if (!position) {
+      return { success: true, position: null, message: 'No open position' };
+    }
+
+    return {
+      success: true,
+      position: {
+        pair,
+        side: position.side,
+        quantity: position.quantity,
+        entryPrice: position.entryPrice,
+        markPrice: this.prices.get(pair),
+        stopLoss: position.stopLoss,
+        takeProfit: position.takeProfit,
+      },
+      message: 'Open position found',
+    };
+  }
+
+  async updatePositionProtection(credentials: ExchangeCredentials, request: PositionProtectionRequest): Promise<{ success: boolean; message: string; data?: any }> {
+    const account = this.getAccount(credentials);
+    await this.syncPrices([request.pair]);
+
+    const position = account.positions.get(request.pair);
+    if (!position || position.side !== request.side) {
+      return { success: false, message: 'Position already closed or not found' };
+    }
+
+    if (request.stopLoss !== undefined) position.stopLoss = request.stopLoss;
+    if (request.takeProfit !== undefined) position.takeProfit = request.takeProfit;
+
+    // New levels may already be through the market
+    const price = this.prices.get(request.pair);
+    if (price !== undefined) {
+      this.checkProtection(account, position, price);
+    }
+
+    return { success: true, message: 'Paper position TP/SL updated', data: { stopLoss: position.stopLoss, takeProfit: position.takeProfit } };
+  }
+
+  async reducePosition(credentials: ExchangeCredentials, request: PositionReduceRequest): Promise<ExchangeOrderResult> {
+    const account = this.getAccount(credentials);
+    await this.syncPrices([request.pair]);
+
+    const position = account.positions.get(request.pair);
+    if (!position || position.side !== request.side) {
+      return { success: false, message: 'Position already closed or not found' };
+    }
+
+    const price = this.prices.get(request.pair);
+    if (price === undefined) {
+      return { success: false, message: `No price available for ${request.pair}` };
+    }
+
+    const quantity = Math.min(request.quantity, position.quantity);
+    const orderId = this.closePosition(account, position, quantity, price);
+    return { success: true, orderId, message: `Closed ${quantity} of paper position at ${price}` };
+  }
+
+  private newAccount(balance: number): PaperAccount {
+    return { balance, orders: new Map(), positions: new Map(), fills: [] };
+  }
+
+  private getAccount(credentials: ExchangeCredentials): PaperAccount {
+    let account = this.accounts.get(credentials.apiKey);
+    if (!account) {
+      account = this.newAccount(this.startingBalance);
+      this.accounts.set(credentials.apiKey, account);
+    }
+    return account;
+  }
+
+  private nextOrderId(): string {
+    return `${PAPER_ORDER_PREFIX}${Date.now()}_${++this.orderSequence}`;
+  }
+
+  /**
+   * Balance not tied up as margin for open positions or resting orders
+   */
+  private availableBalance(account: PaperAccount): number {
+    let locked = 0;
+    account.positions.forEach(position => {
+      locked += (position.quantity * position.entryPrice) / position.leverage;
+    });
+    account.orders.forEach(order => {
+      if (order.status === 'open') {
+        locked += (order.quantity * order.price) / order.leverage;
+      }
+    });
+    return account.balance - locked;
+  }
+
+  /**
+   * Pull fresh prices for the pairs - a failing feed keeps the last known prices
+   */
+  private async syncPrices(pairs: string[]): Promise<void> {
+    if (!this.source || pairs.length === 0) return;
+
+    try {
+      const prices = await this.source.getMarkPrices(pairs);
+      prices.forEach((price, pair) => this.updatePrice(pair, price));
+    } catch (error) {
+      console.error(`❌ Paper exchange price refresh failed (${this.source.name}):`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Fill a resting limit order the price has traded through
+   */
+  private matchOrder(account: PaperAccount, order: PaperOrder, price: number, atPlacement: boolean): void {
+    const crosses = order.side === 'buy' ? price <= order.price : price >= order.price;
+    if (!crosses) return;
+
+    const fillPrice = atPlacement
+      ? (order.side === 'buy' ? Math.min(price, order.price) : Math.max(price, order.price))
+      : order.price;
+
+    order.status = 'filled';
+    order.filledQuantity = order.quantity;
+    order.avgPrice = fillPrice;
+
+    this.applyFill(account, order.pair, order.side, order.quantity, fillPrice, order.orderId, order.leverage, {
+      stopLoss: order.stopLoss,
+      takeProfit: order.takeProfit,
+    });
+  }
+
+  /**
+   * Close the position once the price reaches the stop loss or take profit - stop first.
+   * A stop the price gapped through fills at the market, a take profit at its trigger.
+   */
+  private checkProtection(account: PaperAccount, position: PaperPosition, price: number): void {
+    const isLong = position.side === 'buy';
+    const { stopLoss, takeProfit } = position;
+
+    if (stopLoss && (isLong ? price <= stopLoss : price >= stopLoss)) {
+      const fillPrice = isLong ? Math.min(price, stopLoss) : Math.max(price, stopLoss);
+      this.closePosition(account, position, position.quantity, fillPrice);
+      console.log(`🧻 Paper ${position.pair} ${position.side} stopped out at ${fillPrice}`);
+    } else if (takeProfit && (isLong ? price >= takeProfit : price <= takeProfit)) {
+      this.closePosition(account, position, position.quantity, takeProfit);
+      console.log(`🧻 Paper ${position.pair} ${position.side} took profit at ${takeProfit}`);
+    }
+  }
+
+  private closePosition(account: PaperAccount, position: PaperPosition, quantity: number, price: number): string {
+    const orderId = this.nextOrderId();
+    const closingSide = position.side === 'buy' ? 'sell' : 'buy';
+
+    account.orders.set(orderId, {
+      orderId,
+      status: 'filled',
+      side: closingSide,
+      pair: position.pair,
+      price,
+      avgPrice: price,
+      quantity,
+      filledQuantity: quantity,
+      leverage: position.leverage,
+      stopLoss: null,
+      takeProfit: null,
+    });
+    this.applyFill(account, position.pair, closingSide, quantity, price, orderId, position.leverage);
+    return orderId;
+  }
+
+  /**
+   * Book a fill against the pair's net position - same side adds, opposite side realizes P&L
+   */
+  private applyFill(
+    account: PaperAccount,
+    pair: string,
+    side: 'buy' | 'sell',
+    quantity: number,
+    price: number,
+    orderId: string,
+    leverage: number,
+    protection?: { stopLoss: number | null; takeProfit: number | null }
+  ): void {
+    const fee = quantity * price * this.feeRate;
+    account.balance -= fee;
+    account.fills.push({ orderId, pair, side, price, quantity, fee, timestamp: Date.now() });
+
+    const position = account.positions.get(pair);
+    if (!position) {
+      account.positions.set(pair, {
+        pair,
+        side,
+        quantity,
+        entryPrice: price,
+        leverage,
+        stopLoss: protection?.stopLoss ?? null,
+        takeProfit: protection?.takeProfit ?? null,
+      });
+      return;
+    }
+
+    if (position.side === side) {
+      position.entryPrice = (position.entryPrice * position.quantity + price * quantity) / (position.quantity + quantity);
+      position.quantity += quantity;
+      if (protection?.stopLoss) position.stopLoss = protection.stopLoss;
+      if (protection?.takeProfit) position.takeProfit = protection.takeProfit;
+      return;
+    }
+
+    const closed = Math.min(quantity, position.quantity);
+    account.balance += (price - position.entryPrice) * closed * (position.side === 'buy' ? 1 : -1);
+    position.quantity -= closed;
+
+    if (position.quantity <= 1e-12) {
+      account.positions.delete(pair);
+      // Anything beyond the old position flips it to the other side
+      if (quantity - closed > 1e-12) {
+        account.positions.set(pair, {
+          pair,
+          side,
+          quantity: quantity - closed,
+          entryPrice: price,
+          leverage,
+          stopLoss: protection?.stopLoss ?? null,
+          takeProfit: protection?.takeProfit ?? null,
+        });
+      }
+    }
+  }
+
+  private toOrderState(order: PaperOrder): FuturesOrderState {
+    const { orderId, status, side, price, avgPrice, quantity, filledQuantity } = order;
+    return { orderId, status, side, price, avgPrice, quantity, filledQuantity };
+  }
+}
+
+const paperExchanges = new Map<ExchangeId, PaperExchange>();
+let paperPriceSource: PriceSource | null = null;
+let paperMatchingTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Paper twin of a follower venue - one per venue, created on first use
+ */
+export function getPaperExchange(exchange?: string | null): PaperExchange {
+  const venue = getExchangeAdapter(exchange);
+  let paper = paperExchanges.get(venue.id);
+  if (!paper) {
+    paper = new PaperExchange(venue, {
+      startingBalance: parseFloat(process.env.PAPER_STARTING_BALANCE || '1000'),
+      feeRate: parseFloat(process.env.PAPER_FEE_RATE || '0.0005'),
+    });
+    paper.setPriceSource(paperPriceSource);
+    paperExchanges.set(venue.id, paper);
+  }
+  return paper;
+}
+
+/**
+ * Price feed every paper venue fills against
+ */
+export function setPaperPriceSource(source: PriceSource): void {
+  paperPriceSource = source;
+  paperExchanges.forEach(paper => paper.setPriceSource(source));
+  console.log(`🧻 Paper exchange price source set to: ${source.name}`);
+}
+
+/**
+ * Periodically match resting orders and SL/TP between account calls
+ */
+export function startPaperMatching(intervalMs: number = parseInt(process.env.PAPER_MATCH_INTERVAL_MS || '5000')): void {
+  if (paperMatchingTimer) {
+    clearInterval(paperMatchingTimer);
+  }
+
+  paperMatchingTimer = setInterval(() => {
+    paperExchanges.forEach(paper => {
+      paper.tick().catch(error => console.error('❌ Paper matching tick failed:', error));
+    });
+  }, intervalMs);
+}
+
+export function isPaperOrderId(orderId: string | null | undefined): boolean {
+  return !!orderId && orderId.startsWith(PAPER_ORDER_PREFIX);
+}
+
+/**
+ * Adapter and credentials for a follower - paper accounts are keyed by follower id and need no API keys.
+ * Returns null when live credentials can't be decrypted.
+ */
+export function getFollowerExchange(
+  user: Pick<CopyTradingUser, 'id' | 'exchange' | 'apiKey' | 'apiSecret' | 'paperTrading'>,
+  options: { exchange?: string | null; paper?: boolean } = {}
+): { adapter: ExchangeAdapter; credentials: ExchangeCredentials } | null {
+  const exchange = options.exchange ?? user.exchange;
+
+  if (options.paper ?? !!user.paperTrading) {
+    return { adapter: getPaperExchange(exchange), credentials: { apiKey: user.id, apiSecret: '' } };
+  }
+
+  const apiKey = safeDecrypt(user.apiKey);
+  const apiSecret = safeDecrypt(user.apiSecret);
+  if (!apiKey || !apiSecret) {
+    return null;
+  }
+  return { adapter: getExchangeAdapter(exchange), credentials: { apiKey, apiSecret } };
+}
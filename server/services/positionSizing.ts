@@ -1,4 +1,5 @@
-import { coindcxService } from './coindcx.js';
+import { getExchangeAdapter, type ExchangeId } from './exchangeAdapter.js';
+import type { FuturesInstrumentMeta } from './coindcx';
 
 export interface PositionSizeInput {
   entry: number;
@@ -6,6 +7,8 @@ export interface PositionSizeInput {
   fund: number;
   riskPct: number;
   pair: string;
+  exchange?: ExchangeId; // Venue whose lot/tick rules apply (defaults to CoinDCX)
+  meta?: FuturesInstrumentMeta; // Known lot/tick rules (e.g. offline backtests) - skips the exchange lookup
 }
 
 export interface PositionSizeResult {
@@ -39,7 +42,7 @@ export class PositionSizingService {
    */
   async sizePosition(input: PositionSizeInput): Promise<PositionSizeResult | PositionSizeError> {
     try {
-      const { entry, stopLoss, fund, riskPct, pair } = input;
+      const { entry, stopLoss, fund, riskPct, pair, exchange } = input;
       
       // Input validation
       if (!this.validateInputs(input)) {
@@ -65,7 +68,7 @@ export class PositionSizingService {
       const rawQty = riskAmount / perUnitRisk;
 
       // Step 2: Fetch exchange metadata
-      const meta = await coindcxService.getFuturesInstrumentMeta(pair);
+      const meta = input.meta || await getExchangeAdapter(exchange).getInstrumentMeta(pair);
       
       // Detect unreliable metadata (fallback defaults)
       if (this.isDefaultMetadata(meta, pair)) {
@@ -152,7 +155,7 @@ export class PositionSizingService {
   /**
    * Round down to nearest step size multiple (precision-safe)
    */
-  private roundDownToStep(value: number, stepSize: number): number {
+  roundDownToStep(value: number, stepSize: number): number {
     return this.floorToStep(value, stepSize);
   }
   
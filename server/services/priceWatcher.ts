@@ -0,0 +1,340 @@
+import axios from 'axios';
+import { storage } from '../storage';
+import { tradeMonitor } from './tradeMonitor';
+import { automationService } from './automationService';
+import { coindcxSocket } from './coindcxSocket';
+import { webhookService } from './webhookService';
+import { copyTradingService } from './copyTradingService';
+import { Trade, TargetType, normalizeTargetStatus } from '../../shared/schema';
+
+/**
+ * Pluggable source of live mark prices keyed by trade pair (e.g. "SOL_USDT")
+ */
+export interface PriceSource {
+  readonly name: string;
+  getMarkPrices(pairs: string[]): Promise<Map<string, number>>;
+}
+
+/**
+ * Reads futures mark prices from the CoinDCX public market data feed
+ */
+export class CoinDCXMarkPriceSource implements PriceSource {
+  readonly name = 'coindcx';
+  private baseUrl: string;
+
+  constructor(baseUrl?: string) {
+    this.baseUrl = baseUrl || process.env.COINDCX_PUBLIC_URL || 'https://public.coindcx.com';
+  }
+
+  async getMarkPrices(pairs: string[]): Promise<Map<string, number>> {
+    const result = new Map<string, number>();
+    if (pairs.length === 0) return result;
+
+    const response = await axios.get(`${this.baseUrl}/market_data/v3/current_prices/futures/rt`, {
+      timeout: 10000,
+    });
+
+    const prices = response.data?.prices || {};
+    for (const pair of pairs) {
+      const normalizedPair = pair.replace(/^B-/, '');
+      const entry = prices[`B-${normalizedPair}`] || prices[normalizedPair];
+      if (!entry) continue;
+
+      // Prefer mark price, fall back to last traded price
+      const price = parseFloat(entry.mp ?? entry.ls);
+      if (Number.isFinite(price) && price > 0) {
+        result.set(pair, price);
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Uses mark prices cached from the CoinDCX live stream, falling back to REST for pairs not seen yet
+ */
+export class StreamPriceSource implements PriceSource {
+  readonly name = 'coindcx_stream';
+  private fallback = new CoinDCXMarkPriceSource();
+
+  async getMarkPrices(pairs: string[]): Promise<Map<string, number>> {
+    const result = new Map<string, number>();
+    const missing: string[] = [];
+
+    for (const pair of pairs) {
+      const price = coindcxSocket.getLatestPrice(pair);
+      if (price !== undefined) {
+        result.set(pair, price);
+      } else {
+        missing.push(pair);
+      }
+    }
+
+    if (missing.length > 0) {
+      const fetched = await this.fallback.getMarkPrices(missing);
+      fetched.forEach((price, pair) => result.set(pair, price));
+    }
+
+    return result;
+  }
+}
+
+/**
+ * In-memory price feed - prices are pushed manually (tests, dry runs, replays)
+ */
+export class ManualPriceSource implements PriceSource {
+  readonly name = 'manual';
+  private prices = new Map<string, number>();
+
+  setPrice(pair: string, price: number): void {
+    this.prices.set(pair, price);
+  }
+
+  clear(): void {
+    this.prices.clear();
+  }
+
+  async getMarkPrices(pairs: string[]): Promise<Map<string, number>> {
+    const result = new Map<string, number>();
+    for (const pair of pairs) {
+      const price = this.prices.get(pair);
+      if (price !== undefined) {
+        result.set(pair, price);
+      }
+    }
+    return result;
+  }
+}
+
+// Levels checked in ascending order so a price gap through several targets fires each one
+const TARGET_LEVELS: { targetType: TargetType; field: 'takeProfitTrigger' | 'takeProfit2' | 'takeProfit3' }[] = [
+  { targetType: 'target_1', field: 'takeProfitTrigger' },
+  { targetType: 'target_2', field: 'takeProfit2' },
+  { targetType: 'target_3', field: 'takeProfit3' },
+];
+
+export class PriceWatcherService {
+  private source: PriceSource;
+  private timer: NodeJS.Timeout | null = null;
+  private intervalMs: number;
+  private isChecking = false;
+  private lastCheck: Date | null = null;
+  private lastError: string | null = null;
+  private lastPrices = new Map<string, number>();
+  private hitsDetected = 0;
+
+  constructor(source?: PriceSource) {
+    this.source = source || new CoinDCXMarkPriceSource();
+    this.intervalMs = parseInt(process.env.PRICE_WATCHER_INTERVAL_MS || '5000');
+  }
+
+  /**
+   * Swap the price source (e.g. a ManualPriceSource in tests)
+   */
+  setPriceSource(source: PriceSource): void {
+    this.source = source;
+    this.lastPrices.clear();
+    console.log(`📡 Price watcher source set to: ${source.name}`);
+  }
+
+  start(intervalMs?: number): void {
+    if (intervalMs) {
+      this.intervalMs = intervalMs;
+    }
+
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+
+    this.timer = setInterval(() => {
+      this.checkOnce().catch(error => {
+        console.error('❌ Price watcher tick failed:', error);
+      });
+    }, this.intervalMs);
+
+    console.log(`👀 Price watcher started (${this.source.name} feed, every ${this.intervalMs}ms)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    console.log('🛑 Price watcher stopped');
+  }
+
+  /**
+   * Run a single pass: fetch prices for all active trades and apply any crossed levels
+   */
+  async checkOnce(): Promise<{ checked: number; hits: number }> {
+    // Skip overlapping ticks when the previous pass is still running
+    if (this.isChecking) {
+      return { checked: 0, hits: 0 };
+    }
+
+    this.isChecking = true;
+    let hits = 0;
+
+    try {
+      const activeTrades = await storage.getActiveTrades();
+      const watchable = activeTrades.filter(trade => this.hasWatchableLevels(trade));
+
+      if (watchable.length === 0) {
+        this.lastCheck = new Date();
+        this.lastError = null;
+        return { checked: 0, hits: 0 };
+      }
+
+      const pairs = Array.from(new Set(watchable.map(trade => trade.pair)));
+      const prices = await this.source.getMarkPrices(pairs);
+      prices.forEach((price, pair) => this.lastPrices.set(pair, price));
+
+      for (const trade of watchable) {
+        const price = prices.get(trade.pair);
+        if (price === undefined) continue;
+
+        hits += await this.evaluateTrade(trade, price);
+      }
+
+      this.hitsDetected += hits;
+      this.lastCheck = new Date();
+      this.lastError = null;
+
+      return { checked: watchable.length, hits };
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Price watcher check failed:', error);
+      return { checked: 0, hits };
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  /**
+   * Compare a mark price against a trade's levels and fire every newly crossed target
+   * @returns Number of target hits applied
+   */
+  async evaluateTrade(trade: Trade, price: number): Promise<number> {
+    const crossed = this.getCrossedTargets(trade, price);
+    let applied = 0;
+
+    for (const targetType of crossed) {
+      const completed = await this.applyTargetHit(trade, targetType, price);
+      if (completed === null) continue;
+
+      applied++;
+      // Auto-completing targets close the trade - nothing further to evaluate
+      if (completed) break;
+    }
+
+    return applied;
+  }
+
+  /**
+   * Work out which not-yet-hit levels the price has crossed, respecting trade direction
+   */
+  getCrossedTargets(trade: Trade, price: number): TargetType[] {
+    const status = normalizeTargetStatus(trade.targetStatus);
+    const isLong = trade.type.toLowerCase() === 'buy';
+    const crossed: TargetType[] = [];
+
+    const hasCrossed = (level: number) => isLong ? price >= level : price <= level;
+
+    for (const { targetType, field } of TARGET_LEVELS) {
+      const level = trade[field] ? Number(trade[field]) : NaN;
+      if (!Number.isFinite(level) || level <= 0 || status[targetType]) continue;
+
+      if (hasCrossed(level)) {
+        crossed.push(targetType);
+      }
+    }
+
+    // Stop loss only counts while no higher level is hit (same rule as the V2 cascade)
+    const stopLoss = trade.stopLossTrigger ? Number(trade.stopLossTrigger) : NaN;
+    const higherHit = status.safebook || status.target_1 || status.target_2 || status.target_3;
+    if (crossed.length === 0 && !higherHit && !status.stop_loss && Number.isFinite(stopLoss) && stopLoss > 0) {
+      const stopCrossed = isLong ? price <= stopLoss : price >= stopLoss;
+      if (stopCrossed) {
+        crossed.push('stop_loss');
+      }
+    }
+
+    return crossed;
+  }
+
+  /**
+   * Apply a target hit through the same path as the manual target-status endpoint
+   * @returns true if the trade auto-completed, false if still active, null if nothing changed
+   */
+  private async applyTargetHit(trade: Trade, targetType: TargetType, price: number): Promise<boolean | null> {
+    try {
+      // Re-read to avoid racing a manual update made since this pass started
+      const current = await storage.getTrade(trade.id);
+      if (!current || current.status !== 'active' || normalizeTargetStatus(current.targetStatus)[targetType]) {
+        return null;
+      }
+
+      console.log(`🎯 PRICE-WATCHER: ${current.pair} ${current.type} hit ${targetType} at ${price} (trade ${current.tradeId})`);
+
+      // Only the caller whose conditional update applied fires automations - a concurrent manual update wins otherwise
+      const result = await storage.updateTradeTargetStatusV2(current.id, { targetType, hit: true });
+      if (!result.trade || !result.applied) {
+        return null;
+      }
+
+      await tradeMonitor.triggerTargetHit(current.id, targetType);
+
+      if (result.autoCompleted) {
+        void webhookService.emitTradeEvent('trade_completed', result.trade);
+      }
+
+      // Refresh the original post so hit targets show on it
+      void automationService.syncTradeMessages(result.trade.id, `${targetType}_hit`);
+
+      if (targetType === 'target_1' || targetType === 'target_2') {
+        void copyTradingService.propagateMasterTradeChange(result.trade, { kind: 'partial_close', target: targetType });
+      }
+
+      return result.autoCompleted;
+    } catch (error) {
+      console.error(`❌ Price watcher failed to apply ${targetType} for trade ${trade.id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Current mark price for a pair from the configured source (undefined if unavailable)
+   */
+  async getCurrentPrice(pair: string): Promise<number | undefined> {
+    try {
+      const prices = await this.source.getMarkPrices([pair]);
+      const price = prices.get(pair);
+      if (price !== undefined) {
+        this.lastPrices.set(pair, price);
+      }
+      return price;
+    } catch (error) {
+      console.error(`❌ Failed to fetch current price for ${pair}:`, error);
+      return this.lastPrices.get(pair);
+    }
+  }
+
+  private hasWatchableLevels(trade: Trade): boolean {
+    return !!(trade.takeProfitTrigger || trade.takeProfit2 || trade.takeProfit3 || trade.stopLossTrigger);
+  }
+
+  getStatus() {
+    return {
+      isRunning: this.timer !== null,
+      source: this.source.name,
+      intervalMs: this.intervalMs,
+      lastCheck: this.lastCheck?.toISOString() || null,
+      lastError: this.lastError,
+      hitsDetected: this.hitsDetected,
+      trackedPairs: Object.fromEntries(this.lastPrices),
+    };
+  }
+}
+
+export const priceWatcher = new PriceWatcherService();
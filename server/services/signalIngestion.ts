@@ -0,0 +1,291 @@
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { safeDecrypt } from '../utils/encryption';
+import { joinSymbol, splitPair } from '../utils/symbols';
+import { tradeRegistrationService } from './tradeRegistration';
+import type { InsertTrade, SignalFieldKey, SignalSource } from '@shared/schema';
+
+export interface SignalIngestResult {
+  success: boolean;
+  statusCode: number;
+  status: 'created' | 'duplicate' | 'rejected' | 'failed' | 'unauthorized' | 'not_found';
+  message: string;
+  alertId?: string;
+  tradeId?: string;
+}
+
+interface MappedSignal {
+  trade: InsertTrade;
+  alertId?: string;
+}
+
+// Actions understood without an explicit side mapping
+const DEFAULT_SIDES: Record<string, 'buy' | 'sell'> = {
+  buy: 'buy',
+  long: 'buy',
+  sell: 'sell',
+  short: 'sell',
+};
+
+/**
+ * Turns TradingView-style alerts into trades through the regular registration path
+ */
+export class SignalIngestionService {
+  // Dedupe keys currently being turned into trades - guards back-to-back duplicate alerts
+  private inFlight = new Set<string>();
+
+  generateSecret(): string {
+    return crypto.randomBytes(24).toString('hex');
+  }
+
+  /**
+   * Parse a raw alert body - JSON object, JSON string or plain-text "key=value" / "key: value" pairs
+   */
+  parsePayload(body: unknown, format: string): Record<string, any> {
+    if (body && typeof body === 'object') {
+      return body as Record<string, any>;
+    }
+
+    const text = typeof body === 'string' ? body.trim() : '';
+    if (!text) {
+      throw new Error('Empty alert payload');
+    }
+
+    if (format === 'json' || text.startsWith('{')) {
+      try {
+        const parsed = JSON.parse(text);
+        if (parsed && typeof parsed === 'object') {
+          return parsed;
+        }
+      } catch {
+        if (format === 'json') {
+          throw new Error('Alert payload is not valid JSON');
+        }
+      }
+    }
+
+    const fields: Record<string, string> = {};
+    for (const token of text.split(/[\n,;]+/)) {
+      const match = token.trim().match(/^([A-Za-z0-9_.]+)\s*[:=]\s*(.+)$/);
+      if (match) {
+        fields[match[1]] = match[2].trim();
+      }
+    }
+
+    if (Object.keys(fields).length === 0) {
+      throw new Error('No key=value pairs found in alert text');
+    }
+    return fields;
+  }
+
+  /**
+   * Read a dot-separated path (e.g. "strategy.order.action") from the payload
+   */
+  private readPath(payload: Record<string, any>, path: string): any {
+    return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), payload);
+  }
+
+  /**
+   * TradingView tickers ("BINANCE:SOLUSDT.P", "SOLUSDT", "B-SOL_USDT") → canonical "SOL_USDT"
+   */
+  normalizePair(raw: string): string {
+    const ticker = raw.trim().toUpperCase().replace(/^[A-Z0-9]+:/, '').replace(/(\.P|PERP)$/, '');
+    if (ticker.includes('_')) {
+      const { base, quote } = splitPair(ticker);
+      return `${base}_${quote}`;
+    }
+    if (/^[A-Z0-9]+-[A-Z0-9]+$/.test(ticker)) {
+      return ticker.replace('-', '_'); // "SOL-USDT"
+    }
+    return joinSymbol(ticker);
+  }
+
+  /**
+   * Apply the source's field mapping and defaults to produce trade data
+   */
+  mapSignal(source: SignalSource, payload: Record<string, any>): MappedSignal {
+    const mapping = (source.fieldMapping || {}) as Partial<Record<SignalFieldKey, string>>;
+    const read = (field: SignalFieldKey) => {
+      const value = this.readPath(payload, mapping[field] || field);
+      return value === undefined || value === null || value === '' ? undefined : value;
+    };
+    const readNumber = (field: SignalFieldKey) => {
+      const value = read(field);
+      if (value === undefined) return undefined;
+      const number = parseFloat(String(value));
+      if (!Number.isFinite(number) || number <= 0) {
+        throw new Error(`Field "${field}" must be a positive number (got "${value}")`);
+      }
+      return number;
+    };
+
+    const rawPair = read('pair');
+    if (!rawPair) {
+      throw new Error(`Missing pair (mapped from "${mapping.pair || 'pair'}")`);
+    }
+
+    const rawSide = read('type');
+    const sideMapping = Object.fromEntries(
+      Object.entries((source.sideMapping || {}) as Record<string, 'buy' | 'sell'>).map(([key, value]) => [key.toLowerCase(), value])
+    );
+    const side = rawSide !== undefined ? (sideMapping[String(rawSide).toLowerCase()] || DEFAULT_SIDES[String(rawSide).toLowerCase()]) : undefined;
+    if (!side) {
+      throw new Error(`Unknown trade side "${rawSide ?? ''}" - add it to the side mapping`);
+    }
+
+    const price = readNumber('price');
+    if (!price) {
+      throw new Error(`Missing price (mapped from "${mapping.price || 'price'}")`);
+    }
+
+    const leverage = Math.round(readNumber('leverage') || source.defaultLeverage || 1);
+    const toText = (value: number | undefined) => value !== undefined ? value.toString() : undefined;
+
+    const trade: InsertTrade = {
+      pair: this.normalizePair(String(rawPair)),
+      type: side,
+      price: price.toString(),
+      leverage,
+      takeProfitTrigger: toText(readNumber('takeProfit1')),
+      takeProfit2: toText(readNumber('takeProfit2')),
+      takeProfit3: toText(readNumber('takeProfit3')),
+      stopLossTrigger: toText(readNumber('stopLoss')),
+      source: 'api',
+      signalType: String(read('signalType') || source.defaultSignalType),
+      channelId: source.channelId || undefined,
+      notes: read('notes') !== undefined ? String(read('notes')) : undefined,
+    };
+
+    const alertId = read('alertId');
+    return { trade, alertId: alertId !== undefined ? String(alertId) : undefined };
+  }
+
+  /**
+   * Constant-time comparison against the source's decrypted secret
+   */
+  verifySecret(source: SignalSource, provided: string | undefined): boolean {
+    if (!provided) return false;
+    const expected = Buffer.from(safeDecrypt(source.secret));
+    const actual = Buffer.from(provided);
+    return expected.length > 0 && expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  private buildDedupeKey(mapped: MappedSignal): string {
+    if (mapped.alertId) {
+      return `id:${mapped.alertId}`;
+    }
+
+    const { pair, type, price, stopLossTrigger, takeProfitTrigger, takeProfit2, takeProfit3 } = mapped.trade;
+    const fingerprint = JSON.stringify([pair, type, price, stopLossTrigger, takeProfitTrigger, takeProfit2, takeProfit3]);
+    return `hash:${crypto.createHash('sha256').update(fingerprint).digest('hex').slice(0, 32)}`;
+  }
+
+  /**
+   * Strip the shared secret before the body is stored in the alert log
+   */
+  private redact(body: unknown, secret: string | undefined): string {
+    let text = typeof body === 'string' ? body : JSON.stringify(body ?? '');
+    if (secret) {
+      text = text.split(secret).join('***');
+    }
+    return text.slice(0, 10000);
+  }
+
+  /**
+   * Handle one inbound alert for the source identified by slug
+   */
+  async ingest(slug: string, body: unknown, headerSecret?: string, querySecret?: string): Promise<SignalIngestResult> {
+    const source = await storage.getSignalSourceBySlug(slug);
+    if (!source || !source.isActive) {
+      return { success: false, statusCode: 404, status: 'not_found', message: 'Unknown or inactive signal source' };
+    }
+
+    let payload: Record<string, any>;
+    try {
+      payload = this.parsePayload(body, source.payloadFormat);
+    } catch (error) {
+      return { success: false, statusCode: 400, status: 'rejected', message: error instanceof Error ? error.message : 'Invalid payload' };
+    }
+
+    // TradingView can't set headers, so the secret may also travel in the URL or the payload itself
+    const providedSecret = headerSecret || querySecret || (payload.secret !== undefined ? String(payload.secret) : undefined);
+    if (!this.verifySecret(source, providedSecret)) {
+      console.warn(`🚫 SIGNAL: Rejected alert for ${source.slug} - invalid secret`);
+      return { success: false, statusCode: 401, status: 'unauthorized', message: 'Invalid webhook secret' };
+    }
+
+    const rawPayload = this.redact(body, providedSecret);
+    await storage.updateSignalSource(source.id, { lastAlertAt: new Date() });
+
+    let mapped: MappedSignal;
+    try {
+      mapped = this.mapSignal(source, payload);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Mapping failed';
+      const alert = await storage.createSignalAlert({
+        sourceId: source.id,
+        dedupeKey: `rejected:${Date.now()}`,
+        payload: rawPayload,
+        status: 'rejected',
+        errorMessage: message,
+      });
+      console.warn(`⚠️ SIGNAL: Rejected alert for ${source.slug}: ${message}`);
+      return { success: false, statusCode: 422, status: 'rejected', message, alertId: alert.id };
+    }
+
+    const dedupeKey = this.buildDedupeKey(mapped);
+    const inFlightKey = `${source.id}:${dedupeKey}`;
+    const since = new Date(Date.now() - source.dedupeWindowSeconds * 1000);
+    const original = this.inFlight.has(inFlightKey)
+      ? { tradeId: null }
+      : await storage.findRecentSignalAlert(source.id, dedupeKey, since);
+
+    if (original) {
+      const alert = await storage.createSignalAlert({
+        sourceId: source.id,
+        dedupeKey,
+        payload: rawPayload,
+        parsedFields: mapped.trade,
+        status: 'duplicate',
+        tradeId: original.tradeId,
+      });
+      console.log(`🔁 SIGNAL: Duplicate alert ignored for ${source.slug} (${dedupeKey})`);
+      return {
+        success: true,
+        statusCode: 200,
+        status: 'duplicate',
+        message: 'Duplicate alert ignored',
+        alertId: alert.id,
+        tradeId: original.tradeId || undefined,
+      };
+    }
+
+    this.inFlight.add(inFlightKey);
+    try {
+      const alert = await storage.createSignalAlert({
+        sourceId: source.id,
+        dedupeKey,
+        payload: rawPayload,
+        parsedFields: mapped.trade,
+        status: 'processing',
+      });
+
+      try {
+        const trade = await tradeRegistrationService.registerTrade({ ...mapped.trade, signalAlertId: alert.id, signalSourceId: source.id });
+        await storage.updateSignalAlert(alert.id, { status: 'created', tradeId: trade.id });
+
+        console.log(`📡 SIGNAL: ${source.slug} alert created trade ${trade.tradeId} (${trade.pair} ${trade.type})`);
+        return { success: true, statusCode: 201, status: 'created', message: 'Trade created', alertId: alert.id, tradeId: trade.id };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Trade creation failed';
+        await storage.updateSignalAlert(alert.id, { status: 'failed', errorMessage: message });
+        console.error(`❌ SIGNAL: Failed to create trade from ${source.slug} alert:`, error);
+        return { success: false, statusCode: 500, status: 'failed', message, alertId: alert.id };
+      }
+    } finally {
+      this.inFlight.delete(inFlightKey);
+    }
+  }
+}
+
+export const signalIngestionService = new SignalIngestionService();
@@ -22,6 +22,21 @@ interface TelegramPhotoMessage {
   };
 }
 
+export interface TelegramEditMessage {
+  text: string; // The caption when editing a photo message
+  parse_mode?: 'HTML' | 'Markdown';
+  disable_web_page_preview?: boolean;
+  reply_markup?: {
+    inline_keyboard: any[][];
+  };
+}
+
+export interface TelegramEditResult {
+  success: boolean;
+  unchanged?: boolean; // Telegram refused because the new content is identical
+  error?: string;
+}
+
 interface TelegramResponse {
   ok: boolean;
   result?: {
@@ -183,6 +198,78 @@ export class TelegramService {
     }
   }
 
+  /**
+   * Replace the text of a message the bot posted - omitting reply_markup removes its buttons
+   */
+  async editMessageText(channelId: string, messageId: string, message: TelegramEditMessage): Promise<TelegramEditResult> {
+    return this.callEditMethod('editMessageText', channelId, messageId, {
+      text: message.text,
+      parse_mode: message.parse_mode || 'HTML',
+      disable_web_page_preview: message.disable_web_page_preview !== false,
+      ...(message.reply_markup && { reply_markup: message.reply_markup }),
+    });
+  }
+
+  /**
+   * Replace the caption of a photo message the bot posted
+   */
+  async editMessageCaption(channelId: string, messageId: string, message: TelegramEditMessage): Promise<TelegramEditResult> {
+    return this.callEditMethod('editMessageCaption', channelId, messageId, {
+      caption: message.text,
+      parse_mode: message.parse_mode || 'HTML',
+      ...(message.reply_markup && { reply_markup: message.reply_markup }),
+    });
+  }
+
+  /**
+   * Delete a message the bot posted - Telegram only allows this for messages under 48 hours old
+   */
+  async deleteMessage(channelId: string, messageId: string): Promise<TelegramEditResult> {
+    return this.callEditMethod('deleteMessage', channelId, messageId, {});
+  }
+
+  private async callEditMethod(
+    method: 'editMessageText' | 'editMessageCaption' | 'deleteMessage',
+    channelId: string,
+    messageId: string,
+    fields: Record<string, unknown>,
+  ): Promise<TelegramEditResult> {
+    try {
+      if (!this.botToken) {
+        throw new Error('Telegram Bot Token not configured');
+      }
+
+      const id = parseInt(messageId);
+      if (!Number.isInteger(id) || id <= 0) {
+        return { success: false, error: `Invalid message ID: ${messageId}` };
+      }
+
+      const response = await axios.post<TelegramResponse>(`${this.baseUrl}/${method}`, {
+        chat_id: channelId,
+        message_id: id,
+        ...fields,
+      });
+
+      if (response.data.ok) {
+        return { success: true };
+      }
+      return { success: false, error: response.data.description || 'Unknown error' };
+    } catch (error) {
+      const description = axios.isAxiosError(error) ? error.response?.data?.description : undefined;
+
+      // Editing to identical content is a 400 from Telegram, but nothing is wrong with the message
+      if (typeof description === 'string' && description.includes('message is not modified')) {
+        return { success: true, unchanged: true };
+      }
+
+      console.error(`Error calling Telegram ${method}:`, description || error);
+      return {
+        success: false,
+        error: description || (error instanceof Error ? error.message : `Failed to ${method}`),
+      };
+    }
+  }
+
   async validateBotToken(): Promise<boolean> {
     try {
       if (!this.botToken) {
@@ -0,0 +1,230 @@
+import { storage } from '../storage';
+import { automationService } from './automationService';
+import {
+  SAMPLE_RESEARCH_REPORT,
+  SAMPLE_TRADE,
+  buildResearchReportTemplateContext,
+  buildSimpleTemplateContext,
+  buildTradeTemplateContext,
+} from '../utils/templateContext';
+import { telegramTextLength, validateTelegramHtml } from '../utils/telegramHtml';
+import {
+  DEFAULT_TEMPLATE_LOCALE,
+  collectTemplateVariables,
+  escapeModeForParseMode,
+  parseTemplate,
+  renderTemplate,
+  type TemplateContext,
+  type TemplateEscapeMode,
+  type TemplateLocale,
+} from '@shared/templateEngine';
+import type {
+  TemplatePreviewButton,
+  TemplatePreviewIssue,
+  TemplatePreviewRequest,
+  TemplatePreviewResult,
+} from '@shared/schema';
+
+// Telegram Bot API limits
+const CAPTION_LIMIT = 1024;
+const MESSAGE_LIMIT = 4096;
+const CALLBACK_DATA_LIMIT = 64; // bytes
+
+const BUTTON_URL_PROTOCOLS = new Set(['http:', 'https:', 'tg:']);
+
+export class TemplatePreviewNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplatePreviewNotFoundError';
+  }
+}
+
+interface PreviewSource {
+  context: TemplateContext;
+  source: TemplatePreviewResult['source'];
+  imageUrl?: string; // Research reports bring their own chart image
+}
+
+/**
+ * Render templates exactly as the automations send them and report what Telegram would reject or change
+ */
+export class TemplatePreviewService {
+  async preview(request: TemplatePreviewRequest): Promise<TemplatePreviewResult> {
+    const { templateType } = request;
+    // Research reports always go out as HTML, whatever the template says
+    const parseMode = templateType === 'research_report' ? 'HTML' : request.parseMode || 'HTML';
+    const escape = escapeModeForParseMode(parseMode);
+    const locale = request.locale || DEFAULT_TEMPLATE_LOCALE;
+    const { context, source, imageUrl: sourceImageUrl } = await this.loadSource(request);
+    const imageUrl = templateType === 'research_report' ? sourceImageUrl : request.imageUrl?.trim();
+    const issues: TemplatePreviewIssue[] = [];
+
+    const { issues: syntaxIssues } = parseTemplate(request.template);
+    for (const issue of syntaxIssues) {
+      issues.push({ severity: 'error', code: 'syntax', message: issue.message, line: issue.line, column: issue.column });
+    }
+
+    for (const name of collectTemplateVariables(request.template)) {
+      if (!(name in context)) {
+        issues.push({ severity: 'warning', code: 'unknown_placeholder', message: `{${name}} is not a ${this.typeLabel(templateType)} variable` });
+      }
+    }
+
+    let text: string | null = null;
+    if (syntaxIssues.length === 0) {
+      try {
+        text = renderTemplate(request.template, context, escape, locale);
+      } catch (error) {
+        issues.push({ severity: 'error', code: 'render', message: error instanceof Error ? error.message : 'Template failed to render' });
+      }
+    }
+
+    if (text !== null && escape === 'HTML') {
+      for (const issue of validateTelegramHtml(text)) {
+        issues.push({ severity: 'error', code: 'html', message: issue.message, line: issue.line, column: issue.column });
+      }
+    }
+
+    // Trade automations fall back to a text message with an image link when the caption is too long, the others don't
+    const rawLength = text?.length ?? 0;
+    const length = text === null ? 0 : telegramTextLength(text, parseMode);
+    let sendAs: TemplatePreviewResult['sendAs'] = imageUrl ? 'photo' : 'text';
+    if (sendAs === 'photo' && templateType === 'trade' && rawLength > CAPTION_LIMIT) {
+      sendAs = 'text';
+      issues.push({
+        severity: 'warning',
+        code: 'caption_length',
+        message: `Message is ${rawLength} characters, over the ${CAPTION_LIMIT}-character photo caption limit - it is sent as text with a "View Image" link instead`,
+      });
+    } else if (sendAs === 'photo' && length > CAPTION_LIMIT) {
+      issues.push({
+        severity: 'error',
+        code: 'caption_length',
+        message: `Caption is ${length} characters - Telegram rejects photo captions over ${CAPTION_LIMIT}`,
+      });
+    }
+    const limit = sendAs === 'photo' ? CAPTION_LIMIT : MESSAGE_LIMIT;
+    if (sendAs === 'text' && length > MESSAGE_LIMIT) {
+      issues.push({
+        severity: 'error',
+        code: 'message_length',
+        message: `Message is ${length} characters - Telegram rejects messages over ${MESSAGE_LIMIT}`,
+      });
+    }
+
+    const buttons = this.renderButtons(request.buttons || [], templateType === 'trade' ? context : null, locale, issues);
+
+    return { text, parseMode, sendAs, length, limit, buttons, source, issues };
+  }
+
+  /**
+   * Variables for the request - the chosen trade / research report, or sample data
+   */
+  private async loadSource(request: TemplatePreviewRequest): Promise<PreviewSource> {
+    if (request.templateType === 'research_report') {
+      if (request.researchReportId) {
+        const report = await storage.getResearchReport(request.researchReportId);
+        if (!report) throw new TemplatePreviewNotFoundError('Research report not found');
+        return {
+          context: buildResearchReportTemplateContext(report),
+          source: { type: 'research_report', id: report.id, label: `${report.pair} (${report.type})` },
+          imageUrl: report.imageUrl,
+        };
+      }
+      return {
+        context: buildResearchReportTemplateContext(SAMPLE_RESEARCH_REPORT),
+        source: { type: 'sample', label: 'Sample research report' },
+        imageUrl: SAMPLE_RESEARCH_REPORT.imageUrl,
+      };
+    }
+
+    if (request.templateType === 'simple') {
+      return { context: buildSimpleTemplateContext(new Date(), request.locale), source: { type: 'sample', label: 'Current time' } };
+    }
+
+    if (request.tradeId) {
+      const trade = await storage.getTrade(request.tradeId);
+      if (!trade) throw new TemplatePreviewNotFoundError('Trade not found');
+      return {
+        context: await automationService.buildTradeContext(trade, request.includeFields),
+        source: { type: 'trade', id: trade.id, label: `${trade.tradeId} - ${trade.pair} ${trade.type.toUpperCase()}` },
+      };
+    }
+    return {
+      context: buildTradeTemplateContext({ ...SAMPLE_TRADE, createdAt: new Date() }, { tickSize: 0.1, includeFields: request.includeFields }),
+      source: { type: 'sample', label: 'Sample trade' },
+    };
+  }
+
+  /**
+   * Buttons as Telegram receives them - only trade automations substitute variables, the others send buttons as written
+   */
+  private renderButtons(
+    rows: any[][],
+    context: TemplateContext | null,
+    locale: TemplateLocale,
+    issues: TemplatePreviewIssue[],
+  ): TemplatePreviewButton[][] {
+    return rows.filter(Array.isArray).map((row, rowIndex) =>
+      row.filter(button => button && typeof button === 'object').map((button: any, columnIndex) => {
+        const position = { row: rowIndex + 1, column: columnIndex + 1 };
+        const report = (severity: TemplatePreviewIssue['severity'], message: string) =>
+          issues.push({ severity, code: 'button', message: `Button ${position.row}.${position.column}: ${message}`, button: position });
+        const render = (source: string, escape: TemplateEscapeMode) => {
+          if (!context) return source;
+          try {
+            return renderTemplate(source, context, escape, locale);
+          } catch (error) {
+            report('error', error instanceof Error ? error.message : 'failed to render');
+            return source;
+          }
+        };
+
+        const rendered: TemplatePreviewButton = { text: render(button.text || '', 'plain') };
+        if (!rendered.text.trim()) report('error', 'text is empty');
+
+        if (!context && [button.text, button.url, button.callback_data].some(value => typeof value === 'string' && /\{[a-zA-Z_]/.test(value))) {
+          report('warning', 'variables are only filled in on trade template buttons - this one is sent as written');
+        }
+
+        if (button.url) {
+          rendered.url = render(button.url, 'url');
+          this.checkButtonUrl(rendered.url, report);
+        } else if (button.callback_data) {
+          rendered.callback_data = render(button.callback_data, 'plain');
+          if (Buffer.byteLength(rendered.callback_data, 'utf8') > CALLBACK_DATA_LIMIT) {
+            report('error', `callback data is over ${CALLBACK_DATA_LIMIT} bytes`);
+          }
+        } else {
+          report('error', 'needs a URL or callback data');
+        }
+
+        return rendered;
+      })
+    ).filter(row => row.length > 0);
+  }
+
+  private checkButtonUrl(url: string, report: (severity: TemplatePreviewIssue['severity'], message: string) => void) {
+    if (!url.trim()) {
+      report('error', 'URL is empty once variables are filled in');
+      return;
+    }
+
+    try {
+      const parsed = new URL(url);
+      if (!BUTTON_URL_PROTOCOLS.has(parsed.protocol)) {
+        report('error', `${parsed.protocol} links are not allowed - use http, https or tg`);
+      } else if (parsed.protocol !== 'tg:' && !parsed.hostname.includes('.')) {
+        report('warning', `"${parsed.hostname}" doesn't look like a public host - Telegram may reject it`);
+      }
+    } catch {
+      report('error', `"${url}" is not a valid absolute URL`);
+    }
+  }
+
+  private typeLabel(templateType: TemplatePreviewRequest['templateType']): string {
+    return templateType === 'research_report' ? 'research report' : templateType;
+  }
+}
+
+export const templatePreviewService = new TemplatePreviewService();
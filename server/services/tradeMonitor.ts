@@ -1,12 +1,17 @@
 import { coindcxService } from './coindcx';
+import { coindcxSocket, CoinDCXPositionUpdate } from './coindcxSocket';
 import { automationService } from './automationService';
 import { copyTradingService } from './copyTradingService';
 import { storage } from '../storage';
+import type { Trade } from '@shared/schema';
 import * as cron from 'node-cron';
 
 export class TradeMonitorService {
   private isRunning = false;
   private cronJob: any = null;
+  private realtimeEnabled = false;
+  private positionQueues = new Map<string, Promise<void>>(); // Per-position chain so stream updates apply one at a time, in order
+  private lastRealtimeEvent: Date | null = null;
 
   constructor() {
     this.isRunning = true;
@@ -127,38 +132,10 @@ export class TradeMonitorService {
       let existingCount = 0;
       
       for (const coindcxTrade of newTrades) {
-        // Create unique identifier with position ID + updated timestamp
-        const uniqueTradeId = `${coindcxTrade.id}_${coindcxTrade.updated_at}`;
-        
-        // Check if this specific position state already exists
-        const existingTrade = await storage.getTradeByTradeId(uniqueTradeId);
-        
-        if (!existingTrade) {
-          // Transform data first to check type
-          const tradeData = coindcxService.transformTradeData(coindcxTrade);
-          
-          // Skip if type is unknown
-          if (tradeData.type === 'unknown') {
-            console.log(`⏭️  Skipped unknown type: ${coindcxTrade.pair} (cannot determine buy/sell)`);
-            existingCount++;
-            continue;
-          }
-          
-          const positionType = (coindcxTrade.active_pos || 0) > 0 ? 'LONG' : 'SHORT';
-          console.log(`🆕 New position: ${coindcxTrade.pair} ${positionType} ${coindcxTrade.leverage}x (${uniqueTradeId})`);
-          
-          // Save new position with unique ID
-          tradeData.tradeId = uniqueTradeId; // Use unique ID
-          const savedTrade = await storage.createTrade(tradeData);
-          
-          // Trigger automation for trade registration
-          await automationService.triggerAutomations(savedTrade, 'trade_registered');
-          
-          // Process copy trading for this new trade
-          await copyTradingService.processNewTradeForCopyTrading(savedTrade);
+        const result = await this.registerPosition(coindcxTrade);
+        if (result === 'created') {
           processedCount++;
         } else {
-          console.log(`✅ Existing position: ${coindcxTrade.pair} (${uniqueTradeId})`);
           existingCount++;
         }
       }
@@ -179,11 +156,147 @@ export class TradeMonitorService {
     }
   }
 
+  /**
+   * Register a single exchange position as a trade (shared by manual sync and the live stream)
+   */
+  private async registerPosition(coindcxTrade: any): Promise<'created' | 'existing' | 'skipped'> {
+    // Create unique identifier with position ID + updated timestamp
+    const uniqueTradeId = `${coindcxTrade.id}_${coindcxTrade.updated_at}`;
+    
+    // Check if this specific position state already exists
+    const existingTrade = await storage.getTradeByTradeId(uniqueTradeId);
+    
+    if (existingTrade) {
+      console.log(`✅ Existing position: ${coindcxTrade.pair} (${uniqueTradeId})`);
+      return 'existing';
+    }
+
+    // Transform data first to check type
+    const tradeData = coindcxService.transformTradeData(coindcxTrade);
+    
+    // Skip if type is unknown
+    if (tradeData.type === 'unknown') {
+      console.log(`⏭️  Skipped unknown type: ${coindcxTrade.pair} (cannot determine buy/sell)`);
+      return 'skipped';
+    }
+    
+    const positionType = (coindcxTrade.active_pos || 0) > 0 ? 'LONG' : 'SHORT';
+    console.log(`🆕 New position: ${coindcxTrade.pair} ${positionType} ${coindcxTrade.leverage}x (${uniqueTradeId})`);
+    
+    // Save new position with unique ID
+    tradeData.tradeId = uniqueTradeId; // Use unique ID
+    const savedTrade = await storage.createTrade(tradeData);
+    
+    // Trigger automation for trade registration
+    await automationService.triggerAutomations(savedTrade, 'trade_registered');
+    
+    // Process copy trading for this new trade
+    await copyTradingService.processNewTradeForCopyTrading(savedTrade);
+    return 'created';
+  }
+
+  /**
+   * Start real-time monitoring over the CoinDCX stream
+   * New positions are registered immediately and closures are flagged as exchange exits
+   */
+  startRealtime(): void {
+    if (this.realtimeEnabled) {
+      return;
+    }
+
+    this.realtimeEnabled = true;
+    coindcxSocket.on('position', this.handlePositionUpdate);
+    coindcxSocket.on('connected', this.handleStreamConnected);
+    coindcxSocket.subscribePrivate();
+    coindcxSocket.connect();
+    console.log('📡 Trade monitoring switched to real-time stream mode');
+  }
+
+  stopRealtime(): void {
+    if (!this.realtimeEnabled) {
+      return;
+    }
+
+    this.realtimeEnabled = false;
+    coindcxSocket.off('position', this.handlePositionUpdate);
+    coindcxSocket.off('connected', this.handleStreamConnected);
+    coindcxSocket.disconnect();
+    console.log('📴 Real-time trade monitoring stopped');
+  }
+
+  /**
+   * Catch up on anything missed while the stream was down
+   */
+  private handleStreamConnected = async (): Promise<void> => {
+    try {
+      const positions = await coindcxService.getRecentTrades(50);
+      for (const position of positions) {
+        await this.handlePositionUpdate(position as CoinDCXPositionUpdate);
+      }
+      console.log(`🔁 Stream (re)connected - reconciled ${positions.length} positions`);
+    } catch (error) {
+      console.error('❌ Catch-up reconciliation after stream connect failed:', error);
+    }
+  };
+
+  private handlePositionUpdate = (position: CoinDCXPositionUpdate): Promise<void> => {
+    this.lastRealtimeEvent = new Date();
+
+    if (!position?.id) {
+      return Promise.resolve();
+    }
+
+    // Updates arriving while one is in flight wait their turn instead of being dropped
+    const next = (this.positionQueues.get(position.id) || Promise.resolve()).then(() => this.applyPositionUpdate(position));
+    this.positionQueues.set(position.id, next);
+    void next.finally(() => {
+      if (this.positionQueues.get(position.id) === next) {
+        this.positionQueues.delete(position.id);
+      }
+    });
+    return next;
+  };
+
+  private async applyPositionUpdate(position: CoinDCXPositionUpdate): Promise<void> {
+    try {
+      // Any status - a completed or manually exited trade whose position is still open must not be registered again
+      const trade = await storage.getLatestTradeByPositionId(position.id);
+      const isOpen = (position.active_pos || 0) !== 0;
+
+      if (isOpen && (!trade || this.isReopenedPosition(trade, position))) {
+        await this.registerPosition(position);
+      } else if (!isOpen && trade && !trade.exchangeExited) {
+        console.log(`🏁 Stream: position closed on exchange for ${trade.pair} (${trade.tradeId})`);
+        // Completed trades keep their own exit - only record that the exchange side is flat now
+        const exitPrice = trade.status === 'active'
+          ? (position.mark_price ? Number(position.mark_price) : coindcxSocket.getLatestPrice(trade.pair))
+          : undefined;
+        await storage.markExchangeExited(trade.id,
+          `🏁 Position closed on exchange (detected via live stream${position.mark_price ? ` at mark ${position.mark_price}` : ''})`,
+          exitPrice
+        );
+      }
+    } catch (error) {
+      console.error(`❌ Error handling stream position update for ${position.id}:`, error);
+    }
+  }
+
+  /**
+   * The position id is reused per pair - it is a new position only once the last trade's exchange side
+   * was seen flat and the update is newer than that
+   */
+  private isReopenedPosition(trade: Trade, position: CoinDCXPositionUpdate): boolean {
+    if (!trade.exchangeExited) return false;
+    const closedAt = (trade.exitTime || trade.updatedAt)?.getTime();
+    return !!position.updated_at && !!closedAt && position.updated_at > closedAt;
+  }
+
   stopMonitoring() {
     if (this.cronJob) {
       this.cronJob.stop();
       this.cronJob = null;
     }
+    this.stopRealtime();
     this.isRunning = false;
     console.log('Trade monitoring stopped');
   }
@@ -191,8 +304,12 @@ export class TradeMonitorService {
   getStatus() {
     return {
       isRunning: this.isRunning,
-      mode: 'manual_sync',
+      mode: this.realtimeEnabled ? 'realtime' : 'manual_sync',
       lastCheck: new Date().toISOString(),
+      stream: {
+        ...coindcxSocket.getStatus(),
+        lastEvent: this.lastRealtimeEvent?.toISOString() || null,
+      },
     };
   }
 }
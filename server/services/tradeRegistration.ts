@@ -0,0 +1,85 @@
+import { storage } from '../storage';
+import { automationService } from './automationService';
+import { copyTradingService } from './copyTradingService';
+import type { InsertTrade, Trade } from '@shared/schema';
+
+/**
+ * Single entry point for trades created outside the CoinDCX sync (dashboard, API, alert webhooks)
+ */
+export class TradeRegistrationService {
+  /**
+   * Fill defaults for manual/API trades - trade ID, total, fee and signal type
+   */
+  applyDefaults(tradeData: InsertTrade): InsertTrade {
+    const data = { ...tradeData };
+
+    // Auto-generate Trade ID if not provided
+    if (!data.tradeId) {
+      const timestamp = Date.now().toString().slice(-6); // Last 6 digits of timestamp
+      const random = Math.random().toString(36).substring(2, 5).toUpperCase(); // Random 3 chars
+      data.tradeId = `T${timestamp}${random}`; // e.g., T789123ABC
+    }
+
+    // If signalType is not provided and source is manual, set to 'manual'
+    if (!data.signalType && data.source === 'manual') {
+      data.signalType = 'manual';
+    }
+
+    // Set default values for manual and API trades
+    if (data.source === 'manual' || data.source === 'api') {
+      if (!data.total) {
+        // Calculate total = price * quantity (using leverage as quantity)
+        data.total = (parseFloat(data.price) * data.leverage).toString();
+        console.log(`✅ Calculated total: ${data.total}`);
+      }
+      if (!data.fee) {
+        data.fee = '0'; // Default fee
+      }
+      if (!data.safebookPrice) {
+        data.safebookPrice = undefined; // Explicitly set to undefined
+      }
+    }
+
+    return data;
+  }
+
+  /**
+   * Create the trade, then fire trade_registered automations and copy trading
+   * Side-effect failures are logged and never fail the trade itself
+   */
+  async registerTrade(tradeData: InsertTrade): Promise<Trade> {
+    const data = this.applyDefaults(tradeData);
+
+    console.log(`📝 Creating new ${data.source} trade:`, {
+      pair: data.pair,
+      type: data.type,
+      leverage: data.leverage,
+      source: data.source,
+      signalType: data.signalType
+    });
+
+    const newTrade = await storage.createTrade(data);
+
+    console.log(`✅ Trade created successfully: ${newTrade.id}`);
+
+    // Trigger automations for the new trade
+    try {
+      await automationService.triggerAutomations(newTrade, 'trade_registered');
+      console.log(`🔔 Automations triggered for trade: ${newTrade.id}`);
+    } catch (error) {
+      console.error(`⚠️ Failed to trigger automations for trade ${newTrade.id}:`, error);
+    }
+
+    // Process copy trading for the new trade
+    try {
+      await copyTradingService.processNewTradeForCopyTrading(newTrade);
+      console.log(`📋 Copy trading processed for trade: ${newTrade.id}`);
+    } catch (error) {
+      console.error(`⚠️ Failed to process copy trading for trade ${newTrade.id}:`, error);
+    }
+
+    return newTrade;
+  }
+}
+
+export const tradeRegistrationService = new TradeRegistrationService();
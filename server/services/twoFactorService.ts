@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { encrypt, decrypt } from '../utils/encryption';
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotpCode } from '../utils/totp';
+import type { User } from '@shared/schema';
+
+const ISSUER = 'Campus For Wisdom';
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * TOTP enrollment and verification for dashboard logins, with single-use recovery codes
+ */
+export class TwoFactorService {
+  isEnabled(user: User): boolean {
+    return !!user.totpEnabledAt && !!user.totpSecret;
+  }
+
+  /**
+   * Store a fresh (not yet enforced) secret - replaces any unfinished enrollment
+   */
+  async beginEnrollment(user: User): Promise<{ secret: string; otpauthUrl: string }> {
+    const secret = generateTotpSecret();
+    await storage.updateUserTwoFactor(user.id, { totpSecret: encrypt(secret), totpEnabledAt: null, totpLastUsedStep: null });
+    return { secret, otpauthUrl: buildOtpAuthUrl(secret, user.username, ISSUER) };
+  }
+
+  /**
+   * Turn 2FA on once the app proves it has the secret - returns the recovery codes, shown only this once
+   */
+  async completeEnrollment(user: User, code: string): Promise<string[] | null> {
+    if (!user.totpSecret || user.totpEnabledAt) return null;
+
+    const step = verifyTotpCode(decrypt(user.totpSecret), code);
+    if (step === null) return null;
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await storage.updateUserTwoFactor(user.id, {
+      totpEnabledAt: new Date(),
+      totpLastUsedStep: step,
+      recoveryCodeHashes: recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode)),
+    });
+    return recoveryCodes;
+  }
+
+  async disable(user: User): Promise<void> {
+    await storage.updateUserTwoFactor(user.id, { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null, recoveryCodeHashes: [] });
+  }
+
+  async regenerateRecoveryCodes(user: User): Promise<string[]> {
+    const recoveryCodes = this.generateRecoveryCodes();
+    await storage.updateUserTwoFactor(user.id, {
+      recoveryCodeHashes: recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode)),
+    });
+    return recoveryCodes;
+  }
+
+  /**
+   * Accept a current authenticator code or an unused recovery code (which is then used up)
+   */
+  async verify(user: User, code: string): Promise<{ valid: boolean; usedRecoveryCode?: boolean }> {
+    if (!this.isEnabled(user)) return { valid: false };
+
+    const step = verifyTotpCode(decrypt(user.totpSecret!), code, user.totpLastUsedStep ?? null);
+    if (step !== null) {
+      // Another request may have accepted the same code since the user was loaded
+      return { valid: await storage.claimTotpStep(user.id, step) };
+    }
+
+    const updated = await storage.consumeRecoveryCode(user.id, this.hashRecoveryCode(code));
+    if (updated) {
+      console.log(`🔐 ${user.username} signed in with a recovery code (${this.remainingRecoveryCodes(updated)} left)`);
+      return { valid: true, usedRecoveryCode: true };
+    }
+
+    return { valid: false };
+  }
+
+  remainingRecoveryCodes(user: User): number {
+    return ((user.recoveryCodeHashes as string[]) || []).length;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  // Case, spaces and the dash don't matter when typing a recovery code back in
+  private hashRecoveryCode(code: string): string {
+    return crypto.createHash('sha256').update(code.toLowerCase().replace(/[^a-z0-9]/g, '')).digest('hex');
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
@@ -0,0 +1,361 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { safeDecrypt } from '../utils/encryption';
+import {
+  WEBHOOK_SCHEMA_VERSION,
+  type CopyTrade,
+  type Trade,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookEnvelope,
+  type WebhookEventType,
+} from '@shared/schema';
+
+// Minutes to wait before retry N (after attempt N failed) - the last entry is the final retry
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60, 360];
+const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+const REQUEST_TIMEOUT_MS = 10000;
+const CLAIM_LEASE_MS = 5 * 60 * 1000; // A claimed delivery nobody finished becomes due again after this
+const MAX_RESPONSE_BODY = 2000;
+
+/**
+ * Outbound webhooks - signed, versioned event pushes with a retried delivery log
+ */
+export class WebhookService {
+  generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  /**
+   * Signature header value: "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>"
+   * Receivers recompute the HMAC over the raw body and reject stale timestamps
+   */
+  sign(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+    const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+  }
+
+  private toNumber(value: unknown): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    const number = typeof value === 'number' ? value : parseFloat(String(value));
+    return Number.isFinite(number) ? number : null;
+  }
+
+  private toIso(value: unknown): string | null {
+    if (!value) return null;
+    const date = value instanceof Date ? value : new Date(String(value));
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  /**
+   * Stable public shape of a trade - decoupled from the table so columns can change without breaking receivers
+   */
+  serializeTrade(trade: Trade) {
+    return {
+      id: trade.id,
+      tradeId: trade.tradeId,
+      pair: trade.pair,
+      side: trade.type.toLowerCase(),
+      price: this.toNumber(trade.price),
+      leverage: trade.leverage,
+      takeProfit1: this.toNumber(trade.takeProfitTrigger),
+      takeProfit2: this.toNumber(trade.takeProfit2),
+      takeProfit3: this.toNumber(trade.takeProfit3),
+      stopLoss: this.toNumber(trade.stopLossTrigger),
+      safebookPrice: this.toNumber(trade.safebookPrice),
+      status: trade.status,
+      targetStatus: trade.targetStatus || [],
+      completionReason: trade.completionReason ?? null,
+      exitPrice: this.toNumber(trade.exitPrice),
+      realizedPnl: this.toNumber(trade.realizedPnl),
+      realizedPnlPercent: this.toNumber(trade.realizedPnlPercent),
+      rMultiple: this.toNumber(trade.rMultiple),
+      source: trade.source,
+      signalType: trade.signalType ?? null,
+      channelId: trade.channelId ?? null,
+      createdAt: this.toIso(trade.createdAt),
+      exitTime: this.toIso(trade.exitTime),
+    };
+  }
+
+  serializeCopyTrade(copyTrade: CopyTrade) {
+    return {
+      id: copyTrade.id,
+      originalTradeId: copyTrade.originalTradeId,
+      copyUserId: copyTrade.copyUserId,
+      exchange: copyTrade.exchange,
+      executedTradeId: copyTrade.executedTradeId ?? null,
+      pair: copyTrade.pair,
+      side: copyTrade.type.toLowerCase(),
+      originalPrice: this.toNumber(copyTrade.originalPrice),
+      executedPrice: this.toNumber(copyTrade.executedPrice),
+      originalQuantity: this.toNumber(copyTrade.originalQuantity),
+      executedQuantity: this.toNumber(copyTrade.executedQuantity),
+      stopLoss: this.toNumber(copyTrade.stopLossPrice),
+      takeProfit: this.toNumber(copyTrade.takeProfitPrice),
+      leverage: copyTrade.leverage,
+      status: copyTrade.status,
+      errorMessage: copyTrade.errorMessage ?? null,
+      executionTime: this.toIso(copyTrade.executionTime),
+      createdAt: this.toIso(copyTrade.createdAt),
+    };
+  }
+
+  serializeResearchReport(report: Record<string, any>) {
+    return {
+      id: report.id ?? null,
+      type: report.type,
+      pair: report.pair,
+      supportLevel: report.supportLevel ?? null,
+      resistanceLevel: report.resistanceLevel ?? null,
+      summary: report.summary ?? null,
+      scenarios: report.scenarios ?? null,
+      breakoutDirection: report.breakoutDirection ?? null,
+      imageUrl: report.imageUrl ?? null,
+    };
+  }
+
+  buildEnvelope<T>(type: WebhookEventType, data: T): WebhookEnvelope<T> {
+    return {
+      id: `evt_${crypto.randomUUID().replace(/-/g, '')}`,
+      type,
+      version: WEBHOOK_SCHEMA_VERSION,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+  }
+
+  private subscribes(endpoint: WebhookEndpoint, type: WebhookEventType): boolean {
+    const events = (endpoint.events || []) as string[];
+    return events.length === 0 || events.includes(type);
+  }
+
+  /**
+   * Queue an event for every subscribed endpoint and attempt delivery right away
+   * Never throws - webhook problems must not affect trading flows
+   */
+  async emit(type: WebhookEventType, data: Record<string, any>): Promise<void> {
+    try {
+      const endpoints = (await storage.getWebhookEndpoints({ isActive: true })).filter(endpoint => this.subscribes(endpoint, type));
+      if (endpoints.length === 0) return;
+
+      const envelope = this.buildEnvelope(type, data);
+      console.log(`🪝 WEBHOOK: ${type} → ${endpoints.length} endpoint(s) (${envelope.id})`);
+
+      for (const endpoint of endpoints) {
+        const delivery = await storage.createWebhookDelivery({
+          endpointId: endpoint.id,
+          eventId: envelope.id,
+          eventType: type,
+          payload: envelope,
+          status: 'pending',
+          nextAttemptAt: new Date(),
+        });
+        void this.attemptDelivery(delivery, endpoint);
+      }
+    } catch (error) {
+      console.error(`❌ WEBHOOK: Failed to queue ${type} event:`, error);
+    }
+  }
+
+  emitTradeEvent(type: WebhookEventType, trade: Trade): Promise<void> {
+    return this.emit(type, { trade: this.serializeTrade(trade) });
+  }
+
+  /**
+   * Emit copy_trade_executed / copy_trade_failed for a copy trade's final state
+   */
+  async emitCopyTradeOutcome(copyTradeId: string): Promise<void> {
+    try {
+      const copyTrade = await storage.getCopyTrade(copyTradeId);
+      if (!copyTrade) return;
+
+      if (copyTrade.status === 'executed') {
+        await this.emit('copy_trade_executed', { copyTrade: this.serializeCopyTrade(copyTrade) });
+      } else if (copyTrade.status === 'failed') {
+        await this.emit('copy_trade_failed', { copyTrade: this.serializeCopyTrade(copyTrade) });
+      }
+    } catch (error) {
+      console.error(`❌ WEBHOOK: Failed to emit copy trade outcome for ${copyTradeId}:`, error);
+    }
+  }
+
+  /**
+   * POST the stored envelope once and record the outcome, scheduling the next retry on failure
+   * The delivery is claimed first (unless the caller already did) so only one run sends it
+   */
+  async attemptDelivery(delivery: WebhookDelivery, endpoint?: WebhookEndpoint, claimed: boolean = false): Promise<WebhookDelivery | undefined> {
+    try {
+      if (!claimed) {
+        const now = new Date();
+        const claim = await storage.claimWebhookDelivery(delivery.id, now, new Date(now.getTime() + CLAIM_LEASE_MS));
+        if (!claim) return delivery; // Another run is sending it, or it is no longer pending
+        delivery = claim;
+      }
+
+      const target = endpoint || await storage.getWebhookEndpoint(delivery.endpointId);
+      if (!target) {
+        return await storage.updateWebhookDelivery(delivery.id, {
+          status: 'failed',
+          lastError: 'Endpoint no longer exists',
+          nextAttemptAt: null,
+        });
+      }
+      if (!target.isActive) {
+        return await storage.updateWebhookDelivery(delivery.id, {
+          status: 'cancelled',
+          lastError: 'Endpoint was deactivated',
+          nextAttemptAt: null,
+        });
+      }
+
+      const attempts = delivery.attempts + 1;
+      const body = JSON.stringify(delivery.payload);
+      let statusCode: number | null = null;
+      let responseBody: string | null = null;
+      let errorMessage: string | null = null;
+
+      try {
+        const response = await axios.post(target.url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'CoinDcxBot-Webhooks/1.0',
+            'X-Webhook-Id': delivery.eventId,
+            'X-Webhook-Event': delivery.eventType,
+            'X-Webhook-Version': WEBHOOK_SCHEMA_VERSION,
+            'X-Webhook-Attempt': String(attempts),
+            'X-Webhook-Signature': this.sign(safeDecrypt(target.secret), body),
+          },
+          timeout: REQUEST_TIMEOUT_MS,
+          maxRedirects: 0,
+          transformResponse: [(data) => data], // Keep raw text for the log
+          validateStatus: () => true,
+        });
+
+        statusCode = response.status;
+        responseBody = typeof response.data === 'string' ? response.data.slice(0, MAX_RESPONSE_BODY) : null;
+        if (response.status < 200 || response.status >= 300) {
+          errorMessage = `Endpoint responded with HTTP ${response.status}`;
+        }
+      } catch (error: any) {
+        errorMessage = error.code === 'ECONNABORTED' ? 'Request timed out' : (error.message || 'Request failed');
+      }
+
+      if (!errorMessage) {
+        console.log(`✅ WEBHOOK: Delivered ${delivery.eventType} to ${target.name} (attempt ${attempts})`);
+        return await storage.updateWebhookDelivery(delivery.id, {
+          status: 'delivered',
+          attempts,
+          lastStatusCode: statusCode,
+          lastError: null,
+          responseBody,
+          deliveredAt: new Date(),
+          nextAttemptAt: null,
+        });
+      }
+
+      const retryDelay = attempts < MAX_ATTEMPTS ? RETRY_DELAYS_MINUTES[attempts - 1] : undefined;
+      const nextAttemptAt = retryDelay !== undefined ? new Date(Date.now() + retryDelay * 60 * 1000) : null;
+      console.warn(`⚠️ WEBHOOK: ${delivery.eventType} to ${target.name} failed (attempt ${attempts}/${MAX_ATTEMPTS}): ${errorMessage}${nextAttemptAt ? ` - retrying in ${retryDelay}m` : ' - giving up'}`);
+
+      return await storage.updateWebhookDelivery(delivery.id, {
+        status: nextAttemptAt ? 'pending' : 'failed',
+        attempts,
+        lastStatusCode: statusCode,
+        lastError: errorMessage,
+        responseBody,
+        nextAttemptAt,
+      });
+    } catch (error) {
+      console.error(`❌ WEBHOOK: Error attempting delivery ${delivery.id}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Retry every pending delivery whose backoff has elapsed (webhook.retry_due job)
+   */
+  async processDueDeliveries(): Promise<number> {
+    const now = new Date();
+    const due = await storage.claimDueWebhookDeliveries(now, new Date(now.getTime() + CLAIM_LEASE_MS));
+    if (due.length === 0) return 0;
+
+    console.log(`🔁 WEBHOOK: Retrying ${due.length} due deliveries`);
+    for (const delivery of due) {
+      await this.attemptDelivery(delivery, undefined, true);
+    }
+    return due.length;
+  }
+
+  /**
+   * Re-send a logged delivery as a new delivery row with the same event id and payload
+   */
+  async replayDelivery(id: string): Promise<{ success: boolean; message: string; delivery?: WebhookDelivery }> {
+    try {
+      const original = await storage.getWebhookDelivery(id);
+      if (!original) {
+        return { success: false, message: 'Delivery not found' };
+      }
+
+      const endpoint = await storage.getWebhookEndpoint(original.endpointId);
+      if (!endpoint) {
+        return { success: false, message: 'Endpoint no longer exists' };
+      }
+      if (!endpoint.isActive) {
+        return { success: false, message: 'Endpoint is inactive - activate it before replaying' };
+      }
+
+      const replay = await storage.createWebhookDelivery({
+        endpointId: original.endpointId,
+        eventId: original.eventId,
+        eventType: original.eventType,
+        payload: original.payload,
+        status: 'pending',
+        nextAttemptAt: new Date(),
+        replayOf: original.id,
+      });
+
+      const result = await this.attemptDelivery(replay, endpoint);
+      const delivered = result?.status === 'delivered';
+      return {
+        success: delivered,
+        message: delivered ? 'Delivery replayed successfully' : `Replay failed: ${result?.lastError || 'unknown error'} - will retry automatically`,
+        delivery: result,
+      };
+    } catch (error) {
+      console.error(`❌ WEBHOOK: Failed to replay delivery ${id}:`, error);
+      return { success: false, message: 'Failed to replay delivery' };
+    }
+  }
+
+  /**
+   * Send a ping event to one endpoint regardless of its subscriptions
+   */
+  async sendTestPing(endpointId: string): Promise<{ success: boolean; message: string; delivery?: WebhookDelivery }> {
+    const endpoint = await storage.getWebhookEndpoint(endpointId);
+    if (!endpoint) {
+      return { success: false, message: 'Endpoint not found' };
+    }
+
+    const envelope = this.buildEnvelope('ping', { message: 'Test event from CoinDcxBot', endpointId: endpoint.id });
+    const delivery = await storage.createWebhookDelivery({
+      endpointId: endpoint.id,
+      eventId: envelope.id,
+      eventType: 'ping',
+      payload: envelope,
+      status: 'pending',
+      nextAttemptAt: new Date(),
+    });
+
+    const result = await this.attemptDelivery(delivery, endpoint);
+    const delivered = result?.status === 'delivered';
+    return {
+      success: delivered,
+      message: delivered ? `Endpoint responded with HTTP ${result?.lastStatusCode}` : `Ping failed: ${result?.lastError || 'unknown error'}`,
+      delivery: result,
+    };
+  }
+}
+
+export const webhookService = new WebhookService();
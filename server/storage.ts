@@ -1,21 +1,34 @@
 import {
+  sessions,
   users,
   telegramChannels,
   messageTemplates,
+  messageTemplateVersions,
   trades,
   automations,
   sentMessages,
+  sentMessageEdits,
   copyTradingUsers,
   copyTrades,
   copyTradingApplications,
+  copyTradingUserAuditLogs,
   otpVerifications,
   researchReports,
+  signalSources,
+  signalAlerts,
+  webhookEndpoints,
+  webhookDeliveries,
+  jobs,
+  auditLogs,
+  userInvites,
+  apiKeys,
   type User,
   type InsertUser,
   type TelegramChannel,
   type InsertTelegramChannel,
   type MessageTemplate,
   type InsertMessageTemplate,
+  type MessageTemplateVersion,
   type Trade,
   type InsertTrade,
   type CompleteTrade,
@@ -28,10 +41,15 @@ import {
   type InsertAutomation,
   type SentMessage,
   type InsertSentMessage,
+  type SentMessageEdit,
+  type InsertSentMessageEdit,
   type CopyTradingUser,
   type InsertCopyTradingUser,
   type CopyTrade,
   type InsertCopyTrade,
+  type CopyTradePartialClose,
+  type CopyTradeExecutionRow,
+  type CopyTradeRiskSnapshot,
   type ResearchReport,
   type InsertResearchReport,
   type OtpVerification,
@@ -40,22 +58,137 @@ import {
   type SendOtp,
   type SendUserAccessOtp,
   type VerifyUserAccessOtp,
+  type CopyTradingUserAuditLog,
+  type InsertCopyTradingUserAuditLog,
+  type DailyPnl,
+  type DailyPnlQuery,
+  type SignalSource,
+  type InsertSignalSource,
+  type SignalAlert,
+  type InsertSignalAlert,
+  type WebhookEndpoint,
+  type InsertWebhookEndpoint,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type Job,
+  type InsertJob,
+  type AuditLog,
+  type InsertAuditLog,
+  type AuditLogQuery,
+  type UserInvite,
+  type InsertUserInvite,
+  type ApiKey,
+  type InsertApiKey,
+  type EncryptedTable,
   normalizeTargetStatus,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, sql, and, or, ilike } from "drizzle-orm";
+import { eq, desc, sql, and, or, ilike, like, gte, lte, lt, inArray, isNull, isNotNull } from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
 import { encrypt, decrypt, safeDecrypt } from "./utils/encryption";
+import { buildTradePnlFields, calculatePerformanceStats, calculateRealizedPnl, getExitPriceForReason, type PerformanceStats } from "./utils/pnl";
+
+// Who changed a template and why - recorded on the version the change creates
+export interface TemplateVersionInfo {
+  createdBy?: string | null;
+  createdByName?: string | null;
+  note?: string | null;
+  restoredFromVersion?: number | null;
+}
+
+// Template columns that make up a version - name, type, active and archived flags aren't versioned
+export const VERSIONED_TEMPLATE_FIELDS = ['template', 'includeFields', 'buttons', 'parseMode', 'imageUrl', 'localeVariants'] as const;
+
+type TemplateContent = Pick<MessageTemplate, typeof VERSIONED_TEMPLATE_FIELDS[number]>;
+
+export function templateContent(source: TemplateContent): TemplateContent {
+  return {
+    template: source.template,
+    includeFields: source.includeFields,
+    buttons: source.buttons,
+    parseMode: source.parseMode,
+    imageUrl: source.imageUrl,
+    localeVariants: source.localeVariants,
+  };
+}
+
+export interface EncryptedValueRow {
+  id: string;
+  label: string;
+  values: Record<string, string | null>; // Raw stored values, still encrypted
+}
+
+// Columns holding utils/encryption ciphertexts - walked by key rotation and the encryption health report
+const ENCRYPTED_COLUMNS: Record<EncryptedTable, { table: PgTable; id: PgColumn; label: PgColumn; fields: Record<string, PgColumn> }> = {
+  copy_trading_users: {
+    table: copyTradingUsers,
+    id: copyTradingUsers.id,
+    label: copyTradingUsers.name,
+    fields: { apiKey: copyTradingUsers.apiKey, apiSecret: copyTradingUsers.apiSecret },
+  },
+  copy_trading_applications: {
+    table: copyTradingApplications,
+    id: copyTradingApplications.id,
+    label: copyTradingApplications.name,
+    fields: { apiKey: copyTradingApplications.apiKey, apiSecret: copyTradingApplications.apiSecret },
+  },
+  signal_sources: {
+    table: signalSources,
+    id: signalSources.id,
+    label: signalSources.name,
+    fields: { secret: signalSources.secret },
+  },
+  webhook_endpoints: {
+    table: webhookEndpoints,
+    id: webhookEndpoints.id,
+    label: webhookEndpoints.name,
+    fields: { secret: webhookEndpoints.secret },
+  },
+  users: {
+    table: users,
+    id: users.id,
+    label: users.username,
+    fields: { totpSecret: users.totpSecret },
+  },
+};
 
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  createFirstOwner(user: Omit<InsertUser, 'role'>): Promise<User | undefined>;
+  promoteLegacyAdminsToOwner(): Promise<User[]>;
+  getUsers(): Promise<User[]>;
+  countUsers(role?: string): Promise<number>;
+  updateUserRole(id: string, role: string): Promise<User | undefined>;
+  deleteUser(id: string): Promise<boolean>;
+  updateUserTwoFactor(id: string, fields: Partial<Pick<User, 'totpSecret' | 'totpEnabledAt' | 'totpLastUsedStep' | 'recoveryCodeHashes'>>): Promise<User | undefined>;
+  claimTotpStep(id: string, step: number): Promise<boolean>;
+  consumeRecoveryCode(id: string, hash: string): Promise<User | undefined>;
+  recordFailedAuthAttempt(id: string, maxAttempts: number, lockoutMs: number): Promise<User | undefined>;
+  resetFailedAuthAttempts(id: string): Promise<void>;
+
+  // Dashboard session operations (rows written by connect-pg-simple)
+  getUserSessions(userId: string): Promise<{ sid: string; sess: any; expire: Date }[]>;
+  deleteUserSession(sid: string, userId: string): Promise<boolean>;
+  deleteOtherUserSessions(userId: string, keepSid: string): Promise<number>;
+
+  // Admin invite operations
+  createUserInvite(invite: InsertUserInvite): Promise<UserInvite>;
+  getPendingUserInvites(): Promise<UserInvite[]>;
+  getUserInviteByTokenHash(tokenHash: string): Promise<UserInvite | undefined>;
+  markUserInviteAccepted(id: string, userId: string): Promise<UserInvite | undefined>;
+  deleteUserInvite(id: string): Promise<boolean>;
   
   // API Key operations
-  getUserApiKey(userId: string): Promise<string | undefined>;
-  generateApiKey(userId: string): Promise<string>;
-  validateApiKey(apiKey: string): Promise<User | undefined>;
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  getApiKeysByUser(userId: string): Promise<ApiKey[]>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  revokeApiKey(id: string, userId: string): Promise<ApiKey | undefined>;
+  recordApiKeyUsage(id: string, ipAddress: string | null): Promise<void>;
+  getUsersWithLegacyApiKey(): Promise<User[]>;
+  clearLegacyApiKey(userId: string): Promise<void>;
 
   // Telegram channel operations
   getTelegramChannels(): Promise<TelegramChannel[]>;
@@ -67,9 +200,12 @@ export interface IStorage {
   // Message template operations
   getMessageTemplates(channelId?: string): Promise<MessageTemplate[]>;
   getMessageTemplate(id: string): Promise<MessageTemplate | undefined>;
-  createMessageTemplate(template: InsertMessageTemplate): Promise<MessageTemplate>;
-  updateMessageTemplate(id: string, template: Partial<InsertMessageTemplate>): Promise<MessageTemplate | undefined>;
+  createMessageTemplate(template: InsertMessageTemplate, info?: TemplateVersionInfo): Promise<MessageTemplate>;
+  updateMessageTemplate(id: string, template: Partial<InsertMessageTemplate>, info?: TemplateVersionInfo): Promise<MessageTemplate | undefined>;
   deleteMessageTemplate(id: string): Promise<boolean>;
+  getMessageTemplateVersions(templateId: string): Promise<MessageTemplateVersion[]>;
+  getMessageTemplateVersion(templateId: string, version: number): Promise<MessageTemplateVersion | undefined>;
+  getMessageTemplateAtVersion(id: string, version?: number | null): Promise<MessageTemplate | undefined>;
 
   // Trade operations
   getTrades(filters?: {
@@ -80,23 +216,28 @@ export interface IStorage {
     offset?: number;
   }): Promise<{ trades: Trade[]; total: number }>;
   getTrade(id: string): Promise<Trade | undefined>;
+  getTradesCreatedBetween(from: Date, to: Date, channelId?: string): Promise<Trade[]>;
+  getActiveTrades(): Promise<Trade[]>;
+  getLatestTradeByPositionId(positionId: string): Promise<Trade | undefined>;
   getTradeByTradeId(tradeId: string): Promise<Trade | undefined>;
   createTrade(trade: InsertTrade): Promise<Trade>;
   updateTrade(id: string, trade: UpdateTrade): Promise<Trade | undefined>;
   deleteTrade(id: string): Promise<boolean>;
   completeTrade(id: string, completion: CompleteTrade): Promise<Trade | undefined>;
   reopenTrade(id: string): Promise<Trade | undefined>;
-  manualExitTrade(id: string, notes: string): Promise<Trade | undefined>;
-  markExchangeExited(id: string, note: string): Promise<Trade | undefined>;
+  manualExitTrade(id: string, notes: string, exitPrice?: number): Promise<Trade | undefined>;
+  markExchangeExited(id: string, note: string, exitPrice?: number): Promise<Trade | undefined>;
   addTradeNote(id: string, note: string): Promise<Trade | undefined>;
   // New V2 target status method supporting all 5 target types with business logic
-  updateTradeTargetStatusV2(id: string, targetUpdate: UpdateTargetStatus): Promise<{trade: Trade | undefined, autoCompleted: boolean}>;
+  updateTradeTargetStatusV2(id: string, targetUpdate: UpdateTargetStatus): Promise<{trade: Trade | undefined, autoCompleted: boolean, applied: boolean}>;
   updateTradeSafebook(id: string, safebook: UpdateSafebook): Promise<Trade | undefined>;
   getTradeStats(): Promise<{
     total: number;
     active: number;
     completed: number;
-  }>;
+  } & PerformanceStats>;
+  getDailyPnl(filters?: DailyPnlQuery): Promise<DailyPnl[]>;
+  backfillTradeExitTimes(): Promise<number>;
   // Legacy method - deprecated but kept for backward compatibility
   updateTradeTargetStatus(id: string, targetType: 't1' | 't2', hit: boolean): Promise<Trade | undefined>;
 
@@ -114,6 +255,9 @@ export interface IStorage {
     offset?: number;
   }): Promise<any[]>; // Returns sent messages with automation and trade details
   logSentMessage(message: InsertSentMessage): Promise<SentMessage>;
+  getPostedTradeMessages(tradeId: string): Promise<{ message: SentMessage; automation: Automation | null }[]>;
+  recordSentMessageEdit(message: SentMessage, edit: Omit<InsertSentMessageEdit, 'sentMessageId' | 'automationId' | 'tradeId' | 'channelId' | 'telegramMessageId'>): Promise<SentMessageEdit>;
+  getSentMessageEdits(sentMessageId: string): Promise<SentMessageEdit[]>;
 
   // Copy Trading operations
   getCopyTradingUsers(): Promise<CopyTradingUser[]>;
@@ -143,6 +287,8 @@ export interface IStorage {
   sendUserAccessOtp(data: SendUserAccessOtp): Promise<{ success: boolean; message: string }>;
   verifyUserAccessOtp(data: VerifyUserAccessOtp): Promise<{ success: boolean; copyTradingUser?: CopyTradingUser; message: string }>;
   cleanupExpiredUserOtps(): Promise<number>;
+  createCopyTradingUserAuditLog(entry: InsertCopyTradingUserAuditLog): Promise<CopyTradingUserAuditLog>;
+  getCopyTradingUserAuditLogs(copyUserId: string, limit?: number): Promise<CopyTradingUserAuditLog[]>;
   
   // Copy Trade operations
   getCopyTrades(filters?: {
@@ -151,9 +297,11 @@ export interface IStorage {
     limit?: number;
     offset?: number;
   }): Promise<{ copyTrades: any[]; total: number }>;
+  getCopyTrade(id: string): Promise<CopyTrade | undefined>;
   getCopyTradesByOriginalId(originalTradeId: string): Promise<CopyTrade[]>;
   createCopyTrade(copyTrade: InsertCopyTrade): Promise<CopyTrade>;
   updateCopyTradeStatus(id: string, status: string, errorMessage?: string, orderParameters?: any): Promise<CopyTrade | undefined>;
+  claimCopyTradeSubmission(id: string, orderParameters: any): Promise<boolean>;
   updateCopyTradeExecution(id: string, executionDetails: {
     executedTradeId?: string;
     executedPrice?: number;
@@ -161,6 +309,37 @@ export interface IStorage {
     leverage?: number;
     orderParameters?: any;
   }): Promise<CopyTrade | undefined>;
+  updateCopyTradePnl(id: string, pnlDetails: {
+    exitPrice: number;
+    exitTime: Date;
+    fees?: number;
+    executedPrice?: number;
+    executedQuantity?: number;
+    filledAt?: Date;
+    pnlSource: 'estimated' | 'exchange';
+  }): Promise<CopyTrade | undefined>;
+  getCopyTradesPendingPnlReconciliation(since: Date): Promise<CopyTrade[]>;
+  getCopyTradesForLifecycleReconciliation(since: Date): Promise<CopyTrade[]>;
+  getOpenPaperCopyTrades(executedBefore: Date): Promise<CopyTrade[]>;
+  updateCopyTradeLifecycle(id: string, lifecycle: {
+    status?: string;
+    errorMessage?: string;
+    executedPrice?: number;
+    executedQuantity?: number;
+    orderStatus?: string;
+    filledAt?: Date;
+    positionStatus?: string | null;
+    closeReason?: string | null;
+    driftDetails?: string[] | null;
+  }): Promise<CopyTrade | undefined>;
+  updateCopyTradeMirroredState(id: string, state: {
+    stopLossPrice?: number;
+    takeProfitPrice?: number;
+    remainingQuantity?: number;
+    partialCloses?: CopyTradePartialClose[];
+  }): Promise<CopyTrade | undefined>;
+  getCopyTradeRiskSnapshot(userId: string, dayStart: Date, weekStart: Date): Promise<CopyTradeRiskSnapshot>;
+  getCopyTradeExecutionRows(since: Date, userId?: string): Promise<CopyTradeExecutionRow[]>;
   
   // Research Report operations
   getResearchReports(filters?: {
@@ -172,6 +351,57 @@ export interface IStorage {
   createResearchReport(report: InsertResearchReport): Promise<ResearchReport>;
   updateResearchReport(id: string, report: Partial<InsertResearchReport>): Promise<ResearchReport | undefined>;
   deleteResearchReport(id: string): Promise<boolean>;
+
+  // Signal source (inbound alert webhook) operations
+  getSignalSources(): Promise<SignalSource[]>;
+  getSignalSource(id: string): Promise<SignalSource | undefined>;
+  getSignalSourceBySlug(slug: string): Promise<SignalSource | undefined>;
+  createSignalSource(source: InsertSignalSource & { secret: string }): Promise<SignalSource>;
+  updateSignalSource(id: string, source: Partial<InsertSignalSource> & { secret?: string; lastAlertAt?: Date }): Promise<SignalSource | undefined>;
+  deleteSignalSource(id: string): Promise<boolean>;
+  createSignalAlert(alert: InsertSignalAlert): Promise<SignalAlert>;
+  updateSignalAlert(id: string, alert: Partial<InsertSignalAlert>): Promise<SignalAlert | undefined>;
+  findRecentSignalAlert(sourceId: string, dedupeKey: string, since: Date): Promise<SignalAlert | undefined>;
+  getSignalAlerts(sourceId: string, limit?: number): Promise<SignalAlert[]>;
+
+  // Outbound webhook operations
+  getWebhookEndpoints(filters?: { isActive?: boolean }): Promise<WebhookEndpoint[]>;
+  getWebhookEndpoint(id: string): Promise<WebhookEndpoint | undefined>;
+  createWebhookEndpoint(endpoint: InsertWebhookEndpoint & { secret: string }): Promise<WebhookEndpoint>;
+  updateWebhookEndpoint(id: string, endpoint: Partial<InsertWebhookEndpoint> & { secret?: string }): Promise<WebhookEndpoint | undefined>;
+  deleteWebhookEndpoint(id: string): Promise<boolean>;
+  getWebhookDeliveries(filters?: {
+    endpointId?: string;
+    status?: string;
+    eventType?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ deliveries: any[]; total: number }>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: string, delivery: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  claimDueWebhookDeliveries(now: Date, leaseUntil: Date, limit?: number): Promise<WebhookDelivery[]>;
+  claimWebhookDelivery(id: string, now: Date, leaseUntil: Date): Promise<WebhookDelivery | undefined>;
+
+  // Job queue operations
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: string): Promise<Job | undefined>;
+  getActiveJobByUniqueKey(uniqueKey: string): Promise<Job | undefined>;
+  claimDueJobs(limit: number): Promise<Job[]>;
+  updateJob(id: string, job: Partial<InsertJob>): Promise<Job | undefined>;
+  releaseStaleJobs(lockedBefore: Date): Promise<number>;
+  deleteJob(id: string): Promise<boolean>;
+  deleteCompletedJobs(completedBefore: Date): Promise<number>;
+  getJobs(filters?: { status?: string; type?: string; limit?: number; offset?: number }): Promise<{ jobs: Job[]; total: number }>;
+  getJobStats(): Promise<Record<string, number>>;
+
+  // Audit log operations - append-only, there is deliberately no update or delete
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(query: AuditLogQuery): Promise<{ logs: AuditLog[]; total: number }>;
+
+  // Encrypted column operations (key rotation)
+  getEncryptedValues(table: EncryptedTable): Promise<EncryptedValueRow[]>;
+  replaceEncryptedValue(table: EncryptedTable, id: string, field: string, expected: string, next: string): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -191,23 +421,219 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // The lock serializes concurrent first sign-ups so only one of them can become the owner
+  async createFirstOwner(userData: Omit<InsertUser, 'role'>): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('users.first_owner'))`);
+      const [existing] = await tx.select({ id: users.id }).from(users).limit(1);
+      if (existing) return undefined;
+
+      const [user] = await tx.insert(users).values({ ...userData, role: 'owner' }).returning();
+      return user;
+    });
+  }
+
+  // Accounts from before roles existed signed up without an invite - with no owner left, they become owners again.
+  // Shares the first-owner lock so it can't interleave with a first sign-up
+  async promoteLegacyAdminsToOwner(): Promise<User[]> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('users.first_owner'))`);
+      const [owner] = await tx.select({ id: users.id }).from(users).where(eq(users.role, 'owner')).limit(1);
+      if (owner) return [];
+
+      return await tx
+        .update(users)
+        .set({ role: 'owner', updatedAt: new Date() })
+        .where(sql`NOT EXISTS (SELECT 1 FROM ${userInvites} WHERE ${userInvites.acceptedBy} = ${users.id})`)
+        .returning();
+    });
+  }
+
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.createdAt);
+  }
+
+  async countUsers(role?: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(users)
+      .where(role ? eq(users.role, role) : undefined);
+    return Number(result?.count || 0);
+  }
+
+  async updateUserRole(id: string, role: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const result = await db.delete(users).where(eq(users.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async updateUserTwoFactor(id: string, fields: Partial<Pick<User, 'totpSecret' | 'totpEnabledAt' | 'totpLastUsedStep' | 'recoveryCodeHashes'>>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ ...fields, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Only moves forward - a code already accepted by a concurrent request updates no row and is rejected
+  async claimTotpStep(id: string, step: number): Promise<boolean> {
+    const [user] = await db
+      .update(users)
+      .set({ totpLastUsedStep: step, updatedAt: new Date() })
+      .where(and(
+        eq(users.id, id),
+        sql`coalesce(${users.totpLastUsedStep}, -1) < ${step}`
+      ))
+      .returning({ id: users.id });
+    return !!user;
+  }
+
+  // Removes the hash only if it's still there, so a recovery code can be used once even under concurrent requests
+  async consumeRecoveryCode(id: string, hash: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ recoveryCodeHashes: sql`${users.recoveryCodeHashes} - ${hash}::text`, updatedAt: new Date() })
+      .where(and(
+        eq(users.id, id),
+        sql`${users.recoveryCodeHashes} @> ${JSON.stringify([hash])}::jsonb`
+      ))
+      .returning();
+    return user;
+  }
+
+  // One atomic update so concurrent wrong codes can't slip past the limit - reaching it locks the user and restarts the count
+  async recordFailedAuthAttempt(id: string, maxAttempts: number, lockoutMs: number): Promise<User | undefined> {
+    const reachedLimit = sql`${users.failedAuthAttempts} + 1 >= ${maxAttempts}`;
+    const [user] = await db
+      .update(users)
+      .set({
+        failedAuthAttempts: sql`CASE WHEN ${reachedLimit} THEN 0 ELSE ${users.failedAuthAttempts} + 1 END`,
+        authLockedUntil: sql`CASE WHEN ${reachedLimit} THEN ${new Date(Date.now() + lockoutMs)} ELSE ${users.authLockedUntil} END`,
+      })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async resetFailedAuthAttempts(id: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ failedAuthAttempts: 0, authLockedUntil: null })
+      .where(eq(users.id, id));
+  }
+
+  // Dashboard session operations - passport keeps the signed-in user id at sess.passport.user
+  async getUserSessions(userId: string): Promise<{ sid: string; sess: any; expire: Date }[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(and(sql`${sessions.sess}->'passport'->>'user' = ${userId}`, gte(sessions.expire, new Date())))
+      .orderBy(desc(sessions.expire));
+  }
+
+  async deleteUserSession(sid: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(sessions)
+      .where(and(eq(sessions.sid, sid), sql`${sessions.sess}->'passport'->>'user' = ${userId}`));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteOtherUserSessions(userId: string, keepSid: string): Promise<number> {
+    const result = await db
+      .delete(sessions)
+      .where(and(sql`${sessions.sess}->'passport'->>'user' = ${userId}`, sql`${sessions.sid} <> ${keepSid}`));
+    return result.rowCount ?? 0;
+  }
+
+  // Admin invite operations
+  async createUserInvite(invite: InsertUserInvite): Promise<UserInvite> {
+    const [created] = await db.insert(userInvites).values(invite).returning();
+    return created;
+  }
+
+  async getPendingUserInvites(): Promise<UserInvite[]> {
+    return await db
+      .select()
+      .from(userInvites)
+      .where(and(sql`${userInvites.acceptedAt} IS NULL`, gte(userInvites.expiresAt, new Date())))
+      .orderBy(desc(userInvites.createdAt));
+  }
+
+  async getUserInviteByTokenHash(tokenHash: string): Promise<UserInvite | undefined> {
+    const [invite] = await db.select().from(userInvites).where(eq(userInvites.tokenHash, tokenHash));
+    return invite;
+  }
+
+  async markUserInviteAccepted(id: string, userId: string): Promise<UserInvite | undefined> {
+    // Only the first acceptance wins - a token can't be replayed to create a second account
+    const [invite] = await db
+      .update(userInvites)
+      .set({ acceptedAt: new Date(), acceptedBy: userId })
+      .where(and(eq(userInvites.id, id), sql`${userInvites.acceptedAt} IS NULL`))
+      .returning();
+    return invite;
+  }
+
+  async deleteUserInvite(id: string): Promise<boolean> {
+    const result = await db.delete(userInvites).where(eq(userInvites.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   // API Key operations
-  async getUserApiKey(userId: string): Promise<string | undefined> {
-    const [user] = await db.select({ apiKey: users.apiKey }).from(users).where(eq(users.id, userId));
-    return user?.apiKey || undefined;
+  async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
+    const [created] = await db.insert(apiKeys).values(apiKey).returning();
+    return created;
   }
 
-  async generateApiKey(userId: string): Promise<string> {
-    // Generate a secure random API key
-    const apiKey = `cfw_${Buffer.from(`${userId}_${Date.now()}_${Math.random()}`).toString('base64').replace(/[/+=]/g, '').substring(0, 32)}`;
-    
-    await db.update(users).set({ apiKey }).where(eq(users.id, userId));
+  async getApiKeysByUser(userId: string): Promise<ApiKey[]> {
+    return await db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
     return apiKey;
   }
 
-  async validateApiKey(apiKey: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.apiKey, apiKey));
-    return user;
+  async revokeApiKey(id: string, userId: string): Promise<ApiKey | undefined> {
+    // Revoked rather than deleted so the usage history stays readable
+    const [apiKey] = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), sql`${apiKeys.revokedAt} IS NULL`))
+      .returning();
+    return apiKey;
+  }
+
+  async recordApiKeyUsage(id: string, ipAddress: string | null): Promise<void> {
+    await db
+      .update(apiKeys)
+      .set({
+        lastUsedAt: new Date(),
+        lastUsedIp: ipAddress,
+        requestCount: sql`${apiKeys.requestCount} + 1`,
+      })
+      .where(eq(apiKeys.id, id));
+  }
+
+  async getUsersWithLegacyApiKey(): Promise<User[]> {
+    return await db.select().from(users).where(sql`${users.apiKey} IS NOT NULL`);
+  }
+
+  async clearLegacyApiKey(userId: string): Promise<void> {
+    await db.update(users).set({ apiKey: null }).where(eq(users.id, userId));
   }
 
   // Telegram channel operations
@@ -272,24 +698,62 @@ export class DatabaseStorage implements IStorage {
     return template;
   }
 
-  async createMessageTemplate(template: InsertMessageTemplate): Promise<MessageTemplate> {
+  async createMessageTemplate(template: InsertMessageTemplate, info: TemplateVersionInfo = {}): Promise<MessageTemplate> {
     // Set default includeFields if not provided (since UI no longer sends it)
     const templateWithDefaults = {
       ...template,
       includeFields: template.includeFields || {} // Default empty object
     };
     
-    const [newTemplate] = await db.insert(messageTemplates).values(templateWithDefaults).returning();
-    return newTemplate;
+    return await db.transaction(async (tx) => {
+      const [newTemplate] = await tx.insert(messageTemplates).values({ ...templateWithDefaults, currentVersion: 1 }).returning();
+      await tx.insert(messageTemplateVersions).values({
+        templateId: newTemplate.id,
+        version: 1,
+        ...templateContent(newTemplate),
+        ...info,
+        note: info.note || 'Created',
+      });
+      return newTemplate;
+    });
   }
 
-  async updateMessageTemplate(id: string, template: Partial<InsertMessageTemplate>): Promise<MessageTemplate | undefined> {
-    const [updatedTemplate] = await db
-      .update(messageTemplates)
-      .set({ ...template, updatedAt: new Date() })
-      .where(eq(messageTemplates.id, id))
-      .returning();
-    return updatedTemplate;
+  async updateMessageTemplate(id: string, template: Partial<InsertMessageTemplate>, info: TemplateVersionInfo = {}): Promise<MessageTemplate | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(messageTemplates).where(eq(messageTemplates.id, id)).for('update');
+      if (!current) return undefined;
+
+      // Only content changes make a new version - archiving or renaming doesn't
+      const changed = VERSIONED_TEMPLATE_FIELDS.some(field =>
+        template[field] !== undefined && JSON.stringify(template[field]) !== JSON.stringify(current[field])
+      );
+      let currentVersion = current.currentVersion;
+
+      if (changed) {
+        // Templates from before version history get their current content recorded first, so it can be rolled back to
+        await tx.insert(messageTemplateVersions).values({
+          templateId: id,
+          version: current.currentVersion,
+          ...templateContent(current),
+          note: 'Recorded before version history',
+        }).onConflictDoNothing();
+
+        currentVersion = current.currentVersion + 1;
+        await tx.insert(messageTemplateVersions).values({
+          templateId: id,
+          version: currentVersion,
+          ...templateContent({ ...current, ...template } as MessageTemplate),
+          ...info,
+        });
+      }
+
+      const [updatedTemplate] = await tx
+        .update(messageTemplates)
+        .set({ ...template, currentVersion, updatedAt: new Date() })
+        .where(eq(messageTemplates.id, id))
+        .returning();
+      return updatedTemplate;
+    });
   }
 
   async deleteMessageTemplate(id: string): Promise<boolean> {
@@ -297,6 +761,44 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
+  async getMessageTemplateVersions(templateId: string): Promise<MessageTemplateVersion[]> {
+    const listVersions = () => db.select()
+      .from(messageTemplateVersions)
+      .where(eq(messageTemplateVersions.templateId, templateId))
+      .orderBy(desc(messageTemplateVersions.version));
+
+    const versions = await listVersions();
+    if (versions.length > 0) return versions;
+
+    // Template from before version history - its current content is its only version so far
+    const template = await this.getMessageTemplate(templateId);
+    if (!template) return [];
+    await db.insert(messageTemplateVersions).values({
+      templateId,
+      version: template.currentVersion,
+      ...templateContent(template),
+      note: 'Recorded before version history',
+    }).onConflictDoNothing();
+    return await listVersions();
+  }
+
+  async getMessageTemplateVersion(templateId: string, version: number): Promise<MessageTemplateVersion | undefined> {
+    const [snapshot] = await db.select()
+      .from(messageTemplateVersions)
+      .where(and(eq(messageTemplateVersions.templateId, templateId), eq(messageTemplateVersions.version, version)));
+    return snapshot;
+  }
+
+  async getMessageTemplateAtVersion(id: string, version?: number | null): Promise<MessageTemplate | undefined> {
+    const template = await this.getMessageTemplate(id);
+    if (!template || !version || version === template.currentVersion) return template;
+
+    // Pinned to an older version - its content on top of the template's current name and flags
+    const snapshot = await this.getMessageTemplateVersion(id, version);
+    if (!snapshot) return undefined;
+    return { ...template, ...templateContent(snapshot), currentVersion: snapshot.version };
+  }
+
   // Trade operations
   async getTrades(filters?: {
     status?: string;
@@ -410,6 +912,44 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Trades in signal order for a date range (unpaginated) - used by backtest replays
+  async getTradesCreatedBetween(from: Date, to: Date, channelId?: string): Promise<Trade[]> {
+    const conditions = [gte(trades.createdAt, from), lte(trades.createdAt, to)];
+    if (channelId) {
+      conditions.push(eq(trades.channelId, channelId));
+    }
+
+    return await db.select().from(trades)
+      .where(and(...conditions))
+      .orderBy(trades.createdAt);
+  }
+
+  // All active trades (unpaginated) with normalized target status - used by background watchers
+  async getActiveTrades(): Promise<Trade[]> {
+    const activeTrades = await db.select().from(trades)
+      .where(eq(trades.status, 'active'))
+      .orderBy(desc(trades.createdAt));
+
+    return activeTrades.map(trade => ({
+      ...trade,
+      targetStatus: normalizeTargetStatus(trade.targetStatus)
+    }));
+  }
+
+  // Synced futures trades use "<positionId>_<updatedAt>" as tradeId - newest trade for the position, whatever its status
+  async getLatestTradeByPositionId(positionId: string): Promise<Trade | undefined> {
+    const [trade] = await db.select().from(trades)
+      .where(or(eq(trades.tradeId, positionId), like(trades.tradeId, `${positionId}\\_%`)))
+      .orderBy(desc(trades.createdAt))
+      .limit(1);
+    if (!trade) return undefined;
+
+    return {
+      ...trade,
+      targetStatus: normalizeTargetStatus(trade.targetStatus)
+    };
+  }
+
   async getTradeByTradeId(tradeId: string): Promise<Trade | undefined> {
     const [trade] = await db.select().from(trades).where(eq(trades.tradeId, tradeId));
     if (!trade) return undefined;
@@ -454,7 +994,7 @@ export class DatabaseStorage implements IStorage {
     total: number;
     active: number;
     completed: number;
-  }> {
+  } & PerformanceStats> {
     const [stats] = await db
       .select({
         total: sql<number>`count(*)`,
@@ -463,13 +1003,103 @@ export class DatabaseStorage implements IStorage {
       })
       .from(trades);
 
+    // Performance metrics over every closed position with recorded P&L, in exit order
+    const closedTrades = await db
+      .select({
+        realizedPnl: trades.realizedPnl,
+        realizedPnlPercent: trades.realizedPnlPercent,
+        rMultiple: trades.rMultiple,
+      })
+      .from(trades)
+      .where(sql`${trades.realizedPnl} is not null`)
+      .orderBy(trades.exitTime);
+
+    const performance = calculatePerformanceStats(closedTrades.map(trade => ({
+      pnl: Number(trade.realizedPnl),
+      pnlPercent: Number(trade.realizedPnlPercent || 0),
+      rMultiple: trade.rMultiple !== null ? Number(trade.rMultiple) : null,
+    })));
+
     return {
-      total: stats.total || 0,
-      active: stats.active || 0,
-      completed: stats.completed || 0
+      total: Number(stats.total) || 0,
+      active: Number(stats.active) || 0,
+      completed: Number(stats.completed) || 0,
+      ...performance
     };
   }
 
+  // Completed trades closed without an exit price never got an exitTime - their last update is the close
+  async backfillTradeExitTimes(): Promise<number> {
+    const updated = await db
+      .update(trades)
+      .set({ exitTime: sql`${trades.updatedAt}` })
+      .where(and(eq(trades.status, 'completed'), isNull(trades.exitTime)))
+      .returning({ id: trades.id });
+    return updated.length;
+  }
+
+  // Per-day P&L % and trade counts from completed trades, bucketed by Asia/Kolkata calendar day
+  async getDailyPnl(filters?: DailyPnlQuery): Promise<DailyPnl[]> {
+    const { from, to, channelId, signalType, source } = filters || {};
+
+    // Timestamps are stored as UTC without time zone
+    const closedAt = sql`coalesce(${trades.exitTime}, ${trades.updatedAt})`;
+    const dayBucket = sql<string>`to_char((${closedAt} at time zone 'UTC') at time zone 'Asia/Kolkata', 'YYYY-MM-DD')`;
+
+    // Recorded realized % when available, otherwise derive from the level implied by the completion reason
+    const impliedExit = sql`case ${trades.completionReason}
+      when 'stop_loss_hit' then ${trades.stopLossTrigger}
+      when 'target_1_hit' then ${trades.takeProfitTrigger}
+      when 'target_2_hit' then ${trades.takeProfit2}
+      when 'target_3_hit' then ${trades.takeProfit3}
+      when 'safe_book' then ${trades.safebookPrice}
+      else null end`;
+    const direction = sql`case when lower(${trades.type}) = 'sell' then -1 else 1 end`;
+    const tradePnlPercent = sql`coalesce(
+      ${trades.realizedPnlPercent},
+      (${impliedExit} - ${trades.price}) / nullif(${trades.price}, 0) * 100 * ${trades.leverage} * ${direction},
+      0
+    )`;
+
+    const conditions = [eq(trades.status, 'completed')];
+    if (from) {
+      conditions.push(sql`${dayBucket} >= ${from}`);
+    }
+    if (to) {
+      conditions.push(sql`${dayBucket} <= ${to}`);
+    }
+    if (channelId) {
+      conditions.push(eq(trades.channelId, channelId));
+    }
+    if (signalType && signalType !== 'all') {
+      conditions.push(sql`lower(${trades.signalType}) = lower(${signalType})`);
+    }
+    if (source) {
+      conditions.push(eq(trades.source, source));
+    }
+
+    const rows = await db
+      .select({
+        date: dayBucket,
+        pnlPercent: sql<string>`sum(${tradePnlPercent})`,
+        tradeCount: sql<number>`count(*)`,
+        wins: sql<number>`count(*) filter (where ${tradePnlPercent} > 0)`,
+        losses: sql<number>`count(*) filter (where ${tradePnlPercent} < 0)`,
+      })
+      .from(trades)
+      .where(and(...conditions))
+      .groupBy(dayBucket)
+      .orderBy(dayBucket);
+
+    return rows.map(row => ({
+      date: row.date,
+      pnlPercent: Number(row.pnlPercent) || 0,
+      tradeCount: Number(row.tradeCount) || 0,
+      wins: Number(row.wins) || 0,
+      losses: Number(row.losses) || 0,
+    }));
+  }
+
   async completeTrade(id: string, completion: CompleteTrade): Promise<Trade | undefined> {
     console.log(`🔄 Attempting to complete trade: ${id} with data:`, completion);
     
@@ -508,6 +1138,16 @@ export class DatabaseStorage implements IStorage {
 
     console.log(`🎯 Auto-derived completion reason: ${autoCompletionReason} from normalized targetStatus:`, normalizedStatus);
 
+    // Exit price: explicit > already recorded exchange exit > level implied by completion reason
+    const safebookPrice = completion.safebookPrice !== undefined ? completion.safebookPrice : currentTrade.safebookPrice;
+    const exitPrice = completion.exitPrice
+      ? Number(completion.exitPrice)
+      : currentTrade.exitPrice
+        ? Number(currentTrade.exitPrice)
+        : getExitPriceForReason({ ...currentTrade, safebookPrice }, autoCompletionReason);
+    const exitTime = currentTrade.exitTime || new Date();
+    const pnlFields = exitPrice ? buildTradePnlFields(currentTrade, exitPrice, exitTime) : {};
+
     try {
       // Manual completion via "Mark as Complete" always completes the trade
       // and uses the highest priority hit target as completion reason
@@ -516,9 +1156,11 @@ export class DatabaseStorage implements IStorage {
         .set({ 
           status: 'completed', // Always complete for manual completion
           completionReason: autoCompletionReason, // Use auto-derived reason
-          safebookPrice: completion.safebookPrice !== undefined ? completion.safebookPrice : currentTrade.safebookPrice,
+          safebookPrice,
           notes: completion.notes || null,
           targetStatus: normalizedStatus, // Keep normalized target status in V2 format
+          exitTime,
+          ...pnlFields,
           updatedAt: new Date() 
         })
         .where(eq(trades.id, id))
@@ -526,6 +1168,9 @@ export class DatabaseStorage implements IStorage {
       
       if (updatedTrade) {
         console.log(`✅ Trade completed successfully: ${updatedTrade.id}, status: ${updatedTrade.status}, reason: ${updatedTrade.completionReason}`);
+        if (exitPrice) {
+          await this.settleCopyTrades(updatedTrade.id, exitPrice, exitTime);
+        }
       } else {
         console.log(`❌ Failed to update trade: ${id} - no rows returned`);
       }
@@ -537,16 +1182,28 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async manualExitTrade(id: string, notes: string): Promise<Trade | undefined> {
+  async manualExitTrade(id: string, notes: string, exitPrice?: number): Promise<Trade | undefined> {
     console.log(`🚪 Manually exiting trade: ${id} with notes: ${notes}`);
     
     try {
+      const currentTrade = await this.getTrade(id);
+      if (!currentTrade) {
+        return undefined;
+      }
+
+      // Fall back to an exit price already recorded by an exchange exit
+      const finalExitPrice = exitPrice || (currentTrade.exitPrice ? Number(currentTrade.exitPrice) : undefined);
+      const exitTime = currentTrade.exitTime || new Date();
+      const pnlFields = finalExitPrice ? buildTradePnlFields(currentTrade, finalExitPrice, exitTime) : {};
+
       const [updatedTrade] = await db
         .update(trades)
         .set({ 
           status: 'completed',
           completionReason: 'manual_exit', // Specific reason for manual exits
           notes: notes,
+          exitTime,
+          ...pnlFields,
           updatedAt: new Date() 
         })
         .where(eq(trades.id, id))
@@ -554,6 +1211,9 @@ export class DatabaseStorage implements IStorage {
       
       if (updatedTrade) {
         console.log(`✅ Trade manually exited: ${updatedTrade.id}, reason: manual_exit`);
+        if (finalExitPrice) {
+          await this.settleCopyTrades(updatedTrade.id, finalExitPrice, exitTime);
+        }
       }
       
       return updatedTrade;
@@ -563,7 +1223,7 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async markExchangeExited(id: string, note: string): Promise<Trade | undefined> {
+  async markExchangeExited(id: string, note: string, exitPrice?: number): Promise<Trade | undefined> {
     console.log(`🚪 Marking trade as exchange exited: ${id}`);
     
     try {
@@ -580,12 +1240,18 @@ export class DatabaseStorage implements IStorage {
       const updatedNotes = existingTrade.notes 
         ? `${existingTrade.notes}\n${newNote}`
         : newNote;
+
+      // Record realized P&L at the exchange exit price (trade itself stays active for tracking).
+      // Copies are not settled here - only the master position closed, followers' positions are still open
+      const exitTime = new Date();
+      const pnlFields = exitPrice ? buildTradePnlFields(existingTrade, exitPrice, exitTime) : {};
       
       const [updatedTrade] = await db
         .update(trades)
         .set({ 
           exchangeExited: true, // Mark as exited on exchange
           notes: updatedNotes,
+          ...pnlFields,
           updatedAt: new Date() 
         })
         .where(eq(trades.id, id))
@@ -641,18 +1307,19 @@ export class DatabaseStorage implements IStorage {
   }
 
   // New V2 method with 5-field business logic
-  async updateTradeTargetStatusV2(id: string, targetUpdate: UpdateTargetStatus): Promise<{trade: Trade | undefined, autoCompleted: boolean}> {
+  async updateTradeTargetStatusV2(id: string, targetUpdate: UpdateTargetStatus): Promise<{trade: Trade | undefined, autoCompleted: boolean, applied: boolean}> {
     console.log(`🎯 Updating target status for trade ${id}:`, targetUpdate);
 
-    // Get current trade
-    const currentTrade = await this.getTrade(id);
-    if (!currentTrade) {
-      return { trade: undefined, autoCompleted: false };
+    // Get current trade - keep the stored target status so the update can check nothing changed since
+    const [storedTrade] = await db.select().from(trades).where(eq(trades.id, id));
+    if (!storedTrade) {
+      return { trade: undefined, autoCompleted: false, applied: false };
     }
+    const currentTrade: Trade = { ...storedTrade, targetStatus: normalizeTargetStatus(storedTrade.targetStatus) };
 
     if (currentTrade.status === 'completed') {
       console.log(`⚠️ Cannot update completed trade: ${id}`);
-      return { trade: currentTrade, autoCompleted: false };
+      return { trade: currentTrade, autoCompleted: false, applied: false };
     }
 
     // Normalize current target status using schema helper
@@ -661,12 +1328,17 @@ export class DatabaseStorage implements IStorage {
 
     console.log(`📋 Current normalized target status:`, targetStatus);
 
+    if (targetStatus[targetType] === hit) {
+      console.log(`⚠️ ${targetType} is already ${hit ? 'hit' : 'cleared'} for trade ${id}`);
+      return { trade: currentTrade, autoCompleted: false, applied: false };
+    }
+
     // Business rules validation
     if (targetType === 'stop_loss') {
       // Stop loss can't be hit if safebook, T1, T2, or T3 are already hit
       if (targetStatus.safebook || targetStatus.target_1 || targetStatus.target_2 || targetStatus.target_3) {
         console.log(`❌ Stop loss blocked - higher targets already hit`);
-        return { trade: currentTrade, autoCompleted: false };
+        return { trade: currentTrade, autoCompleted: false, applied: false };
       }
     }
 
@@ -681,7 +1353,7 @@ export class DatabaseStorage implements IStorage {
           // Safebook can't be set if any target (T1, T2, T3) is already hit
           if (targetStatus.target_1 || targetStatus.target_2 || targetStatus.target_3) {
             console.log(`❌ Safebook blocked - targets already hit:`, {t1: targetStatus.target_1, t2: targetStatus.target_2, t3: targetStatus.target_3});
-            return { trade: currentTrade, autoCompleted: false };
+            return { trade: currentTrade, autoCompleted: false, applied: false };
           }
           targetStatus.safebook = true;
           // Safebook doesn't clear anything, just blocks stop loss
@@ -729,20 +1401,48 @@ export class DatabaseStorage implements IStorage {
       updatedAt: new Date()
     };
 
+    // Auto-completion closes at the stop loss / T3 level unless an exchange exit was already recorded
+    let exitPrice: number | null = null;
+    const exitTime = currentTrade.exitTime || new Date();
+
     if (shouldAutoComplete) {
       updateData.status = 'completed';
       updateData.completionReason = completionReason;
+      updateData.exitTime = exitTime;
+
+      exitPrice = currentTrade.exitPrice
+        ? Number(currentTrade.exitPrice)
+        : getExitPriceForReason(currentTrade, completionReason);
+      if (exitPrice) {
+        Object.assign(updateData, buildTradePnlFields(currentTrade, exitPrice, exitTime));
+      }
     }
 
     const [updatedTrade] = await db
       .update(trades)
       .set(updateData)
-      .where(eq(trades.id, id))
+      .where(and(
+        eq(trades.id, id),
+        eq(trades.status, 'active'),
+        // Only apply over the status read above - a concurrent update (price watcher vs manual route) wins instead
+        storedTrade.targetStatus == null
+          ? isNull(trades.targetStatus)
+          : sql`${trades.targetStatus} = ${JSON.stringify(storedTrade.targetStatus)}::jsonb`
+      ))
       .returning();
 
+    if (!updatedTrade) {
+      console.log(`⚠️ Target status for trade ${id} changed concurrently - ${targetType} update not applied`);
+      return { trade: await this.getTrade(id), autoCompleted: false, applied: false };
+    }
+
+    if (exitPrice) {
+      await this.settleCopyTrades(updatedTrade.id, exitPrice, exitTime);
+    }
+
     console.log(`✅ Trade updated successfully. Auto-completed: ${shouldAutoComplete}`);
 
-    return { trade: updatedTrade, autoCompleted: shouldAutoComplete };
+    return { trade: updatedTrade, autoCompleted: shouldAutoComplete, applied: true };
   }
 
   // Legacy method - deprecated but kept for backward compatibility
@@ -838,6 +1538,13 @@ export class DatabaseStorage implements IStorage {
           targetStatus: freshTargetStatus, // Reset all targets to false
           safebookPrice: null, // Clear safebook price
           notes: null, // Clear notes
+          // Clear the recorded exit so the next close computes its own and stats stop counting the old one
+          exitPrice: null,
+          exitTime: null,
+          realizedPnl: null,
+          realizedPnlPercent: null,
+          totalFees: null,
+          rMultiple: null,
           updatedAt: new Date() 
         })
         .where(eq(trades.id, id))
@@ -999,8 +1706,14 @@ export class DatabaseStorage implements IStorage {
         telegramMessageId: sentMessages.telegramMessageId,
         channelId: sentMessages.channelId,
         messageText: sentMessages.messageText,
+        templateId: sentMessages.templateId,
+        templateVersion: sentMessages.templateVersion,
+        messageType: sentMessages.messageType,
         status: sentMessages.status,
         errorMessage: sentMessages.errorMessage,
+        editCount: sentMessages.editCount,
+        editedAt: sentMessages.editedAt,
+        deletedAt: sentMessages.deletedAt,
         sentAt: sentMessages.sentAt,
         createdAt: sentMessages.createdAt,
         automation: {
@@ -1030,6 +1743,62 @@ export class DatabaseStorage implements IStorage {
     return newMessage;
   }
 
+  /**
+   * Messages still in a channel for a trade, oldest first, with the automation that posted them
+   */
+  async getPostedTradeMessages(tradeId: string): Promise<{ message: SentMessage; automation: Automation | null }[]> {
+    return await db
+      .select({ message: sentMessages, automation: automations })
+      .from(sentMessages)
+      .leftJoin(automations, eq(sentMessages.automationId, automations.id))
+      .where(and(
+        eq(sentMessages.tradeId, tradeId),
+        eq(sentMessages.status, 'sent'),
+        isNotNull(sentMessages.telegramMessageId),
+        isNull(sentMessages.deletedAt),
+      ))
+      .orderBy(sentMessages.sentAt);
+  }
+
+  /**
+   * Log an edit or delete of a posted message, and update the message to match when it succeeded
+   */
+  async recordSentMessageEdit(
+    message: SentMessage,
+    edit: Omit<InsertSentMessageEdit, 'sentMessageId' | 'automationId' | 'tradeId' | 'channelId' | 'telegramMessageId'>,
+  ): Promise<SentMessageEdit> {
+    return await db.transaction(async (tx) => {
+      const [logged] = await tx.insert(sentMessageEdits).values({
+        ...edit,
+        sentMessageId: message.id,
+        automationId: message.automationId,
+        tradeId: message.tradeId,
+        channelId: message.channelId,
+        telegramMessageId: message.telegramMessageId || '',
+      }).returning();
+
+      if (edit.status === 'edited') {
+        await tx.update(sentMessages).set({
+          messageText: edit.messageText,
+          editCount: sql`${sentMessages.editCount} + 1`,
+          editedAt: new Date(),
+        }).where(eq(sentMessages.id, message.id));
+      } else if (edit.status === 'deleted') {
+        await tx.update(sentMessages).set({ deletedAt: new Date() }).where(eq(sentMessages.id, message.id));
+      }
+
+      return logged;
+    });
+  }
+
+  async getSentMessageEdits(sentMessageId: string): Promise<SentMessageEdit[]> {
+    return await db
+      .select()
+      .from(sentMessageEdits)
+      .where(eq(sentMessageEdits.sentMessageId, sentMessageId))
+      .orderBy(desc(sentMessageEdits.createdAt));
+  }
+
   // Copy Trading User operations
   async getCopyTradingUsers(): Promise<CopyTradingUser[]> {
     const users = await db.select().from(copyTradingUsers).orderBy(desc(copyTradingUsers.createdAt));
@@ -1054,6 +1823,10 @@ export class DatabaseStorage implements IStorage {
       riskPerTrade: userData.riskPerTrade.toString(),
       tradeFund: userData.tradeFund?.toString() || '100.00',
       maxTradesPerDay: userData.maxTradesPerDay || null,
+      dailyLossLimit: userData.dailyLossLimit?.toString() ?? null,
+      weeklyLossLimit: userData.weeklyLossLimit?.toString() ?? null,
+      maxPairNotional: userData.maxPairNotional?.toString() ?? null,
+      maxTotalNotional: userData.maxTotalNotional?.toString() ?? null,
       lowFund: false, // Default to false when creating new user
       futuresWalletBalance: '0.00', // Default to 0 when creating new user
       apiKey: encrypt(userData.apiKey),
@@ -1082,7 +1855,15 @@ export class DatabaseStorage implements IStorage {
     if (userData.riskPerTrade !== undefined) dbData.riskPerTrade = userData.riskPerTrade.toString();
     if (userData.tradeFund !== undefined) dbData.tradeFund = userData.tradeFund.toString();
     if (userData.maxTradesPerDay !== undefined) dbData.maxTradesPerDay = userData.maxTradesPerDay || null;
+    if (userData.maxOpenPositions !== undefined) dbData.maxOpenPositions = userData.maxOpenPositions || null;
+    if (userData.dailyLossLimit !== undefined) dbData.dailyLossLimit = userData.dailyLossLimit?.toString() ?? null;
+    if (userData.weeklyLossLimit !== undefined) dbData.weeklyLossLimit = userData.weeklyLossLimit?.toString() ?? null;
+    if (userData.maxPairNotional !== undefined) dbData.maxPairNotional = userData.maxPairNotional?.toString() ?? null;
+    if (userData.maxTotalNotional !== undefined) dbData.maxTotalNotional = userData.maxTotalNotional?.toString() ?? null;
+    if (userData.maxLeverage !== undefined) dbData.maxLeverage = userData.maxLeverage || null;
     if (userData.isActive !== undefined) dbData.isActive = userData.isActive;
+    if (userData.paperTrading !== undefined) dbData.paperTrading = userData.paperTrading;
+    if (userData.copyingPaused !== undefined) dbData.copyingPaused = userData.copyingPaused;
     if (userData.sourceFilter !== undefined) dbData.sourceFilter = userData.sourceFilter;
     if (userData.signalTypeFilter !== undefined) dbData.signalTypeFilter = userData.signalTypeFilter;
     if (userData.notes !== undefined) dbData.notes = userData.notes;
@@ -1297,6 +2078,7 @@ export class DatabaseStorage implements IStorage {
         copyUserId: copyTrades.copyUserId,
         executedTradeId: copyTrades.executedTradeId,
         pair: copyTrades.pair,
+        exchange: copyTrades.exchange,
         type: copyTrades.type,
         originalPrice: copyTrades.originalPrice,
         executedPrice: copyTrades.executedPrice,
@@ -1306,9 +2088,24 @@ export class DatabaseStorage implements IStorage {
         takeProfitPrice: copyTrades.takeProfitPrice,
         leverage: copyTrades.leverage,
         status: copyTrades.status,
+        skipReason: copyTrades.skipReason,
         executionTime: copyTrades.executionTime,
+        filledAt: copyTrades.filledAt,
         errorMessage: copyTrades.errorMessage,
         pnl: copyTrades.pnl,
+        pnlPercent: copyTrades.pnlPercent,
+        exitPrice: copyTrades.exitPrice,
+        exitTime: copyTrades.exitTime,
+        fees: copyTrades.fees,
+        rMultiple: copyTrades.rMultiple,
+        pnlSource: copyTrades.pnlSource,
+        orderStatus: copyTrades.orderStatus,
+        positionStatus: copyTrades.positionStatus,
+        closeReason: copyTrades.closeReason,
+        driftDetails: copyTrades.driftDetails,
+        lastReconciledAt: copyTrades.lastReconciledAt,
+        remainingQuantity: copyTrades.remainingQuantity,
+        partialCloses: copyTrades.partialCloses,
         createdAt: copyTrades.createdAt,
         copyUser: {
           name: copyTradingUsers.name,
@@ -1336,6 +2133,11 @@ export class DatabaseStorage implements IStorage {
     return { copyTrades: copyTradesResult, total: total[0]?.count || 0 };
   }
 
+  async getCopyTrade(id: string): Promise<CopyTrade | undefined> {
+    const [copyTrade] = await db.select().from(copyTrades).where(eq(copyTrades.id, id));
+    return copyTrade;
+  }
+
   async getCopyTradesByOriginalId(originalTradeId: string): Promise<CopyTrade[]> {
     const copyTradesResult = await db
       .select()
@@ -1371,6 +2173,16 @@ export class DatabaseStorage implements IStorage {
     return updatedTrade;
   }
 
+  // Only one run gets to send the order - the copy must still be pending and never submitted
+  async claimCopyTradeSubmission(id: string, orderParameters: any): Promise<boolean> {
+    const claimed = await db
+      .update(copyTrades)
+      .set({ orderSubmittedAt: new Date(), orderParameters, updatedAt: new Date() })
+      .where(and(eq(copyTrades.id, id), eq(copyTrades.status, 'pending'), isNull(copyTrades.orderSubmittedAt)))
+      .returning({ id: copyTrades.id });
+    return claimed.length > 0;
+  }
+
   async updateCopyTradeExecution(id: string, executionDetails: {
     executedTradeId?: string;
     executedPrice?: number;
@@ -1409,6 +2221,244 @@ export class DatabaseStorage implements IStorage {
     return updatedTrade;
   }
 
+  async updateCopyTradePnl(id: string, pnlDetails: {
+    exitPrice: number;
+    exitTime: Date;
+    fees?: number;
+    executedPrice?: number;
+    executedQuantity?: number;
+    filledAt?: Date;
+    pnlSource: 'estimated' | 'exchange';
+  }): Promise<CopyTrade | undefined> {
+    const [copyTrade] = await db.select().from(copyTrades).where(eq(copyTrades.id, id));
+    if (!copyTrade) return undefined;
+
+    const entryPrice = pnlDetails.executedPrice ?? Number(copyTrade.executedPrice || copyTrade.originalPrice);
+    const quantity = pnlDetails.executedQuantity ?? Number(copyTrade.executedQuantity || 0);
+    const result = calculateRealizedPnl({
+      side: copyTrade.type,
+      entryPrice,
+      exitPrice: pnlDetails.exitPrice,
+      quantity,
+      leverage: Number(copyTrade.leverage),
+      stopLoss: copyTrade.stopLossPrice ? Number(copyTrade.stopLossPrice) : null,
+      fees: pnlDetails.fees,
+    });
+
+    const [updatedTrade] = await db
+      .update(copyTrades)
+      .set({
+        exitPrice: pnlDetails.exitPrice.toString(),
+        exitTime: pnlDetails.exitTime,
+        pnl: result.pnl.toFixed(8),
+        pnlPercent: result.pnlPercent.toFixed(4),
+        fees: result.fees.toFixed(8),
+        rMultiple: result.rMultiple !== null ? result.rMultiple.toFixed(4) : null,
+        pnlSource: pnlDetails.pnlSource,
+        ...(pnlDetails.executedPrice !== undefined ? { executedPrice: pnlDetails.executedPrice.toString() } : {}),
+        ...(pnlDetails.executedQuantity !== undefined ? { executedQuantity: pnlDetails.executedQuantity.toString() } : {}),
+        ...(pnlDetails.filledAt ? { filledAt: pnlDetails.filledAt } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(copyTrades.id, id))
+      .returning();
+    return updatedTrade;
+  }
+
+  // Executed copy trades closed since the given time whose P&L is still only estimated
+  async getCopyTradesPendingPnlReconciliation(since: Date): Promise<CopyTrade[]> {
+    return db
+      .select()
+      .from(copyTrades)
+      .where(and(
+        inArray(copyTrades.status, ['executed', 'exited']), // 'exited' - closed by EXIT FOR ALL
+        eq(copyTrades.pnlSource, 'estimated'),
+        sql`${copyTrades.exitTime} >= ${since}`
+      ))
+      .orderBy(desc(copyTrades.exitTime));
+  }
+
+  async getCopyTradesForLifecycleReconciliation(since: Date): Promise<CopyTrade[]> {
+    // Executed exchange (or paper) orders whose follower position isn't known to be closed yet
+    return db
+      .select()
+      .from(copyTrades)
+      .where(and(
+        eq(copyTrades.status, 'executed'),
+        sql`${copyTrades.executedTradeId} IS NOT NULL`,
+        sql`${copyTrades.executedTradeId} NOT LIKE 'DRY_%'`,
+        sql`${copyTrades.positionStatus} IS DISTINCT FROM 'closed'`,
+        gte(copyTrades.createdAt, since)
+      ))
+      .orderBy(copyTrades.lastReconciledAt);
+  }
+
+  async getOpenPaperCopyTrades(executedBefore: Date): Promise<CopyTrade[]> {
+    // Paper orders whose follower position isn't known to be closed yet
+    return db
+      .select()
+      .from(copyTrades)
+      .where(and(
+        eq(copyTrades.status, 'executed'),
+        sql`${copyTrades.executedTradeId} LIKE 'PAPER_%'`,
+        sql`${copyTrades.positionStatus} IS DISTINCT FROM 'closed'`,
+        lt(copyTrades.executionTime, executedBefore)
+      ));
+  }
+
+  async updateCopyTradeLifecycle(id: string, lifecycle: {
+    status?: string;
+    errorMessage?: string;
+    executedPrice?: number;
+    executedQuantity?: number;
+    orderStatus?: string;
+    filledAt?: Date;
+    positionStatus?: string | null;
+    closeReason?: string | null;
+    driftDetails?: string[] | null;
+  }): Promise<CopyTrade | undefined> {
+    const { executedPrice, executedQuantity, ...rest } = lifecycle;
+    const [updatedTrade] = await db
+      .update(copyTrades)
+      .set({
+        ...rest,
+        ...(executedPrice !== undefined ? { executedPrice: executedPrice.toString() } : {}),
+        ...(executedQuantity !== undefined ? { executedQuantity: executedQuantity.toString() } : {}),
+        lastReconciledAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(copyTrades.id, id))
+      .returning();
+    return updatedTrade;
+  }
+
+  async updateCopyTradeMirroredState(id: string, state: {
+    stopLossPrice?: number;
+    takeProfitPrice?: number;
+    remainingQuantity?: number;
+    partialCloses?: CopyTradePartialClose[];
+  }): Promise<CopyTrade | undefined> {
+    const { stopLossPrice, takeProfitPrice, remainingQuantity, partialCloses } = state;
+    const [updatedTrade] = await db
+      .update(copyTrades)
+      .set({
+        ...(stopLossPrice !== undefined ? { stopLossPrice: stopLossPrice.toString() } : {}),
+        ...(takeProfitPrice !== undefined ? { takeProfitPrice: takeProfitPrice.toString() } : {}),
+        ...(remainingQuantity !== undefined ? { remainingQuantity: remainingQuantity.toString() } : {}),
+        ...(partialCloses !== undefined ? { partialCloses } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(copyTrades.id, id))
+      .returning();
+    return updatedTrade;
+  }
+
+  // Counts, realized P&L and open exposure the follower risk guardrails are checked against
+  async getCopyTradeRiskSnapshot(userId: string, dayStart: Date, weekStart: Date): Promise<CopyTradeRiskSnapshot> {
+    const [totals] = await db
+      .select({
+        tradesToday: sql<number>`count(*) filter (where ${copyTrades.createdAt} >= ${dayStart} and ${copyTrades.status} not in ('skipped', 'failed'))`,
+        realizedPnlToday: sql<string>`coalesce(sum(${copyTrades.pnl}) filter (where ${copyTrades.exitTime} >= ${dayStart}), 0)`,
+        realizedPnlWeek: sql<string>`coalesce(sum(${copyTrades.pnl}) filter (where ${copyTrades.exitTime} >= ${weekStart}), 0)`,
+      })
+      .from(copyTrades)
+      .where(eq(copyTrades.copyUserId, userId));
+
+    // Pending copies count as open positions; their size isn't known until execution so they add no notional.
+    // A copy is only open while its master trade is, or while the lifecycle reconciler (7-day window) still
+    // sees the follower position open - older copies from before reconciliation and dry runs never count
+    const openRows = await db
+      .select({
+        pair: copyTrades.pair,
+        status: copyTrades.status,
+        price: sql<string>`coalesce(${copyTrades.executedPrice}, ${copyTrades.originalPrice})`,
+        quantity: sql<string | null>`coalesce(${copyTrades.remainingQuantity}, ${copyTrades.executedQuantity})`,
+      })
+      .from(copyTrades)
+      .innerJoin(trades, eq(copyTrades.originalTradeId, trades.id))
+      .where(and(
+        eq(copyTrades.copyUserId, userId),
+        inArray(copyTrades.status, ['pending', 'executed']),
+        sql`${copyTrades.exitPrice} IS NULL`,
+        sql`${copyTrades.positionStatus} IS DISTINCT FROM 'closed'`,
+        sql`coalesce(${copyTrades.executedTradeId}, '') NOT LIKE 'DRY_%'`,
+        or(
+          and(eq(trades.status, 'active'), sql`${trades.exchangeExited} IS NOT TRUE`),
+          and(eq(copyTrades.positionStatus, 'open'), sql`${copyTrades.createdAt} >= now() - interval '7 days'`)
+        )
+      ));
+
+    return {
+      tradesToday: Number(totals?.tradesToday) || 0,
+      realizedPnlToday: Number(totals?.realizedPnlToday) || 0,
+      realizedPnlWeek: Number(totals?.realizedPnlWeek) || 0,
+      openPositions: openRows.map(row => ({
+        pair: row.pair,
+        notional: row.status === 'executed' ? Number(row.price) * Number(row.quantity || 0) : 0,
+      })),
+    };
+  }
+
+  // Executed and failed copies with their master trade and follower sizing settings - feeds the execution quality report
+  async getCopyTradeExecutionRows(since: Date, userId?: string): Promise<CopyTradeExecutionRow[]> {
+    const conditions = [
+      inArray(copyTrades.status, ['executed', 'failed']),
+      gte(copyTrades.createdAt, since),
+    ];
+    if (userId) {
+      conditions.push(eq(copyTrades.copyUserId, userId));
+    }
+
+    return db
+      .select({
+        id: copyTrades.id,
+        copyUserId: copyTrades.copyUserId,
+        userName: copyTradingUsers.name,
+        tradeFund: copyTradingUsers.tradeFund,
+        riskPerTrade: copyTradingUsers.riskPerTrade,
+        pair: copyTrades.pair,
+        exchange: copyTrades.exchange,
+        type: copyTrades.type,
+        status: copyTrades.status,
+        source: trades.source,
+        signalSourceId: trades.signalSourceId,
+        signalSourceName: signalSources.name,
+        masterCreatedAt: trades.createdAt,
+        originalPrice: copyTrades.originalPrice,
+        executedPrice: copyTrades.executedPrice,
+        executedQuantity: copyTrades.executedQuantity,
+        orderParameters: copyTrades.orderParameters,
+        orderStatus: copyTrades.orderStatus,
+        executionTime: copyTrades.executionTime,
+        filledAt: copyTrades.filledAt,
+        pnlSource: copyTrades.pnlSource,
+        errorMessage: copyTrades.errorMessage,
+      })
+      .from(copyTrades)
+      .innerJoin(trades, eq(copyTrades.originalTradeId, trades.id))
+      .innerJoin(copyTradingUsers, eq(copyTrades.copyUserId, copyTradingUsers.id))
+      .leftJoin(signalSources, eq(trades.signalSourceId, signalSources.id))
+      .where(and(...conditions));
+  }
+
+  // Estimate P&L for every executed copy of a closed master trade from the master exit price
+  private async settleCopyTrades(originalTradeId: string, exitPrice: number, exitTime: Date): Promise<void> {
+    try {
+      const copies = await this.getCopyTradesByOriginalId(originalTradeId);
+      const openCopies = copies.filter(ct => ct.status === 'executed' && !ct.exitPrice && ct.executedQuantity);
+
+      for (const copyTrade of openCopies) {
+        await this.updateCopyTradePnl(copyTrade.id, { exitPrice, exitTime, pnlSource: 'estimated' });
+      }
+
+      if (openCopies.length > 0) {
+        console.log(`💹 Estimated P&L for ${openCopies.length} copy trades of ${originalTradeId} at exit ${exitPrice}`);
+      }
+    } catch (error) {
+      console.error(`❌ Failed to settle copy trade P&L for ${originalTradeId}:`, error);
+    }
+  }
+
   // OTP Verification operations
   async generateAndSendOTP(data: SendOtp): Promise<{ success: boolean; message: string; otpId?: string }> {
     const { generateAndSendOTP } = await import('./services/otp');
@@ -1470,42 +2520,63 @@ export class DatabaseStorage implements IStorage {
         };
       }
 
-      // Check if OTP is valid and not expired using existing otpVerifications table
+      // Latest unused code for this email - looked up without the code itself, so every wrong guess is counted
       const [otpRecord] = await db
         .select()
         .from(otpVerifications)
         .where(
           and(
             eq(otpVerifications.email, data.email),
-            eq(otpVerifications.otp, data.otp),
             eq(otpVerifications.purpose, 'user_access'),
-            eq(otpVerifications.isVerified, false),
-            sql`${otpVerifications.expiresAt} > NOW()`
+            eq(otpVerifications.isVerified, false)
           )
         )
         .orderBy(desc(otpVerifications.createdAt))
         .limit(1);
 
-      if (!otpRecord) {
+      if (!otpRecord || otpRecord.expiresAt < new Date()) {
         return { success: false, message: 'Invalid or expired OTP. Please request a new one.' };
       }
 
-      // Check attempts limit
-      const attempts = otpRecord.attempts || 0;
+      // Count the attempt before comparing - the guard keeps concurrent guesses from going over the limit
       const maxAttempts = otpRecord.maxAttempts || 3;
-      if (attempts >= maxAttempts) {
+      const [counted] = await db
+        .update(otpVerifications)
+        .set({ attempts: sql`${otpVerifications.attempts} + 1`, updatedAt: new Date() })
+        .where(and(
+          eq(otpVerifications.id, otpRecord.id),
+          eq(otpVerifications.isVerified, false),
+          sql`coalesce(${otpVerifications.attempts}, 0) < ${maxAttempts}`
+        ))
+        .returning();
+
+      if (!counted) {
+        await db.delete(otpVerifications).where(eq(otpVerifications.id, otpRecord.id));
         return { success: false, message: 'Too many verification attempts. Please request a new OTP.' };
       }
 
-      // Mark OTP as verified
-      await db
+      if (counted.otp !== data.otp) {
+        const remainingAttempts = maxAttempts - (counted.attempts || 0);
+        if (remainingAttempts <= 0) {
+          await db.delete(otpVerifications).where(eq(otpVerifications.id, otpRecord.id));
+          return { success: false, message: 'Too many verification attempts. Please request a new OTP.' };
+        }
+        return {
+          success: false,
+          message: `Invalid OTP. ${remainingAttempts} attempt${remainingAttempts === 1 ? '' : 's'} remaining.`,
+        };
+      }
+
+      // Mark OTP as verified - only once, even if the same code is submitted twice at the same time
+      const [verified] = await db
         .update(otpVerifications)
-        .set({ 
-          isVerified: true, 
-          attempts: attempts + 1,
-          updatedAt: new Date()
-        })
-        .where(eq(otpVerifications.id, otpRecord.id));
+        .set({ isVerified: true, updatedAt: new Date() })
+        .where(and(eq(otpVerifications.id, otpRecord.id), eq(otpVerifications.isVerified, false)))
+        .returning();
+
+      if (!verified) {
+        return { success: false, message: 'Invalid or expired OTP. Please request a new one.' };
+      }
 
       return { 
         success: true, 
@@ -1530,6 +2601,20 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount || 0;
   }
 
+  async createCopyTradingUserAuditLog(entry: InsertCopyTradingUserAuditLog): Promise<CopyTradingUserAuditLog> {
+    const [log] = await db.insert(copyTradingUserAuditLogs).values(entry).returning();
+    return log;
+  }
+
+  async getCopyTradingUserAuditLogs(copyUserId: string, limit = 50): Promise<CopyTradingUserAuditLog[]> {
+    return await db
+      .select()
+      .from(copyTradingUserAuditLogs)
+      .where(eq(copyTradingUserAuditLogs.copyUserId, copyUserId))
+      .orderBy(desc(copyTradingUserAuditLogs.createdAt))
+      .limit(limit);
+  }
+
   // Research Report operations
   async getResearchReports(filters?: {
     isActive?: boolean;
@@ -1588,6 +2673,429 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return !!report;
   }
+
+  // Signal source operations
+  async getSignalSources(): Promise<SignalSource[]> {
+    return await db.select().from(signalSources).orderBy(desc(signalSources.createdAt));
+  }
+
+  async getSignalSource(id: string): Promise<SignalSource | undefined> {
+    const [source] = await db.select().from(signalSources).where(eq(signalSources.id, id));
+    return source;
+  }
+
+  async getSignalSourceBySlug(slug: string): Promise<SignalSource | undefined> {
+    const [source] = await db.select().from(signalSources).where(eq(signalSources.slug, slug));
+    return source;
+  }
+
+  async createSignalSource(sourceData: InsertSignalSource & { secret: string }): Promise<SignalSource> {
+    const [source] = await db
+      .insert(signalSources)
+      .values({ ...sourceData, secret: encrypt(sourceData.secret) })
+      .returning();
+    return source;
+  }
+
+  async updateSignalSource(id: string, sourceData: Partial<InsertSignalSource> & { secret?: string; lastAlertAt?: Date }): Promise<SignalSource | undefined> {
+    const updateData = { ...sourceData, updatedAt: new Date() };
+    if (sourceData.secret) {
+      updateData.secret = encrypt(sourceData.secret);
+    }
+
+    const [source] = await db
+      .update(signalSources)
+      .set(updateData)
+      .where(eq(signalSources.id, id))
+      .returning();
+    return source;
+  }
+
+  async deleteSignalSource(id: string): Promise<boolean> {
+    // Keep trades but drop the alert log with the source
+    const result = await db.delete(signalSources).where(eq(signalSources.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async createSignalAlert(alertData: InsertSignalAlert): Promise<SignalAlert> {
+    const [alert] = await db.insert(signalAlerts).values(alertData).returning();
+    return alert;
+  }
+
+  async updateSignalAlert(id: string, alertData: Partial<InsertSignalAlert>): Promise<SignalAlert | undefined> {
+    const [alert] = await db
+      .update(signalAlerts)
+      .set(alertData)
+      .where(eq(signalAlerts.id, id))
+      .returning();
+    return alert;
+  }
+
+  async findRecentSignalAlert(sourceId: string, dedupeKey: string, since: Date): Promise<SignalAlert | undefined> {
+    // Only alerts that produced (or are producing) a trade count as the original
+    const [alert] = await db
+      .select()
+      .from(signalAlerts)
+      .where(and(
+        eq(signalAlerts.sourceId, sourceId),
+        eq(signalAlerts.dedupeKey, dedupeKey),
+        or(eq(signalAlerts.status, 'processing'), eq(signalAlerts.status, 'created')),
+        gte(signalAlerts.createdAt, since)
+      ))
+      .orderBy(desc(signalAlerts.createdAt))
+      .limit(1);
+    return alert;
+  }
+
+  async getSignalAlerts(sourceId: string, limit: number = 50): Promise<SignalAlert[]> {
+    return await db
+      .select()
+      .from(signalAlerts)
+      .where(eq(signalAlerts.sourceId, sourceId))
+      .orderBy(desc(signalAlerts.createdAt))
+      .limit(limit);
+  }
+
+  // Outbound webhook operations
+  async getWebhookEndpoints(filters?: { isActive?: boolean }): Promise<WebhookEndpoint[]> {
+    const query = db.select().from(webhookEndpoints);
+    if (filters?.isActive !== undefined) {
+      return await query.where(eq(webhookEndpoints.isActive, filters.isActive)).orderBy(desc(webhookEndpoints.createdAt));
+    }
+    return await query.orderBy(desc(webhookEndpoints.createdAt));
+  }
+
+  async getWebhookEndpoint(id: string): Promise<WebhookEndpoint | undefined> {
+    const [endpoint] = await db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+    return endpoint;
+  }
+
+  async createWebhookEndpoint(endpointData: InsertWebhookEndpoint & { secret: string }): Promise<WebhookEndpoint> {
+    const [endpoint] = await db
+      .insert(webhookEndpoints)
+      .values({ ...endpointData, secret: encrypt(endpointData.secret) })
+      .returning();
+    return endpoint;
+  }
+
+  async updateWebhookEndpoint(id: string, endpointData: Partial<InsertWebhookEndpoint> & { secret?: string }): Promise<WebhookEndpoint | undefined> {
+    const updateData = { ...endpointData, updatedAt: new Date() };
+    if (endpointData.secret) {
+      updateData.secret = encrypt(endpointData.secret);
+    }
+
+    const [endpoint] = await db
+      .update(webhookEndpoints)
+      .set(updateData)
+      .where(eq(webhookEndpoints.id, id))
+      .returning();
+    return endpoint;
+  }
+
+  async deleteWebhookEndpoint(id: string): Promise<boolean> {
+    // Delivery log goes with the endpoint
+    const result = await db.delete(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getWebhookDeliveries(filters?: {
+    endpointId?: string;
+    status?: string;
+    eventType?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ deliveries: any[]; total: number }> {
+    const limit = filters?.limit || 50;
+    const offset = filters?.offset || 0;
+
+    let whereClause = sql`1=1`;
+    if (filters?.endpointId) {
+      whereClause = and(whereClause, eq(webhookDeliveries.endpointId, filters.endpointId))!;
+    }
+    if (filters?.status) {
+      whereClause = and(whereClause, eq(webhookDeliveries.status, filters.status))!;
+    }
+    if (filters?.eventType) {
+      whereClause = and(whereClause, eq(webhookDeliveries.eventType, filters.eventType))!;
+    }
+
+    const deliveries = await db
+      .select({
+        id: webhookDeliveries.id,
+        endpointId: webhookDeliveries.endpointId,
+        eventId: webhookDeliveries.eventId,
+        eventType: webhookDeliveries.eventType,
+        payload: webhookDeliveries.payload,
+        status: webhookDeliveries.status,
+        attempts: webhookDeliveries.attempts,
+        lastStatusCode: webhookDeliveries.lastStatusCode,
+        lastError: webhookDeliveries.lastError,
+        responseBody: webhookDeliveries.responseBody,
+        nextAttemptAt: webhookDeliveries.nextAttemptAt,
+        deliveredAt: webhookDeliveries.deliveredAt,
+        replayOf: webhookDeliveries.replayOf,
+        createdAt: webhookDeliveries.createdAt,
+        endpoint: {
+          name: webhookEndpoints.name,
+          url: webhookEndpoints.url,
+        },
+      })
+      .from(webhookDeliveries)
+      .leftJoin(webhookEndpoints, eq(webhookDeliveries.endpointId, webhookEndpoints.id))
+      .where(whereClause)
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const total = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(webhookDeliveries)
+      .where(whereClause);
+
+    return { deliveries, total: total[0]?.count || 0 };
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async createWebhookDelivery(deliveryData: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [delivery] = await db.insert(webhookDeliveries).values(deliveryData).returning();
+    return delivery;
+  }
+
+  async updateWebhookDelivery(id: string, deliveryData: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db
+      .update(webhookDeliveries)
+      .set({ ...deliveryData, updatedAt: new Date() })
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return delivery;
+  }
+
+  // Claiming pushes nextAttemptAt out to the lease, so overlapping runs skip the row until this attempt records
+  // its outcome - or the lease runs out because the process died mid-attempt
+  async claimDueWebhookDeliveries(now: Date, leaseUntil: Date, limit: number = 50): Promise<WebhookDelivery[]> {
+    const due = db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(and(
+        eq(webhookDeliveries.status, 'pending'),
+        lte(webhookDeliveries.nextAttemptAt, now)
+      ))
+      .orderBy(webhookDeliveries.nextAttemptAt)
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return await db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: leaseUntil })
+      .where(inArray(webhookDeliveries.id, due))
+      .returning();
+  }
+
+  async claimWebhookDelivery(id: string, now: Date, leaseUntil: Date): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: leaseUntil })
+      .where(and(
+        eq(webhookDeliveries.id, id),
+        eq(webhookDeliveries.status, 'pending'),
+        lte(webhookDeliveries.nextAttemptAt, now)
+      ))
+      .returning();
+    return delivery;
+  }
+
+  // Job queue operations
+  async createJob(jobData: InsertJob): Promise<Job> {
+    const [job] = await db.insert(jobs).values(jobData).returning();
+    return job;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getActiveJobByUniqueKey(uniqueKey: string): Promise<Job | undefined> {
+    const [job] = await db
+      .select()
+      .from(jobs)
+      .where(and(
+        eq(jobs.uniqueKey, uniqueKey),
+        or(eq(jobs.status, 'pending'), eq(jobs.status, 'running'))
+      ))
+      .limit(1);
+    return job;
+  }
+
+  async claimDueJobs(limit: number): Promise<Job[]> {
+    // SKIP LOCKED lets several app instances poll the same table without double-claiming
+    const due = db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.status, 'pending'), lte(jobs.runAt, new Date())))
+      .orderBy(jobs.runAt)
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return await db
+      .update(jobs)
+      .set({
+        status: 'running',
+        attempts: sql`${jobs.attempts} + 1`,
+        lockedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(inArray(jobs.id, due))
+      .returning();
+  }
+
+  async updateJob(id: string, jobData: Partial<InsertJob>): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set({ ...jobData, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async releaseStaleJobs(lockedBefore: Date): Promise<number> {
+    const result = await db
+      .update(jobs)
+      .set({ status: 'pending', lockedAt: null, lastError: 'Released after worker stopped mid-run', updatedAt: new Date() })
+      .where(and(eq(jobs.status, 'running'), lt(jobs.lockedAt, lockedBefore)));
+    return result.rowCount ?? 0;
+  }
+
+  async deleteJob(id: string): Promise<boolean> {
+    const result = await db.delete(jobs).where(eq(jobs.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteCompletedJobs(completedBefore: Date): Promise<number> {
+    const result = await db
+      .delete(jobs)
+      .where(and(eq(jobs.status, 'completed'), lt(jobs.completedAt, completedBefore)));
+    return result.rowCount ?? 0;
+  }
+
+  async getJobs(filters?: { status?: string; type?: string; limit?: number; offset?: number }): Promise<{ jobs: Job[]; total: number }> {
+    const limit = filters?.limit || 50;
+    const offset = filters?.offset || 0;
+
+    let whereClause = sql`1=1`;
+    if (filters?.status) {
+      whereClause = and(whereClause, eq(jobs.status, filters.status))!;
+    }
+    if (filters?.type) {
+      whereClause = and(whereClause, eq(jobs.type, filters.type))!;
+    }
+
+    const jobsResult = await db
+      .select()
+      .from(jobs)
+      .where(whereClause)
+      .orderBy(desc(jobs.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const total = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(jobs)
+      .where(whereClause);
+
+    return { jobs: jobsResult, total: Number(total[0]?.count || 0) };
+  }
+
+  async getJobStats(): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: jobs.status, count: sql<number>`count(*)::int` })
+      .from(jobs)
+      .groupBy(jobs.status);
+    return Object.fromEntries(rows.map(row => [row.status, Number(row.count)]));
+  }
+
+  // Audit log operations
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const [log] = await db.insert(auditLogs).values(entry).returning();
+    return log;
+  }
+
+  async getAuditLogs(query: AuditLogQuery): Promise<{ logs: AuditLog[]; total: number }> {
+    let whereClause = sql`1=1`;
+    if (query.entityType) {
+      whereClause = and(whereClause, eq(auditLogs.entityType, query.entityType))!;
+    }
+    if (query.entityId) {
+      whereClause = and(whereClause, eq(auditLogs.entityId, query.entityId))!;
+    }
+    if (query.actorId) {
+      whereClause = and(whereClause, eq(auditLogs.actorId, query.actorId))!;
+    }
+    if (query.from) {
+      whereClause = and(whereClause, gte(auditLogs.createdAt, new Date(`${query.from}T00:00:00`)))!;
+    }
+    if (query.to) {
+      whereClause = and(whereClause, lte(auditLogs.createdAt, new Date(`${query.to}T23:59:59.999`)))!;
+    }
+    if (query.search) {
+      const pattern = `%${query.search}%`;
+      whereClause = and(whereClause, or(
+        ilike(auditLogs.action, pattern),
+        ilike(auditLogs.entityId, pattern),
+        ilike(auditLogs.actorName, pattern),
+        ilike(auditLogs.path, pattern),
+        sql`${auditLogs.changes}::text ILIKE ${pattern}`,
+      ))!;
+    }
+
+    const logs = await db
+      .select()
+      .from(auditLogs)
+      .where(whereClause)
+      .orderBy(desc(auditLogs.createdAt))
+      .limit(query.limit)
+      .offset((query.page - 1) * query.limit);
+
+    const total = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(auditLogs)
+      .where(whereClause);
+
+    return { logs, total: Number(total[0]?.count || 0) };
+  }
+
+  // Encrypted column operations (key rotation)
+  async getEncryptedValues(table: EncryptedTable): Promise<EncryptedValueRow[]> {
+    const config = ENCRYPTED_COLUMNS[table];
+    const rows = await db
+      .select({ id: config.id, label: config.label, ...config.fields })
+      .from(config.table);
+
+    return rows.map(({ id, label, ...values }) => ({
+      id: String(id),
+      label: String(label ?? ''),
+      values: values as Record<string, string | null>,
+    }));
+  }
+
+  // Compare-and-set - a value edited since it was read is left alone rather than overwritten with the stale one
+  async replaceEncryptedValue(table: EncryptedTable, id: string, field: string, expected: string, next: string): Promise<boolean> {
+    const config = ENCRYPTED_COLUMNS[table];
+    const column = config.fields[field];
+    if (!column) {
+      throw new Error(`${table}.${field} is not an encrypted column`);
+    }
+
+    const result = await db
+      .update(config.table)
+      .set({ [field]: next })
+      .where(and(eq(config.id, id), eq(column, expected)));
+    return (result.rowCount ?? 0) > 0;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,19 @@
+/**
+ * Whether a follower's source filter lets a trade from this source through (empty/missing filter copies all)
+ */
+export function matchesSourceFilter(sourceFilter: unknown, source: string): boolean {
+  if (!Array.isArray(sourceFilter) || sourceFilter.length === 0) {
+    return true;
+  }
+  return sourceFilter.includes(source);
+}
+
+/**
+ * Whether a follower's signal type filter lets this signal type through - case-insensitive, empty copies all
+ */
+export function matchesSignalTypeFilter(signalTypeFilter: unknown, signalType: string | null | undefined): boolean {
+  if (!Array.isArray(signalTypeFilter) || signalTypeFilter.length === 0) {
+    return true;
+  }
+  return !!signalType && signalTypeFilter.map((type: string) => type.toLowerCase()).includes(signalType.toLowerCase());
+}
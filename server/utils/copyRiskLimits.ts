@@ -0,0 +1,90 @@
+import type { CopyTradeRiskSnapshot, CopyTradeSkipReason } from '@shared/schema';
+
+/**
+ * Follower guardrails as numbers - null / undefined means no limit
+ */
+export interface CopyRiskLimits {
+  maxTradesPerDay?: number | null;
+  maxOpenPositions?: number | null;
+  dailyLossLimit?: number | null;
+  weeklyLossLimit?: number | null;
+  maxPairNotional?: number | null;
+  maxTotalNotional?: number | null;
+  maxLeverage?: number | null;
+}
+
+export type CopyRiskBreach = { reason: CopyTradeSkipReason; message: string };
+
+/**
+ * Limits that don't depend on the new copy's size - trade count, open positions and realized losses
+ */
+export function checkActivityLimits(limits: CopyRiskLimits, snapshot: CopyTradeRiskSnapshot): CopyRiskBreach | null {
+  if (limits.maxTradesPerDay && snapshot.tradesToday >= limits.maxTradesPerDay) {
+    return { reason: 'max_trades_per_day', message: `Already copied ${snapshot.tradesToday} trades today (limit ${limits.maxTradesPerDay})` };
+  }
+
+  if (limits.maxOpenPositions && snapshot.openPositions.length >= limits.maxOpenPositions) {
+    return { reason: 'max_open_positions', message: `${snapshot.openPositions.length} copy positions already open (limit ${limits.maxOpenPositions})` };
+  }
+
+  if (limits.dailyLossLimit && -snapshot.realizedPnlToday >= limits.dailyLossLimit) {
+    return {
+      reason: 'daily_loss_limit',
+      message: `Realized loss today ${(-snapshot.realizedPnlToday).toFixed(2)} USDT reached the daily limit of ${limits.dailyLossLimit} USDT`,
+    };
+  }
+
+  if (limits.weeklyLossLimit && -snapshot.realizedPnlWeek >= limits.weeklyLossLimit) {
+    return {
+      reason: 'weekly_loss_limit',
+      message: `Realized loss this week ${(-snapshot.realizedPnlWeek).toFixed(2)} USDT reached the weekly limit of ${limits.weeklyLossLimit} USDT`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Whether any limit needs the new copy's notional or leverage
+ */
+export function needsExposure(limits: CopyRiskLimits): boolean {
+  return !!(limits.maxPairNotional || limits.maxTotalNotional || limits.maxLeverage);
+}
+
+/**
+ * Limits on the new copy's size - leverage ceiling, then per-pair and total open notional
+ */
+export function checkExposureLimits(
+  limits: CopyRiskLimits,
+  snapshot: CopyTradeRiskSnapshot,
+  pair: string,
+  exposure: { notional: number; leverage: number }
+): CopyRiskBreach | null {
+  if (limits.maxLeverage && exposure.leverage > limits.maxLeverage) {
+    return { reason: 'leverage_ceiling', message: `Copy needs ${exposure.leverage}x leverage, above the ${limits.maxLeverage}x ceiling` };
+  }
+
+  if (limits.maxPairNotional) {
+    const pairNotional = snapshot.openPositions
+      .filter(position => position.pair === pair)
+      .reduce((sum, position) => sum + position.notional, 0);
+    if (pairNotional + exposure.notional > limits.maxPairNotional) {
+      return {
+        reason: 'pair_notional_cap',
+        message: `${pair} exposure would be ${(pairNotional + exposure.notional).toFixed(2)} USDT (cap ${limits.maxPairNotional} USDT)`,
+      };
+    }
+  }
+
+  if (limits.maxTotalNotional) {
+    const totalNotional = snapshot.openPositions.reduce((sum, position) => sum + position.notional, 0);
+    if (totalNotional + exposure.notional > limits.maxTotalNotional) {
+      return {
+        reason: 'total_notional_cap',
+        message: `Total exposure would be ${(totalNotional + exposure.notional).toFixed(2)} USDT (cap ${limits.maxTotalNotional} USDT)`,
+      };
+    }
+  }
+
+  return null;
+}
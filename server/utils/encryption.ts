@@ -1,47 +1,188 @@
 import crypto from 'crypto';
 
-// Use encryption key from environment (required)
+// Keyring - ENCRYPTION_KEYS="<id>:<secret>,<id>:<secret>" holds every key that may still open stored data,
+// ENCRYPTION_ACTIVE_KEY_ID picks the one new data is encrypted with. ENCRYPTION_KEY on its own is key "default".
 const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY;
-if (!ENCRYPTION_KEY) {
-  throw new Error('ENCRYPTION_KEY environment variable is required');
-}
+const KEY_ID_PATTERN = /^[A-Za-z0-9_.-]+$/;
+const DEFAULT_KEY_ID = 'default';
 const ALGORITHM = 'aes-256-gcm'; // Use GCM for authenticated encryption
+const ENVELOPE_VERSION = 'v2';
+
+function loadKeyring(): Map<string, string> {
+  const keyring = new Map<string, string>();
+  if (ENCRYPTION_KEY) {
+    keyring.set(DEFAULT_KEY_ID, ENCRYPTION_KEY);
+  }
+
+  for (const entry of (process.env.ENCRYPTION_KEYS || '').split(',').map(part => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const keyId = separator > 0 ? entry.slice(0, separator) : '';
+    const secret = separator > 0 ? entry.slice(separator + 1) : '';
+    if (!KEY_ID_PATTERN.test(keyId) || !secret) {
+      throw new Error('ENCRYPTION_KEYS entries must look like <id>:<secret> (id: letters, digits, ".", "_" or "-")');
+    }
+    keyring.set(keyId, secret);
+  }
+
+  if (keyring.size === 0) {
+    throw new Error('ENCRYPTION_KEY environment variable is required');
+  }
+  return keyring;
+}
+
+const KEYRING = loadKeyring();
+// Without an explicit choice the last key listed wins - append a new key to rotate onto it
+const ACTIVE_KEY_ID = process.env.ENCRYPTION_ACTIVE_KEY_ID || Array.from(KEYRING.keys()).pop()!;
+if (!KEYRING.has(ACTIVE_KEY_ID)) {
+  throw new Error(`ENCRYPTION_ACTIVE_KEY_ID "${ACTIVE_KEY_ID}" is not in the keyring`);
+}
+
+// Key-encryption keys are derived once per key id - each value carries its own random data key
+const keyEncryptionKeys = new Map<string, Buffer>();
+
+function getKeyEncryptionKey(keyId: string): Buffer {
+  const secret = KEYRING.get(keyId);
+  if (!secret) {
+    throw new Error(`Unknown encryption key id: ${keyId}`);
+  }
+
+  let kek = keyEncryptionKeys.get(keyId);
+  if (!kek) {
+    kek = crypto.pbkdf2Sync(secret, `envelope:${keyId}`, 100000, 32, 'sha512');
+    keyEncryptionKeys.set(keyId, kek);
+  }
+  return kek;
+}
+
+function sealWith(key: Buffer, plaintext: Buffer, aad?: string): { iv: Buffer; ciphertext: Buffer; authTag: Buffer } {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  if (aad) cipher.setAAD(Buffer.from(aad, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, ciphertext, authTag: cipher.getAuthTag() };
+}
+
+function openWith(key: Buffer, iv: Buffer, ciphertext: Buffer, authTag: Buffer, aad?: string): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  if (aad) decipher.setAAD(Buffer.from(aad, 'utf8'));
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+interface Envelope {
+  keyId: string;
+  wrapIv: Buffer;
+  wrappedKey: Buffer;
+  wrapTag: Buffer;
+  iv: Buffer;
+  ciphertext: Buffer;
+  authTag: Buffer;
+}
+
+// v2:keyId:wrapIv:wrappedKey:wrapTag:iv:ciphertext:authTag (binary parts in hex)
+function parseEnvelope(data: string): Envelope | null {
+  const parts = data.split(':');
+  if (parts.length !== 8 || parts[0] !== ENVELOPE_VERSION || !KEY_ID_PATTERN.test(parts[1])) {
+    return null;
+  }
+  if (!parts.slice(2).every(part => /^[a-f0-9]*$/i.test(part))) {
+    return null;
+  }
+
+  const [, keyId, wrapIv, wrappedKey, wrapTag, iv, ciphertext, authTag] = parts;
+  return {
+    keyId,
+    wrapIv: Buffer.from(wrapIv, 'hex'),
+    wrappedKey: Buffer.from(wrappedKey, 'hex'),
+    wrapTag: Buffer.from(wrapTag, 'hex'),
+    iv: Buffer.from(iv, 'hex'),
+    ciphertext: Buffer.from(ciphertext, 'hex'),
+    authTag: Buffer.from(authTag, 'hex'),
+  };
+}
+
+function formatEnvelope(envelope: Envelope): string {
+  return [
+    ENVELOPE_VERSION,
+    envelope.keyId,
+    ...[envelope.wrapIv, envelope.wrappedKey, envelope.wrapTag, envelope.iv, envelope.ciphertext, envelope.authTag].map(part => part.toString('hex')),
+  ].join(':');
+}
+
+// The data key is wrapped with the key id as AAD, so a ciphertext can't be relabelled to another key
+function wrapDataKey(dataKey: Buffer, keyId: string): Pick<Envelope, 'keyId' | 'wrapIv' | 'wrappedKey' | 'wrapTag'> {
+  const wrapped = sealWith(getKeyEncryptionKey(keyId), dataKey, keyId);
+  return { keyId, wrapIv: wrapped.iv, wrappedKey: wrapped.ciphertext, wrapTag: wrapped.authTag };
+}
+
+function unwrapDataKey(envelope: Envelope): Buffer {
+  return openWith(getKeyEncryptionKey(envelope.keyId), envelope.wrapIv, envelope.wrappedKey, envelope.wrapTag, envelope.keyId);
+}
+
+export function getActiveKeyId(): string {
+  return ACTIVE_KEY_ID;
+}
+
+export function getKeyIds(): string[] {
+  return Array.from(KEYRING.keys());
+}
 
 /**
- * Encrypt a string using AES-256-GCM (authenticated encryption)
+ * Encrypt a string with a fresh data key (AES-256-GCM), wrapped by the active key
  */
 export function encrypt(text: string): string {
   try {
-    // Generate a random salt for each encryption
-    const salt = crypto.randomBytes(32);
-    
-    // Derive key using PBKDF2 with the random salt
-    const key = crypto.pbkdf2Sync(ENCRYPTION_KEY, salt, 100000, 32, 'sha512');
-    
-    // Generate a random IV for each encryption
-    const iv = crypto.randomBytes(16);
-    
-    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
-    let encrypted = cipher.update(text, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-    
-    // Get the authentication tag for integrity verification
-    const authTag = cipher.getAuthTag();
-    
-    // Return salt:iv:authTag:encrypted (all in hex)
-    return salt.toString('hex') + ':' + iv.toString('hex') + ':' + authTag.toString('hex') + ':' + encrypted;
+    const dataKey = crypto.randomBytes(32);
+    const sealed = sealWith(dataKey, Buffer.from(text, 'utf8'));
+    return formatEnvelope({ ...wrapDataKey(dataKey, ACTIVE_KEY_ID), ...sealed });
   } catch (error) {
     console.error('Encryption error:', error);
     throw new Error('Failed to encrypt data');
   }
 }
 
+/**
+ * Key id the value is encrypted under - "legacy" for the pre-keyring formats, null when it isn't encrypted
+ */
+export function getKeyId(data: string): string | null {
+  const envelope = parseEnvelope(data);
+  if (envelope) return envelope.keyId;
+  return data && isEncrypted(data) ? 'legacy' : null;
+}
+
+/**
+ * Move a value onto the active key - envelopes only have their data key re-wrapped, older formats are re-encrypted.
+ * Returns the input unchanged when it is already on the active key.
+ */
+export function reencrypt(data: string): string {
+  const envelope = parseEnvelope(data);
+  if (envelope) {
+    if (envelope.keyId === ACTIVE_KEY_ID) return data;
+    try {
+      return formatEnvelope({ ...envelope, ...wrapDataKey(unwrapDataKey(envelope), ACTIVE_KEY_ID) });
+    } catch {
+      throw new Error(`Failed to re-wrap data encrypted with key ${envelope.keyId}`);
+    }
+  }
+
+  const result = tryDecrypt(data);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return encrypt(result.value);
+}
+
 /**
  * Decrypt a string using AES-256-GCM
  */
 export function decrypt(encryptedData: string): string {
   try {
-    // Split salt, IV, authTag and encrypted data
+    const envelope = parseEnvelope(encryptedData);
+    if (envelope) {
+      return openWith(unwrapDataKey(envelope), envelope.iv, envelope.ciphertext, envelope.authTag).toString('utf8');
+    }
+
+    // Pre-keyring format: split salt, IV, authTag and encrypted data
     const parts = encryptedData.split(':');
     if (parts.length !== 4) {
       throw new Error('Invalid encrypted data format - expected 4 parts');
@@ -53,16 +194,19 @@ export function decrypt(encryptedData: string): string {
     const iv = Buffer.from(ivHex, 'hex');
     const authTag = Buffer.from(authTagHex, 'hex');
     
-    // Derive the same key using the stored salt
-    const key = crypto.pbkdf2Sync(ENCRYPTION_KEY, salt, 100000, 32, 'sha512');
-    
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-    decipher.setAuthTag(authTag);
-    
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-    
-    return decrypted;
+    // It carries no key id - try the "default" key first, then the rest of the keyring
+    const secrets = [KEYRING.get(DEFAULT_KEY_ID), ...Array.from(KEYRING.entries()).filter(([keyId]) => keyId !== DEFAULT_KEY_ID).map(([, secret]) => secret)];
+    for (const secret of secrets) {
+      if (!secret) continue;
+      try {
+        // Derive the same key using the stored salt
+        const key = crypto.pbkdf2Sync(secret, salt, 100000, 32, 'sha512');
+        return openWith(key, iv, Buffer.from(encrypted, 'hex'), authTag).toString('utf8');
+      } catch {
+        // Not this key
+      }
+    }
+    throw new Error('Unsupported state or unable to authenticate data');
   } catch (error) {
     // Only log if it's not a common authentication failure (legacy data)
     if (!(error instanceof Error && error.message.includes('unable to authenticate data'))) {
@@ -76,7 +220,12 @@ export function decrypt(encryptedData: string): string {
  * Check if a string appears to be encrypted (contains salt:iv:authTag:encrypted pattern)
  */
 export function isEncrypted(data: string): boolean {
-  // New format: salt:iv:authTag:encrypted (4 parts)
+  // Envelope format: v2:keyId:... (8 parts)
+  if (parseEnvelope(data)) {
+    return true;
+  }
+
+  // Pre-keyring format: salt:iv:authTag:encrypted (4 parts)
   const parts = data.split(':');
   if (parts.length === 4) {
     return parts.every(part => /^[a-f0-9]+$/i.test(part));
@@ -130,8 +279,8 @@ export function safeDecrypt(data: string): string {
   try {
     const parts = data.split(':');
     
-    // Try new format first (4 parts: salt:iv:authTag:encrypted)
-    if (parts.length === 4) {
+    // Envelope (8 parts) or pre-keyring format (4 parts: salt:iv:authTag:encrypted)
+    if (parts.length === 8 || parts.length === 4) {
       return decrypt(data);
     }
     
@@ -152,4 +301,28 @@ export function safeDecrypt(data: string): string {
     }
     return data; // Fallback to original if decryption fails
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Like safeDecrypt, but says when an encrypted value can't be opened instead of handing the ciphertext back
+ */
+export function tryDecrypt(data: string): { success: true; value: string } | { success: false; error: string } {
+  if (!data || !isEncrypted(data)) {
+    return { success: true, value: data };
+  }
+
+  const keyId = parseEnvelope(data)?.keyId;
+  if (keyId && !KEYRING.has(keyId)) {
+    return { success: false, error: `Encrypted with key "${keyId}", which is not in the keyring` };
+  }
+
+  try {
+    const parts = data.split(':');
+    if (parts.length === 2) {
+      return { success: true, value: decryptLegacy(data) };
+    }
+    return { success: true, value: decrypt(data) };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to decrypt data' };
+  }
+}
@@ -0,0 +1,152 @@
+import type { Trade } from "@shared/schema";
+
+export interface RealizedPnlInput {
+  side: string; // 'buy' / 'sell' (case-insensitive)
+  entryPrice: number;
+  exitPrice: number;
+  quantity: number;
+  leverage: number;
+  stopLoss?: number | null;
+  fees?: number;
+}
+
+export interface RealizedPnl {
+  pnl: number; // Net of fees, in quote currency
+  pnlPercent: number; // Leveraged return on margin
+  rMultiple: number | null; // null when no usable stop loss
+  fees: number;
+}
+
+/**
+ * Realized P&L for a closed futures position
+ */
+export function calculateRealizedPnl(input: RealizedPnlInput): RealizedPnl {
+  const { side, entryPrice, exitPrice, quantity, leverage, stopLoss } = input;
+  const fees = input.fees || 0;
+  const direction = side.toLowerCase() === 'sell' ? -1 : 1;
+  const move = (exitPrice - entryPrice) * direction;
+
+  const grossPnl = move * quantity;
+  const pnl = grossPnl - fees;
+
+  // Same leveraged % convention as the trades list gain/loss column
+  const pnlPercent = entryPrice > 0 ? (move / entryPrice) * 100 * (leverage || 1) : 0;
+
+  const riskPerUnit = stopLoss ? Math.abs(entryPrice - stopLoss) : 0;
+  const rMultiple = riskPerUnit > 0 ? move / riskPerUnit : null;
+
+  return { pnl, pnlPercent, rMultiple, fees };
+}
+
+/**
+ * Exit price implied by a completion reason (target/stop level that closed the trade)
+ */
+export function getExitPriceForReason(trade: Trade, completionReason: string | null | undefined): number | null {
+  const toNumber = (value: string | null | undefined) => value ? Number(value) : null;
+
+  switch (completionReason) {
+    case 'stop_loss_hit':
+      return toNumber(trade.stopLossTrigger);
+    case 'target_1_hit':
+      return toNumber(trade.takeProfitTrigger);
+    case 'target_2_hit':
+      return toNumber(trade.takeProfit2);
+    case 'target_3_hit':
+      return toNumber(trade.takeProfit3);
+    case 'safe_book':
+      return toNumber(trade.safebookPrice);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Realized P&L columns for a master trade closed at exitPrice
+ */
+export function buildTradePnlFields(trade: Trade, exitPrice: number, exitTime: Date, exitFee: number = 0) {
+  const entryPrice = Number(trade.price);
+  const quantity = entryPrice > 0 ? Number(trade.total) / entryPrice : 0;
+  const result = calculateRealizedPnl({
+    side: trade.type,
+    entryPrice,
+    exitPrice,
+    quantity,
+    leverage: trade.leverage,
+    stopLoss: trade.stopLossTrigger ? Number(trade.stopLossTrigger) : null,
+    fees: Number(trade.fee || 0) + exitFee,
+  });
+
+  return {
+    exitPrice: exitPrice.toString(),
+    exitTime,
+    realizedPnl: result.pnl.toFixed(8),
+    realizedPnlPercent: result.pnlPercent.toFixed(4),
+    totalFees: result.fees.toFixed(8),
+    rMultiple: result.rMultiple !== null ? result.rMultiple.toFixed(4) : null,
+  };
+}
+
+export interface PerformanceStats {
+  closedWithPnl: number;
+  wins: number;
+  losses: number;
+  winRate: number; // %
+  averageR: number | null;
+  profitFactor: number | null; // null when there are no losing trades
+  totalRealizedPnl: number;
+  maxDrawdown: number; // Largest peak-to-trough drop of cumulative realized P&L
+  maxDrawdownPercent: number; // Same drop measured on cumulative P&L %
+}
+
+/**
+ * Aggregate performance metrics over closed trades, in exit order
+ */
+export function calculatePerformanceStats(closed: { pnl: number; pnlPercent: number; rMultiple: number | null }[]): PerformanceStats {
+  let wins = 0;
+  let losses = 0;
+  let grossProfit = 0;
+  let grossLoss = 0;
+  let rSum = 0;
+  let rCount = 0;
+  let cumulative = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  let cumulativePercent = 0;
+  let peakPercent = 0;
+  let maxDrawdownPercent = 0;
+
+  for (const trade of closed) {
+    if (trade.pnl > 0) {
+      wins++;
+      grossProfit += trade.pnl;
+    } else if (trade.pnl < 0) {
+      losses++;
+      grossLoss += Math.abs(trade.pnl);
+    }
+
+    if (trade.rMultiple !== null) {
+      rSum += trade.rMultiple;
+      rCount++;
+    }
+
+    cumulative += trade.pnl;
+    peak = Math.max(peak, cumulative);
+    maxDrawdown = Math.max(maxDrawdown, peak - cumulative);
+
+    cumulativePercent += trade.pnlPercent;
+    peakPercent = Math.max(peakPercent, cumulativePercent);
+    maxDrawdownPercent = Math.max(maxDrawdownPercent, peakPercent - cumulativePercent);
+  }
+
+  return {
+    closedWithPnl: closed.length,
+    wins,
+    losses,
+    winRate: closed.length > 0 ? (wins / closed.length) * 100 : 0,
+    averageR: rCount > 0 ? rSum / rCount : null,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    totalRealizedPnl: cumulative,
+    maxDrawdown,
+    maxDrawdownPercent,
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * Split a canonical pair into base/quote (e.g. "B-SOL_USDT" → SOL, USDT)
+ */
+export function splitPair(pair: string): { base: string; quote: string } {
+  const normalized = pair.replace(/^[BI]-|^KC-/, '').toUpperCase();
+  const [base, quote = 'USDT'] = normalized.split('_');
+  return { base, quote };
+}
+
+/**
+ * Canonical pair from a concatenated exchange symbol (e.g. "SOLUSDT" → "SOL_USDT")
+ */
+export function joinSymbol(symbol: string, quotes: string[] = ['USDT', 'USDC', 'BUSD', 'USD']): string {
+  const upper = symbol.toUpperCase();
+  const quote = quotes.find(q => upper.endsWith(q) && upper.length > q.length);
+  return quote ? `${upper.slice(0, -quote.length)}_${quote}` : upper;
+}
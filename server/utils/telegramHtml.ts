@@ -0,0 +1,105 @@
+// Tags Telegram's HTML parse mode accepts - anything else makes sendMessage fail with "can't parse entities"
+const TELEGRAM_TAGS = new Set([
+  'b', 'strong', 'i', 'em', 'u', 'ins', 's', 'strike', 'del',
+  'span', 'tg-spoiler', 'a', 'tg-emoji', 'code', 'pre', 'blockquote',
+]);
+const TELEGRAM_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"' };
+
+const TAG_PATTERN = /^<(\/?)([a-zA-Z][\w-]*)((?:\s[^<>]*)?)>/;
+const ENTITY_PATTERN = /^&(#\d+|#x[0-9a-fA-F]+|[a-zA-Z]+);/;
+
+export interface TelegramHtmlIssue {
+  message: string;
+  index: number;
+  line: number;
+  column: number;
+}
+
+function position(text: string, index: number): { line: number; column: number } {
+  const before = text.slice(0, index).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/**
+ * Check a rendered HTML message the way Telegram parses it - unsupported or unbalanced tags, stray < and &
+ */
+export function validateTelegramHtml(text: string): TelegramHtmlIssue[] {
+  const issues: TelegramHtmlIssue[] = [];
+  const open: { name: string; index: number }[] = [];
+  const report = (message: string, index: number) => issues.push({ message, index, ...position(text, index) });
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '<') {
+      const match = TAG_PATTERN.exec(text.slice(i));
+      if (!match) {
+        report('Unescaped "<" - write &lt; for a literal less-than sign', i);
+        continue;
+      }
+
+      const [tag, closing, rawName, attributes] = match;
+      const name = rawName.toLowerCase();
+      const start = i;
+      i += tag.length - 1;
+
+      if (!TELEGRAM_TAGS.has(name)) {
+        report(`<${name}> is not supported by Telegram`, start);
+        continue;
+      }
+
+      if (closing) {
+        const top = open[open.length - 1];
+        if (!top) {
+          report(`</${name}> has no opening tag`, start);
+        } else if (top.name !== name) {
+          report(`</${name}> closes <${top.name}>`, start);
+          open.pop();
+        } else {
+          open.pop();
+        }
+        continue;
+      }
+
+      if (name === 'a' && !/\bhref\s*=/.test(attributes)) {
+        report('<a> needs an href', start);
+      } else if (name === 'span' && !/class\s*=\s*["']?tg-spoiler/.test(attributes)) {
+        report('<span> is only supported as <span class="tg-spoiler">', start);
+      } else if (name === 'tg-emoji' && !/\bemoji-id\s*=/.test(attributes)) {
+        report('<tg-emoji> needs an emoji-id', start);
+      }
+      open.push({ name, index: start });
+    } else if (char === '&') {
+      const match = ENTITY_PATTERN.exec(text.slice(i));
+      if (!match) {
+        report('Unescaped "&" - write &amp; for a literal ampersand', i);
+      } else {
+        if (!match[1].startsWith('#') && !(match[1] in TELEGRAM_ENTITIES)) {
+          report(`&${match[1]}; is not supported by Telegram - only &lt; &gt; &amp; &quot; and numeric entities`, i);
+        }
+        i += match[0].length - 1;
+      }
+    }
+  }
+
+  for (const tag of open) {
+    report(`<${tag.name}> is never closed`, tag.index);
+  }
+
+  return issues.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Length Telegram counts against its limits - the text left once HTML tags and entities are parsed
+ */
+export function telegramTextLength(text: string, parseMode: string | null | undefined): number {
+  // Telegram counts UTF-16 code units, same as String.length
+  if ((parseMode || 'HTML').toUpperCase() !== 'HTML') {
+    return text.length;
+  }
+
+  return text
+    .replace(/<\/?[a-zA-Z][\w-]*(?:\s[^<>]*)?>/g, '')
+    .replace(/&(#\d+|#x[0-9a-fA-F]+|[a-zA-Z]+);/g, (entity, name: string) => name.startsWith('#') ? ' ' : TELEGRAM_ENTITIES[name] ?? entity)
+    .length;
+}
@@ -0,0 +1,206 @@
+import { normalizeTargetStatus, type Trade } from '@shared/schema';
+import { DEFAULT_TEMPLATE_LOCALE, TemplateNumber, formatTemplateDate, toNumber, type TemplateContext, type TemplateLocale } from '@shared/templateEngine';
+
+// Variables trade templates had before the template language - includeFields can still narrow these
+export const LEGACY_TRADE_VARIABLES = [
+  'pair', 'type', 'price', 'total', 'leverage', 'status', 'tradeId', 'timestamp', 'fee',
+  'stopLoss', 'takeProfit1', 'takeProfit2', 'takeProfit3', 'safebookPrice', 'signalType', 'notes',
+];
+
+// Prices print as "$1234.5600" unless a filter says otherwise - what every existing template was written against
+function legacyPrice(value: string | number | null | undefined, tickSize?: number): TemplateNumber | null {
+  const amount = toNumber(value);
+  return amount === null || !value ? null : new TemplateNumber(amount, `$${amount.toFixed(4)}`, tickSize);
+}
+
+function signedNumber(value: string | number | null | undefined, format: (amount: number) => string): TemplateNumber | null {
+  const amount = toNumber(value);
+  if (amount === null) return null;
+  const sign = amount > 0 ? '+' : amount < 0 ? '-' : '';
+  return new TemplateNumber(amount, `${sign}${format(Math.abs(amount))}`);
+}
+
+/**
+ * Variables for trade templates and their buttons - legacy fields plus computed ones (direction, targets, P&L)
+ */
+export function buildTradeTemplateContext(
+  trade: Trade,
+  options: { tickSize?: number; includeFields?: string[] } = {},
+): TemplateContext {
+  const { tickSize } = options;
+  const targetStatus = normalizeTargetStatus(trade.targetStatus);
+  const isLong = (trade.type || '').toLowerCase() === 'buy';
+
+  const targets = [trade.takeProfitTrigger, trade.takeProfit2, trade.takeProfit3]
+    .map((price, index) => ({
+      number: index + 1,
+      label: `TP${index + 1}`,
+      price: legacyPrice(price, tickSize),
+      hit: [targetStatus.target_1, targetStatus.target_2, targetStatus.target_3][index],
+    }))
+    .filter(target => target.price !== null);
+
+  const leverage = toNumber(trade.leverage);
+  const total = toNumber(trade.total);
+  const fee = toNumber(trade.fee);
+
+  const context: TemplateContext = {
+    pair: trade.pair || '',
+    type: trade.type || '',
+    price: legacyPrice(trade.price, tickSize),
+    total: total === null ? null : new TemplateNumber(total, total.toFixed(4)),
+    leverage: leverage ? new TemplateNumber(leverage, `${leverage}x`) : null,
+    status: trade.status || '',
+    tradeId: trade.tradeId || '',
+    timestamp: trade.createdAt ? new Date(trade.createdAt) : null,
+    fee: fee ? new TemplateNumber(fee, `$${fee.toFixed(4)}`) : new TemplateNumber(0, '$0.00'),
+    stopLoss: legacyPrice(trade.stopLossTrigger, tickSize),
+    takeProfit1: legacyPrice(trade.takeProfitTrigger, tickSize),
+    takeProfit2: legacyPrice(trade.takeProfit2, tickSize),
+    takeProfit3: legacyPrice(trade.takeProfit3, tickSize),
+    safebookPrice: legacyPrice(trade.safebookPrice, tickSize),
+    signalType: trade.signalType || '',
+    notes: trade.notes || '',
+
+    // Computed
+    direction: isLong ? 'LONG' : 'SHORT',
+    isLong,
+    isShort: !isLong,
+    targets,
+    targetCount: targets.length,
+    targetsHit: targets.filter(target => target.hit).length,
+    stopLossHit: targetStatus.stop_loss,
+    safebookHit: targetStatus.safebook,
+    tickSize: tickSize ?? null,
+    exitPrice: legacyPrice(trade.exitPrice, tickSize),
+    exitTime: trade.exitTime ? new Date(trade.exitTime) : null,
+    completionReason: trade.completionReason || '',
+    profitLoss: signedNumber(trade.realizedPnl, amount => `$${amount.toFixed(2)}`),
+    realizedPnlPercent: signedNumber(trade.realizedPnlPercent, amount => `${amount.toFixed(2)}%`),
+    rMultiple: signedNumber(trade.rMultiple, amount => `${amount.toFixed(2)}R`),
+  };
+
+  // includeFields hides the legacy variables it doesn't list (they render empty, as before)
+  const includeFields = options.includeFields || [];
+  if (includeFields.length > 0) {
+    for (const field of LEGACY_TRADE_VARIABLES) {
+      if (!includeFields.includes(field)) context[field] = null;
+    }
+  }
+
+  return context;
+}
+
+// Research levels print as "$46000" (no trailing zeros) unless a filter says otherwise
+function researchLevel(value: unknown): TemplateNumber | null {
+  const amount = value ? parseFloat(String(value)) : NaN;
+  return isNaN(amount) ? null : new TemplateNumber(amount, `$${amount.toString()}`);
+}
+
+/**
+ * Variables for research report templates
+ */
+export function buildResearchReportTemplateContext(data: any): TemplateContext {
+  const scenarios = data.scenarios || {};
+  const upside = scenarios.upside || {};
+  const downside = scenarios.downside || {};
+  const breakout = typeof data.breakoutDirection === 'string' ? data.breakoutDirection.toLowerCase() : '';
+
+  return {
+    pair: data.pair || '',
+    supportLevel: data.supportLevel || '',
+    resistanceLevel: data.resistanceLevel || '',
+    summary: data.summary || '',
+    upsideTarget1: researchLevel(upside.target1),
+    upsideTarget2: researchLevel(upside.target2),
+    downsideTarget1: researchLevel(downside.target1),
+    downsideTarget2: researchLevel(downside.target2),
+    breakoutDirection: breakout ? `📈 ${breakout.charAt(0).toUpperCase() + breakout.slice(1)}` : '📈 Upside',
+    imageUrl: data.imageUrl || '',
+    timestamp: new Date(),
+    reportId: data.id || '',
+
+    // Computed
+    breakout: breakout || 'upside',
+    isUpside: breakout !== 'downside',
+    upsideTargets: [upside.target1, upside.target2].map(researchLevel).filter(Boolean),
+    downsideTargets: [downside.target1, downside.target2].map(researchLevel).filter(Boolean),
+  };
+}
+
+/**
+ * Variables for simple (scheduled) templates - there is no trade, only the send time
+ */
+export function buildSimpleTemplateContext(now: Date = new Date(), locale: TemplateLocale = DEFAULT_TEMPLATE_LOCALE): TemplateContext {
+  return {
+    timestamp: now,
+    now,
+    date: formatTemplateDate(now, 'DD MMM YYYY', undefined, locale),
+    weekday: formatTemplateDate(now, 'dddd', undefined, locale),
+  };
+}
+
+// Sample records for test sends and previews - a long trade with TP1 hit and a research report breaking upside
+export const SAMPLE_TRADE: Trade = {
+  id: 'test-trade-123',
+  tradeId: 'TXN-TEST-123',
+  pair: 'B-BTC_USDT',
+  type: 'buy',
+  price: '45250.50',
+  leverage: 10,
+  total: '4525.05',
+  fee: '2.26',
+  takeProfitTrigger: '47000.00',
+  takeProfit2: '48500.00',
+  takeProfit3: '50000.00',
+  stopLossTrigger: '42000.00',
+  safebookPrice: '46000.00',
+  targetStatus: { target_1: true },
+  status: 'active',
+  completionReason: null,
+  exchangeExited: false,
+  notes: null,
+  exitPrice: null,
+  exitTime: null,
+  realizedPnl: '175.00',
+  realizedPnlPercent: '38.67',
+  totalFees: '4.52',
+  rMultiple: '0.54',
+  source: 'coindcx',
+  signalType: 'intraday',
+  channelId: null,
+  signalAlertId: null,
+  signalSourceId: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+export const SAMPLE_RESEARCH_REPORT = {
+  id: 'RR-TEST-123',
+  pair: 'BTC-USDT',
+  supportLevel: '42,500.00',
+  resistanceLevel: '48,000.00',
+  summary: 'Strong bullish momentum with potential breakout above resistance. Support levels holding well.',
+  scenarios: {
+    upside: { target1: '50000', target2: '52500' },
+    downside: { target1: '40000', target2: '38500' },
+  },
+  breakoutDirection: 'upside',
+  imageUrl: '/images/btc-analysis.png',
+};
+
+/**
+ * Sample variables for a template type - what test sends render against
+ */
+export function buildSampleTemplateContext(
+  templateType: string | null | undefined,
+  locale: TemplateLocale = DEFAULT_TEMPLATE_LOCALE,
+): TemplateContext {
+  if (templateType === 'research_report') {
+    return buildResearchReportTemplateContext(SAMPLE_RESEARCH_REPORT);
+  }
+  if (templateType === 'simple') {
+    return buildSimpleTemplateContext(new Date(), locale);
+  }
+  return buildTradeTemplateContext({ ...SAMPLE_TRADE, createdAt: new Date() }, { tickSize: 0.1 });
+}
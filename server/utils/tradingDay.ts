@@ -0,0 +1,15 @@
+const KOLKATA_OFFSET_MS = 5.5 * 60 * 60 * 1000; // IST has no DST
+
+/**
+ * Start of the current Asia/Kolkata calendar day, and of its week (Monday)
+ */
+export function getKolkataPeriodStarts(now: Date = new Date()): { dayStart: Date; weekStart: Date } {
+  const local = new Date(now.getTime() + KOLKATA_OFFSET_MS);
+  local.setUTCHours(0, 0, 0, 0);
+  const dayStart = new Date(local.getTime() - KOLKATA_OFFSET_MS);
+
+  const daysSinceMonday = (local.getUTCDay() + 6) % 7;
+  const weekStart = new Date(dayStart.getTime() - daysSinceMonday * 24 * 60 * 60 * 1000);
+
+  return { dayStart, weekStart };
+}
@@ -10,9 +10,11 @@ import {
   decimal,
   boolean,
   integer,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DEFAULT_TEMPLATE_LOCALE, TEMPLATE_LOCALES, isTemplateLocale, validateTemplate, type TemplateLocale } from "./templateEngine";
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -33,11 +35,50 @@ export const users = pgTable("users", {
   email: varchar("email"),
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
-  apiKey: varchar("api_key").unique(), // API key for external trade registration
+  apiKey: varchar("api_key").unique(), // Legacy single API key - moved into api_keys (hashed) at startup
+  role: varchar("role").notNull().default('read_only'), // owner, trader, analyst, support, read_only - see ROLE_PERMISSIONS
+  totpSecret: text("totp_secret"), // Encrypted base32 secret - stored at enrollment, enforced once totpEnabledAt is set
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastUsedStep: integer("totp_last_used_step"), // Last accepted 30s step - a code can't be used twice
+  recoveryCodeHashes: jsonb("recovery_code_hashes").default([]), // sha256 of unused recovery codes
+  failedAuthAttempts: integer("failed_auth_attempts").notNull().default(0), // Wrong 2FA codes / re-auth passwords in a row, across sessions
+  authLockedUntil: timestamp("auth_locked_until"), // Set after too many failures - code checks are refused until then
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Pending dashboard invites - the token itself is only ever shown once, we keep its hash
+export const userInvites = pgTable("user_invites", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: varchar("email").notNull(),
+  role: varchar("role").notNull(),
+  tokenHash: varchar("token_hash").unique().notNull(), // sha256 of the invite token
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: 'set null' }),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedBy: varchar("accepted_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Named API keys - a key acts as its owner's role, narrowed further by its scopes
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  keyPrefix: varchar("key_prefix").notNull(), // First characters of the key, shown in the list so keys can be told apart
+  keyHash: varchar("key_hash").unique().notNull(), // sha256 of the full key - the key itself is only shown once
+  scopes: jsonb("scopes").notNull().default([]), // ApiKeyScope[]
+  ipAllowlist: jsonb("ip_allowlist").notNull().default([]), // IPs or CIDR ranges - empty means any IP
+  expiresAt: timestamp("expires_at"), // Null = never expires
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: varchar("last_used_ip"),
+  requestCount: integer("request_count").notNull().default(0),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_api_keys_user").on(table.userId),
+]);
+
 
 
 // Message templates table (define first to avoid circular reference)
@@ -51,12 +92,34 @@ export const messageTemplates = pgTable("message_templates", {
   buttons: jsonb("buttons").default([]), // Inline keyboard buttons
   parseMode: varchar("parse_mode").default("HTML"), // HTML or Markdown
   imageUrl: text("image_url"), // Optional image URL from object storage
+  localeVariants: jsonb("locale_variants").notNull().default({}), // { hinglish: "..." } - `template` is the English body
   isActive: boolean("is_active").default(true),
   isArchived: boolean("is_archived").default(false),
+  currentVersion: integer("current_version").notNull().default(1), // Latest message_template_versions.version - the row's content always matches it
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Immutable snapshot of a template's content each time it changes - rollback writes a new version, never edits one
+export const messageTemplateVersions = pgTable("message_template_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateId: varchar("template_id").notNull().references(() => messageTemplates.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(), // 1, 2, 3... per template
+  template: text("template").notNull(),
+  includeFields: jsonb("include_fields").notNull(),
+  buttons: jsonb("buttons").default([]),
+  parseMode: varchar("parse_mode").default("HTML"),
+  imageUrl: text("image_url"),
+  localeVariants: jsonb("locale_variants").notNull().default({}),
+  note: text("note"), // e.g. "Rolled back to version 3"
+  restoredFromVersion: integer("restored_from_version"), // Set when this version is a rollback
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdByName: varchar("created_by_name"), // Username at the time - kept if the user is later renamed or removed
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_message_template_versions_version").on(table.templateId, table.version),
+]);
+
 // Telegram channels table
 export const telegramChannels = pgTable("telegram_channels", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -65,6 +128,7 @@ export const telegramChannels = pgTable("telegram_channels", {
   description: text("description"),
   isActive: boolean("is_active").default(true),
   templateId: varchar("template_id").references(() => messageTemplates.id),
+  locale: varchar("locale").notNull().default('english'), // Audience language - picks the template's locale variant
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -89,9 +153,17 @@ export const trades = pgTable("trades", {
   completionReason: varchar("completion_reason"), // 'stop_loss_hit', 'target_1_hit', 'target_2_hit', 'target_3_hit', 'safe_book'
   exchangeExited: boolean("exchange_exited").default(false), // Track if position was exited on exchange
   notes: text("notes"), // User notes when marking as completed
+  exitPrice: decimal("exit_price", { precision: 20, scale: 8 }), // Price the position was closed at
+  exitTime: timestamp("exit_time"), // When the position was closed
+  realizedPnl: decimal("realized_pnl", { precision: 20, scale: 8 }), // Realized P&L in quote currency (net of fees)
+  realizedPnlPercent: decimal("realized_pnl_percent", { precision: 12, scale: 4 }), // Leveraged return on margin in %
+  totalFees: decimal("total_fees", { precision: 20, scale: 8 }), // Entry + exit fees
+  rMultiple: decimal("r_multiple", { precision: 12, scale: 4 }), // Realized move divided by initial stop loss distance
   source: varchar("source").notNull().default('coindcx'), // 'coindcx', 'api', 'manual'
   signalType: varchar("signal_type").notNull().default('intraday'), // Signal type for the trade
   channelId: varchar("channel_id").references(() => telegramChannels.id),
+  signalAlertId: varchar("signal_alert_id"), // Inbound alert (signal_alerts.id) that produced this trade
+  signalSourceId: varchar("signal_source_id"), // Signal source (signal_sources.id) whose alert produced this trade
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -110,6 +182,8 @@ export const automations = pgTable("automations", {
   signalTypeFilter: varchar("signal_type_filter"), // Optional filter by signal type: 'intraday', 'swing', 'positional'
   researchReportTypeFilter: varchar("research_report_type_filter"), // Optional filter by research report type: 'pattern-based', 'level-based'
   delayInMinutes: integer("delay_in_minutes"), // Optional delay for research_report automations
+  templateVersion: integer("template_version"), // Pinned message_template_versions.version - null follows the latest
+  editOnTradeUpdate: boolean("edit_on_trade_update").default(false), // trade_registered only: re-render the posted message when the trade changes
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -124,12 +198,39 @@ export const sentMessages = pgTable("sent_messages", {
   replyToMessageId: varchar("reply_to_message_id"), // Reply to this telegram message ID
   channelId: varchar("channel_id").notNull(), // Telegram channel ID
   messageText: text("message_text"), // The actual message content sent
+  templateId: varchar("template_id"), // Template and version that rendered the message - no FK so history survives template deletion
+  templateVersion: integer("template_version"),
+  messageType: varchar("message_type"), // 'text', 'photo' or 'text_fallback' (text with an image link) - decides how it is edited
   status: varchar("status").notNull().default('pending'), // 'sent', 'failed', 'pending'
   errorMessage: text("error_message"), // Error details if failed
+  editCount: integer("edit_count").notNull().default(0),
+  editedAt: timestamp("edited_at"),
+  deletedAt: timestamp("deleted_at"), // Removed from the channel - never edited again
   sentAt: timestamp("sent_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Every edit or delete of an already-posted message. No FKs - deleting a trade removes its sent_messages,
+// and the log of what happened to those posts has to outlive them
+export const sentMessageEdits = pgTable("sent_message_edits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sentMessageId: varchar("sent_message_id").notNull(),
+  automationId: varchar("automation_id"),
+  tradeId: varchar("trade_id"),
+  channelId: varchar("channel_id").notNull(), // Telegram channel ID
+  telegramMessageId: varchar("telegram_message_id").notNull(),
+  action: varchar("action").notNull(), // 'edit_text', 'edit_caption' or 'delete'
+  reason: varchar("reason").notNull(), // What changed: 'trade_updated', 'target_1_hit', 'trade_deleted', ...
+  previousText: text("previous_text"),
+  messageText: text("message_text"), // New text - null for deletes
+  status: varchar("status").notNull(), // 'edited', 'unchanged', 'deleted' or 'failed'
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_sent_message_edits_sent_message").on(table.sentMessageId),
+  index("IDX_sent_message_edits_trade").on(table.tradeId),
+]);
+
 // Research Reports table
 export const researchReports = pgTable("research_reports", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -153,13 +254,22 @@ export const copyTradingUsers = pgTable("copy_trading_users", {
   email: varchar("email").notNull().unique(), // Email address (mandatory)
   telegramId: varchar("telegram_id"), // Telegram user ID (optional)
   telegramUsername: varchar("telegram_username"), // @username for easy identification
-  exchange: varchar("exchange").notNull().default('coindcx'), // 'coindcx', 'binance', 'delta' (future)
+  exchange: varchar("exchange").notNull().default('coindcx'), // 'coindcx', 'binance' ('delta' future)
   apiKey: text("api_key").notNull(), // Encrypted API key
   apiSecret: text("api_secret").notNull(), // Encrypted API secret
   riskPerTrade: decimal("risk_per_trade", { precision: 5, scale: 2 }).notNull().default('2.00'), // Risk % per trade (e.g., 2.00%)
   tradeFund: decimal("trade_fund", { precision: 12, scale: 2 }).notNull().default('100.00'), // Fixed fund amount per trade in USDT (e.g., 100.00 USDT)
   maxTradesPerDay: integer("max_trades_per_day"), // Max trades per day (optional, e.g., 2 means only first 2 trades copied)
+  // Risk guardrails checked before each copy - null means no limit
+  maxOpenPositions: integer("max_open_positions"), // Max concurrent open copy positions
+  dailyLossLimit: decimal("daily_loss_limit", { precision: 12, scale: 2 }), // Stop copying once today's realized loss reaches this (USDT)
+  weeklyLossLimit: decimal("weekly_loss_limit", { precision: 12, scale: 2 }), // Same for the current week, Monday to Sunday (USDT)
+  maxPairNotional: decimal("max_pair_notional", { precision: 14, scale: 2 }), // Max open notional on a single pair (USDT)
+  maxTotalNotional: decimal("max_total_notional", { precision: 14, scale: 2 }), // Max open notional across all pairs (USDT)
+  maxLeverage: integer("max_leverage"), // Leverage ceiling - copies needing more are skipped
   isActive: boolean("is_active").default(true), // Enable/disable copy trading
+  paperTrading: boolean("paper_trading").default(false), // Route this follower's copies to the simulated paper exchange
+  copyingPaused: boolean("copying_paused").default(false), // Paused by the follower from the portal - separate from the admin isActive switch
   lowFund: boolean("low_fund").default(false), // True when futures wallet balance < trade fund
   futuresWalletBalance: decimal("futures_wallet_balance", { precision: 20, scale: 8 }).default('0.00'), // USDT balance from futures wallet
   sourceFilter: jsonb("source_filter").default(['manual', 'api', 'coindcx']), // Trade sources to copy ['manual', 'api', 'coindcx'] - empty array means all
@@ -176,6 +286,7 @@ export const copyTrades = pgTable("copy_trades", {
   copyUserId: varchar("copy_user_id").notNull().references(() => copyTradingUsers.id), // Which copy user
   executedTradeId: varchar("executed_trade_id"), // Exchange trade ID after execution
   pair: varchar("pair").notNull(), // Trading pair (same as original)
+  exchange: varchar("exchange").notNull().default('coindcx'), // Follower venue the order was routed to
   type: varchar("type").notNull(), // 'buy' or 'sell'
   originalPrice: decimal("original_price", { precision: 20, scale: 8 }).notNull(), // Original trade price
   executedPrice: decimal("executed_price", { precision: 20, scale: 8 }), // Actual executed price
@@ -184,15 +295,46 @@ export const copyTrades = pgTable("copy_trades", {
   stopLossPrice: decimal("stop_loss_price", { precision: 20, scale: 8 }), // Stop loss price from original trade
   takeProfitPrice: decimal("take_profit_price", { precision: 20, scale: 8 }), // Take profit price from original trade
   leverage: decimal("leverage", { precision: 10, scale: 2 }).notNull(), // Leverage used (supports decimal values like 7.44x)
-  status: varchar("status").notNull().default('pending'), // 'pending', 'executed', 'failed', 'cancelled'
+  status: varchar("status").notNull().default('pending'), // 'pending', 'executed', 'failed', 'cancelled', 'skipped'
+  skipReason: varchar("skip_reason"), // Guardrail that blocked the copy when status is 'skipped' - see copyTradeSkipReasons
   executionTime: timestamp("execution_time"), // When trade was executed
+  filledAt: timestamp("filled_at"), // When the entry filled on the follower account - exact once fills are reconciled
   errorMessage: text("error_message"), // Error details if failed
   orderParameters: jsonb("order_parameters"), // Complete order data sent to exchange API for debugging
+  orderSubmittedAt: timestamp("order_submitted_at"), // Set just before the order goes out - a pending copy with this set may already be on the exchange
   pnl: decimal("pnl", { precision: 20, scale: 8 }), // P&L if trade is closed
+  pnlPercent: decimal("pnl_percent", { precision: 12, scale: 4 }), // Leveraged return on margin in %
+  exitPrice: decimal("exit_price", { precision: 20, scale: 8 }), // Price the copy position was closed at
+  exitTime: timestamp("exit_time"), // When the copy position was closed
+  fees: decimal("fees", { precision: 20, scale: 8 }), // Entry + exit fees
+  rMultiple: decimal("r_multiple", { precision: 12, scale: 4 }), // Realized move divided by initial stop loss distance
+  pnlSource: varchar("pnl_source"), // 'estimated' (from master exit) or 'exchange' (reconciled against fills)
+  // Order lifecycle - filled in by the reconciler from the follower's own account
+  orderStatus: varchar("order_status"), // 'open', 'partially_filled', 'filled', 'cancelled', 'rejected'
+  positionStatus: varchar("position_status"), // 'open' or 'closed' on the follower's account
+  closeReason: varchar("close_reason"), // 'stop_loss', 'take_profit', 'manual', 'paper_reset' - how the follower position closed
+  driftDetails: jsonb("drift_details"), // string[] of mismatches vs the master trade - null/empty when in sync
+  lastReconciledAt: timestamp("last_reconciled_at"),
+  // Master trade changes mirrored onto the follower position
+  remainingQuantity: decimal("remaining_quantity", { precision: 20, scale: 8 }), // Open quantity after partial closes - null means the full executed quantity
+  partialCloses: jsonb("partial_closes").default([]), // [{target, quantity, at}] - one entry per T1/T2 partial close already sent
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Follower account audit trail - every portal login and self-service change
+export const copyTradingUserAuditLogs = pgTable("copy_trading_user_audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  copyUserId: varchar("copy_user_id").notNull().references(() => copyTradingUsers.id, { onDelete: "cascade" }),
+  action: varchar("action").notNull(), // 'login', 'logout', 'settings_updated', 'credentials_rotated', 'copying_paused', 'copying_resumed'
+  changes: jsonb("changes"), // { field: { from, to } } for settings updates - never contains credentials
+  ipAddress: varchar("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_copy_user_audit_user").on(table.copyUserId, table.createdAt),
+]);
+
 // Copy Trading Applications table - tracks public applications before approval
 export const copyTradingApplications = pgTable("copy_trading_applications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -200,9 +342,9 @@ export const copyTradingApplications = pgTable("copy_trading_applications", {
   email: varchar("email").notNull(), // Email address (mandatory)
   telegramId: varchar("telegram_id"), // Telegram user ID (optional)
   telegramUsername: varchar("telegram_username"), // @username for easy identification
-  exchange: varchar("exchange").notNull().default('coindcx'), // 'coindcx', 'binance', 'delta' (future)
-  apiKey: text("api_key").notNull(), // API key for verification
-  apiSecret: text("api_secret").notNull(), // API secret for verification
+  exchange: varchar("exchange").notNull().default('coindcx'), // 'coindcx', 'binance' ('delta' future)
+  apiKey: text("api_key").notNull(), // Encrypted API key for verification
+  apiSecret: text("api_secret").notNull(), // Encrypted API secret for verification
   riskPerTrade: decimal("risk_per_trade", { precision: 5, scale: 2 }).notNull().default('2.00'), // Risk % per trade
   tradeFund: decimal("trade_fund", { precision: 12, scale: 2 }).notNull().default('100.00'), // Fixed fund amount per trade in USDT
   maxTradesPerDay: integer("max_trades_per_day"), // Max trades per day (optional)
@@ -231,6 +373,116 @@ export const otpVerifications = pgTable("otp_verifications", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Signal sources - inbound alert webhooks (TradingView etc.) that create trades
+export const signalSources = pgTable("signal_sources", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  slug: varchar("slug").notNull().unique(), // Used in the webhook URL: /api/webhooks/tradingview/:slug
+  provider: varchar("provider").notNull().default('tradingview'),
+  secret: text("secret").notNull(), // Encrypted shared secret sent with every alert
+  payloadFormat: varchar("payload_format").notNull().default('json'), // 'json' or 'text' (key=value lines)
+  fieldMapping: jsonb("field_mapping").default({}), // Trade field -> payload path, e.g. { "pair": "ticker", "stopLoss": "sl" }
+  sideMapping: jsonb("side_mapping").default({}), // Payload action -> 'buy'/'sell', e.g. { "long": "buy", "short": "sell" }
+  defaultSignalType: varchar("default_signal_type").notNull().default('intraday'),
+  defaultLeverage: integer("default_leverage").notNull().default(1),
+  channelId: varchar("channel_id").references(() => telegramChannels.id),
+  dedupeWindowSeconds: integer("dedupe_window_seconds").notNull().default(300), // Identical alerts inside this window are ignored
+  isActive: boolean("is_active").default(true),
+  lastAlertAt: timestamp("last_alert_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Signal alerts - every inbound alert and what became of it
+export const signalAlerts = pgTable("signal_alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sourceId: varchar("source_id").notNull().references(() => signalSources.id, { onDelete: "cascade" }),
+  dedupeKey: varchar("dedupe_key").notNull(), // Alert id from the payload, or a hash of the mapped trade fields
+  payload: text("payload"), // Raw body with the secret redacted
+  parsedFields: jsonb("parsed_fields"), // Mapped trade fields
+  status: varchar("status").notNull(), // 'processing', 'created', 'duplicate', 'rejected', 'failed'
+  errorMessage: text("error_message"),
+  tradeId: varchar("trade_id").references(() => trades.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_signal_alerts_dedupe").on(table.sourceId, table.dedupeKey),
+]);
+
+// Outbound webhook endpoints - lifecycle events pushed to arbitrary HTTP receivers
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // Encrypted HMAC signing secret
+  events: jsonb("events").default([]), // Subscribed event types - empty array means all
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Outbound webhook delivery log - one row per event per endpoint, retried with backoff
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  endpointId: varchar("endpoint_id").notNull().references(() => webhookEndpoints.id, { onDelete: "cascade" }),
+  eventId: varchar("event_id").notNull(), // Envelope id - stable across retries and replays so receivers can dedupe
+  eventType: varchar("event_type").notNull(),
+  payload: jsonb("payload").notNull(), // Full versioned envelope as sent
+  status: varchar("status").notNull().default('pending'), // 'pending', 'delivered', 'failed', 'cancelled' (endpoint deactivated)
+  attempts: integer("attempts").notNull().default(0),
+  lastStatusCode: integer("last_status_code"),
+  lastError: text("last_error"),
+  responseBody: text("response_body"), // Truncated response from the last attempt
+  nextAttemptAt: timestamp("next_attempt_at"), // Null once delivered or out of retries
+  deliveredAt: timestamp("delivered_at"),
+  replayOf: varchar("replay_of"), // Delivery this one was replayed from
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_webhook_deliveries_due").on(table.status, table.nextAttemptAt),
+]);
+
+// Durable background jobs - persisted so delayed and fire-and-forget work survives restarts
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: varchar("type").notNull(), // Handler name e.g. 'copy_trade.execute'
+  payload: jsonb("payload").notNull().default({}),
+  status: varchar("status").notNull().default('pending'), // 'pending', 'running', 'completed', 'dead'
+  uniqueKey: varchar("unique_key"), // Optional - at most one pending/running job per key
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  lastError: text("last_error"),
+  lockedAt: timestamp("locked_at"), // Set while running - stale locks are released after a crash
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_jobs_due").on(table.status, table.runAt),
+  index("IDX_jobs_unique_key").on(table.uniqueKey),
+]);
+
+// Admin audit log - append-only record of every mutating admin/API request
+export const auditLogs = pgTable("audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorType: varchar("actor_type").notNull(), // 'user' (dashboard session) or 'api_key'
+  actorId: varchar("actor_id"), // users.id
+  actorName: varchar("actor_name"), // Username at the time - kept if the user is later renamed
+  action: varchar("action").notNull(), // '<entity>.<verb>' e.g. 'trade.reopen', 'copy_trading_user.toggle'
+  entityType: varchar("entity_type").notNull(), // 'trade', 'copy_trading_user', 'automation', ...
+  entityId: varchar("entity_id"),
+  method: varchar("method").notNull(),
+  path: text("path").notNull(),
+  before: jsonb("before"), // Entity before the change, secrets redacted
+  after: jsonb("after"), // Entity (or response) after the change, secrets redacted
+  changes: jsonb("changes"), // { field: { from, to } } when both sides are known
+  ipAddress: varchar("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_audit_logs_entity").on(table.entityType, table.entityId, table.createdAt),
+  index("IDX_audit_logs_created").on(table.createdAt),
+]);
+
 // Relations (no circular references)
 
 // Relations
@@ -243,11 +495,19 @@ export const channelRelations = relations(telegramChannels, ({ many, one }) => (
   }),
 }));
 
-export const templateRelations = relations(messageTemplates, ({ one }) => ({
+export const templateRelations = relations(messageTemplates, ({ one, many }) => ({
   channel: one(telegramChannels, {
     fields: [messageTemplates.channelId],
     references: [telegramChannels.id],
   }),
+  versions: many(messageTemplateVersions),
+}));
+
+export const templateVersionRelations = relations(messageTemplateVersions, ({ one }) => ({
+  template: one(messageTemplates, {
+    fields: [messageTemplateVersions.templateId],
+    references: [messageTemplates.id],
+  }),
 }));
 
 export const tradeRelations = relations(trades, ({ one, many }) => ({
@@ -284,6 +544,14 @@ export const sentMessageRelations = relations(sentMessages, ({ one }) => ({
 // Copy Trading Relations
 export const copyTradingUserRelations = relations(copyTradingUsers, ({ many }) => ({
   copyTrades: many(copyTrades),
+  auditLogs: many(copyTradingUserAuditLogs),
+}));
+
+export const copyTradingUserAuditLogRelations = relations(copyTradingUserAuditLogs, ({ one }) => ({
+  copyUser: one(copyTradingUsers, {
+    fields: [copyTradingUserAuditLogs.copyUserId],
+    references: [copyTradingUsers.id],
+  }),
 }));
 
 export const copyTradeRelations = relations(copyTrades, ({ one }) => ({
@@ -300,6 +568,8 @@ export const copyTradeRelations = relations(copyTrades, ({ one }) => ({
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  failedAuthAttempts: true,
+  authLockedUntil: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -314,14 +584,48 @@ export const registerSchema = insertUserSchema.extend({
   password: z.string().min(6, "Password must be at least 6 characters"),
 });
 
+const templateLocaleEnum = z.enum(Object.keys(TEMPLATE_LOCALES) as [TemplateLocale, ...TemplateLocale[]]);
+
 export const insertTelegramChannelSchema = createInsertSchema(telegramChannels).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  locale: templateLocaleEnum.optional(),
+});
+
+// Locale variants of a template body - any locale except English, which the main body is written in
+export const templateLocaleVariantsSchema = z.record(z.string(), z.string()).superRefine((variants, ctx) => {
+  for (const [locale, body] of Object.entries(variants)) {
+    if (!isTemplateLocale(locale) || locale === DEFAULT_TEMPLATE_LOCALE) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${locale}" is not a variant locale`, path: [locale] });
+      continue;
+    }
+    for (const issue of validateTemplate(body)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${TEMPLATE_LOCALES[locale].label} variant, line ${issue.line}, column ${issue.column}: ${issue.message}`,
+        path: [locale],
+      });
+    }
+  }
 });
 
+/**
+ * Body a channel with this locale receives - its variant when the template has a non-empty one, otherwise the main body
+ */
+export function templateBodyForLocale(
+  template: Pick<MessageTemplate, 'template' | 'localeVariants'>,
+  locale: string | null | undefined,
+): string {
+  const variants = (template.localeVariants || {}) as Record<string, unknown>;
+  const variant = locale && locale !== DEFAULT_TEMPLATE_LOCALE ? variants[locale] : undefined;
+  return typeof variant === 'string' && variant.trim() ? variant : template.template;
+}
+
 export const insertMessageTemplateSchema = createInsertSchema(messageTemplates).omit({
   id: true,
+  currentVersion: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
@@ -329,21 +633,61 @@ export const insertMessageTemplateSchema = createInsertSchema(messageTemplates).
     required_error: "Please select template type",
   }),
   includeFields: z.any().optional(), // Make includeFields optional since UI no longer sends it
-}).refine((data) => {
-  // For simple templates, check for variables and reject them
-  if (data.templateType === 'simple') {
-    const variablePattern = /{[a-zA-Z_][a-zA-Z0-9_]*}/g;
-    const variables = data.template.match(variablePattern);
-    if (variables && variables.length > 0) {
-      return false;
-    }
+  localeVariants: templateLocaleVariantsSchema.optional(),
+}).superRefine((data, ctx) => {
+  // Every template type can use variables, blocks and filters now - only the syntax has to be valid
+  for (const issue of validateTemplate(data.template)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Line ${issue.line}, column ${issue.column}: ${issue.message}`,
+      path: ['template'],
+    });
   }
-  return true;
-}, {
-  message: "Simple message templates cannot contain variables like {pair}, {price}, etc. Use static text only.",
-  path: ['template']
 });
 
+// Render a draft template against sample data or a real trade / research report, without sending it
+export const templatePreviewSchema = z.object({
+  template: z.string(),
+  templateType: z.enum(['simple', 'trade', 'research_report']).default('trade'),
+  parseMode: z.string().optional(),
+  buttons: z.array(z.array(z.any())).optional(),
+  imageUrl: z.string().optional(),
+  includeFields: z.array(z.string()).optional(),
+  tradeId: z.string().optional(), // trades.id - sample trade when omitted
+  researchReportId: z.string().optional(), // sample report when omitted
+  locale: templateLocaleEnum.optional(), // Number and date formatting - English when omitted
+});
+
+export type TemplatePreviewRequest = z.infer<typeof templatePreviewSchema>;
+
+export type TemplatePreviewIssueCode = 'syntax' | 'render' | 'unknown_placeholder' | 'html' | 'caption_length' | 'message_length' | 'button';
+
+export interface TemplatePreviewIssue {
+  severity: 'error' | 'warning'; // errors would make Telegram reject the message, warnings send but not as intended
+  code: TemplatePreviewIssueCode;
+  message: string;
+  line?: number; // Template line for syntax issues, rendered message line for HTML issues
+  column?: number;
+  button?: { row: number; column: number };
+}
+
+export interface TemplatePreviewButton {
+  text: string;
+  url?: string;
+  callback_data?: string;
+}
+
+export interface TemplatePreviewResult {
+  text: string | null; // null when syntax errors stop the template from rendering
+  parseMode: string;
+  sendAs: 'photo' | 'text';
+  length: number; // Characters Telegram counts - tags and entities parsed
+  limit: number; // 1024 for a photo caption, 4096 for a text message
+  buttons: TemplatePreviewButton[][];
+  source: { type: 'sample' | 'trade' | 'research_report'; id?: string; label: string };
+  issues: TemplatePreviewIssue[];
+}
+
 export const insertTradeSchema = createInsertSchema(trades).omit({
   id: true,
   createdAt: true,
@@ -363,6 +707,7 @@ export const completeTradeSchema = z.object({
   // completionReason is no longer required - auto-derived from targetStatus in backend
   safebookPrice: z.string().optional(),
   notes: z.string().optional(),
+  exitPrice: z.string().optional(), // Actual exit price - derived from completion reason when omitted
 });
 
 // Target Status Types - 5-field system
@@ -443,6 +788,10 @@ export const updateTradeSchema = createInsertSchema(trades).omit({
   tradeId: true,
   targetStatus: true,
   status: true,
+  realizedPnl: true, // P&L fields are computed when the trade closes
+  realizedPnlPercent: true,
+  totalFees: true,
+  rMultiple: true,
   createdAt: true,
   updatedAt: true,
 }).partial().extend({
@@ -585,6 +934,9 @@ export const finalizeImageUploadSchema = z.object({
 });
 
 // Copy Trading Schemas
+// Venues with a copy-trading exchange adapter
+export const supportedExchanges = ['coindcx', 'binance'] as const;
+
 export const insertCopyTradingUserSchema = createInsertSchema(copyTradingUsers).omit({
   id: true,
   createdAt: true,
@@ -592,9 +944,16 @@ export const insertCopyTradingUserSchema = createInsertSchema(copyTradingUsers).
 }).extend({
   email: z.string().email("Please enter a valid email address"),
   telegramId: z.string().optional(),
+  exchange: z.enum(supportedExchanges).default('coindcx'),
   riskPerTrade: z.coerce.number().min(5, "Risk per trade must be at least 5%").max(50, "Risk per trade cannot exceed 50%"),
   tradeFund: z.coerce.number().min(100, "Trade fund must be at least 100 USDT").max(100000, "Trade fund cannot exceed 100,000 USDT"),
   maxTradesPerDay: z.coerce.number().min(1, "Max trades per day must be at least 1").max(20, "Max trades per day cannot exceed 20").optional(),
+  maxOpenPositions: z.coerce.number().int().min(1, "Max open positions must be at least 1").max(50, "Max open positions cannot exceed 50").nullable().optional(),
+  dailyLossLimit: z.coerce.number().positive("Daily loss limit must be greater than 0").nullable().optional(),
+  weeklyLossLimit: z.coerce.number().positive("Weekly loss limit must be greater than 0").nullable().optional(),
+  maxPairNotional: z.coerce.number().positive("Per-pair notional cap must be greater than 0").nullable().optional(),
+  maxTotalNotional: z.coerce.number().positive("Total notional cap must be greater than 0").nullable().optional(),
+  maxLeverage: z.coerce.number().int().min(1, "Leverage ceiling must be at least 1x").max(100, "Leverage ceiling cannot exceed 100x").nullable().optional(),
   sourceFilter: z.array(z.enum(['manual', 'api', 'coindcx'])).default(['manual', 'api', 'coindcx']).optional(),
   signalTypeFilter: z.array(z.string()).default(['intraday', 'swing', 'scalp', 'positional']).optional(),
 });
@@ -620,6 +979,7 @@ export const insertCopyTradingApplicationSchema = createInsertSchema(copyTrading
 }).extend({
   email: z.string().email("Please enter a valid email address"),
   telegramId: z.string().optional(),
+  exchange: z.enum(supportedExchanges).default('coindcx'),
   apiKey: z.string().min(1, "API Key is required"),
   apiSecret: z.string().min(1, "API Secret is required"),
   riskPerTrade: z.coerce.number().min(5, "Risk per trade must be at least 5%").max(50, "Risk per trade cannot exceed 50%"),
@@ -666,6 +1026,7 @@ export type TelegramChannel = typeof telegramChannels.$inferSelect;
 export type InsertTelegramChannel = z.infer<typeof insertTelegramChannelSchema>;
 export type MessageTemplate = typeof messageTemplates.$inferSelect;
 export type InsertMessageTemplate = z.infer<typeof insertMessageTemplateSchema>;
+export type MessageTemplateVersion = typeof messageTemplateVersions.$inferSelect;
 export type Trade = typeof trades.$inferSelect;
 export type InsertTrade = z.infer<typeof insertTradeSchema>;
 export type CompleteTrade = z.infer<typeof completeTradeSchema>;
@@ -674,12 +1035,81 @@ export type Automation = typeof automations.$inferSelect;
 export type InsertAutomation = z.infer<typeof insertAutomationSchema>;
 export type SentMessage = typeof sentMessages.$inferSelect;
 export type InsertSentMessage = z.infer<typeof insertSentMessageSchema>;
+export type SentMessageEdit = typeof sentMessageEdits.$inferSelect;
+export type InsertSentMessageEdit = typeof sentMessageEdits.$inferInsert;
 export type UploadUrlRequest = z.infer<typeof uploadUrlRequestSchema>;
 export type FinalizeImageUpload = z.infer<typeof finalizeImageUploadSchema>;
 export type CopyTradingUser = typeof copyTradingUsers.$inferSelect;
 export type InsertCopyTradingUser = z.infer<typeof insertCopyTradingUserSchema>;
 export type CopyTrade = typeof copyTrades.$inferSelect;
 export type InsertCopyTrade = z.infer<typeof insertCopyTradeSchema>;
+// Machine-readable reasons a copy was skipped by the follower risk guardrails
+export const copyTradeSkipReasons = [
+  'low_fund',
+  'max_trades_per_day',
+  'max_open_positions',
+  'daily_loss_limit',
+  'weekly_loss_limit',
+  'pair_notional_cap',
+  'total_notional_cap',
+  'leverage_ceiling',
+] as const;
+export type CopyTradeSkipReason = typeof copyTradeSkipReasons[number];
+// What the guardrails check a new copy against - the follower's activity today / this week and open exposure
+export type CopyTradeRiskSnapshot = {
+  tradesToday: number;
+  realizedPnlToday: number;
+  realizedPnlWeek: number;
+  openPositions: { pair: string; notional: number }[];
+};
+export type CopyTradePartialClose = {
+  target: 'target_1' | 'target_2';
+  quantity: number;
+  at: string; // ISO timestamp
+};
+
+// Copy trade execution quality - entry slippage, latency, rejections and size vs intended risk
+export type CopyTradeExecutionRow = Pick<CopyTrade,
+  'id' | 'copyUserId' | 'pair' | 'exchange' | 'type' | 'status' | 'originalPrice' | 'executedPrice' |
+  'executedQuantity' | 'orderParameters' | 'orderStatus' | 'executionTime' | 'filledAt' | 'pnlSource' | 'errorMessage'
+> & {
+  userName: string;
+  tradeFund: string;
+  riskPerTrade: string;
+  source: string; // Master trade source
+  signalSourceId: string | null; // Signal source of the master trade, if it came from an alert
+  signalSourceName: string | null;
+  masterCreatedAt: Date | null;
+};
+
+export type CopyTradeRejectionCategory =
+  | 'credentials' | 'rate_limit' | 'insufficient_funds' | 'position_sizing' | 'leverage'
+  | 'quantity' | 'price' | 'network' | 'exchange_error' | 'other';
+
+export type CopyTradeExecutionStats = {
+  key: string;
+  label: string;
+  attempts: number; // Executed + failed
+  filled: number; // Entries with a confirmed fill price
+  rejected: number;
+  rejectionRate: number; // %
+  avgSlippagePercent: number | null; // Positive = filled worse than the master entry
+  avgSlippageTicks: number | null;
+  worstSlippagePercent: number | null;
+  avgOrderLatencyMs: number | null; // Master trade created -> follower order placed
+  avgFillLatencyMs: number | null; // Master trade created -> follower entry filled
+  avgRiskRatio: number | null; // Risk at the stop loss as % of the follower's intended risk
+};
+
+export type CopyTradeExecutionReport = {
+  since: string;
+  overall: CopyTradeExecutionStats;
+  byFollower: CopyTradeExecutionStats[];
+  byPair: CopyTradeExecutionStats[];
+  bySource: CopyTradeExecutionStats[];
+  rejections: { exchange: string; category: CopyTradeRejectionCategory; count: number; example: string }[];
+};
+
 export type ResearchReport = typeof researchReports.$inferSelect;
 export type InsertResearchReport = z.infer<typeof insertResearchReportSchema>;
 export type OtpVerification = typeof otpVerifications.$inferSelect;
@@ -687,6 +1117,108 @@ export type InsertOtpVerification = z.infer<typeof insertOtpVerificationSchema>;
 export type VerifyOtp = z.infer<typeof verifyOtpSchema>;
 export type SendOtp = z.infer<typeof sendOtpSchema>;
 
+// Daily P&L aggregation (heatmap) - one bucket per Asia/Kolkata calendar day
+export const dailyPnlQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(),
+  channelId: z.string().optional(),
+  signalType: z.string().optional(),
+  source: z.enum(['coindcx', 'api', 'manual']).optional(),
+});
+
+export type DailyPnlQuery = z.infer<typeof dailyPnlQuerySchema>;
+export type DailyPnl = {
+  date: string; // YYYY-MM-DD in Asia/Kolkata
+  pnlPercent: number; // Sum of leveraged P&L % of trades closed that day
+  tradeCount: number;
+  wins: number;
+  losses: number;
+};
+
+// Backtest - replay historical signals against a follower's copy settings using offline candles
+export const backtestRequestSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  channelId: z.string().optional(),
+  exchange: z.enum(supportedExchanges).default('coindcx'),
+  tradeFund: z.coerce.number().positive("Trade fund must be greater than 0"),
+  riskPerTrade: z.coerce.number().positive("Risk per trade must be greater than 0").max(100, "Risk per trade cannot exceed 100%"),
+  startingBalance: z.coerce.number().positive().optional(), // Defaults to the trade fund
+  sourceFilter: z.array(z.enum(['manual', 'api', 'coindcx'])).default([]),
+  signalTypeFilter: z.array(z.string()).default([]),
+  maxTradesPerDay: z.coerce.number().int().min(1).nullable().optional(),
+  maxLeverage: z.coerce.number().int().min(1).nullable().optional(),
+  // Same guardrails as a follower's risk settings
+  maxOpenPositions: z.coerce.number().int().min(1).nullable().optional(),
+  dailyLossLimit: z.coerce.number().positive().nullable().optional(),
+  weeklyLossLimit: z.coerce.number().positive().nullable().optional(),
+  maxPairNotional: z.coerce.number().positive().nullable().optional(),
+  maxTotalNotional: z.coerce.number().positive().nullable().optional(),
+  feeRate: z.coerce.number().min(0).max(0.01).default(0.0005), // Per side, as a fraction of notional
+}).refine((data) => data.from <= data.to, {
+  message: "From date must be on or before the to date",
+  path: ['to'],
+});
+
+export type BacktestRequest = z.infer<typeof backtestRequestSchema>;
+
+export type BacktestSkipReason = 'source_filter' | 'signal_type_filter' | Exclude<CopyTradeSkipReason, 'low_fund'> | 'sizing_failed' | 'no_candles';
+
+export type BacktestTradeResult = {
+  tradeId: string;
+  pair: string;
+  type: string;
+  source: string;
+  signalType: string;
+  signalTime: string; // ISO
+  status: 'closed' | 'open' | 'not_filled' | 'skipped';
+  skipReason?: BacktestSkipReason;
+  message?: string;
+  entryPrice: number;
+  stopLoss: number | null;
+  takeProfit: number | null;
+  quantity: number;
+  leverage: number;
+  notional: number;
+  entryTime: string | null;
+  exitTime: string | null;
+  exitPrice: number | null;
+  exitReason: 'stop_loss' | 'take_profit' | 'end_of_data' | null;
+  fees: number;
+  pnl: number;
+  rMultiple: number | null;
+};
+
+export type BacktestEquityPoint = {
+  time: string; // ISO
+  equity: number;
+  drawdown: number; // Below the running peak, in USDT
+  drawdownPercent: number;
+};
+
+export type BacktestResult = {
+  summary: {
+    signals: number;
+    copied: number;
+    skipped: number;
+    notFilled: number;
+    closed: number;
+    wins: number;
+    losses: number;
+    winRate: number; // % of closed trades
+    totalPnl: number;
+    totalFees: number;
+    startingBalance: number;
+    finalEquity: number;
+    returnPercent: number;
+    maxDrawdown: number;
+    maxDrawdownPercent: number;
+    averageR: number | null;
+  };
+  equityCurve: BacktestEquityPoint[];
+  trades: BacktestTradeResult[];
+};
+
 // Copy Trading User Access OTP schemas for authentication
 export const sendUserAccessOtpSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
@@ -697,6 +1229,304 @@ export const verifyUserAccessOtpSchema = z.object({
   otp: z.string().length(6, "OTP must be 6 digits"),
 });
 
+// Settings a follower may change from the portal - same bounds as the admin form
+export const updateFollowerSettingsSchema = insertCopyTradingUserSchema.pick({
+  name: true,
+  notes: true,
+  riskPerTrade: true,
+  tradeFund: true,
+  sourceFilter: true,
+  signalTypeFilter: true,
+}).extend({
+  name: z.string().min(1, "Name is required"),
+  notes: z.string().max(500, "Notes cannot exceed 500 characters").nullable(),
+  maxTradesPerDay: z.coerce.number().min(1, "Max trades per day must be at least 1").max(20, "Max trades per day cannot exceed 20").nullable(),
+}).partial();
+
+export const rotateFollowerCredentialsSchema = z.object({
+  apiKey: z.string().min(1, "API Key is required"),
+  apiSecret: z.string().min(1, "API Secret is required"),
+});
+
+export const pauseFollowerCopyingSchema = z.object({
+  paused: z.boolean(),
+});
+
 // Copy Trading User Access types
 export type SendUserAccessOtp = z.infer<typeof sendUserAccessOtpSchema>;
 export type VerifyUserAccessOtp = z.infer<typeof verifyUserAccessOtpSchema>;
+export type UpdateFollowerSettings = z.infer<typeof updateFollowerSettingsSchema>;
+export type RotateFollowerCredentials = z.infer<typeof rotateFollowerCredentialsSchema>;
+export const followerAuditActions = ['login', 'logout', 'settings_updated', 'credentials_rotated', 'copying_paused', 'copying_resumed'] as const;
+export type FollowerAuditAction = typeof followerAuditActions[number];
+export type CopyTradingUserAuditLog = typeof copyTradingUserAuditLogs.$inferSelect;
+export type InsertCopyTradingUserAuditLog = typeof copyTradingUserAuditLogs.$inferInsert;
+
+// What the follower portal sees of its own account - no credentials
+export type FollowerProfile = Pick<CopyTradingUser,
+  'id' | 'name' | 'email' | 'exchange' | 'riskPerTrade' | 'tradeFund' | 'maxTradesPerDay' | 'isActive' | 'copyingPaused' |
+  'paperTrading' | 'lowFund' | 'futuresWalletBalance' | 'sourceFilter' | 'signalTypeFilter' | 'notes' | 'createdAt'
+> & {
+  apiKeyHint: string; // Last 4 characters of the current API key
+};
+
+// Signal sources (inbound alert webhooks)
+export const signalFieldKeys = ['pair', 'type', 'price', 'leverage', 'takeProfit1', 'takeProfit2', 'takeProfit3', 'stopLoss', 'signalType', 'alertId', 'notes'] as const;
+
+export const insertSignalSourceSchema = createInsertSchema(signalSources).omit({
+  id: true,
+  secret: true, // Generated server-side
+  lastAlertAt: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().min(1, "Name is required"),
+  slug: z.string().min(3, "Slug must be at least 3 characters").regex(/^[a-z0-9-]+$/, "Use lowercase letters, numbers and dashes"),
+  provider: z.enum(['tradingview']).default('tradingview'),
+  payloadFormat: z.enum(['json', 'text']).default('json'),
+  fieldMapping: z.record(z.enum(signalFieldKeys), z.string().min(1)).default({}),
+  sideMapping: z.record(z.string(), z.enum(['buy', 'sell'])).default({}),
+  defaultLeverage: z.coerce.number().int().min(1).max(125).default(1),
+  dedupeWindowSeconds: z.coerce.number().int().min(0).max(86400).default(300),
+  channelId: z.string().optional().nullable(),
+});
+
+export type SignalSource = typeof signalSources.$inferSelect;
+export type InsertSignalSource = z.infer<typeof insertSignalSourceSchema>;
+export type SignalAlert = typeof signalAlerts.$inferSelect;
+export type InsertSignalAlert = typeof signalAlerts.$inferInsert;
+export type SignalFieldKey = typeof signalFieldKeys[number];
+
+// Outbound webhooks
+export const WEBHOOK_SCHEMA_VERSION = '2025-01-01';
+
+export const webhookEventTypes = [
+  'trade_registered',
+  'target_1_hit',
+  'target_2_hit',
+  'target_3_hit',
+  'safe_book_hit',
+  'stop_loss_hit',
+  'trade_completed',
+  'copy_trade_executed',
+  'copy_trade_failed',
+  'research_report_submitted',
+  'ping',
+] as const;
+
+export const insertWebhookEndpointSchema = createInsertSchema(webhookEndpoints).omit({
+  id: true,
+  secret: true, // Generated server-side
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().min(1, "Name is required"),
+  url: z.string().url("Please enter a valid URL").refine(url => /^https?:\/\//.test(url), "URL must use http or https"),
+  events: z.array(z.enum(webhookEventTypes)).default([]),
+});
+
+export type WebhookEventType = typeof webhookEventTypes[number];
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type InsertWebhookEndpoint = z.infer<typeof insertWebhookEndpointSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+
+/**
+ * Body of every outbound webhook request. Bump WEBHOOK_SCHEMA_VERSION on breaking changes to `data`.
+ */
+export type WebhookEnvelope<T = Record<string, any>> = {
+  id: string; // Event id
+  type: WebhookEventType;
+  version: string;
+  createdAt: string; // ISO timestamp
+  data: T;
+};
+
+// Admin audit log
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = typeof auditLogs.$inferInsert;
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export const auditLogQuerySchema = z.object({
+  search: z.string().optional(),
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  actorId: z.string().optional(),
+  from: z.string().optional(), // YYYY-MM-DD
+  to: z.string().optional(), // YYYY-MM-DD, inclusive
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+
+// Admin roles and permissions - shared so the sidebar can hide what the signed-in role can't use
+export const userRoles = ['owner', 'trader', 'analyst', 'support', 'read_only'] as const;
+export type UserRole = typeof userRoles[number];
+
+export const permissions = [
+  'trades.view',
+  'trades.manage', // Register, edit, complete and reopen trades
+  'trades.exit', // Exit a trade for every copy trading follower
+  'copy_trading.view',
+  'copy_trading.manage', // Followers, applications and copy trade fixes
+  'messaging.view',
+  'messaging.manage', // Channels, templates and automations
+  'research.view',
+  'research.manage', // Write, edit and delete research reports
+  'integrations.view',
+  'integrations.manage', // API keys, signal sources and outbound webhooks
+  'system.view',
+  'system.manage', // Monitor, price watcher and background jobs
+  'backtest.run',
+  'audit.view',
+  'users.manage', // Admin users, roles and invites
+] as const;
+export type Permission = typeof permissions[number];
+
+const VIEW_PERMISSIONS = permissions.filter(permission => permission.endsWith('.view'));
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  owner: permissions,
+  trader: permissions.filter(permission => permission !== 'users.manage'),
+  analyst: ['trades.view', 'messaging.view', 'research.view', 'research.manage', 'backtest.run', 'system.view'],
+  support: ['trades.view', 'copy_trading.view', 'copy_trading.manage', 'messaging.view', 'system.view'],
+  read_only: [...VIEW_PERMISSIONS, 'audit.view'],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Owner',
+  trader: 'Trader',
+  analyst: 'Analyst',
+  support: 'Support',
+  read_only: 'Read-only',
+};
+
+/**
+ * Unknown roles (e.g. a row edited by hand) get no permissions rather than falling back to owner
+ */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  const granted = ROLE_PERMISSIONS[role as UserRole];
+  return !!granted && granted.includes(permission);
+}
+
+export type UserInvite = typeof userInvites.$inferSelect;
+export type InsertUserInvite = typeof userInvites.$inferInsert;
+
+export const createUserInviteSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+  role: z.enum(userRoles),
+  sendEmail: z.boolean().default(true),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
+
+export const acceptUserInviteSchema = z.object({
+  token: z.string().min(1, "Invite token is required"),
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+});
+
+// API keys
+export const apiKeyScopes = ['trades:create', 'trades:read'] as const;
+export type ApiKeyScope = typeof apiKeyScopes[number];
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  'trades:create': 'Register trades (POST /api/trades)',
+  'trades:read': 'List and read trades (GET /api/trades)',
+};
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = typeof apiKeys.$inferInsert;
+
+// What the key list shows - everything but the hash
+export type ApiKeySummary = Omit<ApiKey, 'keyHash' | 'scopes' | 'ipAllowlist'> & {
+  scopes: ApiKeyScope[];
+  ipAllowlist: string[];
+};
+
+const ipAllowlistEntry = z.string().trim().refine(
+  (value) => /^[0-9a-fA-F:.]+(\/\d{1,3})?$/.test(value),
+  "Use an IP address (203.0.113.7) or CIDR range (203.0.113.0/24)",
+);
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(apiKeyScopes)).min(1, "Select at least one scope"),
+  ipAllowlist: z.array(ipAllowlistEntry).max(50).default([]),
+  expiresAt: z.coerce.date().nullable().optional()
+    .refine((date) => !date || date > new Date(), "Expiry must be in the future"),
+});
+
+export type CreateApiKey = z.infer<typeof createApiKeySchema>;
+
+// Two-factor authentication and re-authentication
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Code is required").max(20),
+});
+
+export const reauthenticateSchema = z.object({
+  password: z.string().optional(),
+  code: z.string().trim().max(20).optional(),
+});
+
+export interface AdminSession {
+  id: string; // Hash of the session id - the key to revoke it
+  current: boolean;
+  ipAddress: string | null;
+  userAgent: string | null;
+  signedInAt: string | null;
+  lastActiveAt: string | null;
+  expiresAt: string;
+}
+
+// Encryption key rotation - every table with columns written by server/utils/encryption
+export const encryptedTables = [
+  'copy_trading_users',
+  'copy_trading_applications',
+  'signal_sources',
+  'webhook_endpoints',
+  'users',
+] as const;
+export type EncryptedTable = typeof encryptedTables[number];
+
+export interface EncryptedValueIssue {
+  table: EncryptedTable;
+  recordId: string;
+  label: string; // Name/username of the row, so it can be found in the dashboard
+  field: string;
+  error: string;
+}
+
+export interface EncryptionHealthReport {
+  checkedAt: string;
+  activeKeyId: string;
+  keyIds: string[];
+  totalValues: number;
+  valuesByKey: Record<string, number>; // "legacy" = written before key ids existed
+  staleValues: number; // Readable but not on the active key - re-encrypt before retiring the old key
+  unreadable: EncryptedValueIssue[]; // safeDecrypt would hand back ciphertext for these
+  unencrypted: EncryptedValueIssue[];
+}
+
+export interface ReencryptionResult {
+  activeKeyId: string;
+  checked: number;
+  reencrypted: number;
+  changedDuringRun: number; // Rewritten by someone else mid-run - already on the active key
+  failed: EncryptedValueIssue[];
+}
+
+// What the dashboard sees of an admin user - never the password hash or API key
+export type AdminUserProfile = Pick<User, 'id' | 'username' | 'email' | 'firstName' | 'lastName' | 'role' | 'createdAt'>;
+
+// Durable job queue
+export const jobStatuses = ['pending', 'running', 'completed', 'dead'] as const;
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+export type JobStatus = typeof jobStatuses[number];
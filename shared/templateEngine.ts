@@ -0,0 +1,937 @@
+// Message template language - shared by trade, research report and simple templates, and by the editor's validation.
+//
+//   {pair}                              variable (dotted paths inside loops: {target.price})
+//   {price | price}                     filters, chained with |, arguments after ":" separated by ","
+//   {#if takeProfit3} ... {:else if x} ... {:else} ... {/if}
+//   {#each targets as target} ... {:else} ... {/each}   ({loop.index}, {loop.first}, {loop.last} inside)
+//
+// Conditions support ! && || == != > >= < <= and parentheses. Values are escaped for the parse mode
+// when they are written out - literal template text never is. A "{" that doesn't start a tag is plain text,
+// and a bare {name} the context doesn't know is left as written. The locale (a channel's audience) decides
+// number grouping, weekday names and how dates print by default.
+
+export type TemplateEscapeMode = 'HTML' | 'Markdown' | 'MarkdownV2' | 'plain' | 'url';
+
+export type TemplateLocale = 'english' | 'hinglish';
+
+interface TemplateLocaleFormat {
+  label: string;
+  numberLocale: string; // Intl locale for digit grouping - en-IN groups in lakhs and crores
+  datePattern: string; // {timestamp | date} without a pattern, and bare dates outside English
+  weekdays: string[];
+}
+
+export const DEFAULT_TEMPLATE_LOCALE: TemplateLocale = 'english';
+
+export const TEMPLATE_LOCALES: Record<TemplateLocale, TemplateLocaleFormat> = {
+  english: {
+    label: 'English',
+    numberLocale: 'en-US',
+    datePattern: 'DD MMM YYYY, HH:mm',
+    weekdays: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+  },
+  hinglish: {
+    label: 'Hinglish',
+    numberLocale: 'en-IN',
+    datePattern: 'DD MMM YYYY, h:mm A',
+    weekdays: ['Ravivaar', 'Somvaar', 'Mangalvaar', 'Budhvaar', 'Guruvaar', 'Shukravaar', 'Shanivaar'],
+  },
+};
+
+export function isTemplateLocale(value: unknown): value is TemplateLocale {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TEMPLATE_LOCALES, value);
+}
+
+/**
+ * A stored locale (e.g. a channel's) as a template locale - anything unknown falls back to English
+ */
+export function toTemplateLocale(value: unknown): TemplateLocale {
+  return isTemplateLocale(value) ? value : DEFAULT_TEMPLATE_LOCALE;
+}
+
+/**
+ * A number with its legacy display text - filters work on `amount`, a bare {variable} prints `display`
+ */
+export class TemplateNumber {
+  constructor(
+    readonly amount: number,
+    readonly display: string,
+    readonly tickSize?: number,
+  ) {}
+
+  toString(): string {
+    return this.display;
+  }
+
+  valueOf(): number {
+    return this.amount;
+  }
+}
+
+export interface TemplateSyntaxIssue {
+  message: string;
+  index: number; // Offset in the template source
+  line: number;
+  column: number;
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(readonly issues: TemplateSyntaxIssue[]) {
+    super(issues.map(issue => `Line ${issue.line}: ${issue.message}`).join('; '));
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+export class TemplateRenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateRenderError';
+  }
+}
+
+type Expr =
+  | { kind: 'path'; path: string[] }
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'filter'; input: Expr; name: string; args: Expr[] }
+  | { kind: 'not'; operand: Expr }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr };
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expr: Expr; source: string }
+  | { type: 'if'; branches: { condition: Expr; body: TemplateNode[] }[]; elseBody: TemplateNode[] }
+  | { type: 'each'; list: Expr; item: string; body: TemplateNode[]; elseBody: TemplateNode[] };
+
+export type TemplateContext = Record<string, unknown>;
+
+// ---------------------------------------------------------------------------
+// Formatting helpers
+// ---------------------------------------------------------------------------
+
+const DEFAULT_TIME_ZONE = 'Asia/Kolkata';
+
+export function toNumber(value: unknown): number | null {
+  if (value instanceof TemplateNumber) return value.amount;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.replace(/[$,\s]/g, ''));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Decimals a tick size allows (0.001 -> 3); without one, enough to keep small prices readable
+ */
+export function priceDecimals(amount: number, tickSize?: number): number {
+  if (tickSize && tickSize > 0) {
+    const text = tickSize.toString();
+    if (text.includes('e-')) return Number(text.split('e-')[1]);
+    return text.includes('.') ? text.split('.')[1].length : 0;
+  }
+  const magnitude = Math.abs(amount);
+  if (magnitude >= 1000) return 2;
+  if (magnitude >= 1) return 4;
+  if (magnitude >= 0.01) return 5;
+  return 8;
+}
+
+function formatPrice(value: unknown, grouping: boolean, locale: TemplateLocale = DEFAULT_TEMPLATE_LOCALE): string {
+  const amount = toNumber(value);
+  if (amount === null) return '';
+  const decimals = priceDecimals(amount, value instanceof TemplateNumber ? value.tickSize : undefined);
+  return amount.toLocaleString(TEMPLATE_LOCALES[locale].numberLocale, { minimumFractionDigits: decimals, maximumFractionDigits: decimals, useGrouping: grouping });
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format a date with moment-style tokens (YYYY MMM DD HH:mm ss A dddd z, [literal]) in a time zone
+ */
+export function formatTemplateDate(
+  date: Date,
+  pattern: string,
+  timeZone: string = DEFAULT_TIME_ZONE,
+  locale: TemplateLocale = DEFAULT_TEMPLATE_LOCALE,
+): string {
+  const { weekdays } = TEMPLATE_LOCALES[locale];
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'short',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+    timeZoneName: 'short',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  const year = Number(part('year'));
+  const month = Number(part('month'));
+  const day = Number(part('day'));
+  const hour = Number(part('hour')) % 24;
+  // Intl gives the English short name whatever the locale - match it against the English list
+  const weekday = TEMPLATE_LOCALES.english.weekdays.findIndex(name => name.startsWith(part('weekday')));
+  const pad = (n: number) => String(n).padStart(2, '0');
+
+  return pattern.replace(/\[([^\]]*)]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A|a|z/g, (token, literal) => {
+    if (literal !== undefined) return literal;
+    switch (token) {
+      case 'YYYY': return String(year);
+      case 'YY': return String(year).slice(-2);
+      case 'MMMM': return MONTHS[month - 1];
+      case 'MMM': return MONTHS[month - 1].slice(0, 3);
+      case 'MM': return pad(month);
+      case 'M': return String(month);
+      case 'DD': return pad(day);
+      case 'D': return String(day);
+      case 'dddd': return weekdays[weekday] || '';
+      case 'ddd': return (weekdays[weekday] || '').slice(0, 3);
+      case 'HH': return pad(hour);
+      case 'H': return String(hour);
+      case 'hh': return pad(hour % 12 || 12);
+      case 'h': return String(hour % 12 || 12);
+      case 'mm': return part('minute').padStart(2, '0');
+      case 'ss': return part('second').padStart(2, '0');
+      case 'A': return hour < 12 ? 'AM' : 'PM';
+      case 'a': return hour < 12 ? 'am' : 'pm';
+      case 'z': return part('timeZoneName');
+      default: return token;
+    }
+  });
+}
+
+/**
+ * Default text for a value written without filters - matches what templates printed before filters existed
+ */
+export function stringifyTemplateValue(value: unknown, locale: TemplateLocale = DEFAULT_TEMPLATE_LOCALE): string {
+  if (value === null || value === undefined || value === false) return '';
+  if (value === true) return 'Yes';
+  if (value instanceof TemplateNumber) return value.display;
+  if (value instanceof Date) {
+    return locale === DEFAULT_TEMPLATE_LOCALE
+      ? value.toLocaleString('en-IN', { timeZone: DEFAULT_TIME_ZONE })
+      : formatTemplateDate(value, TEMPLATE_LOCALES[locale].datePattern, DEFAULT_TIME_ZONE, locale);
+  }
+  if (Array.isArray(value)) return value.map(item => stringifyTemplateValue(item, locale)).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value);
+}
+
+export function escapeTemplateValue(text: string, mode: TemplateEscapeMode): string {
+  switch (mode) {
+    case 'HTML':
+      return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#039;');
+    case 'Markdown':
+      return text.replace(/([_*`[])/g, '\\$1');
+    case 'MarkdownV2':
+      return text.replace(/([_*[\]()~`>#+\-=|{}.!\\])/g, '\\$1');
+    case 'url':
+      // A value that is itself a link (e.g. {imageUrl}) keeps its structure, anything else is one URL component
+      return /^https?:\/\//i.test(text) ? encodeURI(text) : encodeURIComponent(text);
+    default:
+      return text;
+  }
+}
+
+export function escapeModeForParseMode(parseMode: string | null | undefined): TemplateEscapeMode {
+  return parseMode === 'Markdown' || parseMode === 'MarkdownV2' ? parseMode : 'HTML';
+}
+
+// ---------------------------------------------------------------------------
+// Filters
+// ---------------------------------------------------------------------------
+
+interface TemplateFilter {
+  description: string;
+  example: string;
+  minArgs: number;
+  maxArgs: number;
+  apply: (value: unknown, args: unknown[], scope: Scope) => unknown;
+}
+
+function percentChange(value: unknown, reference: unknown): number | null {
+  const amount = toNumber(value);
+  const base = toNumber(reference);
+  if (amount === null || base === null || base === 0) return null;
+  return ((amount - base) / base) * 100;
+}
+
+// toFixed throws outside 0-100 - template authors get 0-12 decimals, 2 when the argument isn't a number
+function decimalPlaces(decimals: unknown): number {
+  return Math.min(Math.max(toNumber(decimals) ?? 2, 0), 12);
+}
+
+function formatSigned(amount: number, decimals: number, suffix: string = ''): string {
+  const text = `${Math.abs(amount).toFixed(decimals)}${suffix}`;
+  return amount > 0 ? `+${text}` : amount < 0 ? `-${text}` : text;
+}
+
+export const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+  upper: {
+    description: 'UPPERCASE',
+    example: '{type | upper}',
+    minArgs: 0,
+    maxArgs: 0,
+    apply: (value, _args, scope) => stringifyTemplateValue(value, scope.locale).toUpperCase(),
+  },
+  lower: {
+    description: 'lowercase',
+    example: '{signalType | lower}',
+    minArgs: 0,
+    maxArgs: 0,
+    apply: (value, _args, scope) => stringifyTemplateValue(value, scope.locale).toLowerCase(),
+  },
+  capitalize: {
+    description: 'First letter uppercase',
+    example: '{signalType | capitalize}',
+    minArgs: 0,
+    maxArgs: 0,
+    apply: (value, _args, scope) => {
+      const text = stringifyTemplateValue(value, scope.locale);
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    },
+  },
+  price: {
+    description: 'Price with $, the pair\'s tick-size precision and the channel locale\'s digit grouping',
+    example: '{stopLoss | price}',
+    minArgs: 0,
+    maxArgs: 0,
+    apply: (value, _args, scope) => {
+      const text = formatPrice(value, true, scope.locale);
+      return text ? `$${text}` : '';
+    },
+  },
+  number: {
+    description: 'Plain number at tick-size precision (no $ or separators) - for button URLs',
+    example: '{price | number}',
+    minArgs: 0,
+    maxArgs: 0,
+    apply: (value) => formatPrice(value, false),
+  },
+  fixed: {
+    description: 'Fixed number of decimals',
+    example: '{price | fixed:2}',
+    minArgs: 1,
+    maxArgs: 1,
+    apply: (value, [decimals]) => {
+      const amount = toNumber(value);
+      return amount === null ? '' : amount.toFixed(decimalPlaces(decimals));
+    },
+  },
+  percent: {
+    description: 'Number as a percentage',
+    example: '{realizedPnlPercent | percent:1}',
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (value, [decimals]) => {
+      const amount = toNumber(value);
+      return amount === null ? '' : `${amount.toFixed(decimalPlaces(decimals))}%`;
+    },
+  },
+  signed: {
+    description: 'Number with a + or - sign',
+    example: '{realizedPnlPercent | signed:1}',
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (value, [decimals]) => {
+      const amount = toNumber(value);
+      return amount === null ? '' : formatSigned(amount, decimalPlaces(decimals));
+    },
+  },
+  distance: {
+    description: '% distance from the entry price (or the given value)',
+    example: '{takeProfit1 | distance}',
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (value, args, scope) => {
+      const change = percentChange(value, args.length > 0 ? args[0] : scope.lookup(['price']));
+      return change === null ? '' : formatSigned(change, 2, '%');
+    },
+  },
+  rr: {
+    description: 'Risk:reward of a target against the entry price and stop loss',
+    example: '{takeProfit2 | rr}',
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (value, args, scope) => {
+      const target = toNumber(value);
+      const entry = toNumber(scope.lookup(['price']));
+      const stop = toNumber(args.length > 0 ? args[0] : scope.lookup(['stopLoss']));
+      if (target === null || entry === null || stop === null || entry === stop) return '';
+      return `1:${(Math.abs(target - entry) / Math.abs(entry - stop)).toFixed(2)}`;
+    },
+  },
+  date: {
+    description: 'Date in a format and time zone (default Asia/Kolkata and the channel locale\'s format)',
+    example: '{timestamp | date:"DD MMM YYYY, hh:mm A","UTC"}',
+    minArgs: 0,
+    maxArgs: 2,
+    apply: (value, [pattern, timeZone], scope) => {
+      const date = toDate(value);
+      if (!date) return '';
+      const zone = typeof timeZone === 'string' && timeZone ? timeZone : DEFAULT_TIME_ZONE;
+      if (!isValidTimeZone(zone)) {
+        throw new TemplateRenderError(`Unknown time zone "${zone}"`);
+      }
+      const format = typeof pattern === 'string' && pattern ? pattern : TEMPLATE_LOCALES[scope.locale].datePattern;
+      return formatTemplateDate(date, format, zone, scope.locale);
+    },
+  },
+  default: {
+    description: 'Fallback text when the value is empty',
+    example: '{notes | default:"-"}',
+    minArgs: 1,
+    maxArgs: 1,
+    apply: (value, [fallback], scope) => (isEmpty(value) || stringifyTemplateValue(value, scope.locale) === '' ? fallback : value),
+  },
+  truncate: {
+    description: 'Cut to a maximum length with …',
+    example: '{summary | truncate:200}',
+    minArgs: 1,
+    maxArgs: 1,
+    apply: (value, [length], scope) => {
+      const text = stringifyTemplateValue(value, scope.locale);
+      const max = Math.max(toNumber(length) ?? text.length, 1);
+      return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+    },
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Expression parsing
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { type: 'path'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'op'; value: string };
+
+const PATH_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) j++;
+        value += source[j++];
+      }
+      if (j >= source.length) throw new Error('Unclosed string');
+      tokens.push({ type: 'string', value });
+      i = j + 1;
+      continue;
+    }
+    const number = /^-?\d+(\.\d+)?/.exec(source.slice(i));
+    if (number && (char !== '-' || tokens.length === 0 || tokens[tokens.length - 1].type === 'op')) {
+      tokens.push({ type: 'number', value: Number(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+    const path = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(source.slice(i));
+    if (path) {
+      if (!PATH_PATTERN.test(path[0])) throw new Error(`Invalid name "${path[0]}"`);
+      tokens.push({ type: 'path', value: path[0] });
+      i += path[0].length;
+      continue;
+    }
+    const op = /^(==|!=|>=|<=|&&|\|\||[><!|:,()])/.exec(source.slice(i));
+    if (op) {
+      tokens.push({ type: 'op', value: op[0] });
+      i += op[0].length;
+      continue;
+    }
+    throw new Error(`Unexpected "${char}"`);
+  }
+  return tokens;
+}
+
+class ExpressionParser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Expr {
+    const expr = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new Error(`Unexpected "${this.describe(this.tokens[this.position])}"`);
+    }
+    return expr;
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'string' ? `"${token.value}"` : String(token.value);
+  }
+
+  private peekOp(value: string): boolean {
+    const token = this.tokens[this.position];
+    return !!token && token.type === 'op' && token.value === value;
+  }
+
+  private expectOp(value: string): void {
+    if (!this.peekOp(value)) throw new Error(`Expected "${value}"`);
+    this.position++;
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd();
+    while (this.peekOp('||')) {
+      this.position++;
+      left = { kind: 'binary', op: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseUnary();
+    while (this.peekOp('&&')) {
+      this.position++;
+      left = { kind: 'binary', op: '&&', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expr {
+    if (this.peekOp('!')) {
+      this.position++;
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expr {
+    const left = this.parseFiltered();
+    const token = this.tokens[this.position];
+    if (token && token.type === 'op' && ['==', '!=', '>', '>=', '<', '<='].includes(token.value)) {
+      this.position++;
+      return { kind: 'binary', op: token.value, left, right: this.parseFiltered() };
+    }
+    return left;
+  }
+
+  private parseFiltered(): Expr {
+    let expr = this.parsePrimary();
+    while (this.peekOp('|')) {
+      this.position++;
+      const nameToken = this.tokens[this.position++];
+      if (!nameToken || nameToken.type !== 'path') throw new Error('Expected a filter name after "|"');
+      const filter = TEMPLATE_FILTERS[nameToken.value];
+      if (!filter) throw new Error(`Unknown filter "${nameToken.value}"`);
+
+      const args: Expr[] = [];
+      if (this.peekOp(':')) {
+        this.position++;
+        args.push(this.parsePrimary());
+        while (this.peekOp(',') || this.peekOp(':')) {
+          this.position++;
+          args.push(this.parsePrimary());
+        }
+      }
+      if (args.length < filter.minArgs || args.length > filter.maxArgs) {
+        throw new Error(filter.minArgs === filter.maxArgs
+          ? `Filter "${nameToken.value}" takes ${filter.minArgs} argument(s)`
+          : `Filter "${nameToken.value}" takes ${filter.minArgs}-${filter.maxArgs} arguments`);
+      }
+      if (nameToken.value === 'date' && args[1]?.kind === 'literal' && typeof args[1].value === 'string' && !isValidTimeZone(args[1].value)) {
+        throw new Error(`Unknown time zone "${args[1].value}"`);
+      }
+      expr = { kind: 'filter', input: expr, name: nameToken.value, args };
+    }
+    return expr;
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.tokens[this.position++];
+    if (!token) throw new Error('Unexpected end of expression');
+    if (token.type === 'op' && token.value === '(') {
+      const inner = this.parseOr();
+      this.expectOp(')');
+      return inner;
+    }
+    if (token.type === 'number' || token.type === 'string') return { kind: 'literal', value: token.value };
+    if (token.type === 'path') {
+      if (token.value === 'true' || token.value === 'false') return { kind: 'literal', value: token.value === 'true' };
+      if (token.value === 'null') return { kind: 'literal', value: null };
+      return { kind: 'path', path: token.value.split('.') };
+    }
+    throw new Error(`Unexpected "${token.value}"`);
+  }
+}
+
+function parseExpression(source: string): Expr {
+  return new ExpressionParser(tokenize(source)).parse();
+}
+
+// ---------------------------------------------------------------------------
+// Template parsing
+// ---------------------------------------------------------------------------
+
+// Closing "}" of a tag, skipping over quoted filter arguments
+function findTagEnd(source: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '}') {
+      return i;
+    } else if (char === '\n' || char === '{') {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+function locate(source: string, index: number): { line: number; column: number } {
+  const before = source.slice(0, index).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+  target: TemplateNode[]; // Where nodes currently go - the active branch
+  hasElse: boolean;
+  index: number;
+}
+
+/**
+ * Parse into nodes, collecting every syntax problem rather than stopping at the first
+ */
+export function parseTemplate(source: string): { nodes: TemplateNode[]; issues: TemplateSyntaxIssue[] } {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const issues: TemplateSyntaxIssue[] = [];
+  let target = root;
+  let text = '';
+  let i = 0;
+
+  const issue = (message: string, index: number) => issues.push({ message, index, ...locate(source, index) });
+  const flushText = () => {
+    if (text) target.push({ type: 'text', value: text });
+    text = '';
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    if (char !== '{') {
+      text += char;
+      i++;
+      continue;
+    }
+
+    const rest = source.slice(i + 1);
+    const isBlockTag = /^(#if\b|#each\b|:else\b|\/if\b|\/each\b)/.test(rest);
+    const isOutputTag = /^\s*[A-Za-z_][A-Za-z0-9_.]*\s*(\||})/.test(rest);
+    if (!isBlockTag && !isOutputTag) {
+      text += char;
+      i++;
+      continue;
+    }
+
+    const end = findTagEnd(source, i + 1);
+    if (end === -1) {
+      if (isBlockTag) {
+        issue('Tag is missing its closing "}"', i);
+      }
+      text += char;
+      i++;
+      continue;
+    }
+
+    const tag = source.slice(i, end + 1);
+    const inner = source.slice(i + 1, end).trim();
+    flushText();
+
+    try {
+      if (inner.startsWith('#if')) {
+        const condition = inner.slice(3).trim();
+        if (!condition) throw new Error('{#if} needs a condition');
+        const node: OpenBlock['node'] = { type: 'if', branches: [{ condition: parseExpression(condition), body: [] }], elseBody: [] };
+        target.push(node);
+        stack.push({ node, target: node.branches[0].body, hasElse: false, index: i });
+        target = node.branches[0].body;
+      } else if (inner.startsWith('#each')) {
+        const match = /^#each\s+(.+?)\s+as\s+([A-Za-z_][A-Za-z0-9_]*)$/.exec(inner);
+        if (!match) throw new Error('Use {#each list as item}');
+        const node: OpenBlock['node'] = { type: 'each', list: parseExpression(match[1]), item: match[2], body: [], elseBody: [] };
+        target.push(node);
+        stack.push({ node, target: node.body, hasElse: false, index: i });
+        target = node.body;
+      } else if (inner.startsWith(':else')) {
+        const block = stack[stack.length - 1];
+        if (!block) throw new Error(`${tag} without an open {#if} or {#each}`);
+        if (block.hasElse) throw new Error(`${tag} after {:else}`);
+
+        const elseIf = /^:else\s+if\s+(.+)$/.exec(inner);
+        if (elseIf) {
+          if (block.node.type !== 'if') throw new Error('{:else if} only works inside {#if}');
+          const branch = { condition: parseExpression(elseIf[1]), body: [] as TemplateNode[] };
+          block.node.branches.push(branch);
+          block.target = branch.body;
+        } else if (inner === ':else') {
+          block.hasElse = true;
+          block.target = block.node.elseBody;
+        } else {
+          throw new Error(`Unknown tag ${tag}`);
+        }
+        target = block.target;
+      } else if (inner === '/if' || inner === '/each') {
+        const block = stack[stack.length - 1];
+        const expected = inner === '/if' ? 'if' : 'each';
+        if (!block || block.node.type !== expected) {
+          throw new Error(block ? `${tag} found, but {#${block.node.type}} is still open` : `${tag} without a matching {#${expected}}`);
+        }
+        stack.pop();
+        target = stack.length > 0 ? stack[stack.length - 1].target : root;
+      } else if (isBlockTag) {
+        throw new Error(`Unknown tag ${tag}`);
+      } else {
+        target.push({ type: 'output', expr: parseExpression(inner), source: tag });
+      }
+    } catch (error) {
+      issue(error instanceof Error ? error.message : 'Invalid tag', i);
+    }
+    i = end + 1;
+  }
+
+  flushText();
+  for (const block of stack) {
+    issue(`{#${block.node.type}} is never closed with {/${block.node.type}}`, block.index);
+  }
+  return { nodes: root, issues };
+}
+
+/**
+ * Syntax problems in a template - empty when it is valid
+ */
+export function validateTemplate(source: string): TemplateSyntaxIssue[] {
+  return parseTemplate(source).issues;
+}
+
+/**
+ * Variable roots a template reads (outside loop items) - lets callers flag names the context doesn't have
+ */
+export function collectTemplateVariables(source: string): string[] {
+  const names = new Set<string>();
+  const visitExpr = (expr: Expr, locals: Set<string>) => {
+    switch (expr.kind) {
+      case 'path':
+        if (!locals.has(expr.path[0])) names.add(expr.path[0]);
+        break;
+      case 'filter':
+        visitExpr(expr.input, locals);
+        expr.args.forEach(arg => visitExpr(arg, locals));
+        break;
+      case 'not':
+        visitExpr(expr.operand, locals);
+        break;
+      case 'binary':
+        visitExpr(expr.left, locals);
+        visitExpr(expr.right, locals);
+        break;
+    }
+  };
+  const visit = (nodes: TemplateNode[], locals: Set<string>) => {
+    for (const node of nodes) {
+      if (node.type === 'output') {
+        visitExpr(node.expr, locals);
+      } else if (node.type === 'if') {
+        node.branches.forEach(branch => {
+          visitExpr(branch.condition, locals);
+          visit(branch.body, locals);
+        });
+        visit(node.elseBody, locals);
+      } else if (node.type === 'each') {
+        visitExpr(node.list, locals);
+        visit(node.body, new Set([...Array.from(locals), node.item, 'loop']));
+        visit(node.elseBody, locals);
+      }
+    }
+  };
+  visit(parseTemplate(source).nodes, new Set());
+  return Array.from(names);
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+class Scope {
+  readonly locale: TemplateLocale;
+
+  constructor(private values: TemplateContext, private parent?: Scope, locale: TemplateLocale = DEFAULT_TEMPLATE_LOCALE) {
+    this.locale = parent ? parent.locale : locale;
+  }
+
+  has(name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.values, name) || !!this.parent?.has(name);
+  }
+
+  lookup(path: string[]): unknown {
+    const [head, ...rest] = path;
+    let value: unknown = Object.prototype.hasOwnProperty.call(this.values, head)
+      ? this.values[head]
+      : this.parent?.lookup([head]);
+    for (const key of rest) {
+      if (value === null || value === undefined || typeof value !== 'object') return undefined;
+      value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+  }
+
+  child(values: TemplateContext): Scope {
+    return new Scope(values, this);
+  }
+}
+
+function isTruthy(value: unknown): boolean {
+  if (value instanceof TemplateNumber) return value.amount !== 0;
+  if (Array.isArray(value)) return value.length > 0;
+  return !!value;
+}
+
+function compare(op: string, left: unknown, right: unknown): boolean {
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+  if (leftNumber !== null && rightNumber !== null && (typeof left !== 'string' || typeof right !== 'string')) {
+    switch (op) {
+      case '==': return leftNumber === rightNumber;
+      case '!=': return leftNumber !== rightNumber;
+      case '>': return leftNumber > rightNumber;
+      case '>=': return leftNumber >= rightNumber;
+      case '<': return leftNumber < rightNumber;
+      case '<=': return leftNumber <= rightNumber;
+    }
+  }
+
+  // Text comparisons ignore case, so {#if type == "buy"} matches "BUY"
+  const leftText = stringifyTemplateValue(left).toLowerCase();
+  const rightText = stringifyTemplateValue(right).toLowerCase();
+  switch (op) {
+    case '==': return leftText === rightText;
+    case '!=': return leftText !== rightText;
+    case '>': return leftText > rightText;
+    case '>=': return leftText >= rightText;
+    case '<': return leftText < rightText;
+    case '<=': return leftText <= rightText;
+    default: return false;
+  }
+}
+
+function evaluate(expr: Expr, scope: Scope): unknown {
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value;
+    case 'path':
+      return scope.lookup(expr.path);
+    case 'not':
+      return !isTruthy(evaluate(expr.operand, scope));
+    case 'binary':
+      if (expr.op === '&&') return isTruthy(evaluate(expr.left, scope)) && isTruthy(evaluate(expr.right, scope));
+      if (expr.op === '||') return isTruthy(evaluate(expr.left, scope)) || isTruthy(evaluate(expr.right, scope));
+      return compare(expr.op, evaluate(expr.left, scope), evaluate(expr.right, scope));
+    case 'filter': {
+      const input = evaluate(expr.input, scope);
+      const args = expr.args.map(arg => evaluate(arg, scope));
+      return TEMPLATE_FILTERS[expr.name].apply(input, args, scope);
+    }
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], scope: Scope, escape: TemplateEscapeMode): string {
+  let output = '';
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'output':
+        // Unknown bare names stay as written - older templates can contain {placeholders} of their own
+        if (node.expr.kind === 'path' && !scope.has(node.expr.path[0])) {
+          output += node.source;
+        } else {
+          output += escapeTemplateValue(stringifyTemplateValue(evaluate(node.expr, scope), scope.locale), escape);
+        }
+        break;
+      case 'if': {
+        const branch = node.branches.find(candidate => isTruthy(evaluate(candidate.condition, scope)));
+        output += renderNodes(branch ? branch.body : node.elseBody, scope, escape);
+        break;
+      }
+      case 'each': {
+        const list = evaluate(node.list, scope);
+        const items = Array.isArray(list) ? list : [];
+        if (items.length === 0) {
+          output += renderNodes(node.elseBody, scope, escape);
+          break;
+        }
+        items.forEach((item, index) => {
+          output += renderNodes(node.body, scope.child({
+            [node.item]: item,
+            loop: { index: index + 1, first: index === 0, last: index === items.length - 1 },
+          }), escape);
+        });
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Render a template against a context - throws TemplateSyntaxError when the template doesn't parse
+ */
+export function renderTemplate(
+  source: string,
+  context: TemplateContext,
+  escape: TemplateEscapeMode = 'HTML',
+  locale: TemplateLocale = DEFAULT_TEMPLATE_LOCALE,
+): string {
+  const { nodes, issues } = parseTemplate(source);
+  if (issues.length > 0) {
+    throw new TemplateSyntaxError(issues);
+  }
+  return renderNodes(nodes, new Scope(context, undefined, locale), escape);
+}